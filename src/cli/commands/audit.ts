@@ -0,0 +1,49 @@
+import type { CommandContext } from "../../types/cli";
+import { logger } from "../../utils/logger";
+import { CommandError, ServiceNotFoundError } from "../../utils/errors";
+import { formatAuditDetail, formatAuditTable } from "../../utils/format";
+import { getOutputMode, formatAuditJson } from "../../utils/output";
+import { auditApp } from "../../core/systemd/audit";
+
+/**
+ * Score how exposed each generated systemd unit is
+ */
+export async function auditCommand(ctx: CommandContext): Promise<void> {
+  // Config should be loaded by CLI entry
+  if (!ctx.config) {
+    throw new CommandError(
+      "Configuration not loaded",
+      'Run "bunman init" to create a configuration file'
+    );
+  }
+
+  const config = ctx.config;
+  const [name] = ctx.args.args;
+
+  if (name && !config.apps[name]) {
+    throw new ServiceNotFoundError(name, Object.keys(config.apps));
+  }
+
+  const apps = name ? [[name, config.apps[name]!] as const] : Object.entries(config.apps);
+  const audits = apps.map(([appName, app]) =>
+    auditApp(appName, app, { userMode: config.systemd.userMode })
+  );
+
+  if (getOutputMode(ctx.args.options) === "json") {
+    console.log(JSON.stringify(formatAuditJson(audits, config.environment), null, 2));
+    return;
+  }
+
+  if (process.platform === "darwin") {
+    logger.warn("launchd does not sandbox services; scores describe the systemd units");
+  }
+
+  console.log("");
+  console.log(name ? formatAuditDetail(audits[0]!) : formatAuditTable(audits));
+  console.log("");
+
+  if (!name && audits.some((audit) => audit.rating !== "safe")) {
+    logger.dim("  Run 'bunman audit <service>' to see which checks fail");
+    logger.dim("  Set 'hardening: \"strict\"' (or \"basic\") to sandbox an app");
+  }
+}
@@ -35,14 +35,14 @@ _bunman_completions() {
     cur="\${COMP_WORDS[COMP_CWORD]}"
     prev="\${COMP_WORDS[COMP_CWORD-1]}"
 
-    commands="init start stop restart remove logs status startall stopall restartall doctor completions help version"
+    commands="init start stop restart reload deploy rollback remove logs status config secrets scale jobs audit reset dev run-all startall stopall restartall doctor completions help version"
 
     case "\${prev}" in
         bunman)
             COMPREPLY=( $(compgen -W "\${commands}" -- "\${cur}") )
             return 0
             ;;
-        start|stop|restart|remove|logs)
+        start|stop|restart|reload|deploy|rollback|remove|scale|audit|reset|dev)
             # Try to get service names from config
             if [ -f "bunman.config.ts" ]; then
                 services=$(grep -oP "^\\s+\\K[a-zA-Z0-9_-]+(?=:)" bunman.config.ts 2>/dev/null | tr '\\n' ' ')
@@ -50,32 +50,59 @@ _bunman_completions() {
             fi
             return 0
             ;;
+        logs)
+            services=""
+            if [ -f "bunman.config.ts" ]; then
+                services=$(grep -oP "^\\s+\\K[a-zA-Z0-9_-]+(?=:)" bunman.config.ts 2>/dev/null | tr '\\n' ' ')
+            fi
+            COMPREPLY=( $(compgen -W "rotate \${services}" -- "\${cur}") )
+            return 0
+            ;;
         completions)
             COMPREPLY=( $(compgen -W "bash zsh fish" -- "\${cur}") )
             return 0
             ;;
+        config)
+            COMPREPLY=( $(compgen -W "show" -- "\${cur}") )
+            return 0
+            ;;
+        secrets)
+            COMPREPLY=( $(compgen -W "set list rm" -- "\${cur}") )
+            return 0
+            ;;
+        jobs)
+            COMPREPLY=( $(compgen -W "list run" -- "\${cur}") )
+            return 0
+            ;;
+        run-all)
+            COMPREPLY=( $(compgen -W "--foreground" -- "\${cur}") )
+            return 0
+            ;;
     esac
 
     # Options
     if [[ \${cur} == -* ]]; then
         case "\${COMP_WORDS[1]}" in
             start|restart)
-                COMPREPLY=( $(compgen -W "--dry-run --json" -- "\${cur}") )
+                COMPREPLY=( $(compgen -W "--dry-run --json --parallel --fail-fast --continue-on-error" -- "\${cur}") )
                 ;;
             stop)
-                COMPREPLY=( $(compgen -W "--json" -- "\${cur}") )
+                COMPREPLY=( $(compgen -W "--json --parallel --fail-fast --continue-on-error" -- "\${cur}") )
                 ;;
             remove)
                 COMPREPLY=( $(compgen -W "--force -f" -- "\${cur}") )
                 ;;
             logs)
-                COMPREPLY=( $(compgen -W "--follow -f --lines -n --since --until --reverse -r" -- "\${cur}") )
+                COMPREPLY=( $(compgen -W "--follow -f --lines -n --since --until --reverse -r --clear --rotate --force" -- "\${cur}") )
                 ;;
-            status)
+            status|jobs|audit)
                 COMPREPLY=( $(compgen -W "--json" -- "\${cur}") )
                 ;;
             init)
-                COMPREPLY=( $(compgen -W "--minimal --monorepo" -- "\${cur}") )
+                COMPREPLY=( $(compgen -W "--minimal --monorepo --detect --yes" -- "\${cur}") )
+                ;;
+            config)
+                COMPREPLY=( $(compgen -W "--origin --json" -- "\${cur}") )
                 ;;
         esac
         return 0
@@ -98,9 +125,20 @@ _bunman() {
         'start:Start a service'
         'stop:Stop a service'
         'restart:Restart a service'
+        'reload:Restart instances one at a time'
+        'deploy:Build a release and switch to it'
+        'rollback:Switch back to the previous release'
         'remove:Remove a service'
         'logs:View service logs'
         'status:Show status of all services'
+        'config:Show the resolved configuration'
+        'secrets:Manage encrypted secrets'
+        'scale:Change the number of instances of a clustered service'
+        'jobs:List scheduled jobs or run one now'
+        'audit:Score the sandboxing of each service'
+        'reset:Clear the failed state of a service'
+        'dev:Run services in the foreground'
+        'run-all:Supervise all services without systemd'
         'startall:Start all services'
         'stopall:Stop all services'
         'restartall:Restart all services'
@@ -120,7 +158,7 @@ _bunman() {
             ;;
         args)
             case $words[2] in
-                start|stop|restart|remove|logs)
+                start|stop|restart|reload|deploy|rollback|remove|logs|scale|audit|reset|dev)
                     # Get service names from config
                     if [[ -f "bunman.config.ts" ]]; then
                         local -a services
@@ -134,12 +172,17 @@ _bunman() {
                 init)
                     _arguments \\
                         '--minimal[Create minimal config]' \\
-                        '--monorepo[Create monorepo config]'
+                        '--monorepo[Create monorepo config]' \\
+                        '--detect[Generate apps from workspaces]' \\
+                        '--yes[Include every detected app]'
                     ;;
                 start|restart)
                     _arguments \\
                         '--dry-run[Show what would be done]' \\
-                        '--json[Output JSON]'
+                        '--json[Output JSON]' \\
+                        '--parallel[Services handled at once]:count:' \\
+                        '--fail-fast[Stop after the first failure]' \\
+                        '--continue-on-error[Handle every service even if some fail]'
                     ;;
                 logs)
                     _arguments \\
@@ -147,14 +190,26 @@ _bunman() {
                         '-n[Number of lines]:lines:' '--lines[Number of lines]:lines:' \\
                         '--since[Show logs since]:time:' \\
                         '--until[Show logs until]:time:' \\
-                        '-r[Reverse order]' '--reverse[Reverse order]'
+                        '-r[Reverse order]' '--reverse[Reverse order]' \\
+                        '--clear[Clear log files]' \\
+                        '--rotate[Rotate log files]' \\
+                        '--force[Rotate regardless of size]'
                     ;;
-                status)
+                status|audit)
                     _arguments '--json[Output JSON]'
                     ;;
                 remove)
                     _arguments '-f[Force removal]' '--force[Force removal]'
                     ;;
+                jobs)
+                    _arguments \\
+                        '2: :(list run)' \\
+                        '--json[Output JSON]'
+                    ;;
+                run-all)
+                    _arguments \\
+                        '--foreground[Supervise services in the foreground]'
+                    ;;
             esac
             ;;
     esac
@@ -176,9 +231,20 @@ complete -c bunman -n "__fish_use_subcommand" -a "init" -d "Create a new bunman.
 complete -c bunman -n "__fish_use_subcommand" -a "start" -d "Start a service"
 complete -c bunman -n "__fish_use_subcommand" -a "stop" -d "Stop a service"
 complete -c bunman -n "__fish_use_subcommand" -a "restart" -d "Restart a service"
+complete -c bunman -n "__fish_use_subcommand" -a "reload" -d "Restart instances one at a time"
+complete -c bunman -n "__fish_use_subcommand" -a "deploy" -d "Build a release and switch to it"
+complete -c bunman -n "__fish_use_subcommand" -a "rollback" -d "Switch back to the previous release"
 complete -c bunman -n "__fish_use_subcommand" -a "remove" -d "Remove a service"
 complete -c bunman -n "__fish_use_subcommand" -a "logs" -d "View service logs"
 complete -c bunman -n "__fish_use_subcommand" -a "status" -d "Show status of all services"
+complete -c bunman -n "__fish_use_subcommand" -a "config" -d "Show the resolved configuration"
+complete -c bunman -n "__fish_use_subcommand" -a "secrets" -d "Manage encrypted secrets"
+complete -c bunman -n "__fish_use_subcommand" -a "scale" -d "Change the number of instances of a clustered service"
+complete -c bunman -n "__fish_use_subcommand" -a "jobs" -d "List scheduled jobs or run one now"
+complete -c bunman -n "__fish_use_subcommand" -a "audit" -d "Score the sandboxing of each service"
+complete -c bunman -n "__fish_use_subcommand" -a "reset" -d "Clear the failed state of a service"
+complete -c bunman -n "__fish_use_subcommand" -a "dev" -d "Run services in the foreground"
+complete -c bunman -n "__fish_use_subcommand" -a "run-all" -d "Supervise all services without systemd"
 complete -c bunman -n "__fish_use_subcommand" -a "startall" -d "Start all services"
 complete -c bunman -n "__fish_use_subcommand" -a "stopall" -d "Stop all services"
 complete -c bunman -n "__fish_use_subcommand" -a "restartall" -d "Restart all services"
@@ -193,21 +259,50 @@ complete -c bunman -n "__fish_seen_subcommand_from completions" -a "bash zsh fis
 # Options for init
 complete -c bunman -n "__fish_seen_subcommand_from init" -l minimal -d "Create minimal config"
 complete -c bunman -n "__fish_seen_subcommand_from init" -l monorepo -d "Create monorepo config"
+complete -c bunman -n "__fish_seen_subcommand_from init" -l detect -d "Generate apps from workspaces"
+complete -c bunman -n "__fish_seen_subcommand_from init" -l yes -d "Include every detected app"
 
 # Options for start/restart
 complete -c bunman -n "__fish_seen_subcommand_from start restart" -l dry-run -d "Show what would be done"
 complete -c bunman -n "__fish_seen_subcommand_from start restart" -l json -d "Output JSON"
 
+# Batch options for start/stop/restart
+complete -c bunman -n "__fish_seen_subcommand_from start stop restart" -l parallel -d "Services handled at once" -r
+complete -c bunman -n "__fish_seen_subcommand_from start stop restart" -l fail-fast -d "Stop after the first failure"
+complete -c bunman -n "__fish_seen_subcommand_from start stop restart" -l continue-on-error -d "Handle every service even if some fail"
+
 # Options for logs
 complete -c bunman -n "__fish_seen_subcommand_from logs" -s f -l follow -d "Follow logs"
 complete -c bunman -n "__fish_seen_subcommand_from logs" -s n -l lines -d "Number of lines" -r
 complete -c bunman -n "__fish_seen_subcommand_from logs" -l since -d "Show logs since" -r
 complete -c bunman -n "__fish_seen_subcommand_from logs" -l until -d "Show logs until" -r
 complete -c bunman -n "__fish_seen_subcommand_from logs" -s r -l reverse -d "Reverse order"
+complete -c bunman -n "__fish_seen_subcommand_from logs" -l clear -d "Clear log files"
+complete -c bunman -n "__fish_seen_subcommand_from logs" -a "rotate" -d "Rotate log files"
+complete -c bunman -n "__fish_seen_subcommand_from logs" -l rotate -d "Rotate log files"
+complete -c bunman -n "__fish_seen_subcommand_from logs" -l force -d "Rotate regardless of size"
+
+# Options for config
+complete -c bunman -n "__fish_seen_subcommand_from config" -a "show"
+complete -c bunman -n "__fish_seen_subcommand_from config" -l origin -d "Show where each value came from"
+complete -c bunman -n "__fish_seen_subcommand_from config" -l json -d "Output JSON"
+
+# Options for secrets
+complete -c bunman -n "__fish_seen_subcommand_from secrets" -a "set list rm"
+
+# Options for jobs
+complete -c bunman -n "__fish_seen_subcommand_from jobs" -a "list run"
+complete -c bunman -n "__fish_seen_subcommand_from jobs" -l json -d "Output JSON"
+
+# Options for run-all
+complete -c bunman -n "__fish_seen_subcommand_from run-all" -l foreground -d "Supervise services in the foreground"
 
 # Options for status
 complete -c bunman -n "__fish_seen_subcommand_from status" -l json -d "Output JSON"
 
+# Options for audit
+complete -c bunman -n "__fish_seen_subcommand_from audit" -l json -d "Output JSON"
+
 # Options for remove
 complete -c bunman -n "__fish_seen_subcommand_from remove" -s f -l force -d "Force removal"
 
@@ -218,6 +313,6 @@ function __bunman_services
     end
 end
 
-complete -c bunman -n "__fish_seen_subcommand_from start stop restart remove logs" -a "(__bunman_services)"
+complete -c bunman -n "__fish_seen_subcommand_from start stop restart reload deploy rollback remove logs scale audit reset dev" -a "(__bunman_services)"
 `;
 }
@@ -0,0 +1,188 @@
+import type { CommandContext } from "../../types/cli";
+import type { NormalizedAppConfig } from "../../types/config";
+import { logger } from "../../utils/logger";
+import { CommandError, ServiceNotFoundError } from "../../utils/errors";
+import { getOutputMode, formatAppConfigJson } from "../../utils/output";
+import { getBooleanOption } from "../parser";
+
+/**
+ * Inspect the loaded configuration
+ */
+export async function configCommand(ctx: CommandContext): Promise<void> {
+  const subcommand = ctx.args.args[0] ?? "show";
+
+  switch (subcommand) {
+    case "show":
+      showConfig(ctx, ctx.args.args[1]);
+      break;
+    default:
+      throw new CommandError(
+        `Unknown config subcommand: ${subcommand}`,
+        "Usage: bunman config show [service] [--origin]"
+      );
+  }
+}
+
+/**
+ * Print the normalized config, optionally with the origin of each value
+ */
+function showConfig(ctx: CommandContext, serviceName?: string): void {
+  // Config should be loaded by CLI entry
+  if (!ctx.config) {
+    throw new CommandError(
+      "Configuration not loaded",
+      'Run "bunman init" to create a configuration file'
+    );
+  }
+
+  const config = ctx.config;
+  const showOrigin = getBooleanOption(ctx.args.options, "origin");
+  const outputMode = getOutputMode(ctx.args.options);
+
+  if (serviceName && !config.apps[serviceName]) {
+    throw new ServiceNotFoundError(serviceName, Object.keys(config.apps));
+  }
+
+  const names = serviceName ? [serviceName] : Object.keys(config.apps);
+
+  if (outputMode === "json") {
+    console.log(JSON.stringify({
+      configPath: config.configPath,
+      environment: config.environment ?? null,
+      apps: names.map((name) => ({
+        ...formatAppConfigJson(name, config.apps[name]!),
+        ...(showOrigin ? { origins: config.origins[name] ?? {} } : {}),
+      })),
+    }, null, 2));
+    return;
+  }
+
+  logger.dim(`Config: ${config.configPath}`);
+  if (config.environment) {
+    logger.dim(`Environment: ${config.environment}`);
+  }
+
+  for (const name of names) {
+    const app = config.apps[name]!;
+    const origins = config.origins[name] ?? {};
+    const rows = flattenAppConfig(app);
+    const width = Math.max(...rows.map(([path]) => path.length)) + 2;
+    const valueWidth = Math.max(...rows.map(([, value]) => value.length)) + 2;
+
+    console.log("");
+    logger.bold(`${name} ${logger.color.dim(`(${app.serviceName})`)}`);
+
+    for (const [path, value] of rows) {
+      if (showOrigin) {
+        // Hook commands share the origin of their hook (e.g., "hooks.preStart")
+        const origin = logger.color.dim(
+          origins[path] ?? origins[path.replace(/\[\d+\]$/, "")] ?? "computed"
+        );
+        console.log(`  ${path.padEnd(width)}${value.padEnd(valueWidth)}${origin}`);
+      } else {
+        console.log(`  ${path.padEnd(width)}${value}`);
+      }
+    }
+  }
+
+  console.log("");
+}
+
+/**
+ * Flatten a normalized app into path/value rows matching origin keys
+ */
+function flattenAppConfig(app: NormalizedAppConfig): Array<[string, string]> {
+  const rows: Array<[string, string]> = [
+    ["cwd", app.cwd],
+    ["command", app.command],
+    ["description", app.description],
+    ["restart", app.restart],
+    ["restartSec", String(app.restartSec)],
+    ["hardening", app.hardening],
+  ];
+
+  const optionalKeys = [
+    "user",
+    "group",
+    "envFile",
+    "maxRestarts",
+    "restartWindow",
+    "killSignal",
+    "stopTimeout",
+    "startTimeout",
+    "killMode",
+    "instances",
+    "portBase",
+    "schedule",
+  ] as const;
+
+  for (const key of optionalKeys) {
+    const value = app[key];
+    if (value !== undefined) {
+      rows.push([key, String(value)]);
+    }
+  }
+
+  if (app.restartBackoff) {
+    const { maxDelay, steps } = app.restartBackoff;
+    rows.push(["restartBackoff", `up to ${maxDelay}s in ${steps} steps`]);
+  }
+
+  if (app.healthCheck) {
+    const { http, port, timeout } = app.healthCheck;
+    const target = http ?? `tcp${port === undefined ? "" : ` port ${port}`}`;
+    rows.push(["healthCheck", timeout === undefined ? target : `${target} within ${timeout}s`]);
+  }
+
+  if (app.deploy) {
+    const { source, ref, keep } = app.deploy;
+    rows.push(["deploy", `${source}${ref ? `#${ref}` : ""}, keep ${keep ?? 5}`]);
+  }
+
+  for (const [key, value] of Object.entries(app.env)) {
+    rows.push([`env.${key}`, value]);
+  }
+
+  for (const name of app.secrets) {
+    rows.push([`secrets.${name}`, "(encrypted)"]);
+  }
+
+  for (const [key, value] of Object.entries(app.limits)) {
+    rows.push([`limits.${key}`, String(value)]);
+  }
+
+  for (const [key, value] of Object.entries(app.security)) {
+    rows.push([`security.${key}`, Array.isArray(value) ? value.join(" ") : String(value)]);
+  }
+
+  for (const [key, value] of Object.entries(app.logs)) {
+    if (value !== undefined) {
+      rows.push([`logs.${key}`, String(value)]);
+    }
+  }
+
+  for (const [section, directives] of Object.entries(app.systemd)) {
+    for (const [directive, values] of Object.entries(directives)) {
+      const path = `systemd.${section}.${directive}`;
+      if (values.length === 1) {
+        rows.push([path, values[0]!]);
+      } else {
+        values.forEach((value, index) => rows.push([`${path}[${index}]`, value]));
+      }
+    }
+  }
+
+  for (const [hook, commands] of Object.entries(app.hooks)) {
+    commands.forEach((command, index) => {
+      rows.push([`hooks.${hook}[${index}]`, command]);
+    });
+  }
+
+  for (const key of ["after", "requires", "dependsOn", "watch"] as const) {
+    app[key].forEach((unit, index) => {
+      rows.push([`${key}[${index}]`, unit]);
+    });
+  }
+
+  return rows;
+}
@@ -0,0 +1,53 @@
+import type { CommandContext } from "../../types/cli";
+import { logger } from "../../utils/logger";
+import { CommandError, ServiceNotFoundError } from "../../utils/errors";
+import { getServiceManager } from "../../core/backend";
+import { deployApp } from "../../core/deploy";
+
+/**
+ * Build a new release of a service from its source and switch to it
+ */
+export async function deployCommand(ctx: CommandContext): Promise<void> {
+  // Config should be loaded by CLI entry
+  if (!ctx.config) {
+    throw new CommandError(
+      "Configuration not loaded",
+      'Run "bunman init" to create a configuration file'
+    );
+  }
+
+  const [serviceName] = ctx.args.args;
+
+  if (!serviceName) {
+    throw new CommandError("Service name required", "Usage: bunman deploy <service>");
+  }
+
+  const app = ctx.config.apps[serviceName];
+
+  if (!app) {
+    throw new ServiceNotFoundError(serviceName, Object.keys(ctx.config.apps));
+  }
+
+  if (app.schedule !== undefined) {
+    throw new CommandError(
+      `Service ${serviceName} is a scheduled job`,
+      "Only long-running services are deployed as releases"
+    );
+  }
+
+  const serviceManager = await getServiceManager(ctx.config);
+  const { release, previous, summary } = await deployApp(serviceName, app, serviceManager);
+
+  if (summary.failed > 0) {
+    const restored = previous ? `${serviceName} runs release ${previous} again. ` : "";
+    throw new CommandError(
+      `Deploy of ${serviceName} failed; release ${release} was discarded`,
+      `${restored}Check the logs with: bunman logs ${serviceName}`
+    );
+  }
+
+  logger.success(`Service ${serviceName} runs release ${release}`);
+  if (previous) {
+    logger.dim(`  Undo with: bunman rollback ${serviceName}`);
+  }
+}
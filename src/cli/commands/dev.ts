@@ -0,0 +1,76 @@
+import type { CommandContext } from "../../types/cli";
+import type { NormalizedAppConfig } from "../../types/config";
+import { logger } from "../../utils/logger";
+import { CommandError } from "../../utils/errors";
+import { formatServicePrefix, pipeWithPrefix } from "../../utils/prefix";
+import { validateServiceNames } from "../../core/batch";
+import { sortByDependencies, withDependencies } from "../../core/dependencies";
+import { DevRunner } from "../../core/dev";
+import { createSecretsResolver } from "../../core/secrets";
+
+/**
+ * Run apps in the foreground without installing them, restarting each
+ * one when its watched files change
+ */
+export async function devCommand(ctx: CommandContext): Promise<void> {
+  // Config should be loaded by CLI entry
+  if (!ctx.config) {
+    throw new CommandError(
+      "Configuration not loaded",
+      'Run "bunman init" to create a configuration file'
+    );
+  }
+
+  const config = ctx.config;
+  const requested = ctx.args.args;
+  validateServiceNames(requested, config.apps);
+
+  // Scheduled jobs only run when asked for by name
+  const names = withDependencies(
+    requested.length > 0
+      ? requested
+      : Object.keys(config.apps).filter((name) => config.apps[name]!.schedule === undefined),
+    config.apps
+  );
+
+  if (names.length === 0) {
+    logger.warn("No services to run");
+    return;
+  }
+
+  const apps = sortByDependencies(
+    names.map((name) => [name, config.apps[name]] as [string, NormalizedAppConfig])
+  );
+  const prefixes = new Map(apps.map(([name], index) => [name, formatServicePrefix(name, index)]));
+  const resolveSecrets = createSecretsResolver(config);
+
+  const runner = new DevRunner(apps, {
+    resolveSecrets: (app) => resolveSecrets(app.serviceName),
+    output: (name, stream) => pipeWithPrefix(stream, prefixes.get(name)!),
+    log: (name, message) => console.log(`${prefixes.get(name)} ${logger.color.dim(message)}`),
+  });
+
+  logger.info(`Running ${apps.length} service(s)... (Ctrl+C to stop)`);
+  logger.dim("");
+
+  // Wait for Ctrl+C (a second one exits right away)
+  const interrupted = new Promise<void>((resolve) => {
+    process.once("SIGINT", resolve);
+    process.once("SIGTERM", resolve);
+  });
+
+  try {
+    await runner.start();
+  } catch (error) {
+    // Apps spawned before the failure run in their own process groups
+    await runner.stop();
+    throw error;
+  }
+
+  await interrupted;
+
+  logger.dim("");
+  logger.step("Stopping services...");
+  await runner.stop();
+  logger.success("All services stopped");
+}
@@ -124,7 +124,7 @@ function checkPlatform(): CheckResult {
 
 async function checkServiceManager(): Promise<CheckResult> {
   try {
-    const serviceManager = getServiceManager();
+    const serviceManager = await getServiceManager();
     const available = await serviceManager.isAvailable();
 
     if (available) {
@@ -221,14 +221,14 @@ async function checkConfig(cwd: string): Promise<CheckResult> {
     return {
       name: "Configuration",
       status: "ok",
-      message: "bunman.config.ts found",
+      message: "Config file found",
     };
   }
 
   return {
     name: "Configuration",
     status: "warn",
-    message: "No bunman.config.ts found",
+    message: "No bunman config file found",
     help: 'Run "bunman init" to create a configuration file',
   };
 }
@@ -2,7 +2,18 @@ export { initCommand } from "./init";
 export { startCommand } from "./start";
 export { stopCommand } from "./stop";
 export { restartCommand } from "./restart";
+export { reloadCommand } from "./reload";
+export { deployCommand } from "./deploy";
+export { rollbackCommand } from "./rollback";
 export { logsCommand } from "./logs";
 export { statusCommand } from "./status";
 export { removeCommand } from "./remove";
 export { doctorCommand } from "./doctor";
+export { configCommand } from "./config";
+export { secretsCommand } from "./secrets";
+export { scaleCommand } from "./scale";
+export { jobsCommand } from "./jobs";
+export { auditCommand } from "./audit";
+export { resetCommand } from "./reset";
+export { devCommand } from "./dev";
+export { runAllCommand } from "./run-all";
@@ -1,12 +1,15 @@
 import { resolve } from "path";
 import type { CommandContext } from "../../types/cli";
 import { logger } from "../../utils/logger";
-import { BunmanError } from "../../utils/errors";
+import { BunmanError, CommandError } from "../../utils/errors";
+import { isInteractive, promptSelection } from "../../utils/prompt";
 import {
   CONFIG_TEMPLATE,
   CONFIG_TEMPLATE_MINIMAL,
   CONFIG_TEMPLATE_MONOREPO,
+  renderDetectedConfig,
 } from "../../core/config/template";
+import { detectWorkspaceApps } from "../../core/config/detect";
 import { getBooleanOption } from "../parser";
 
 /**
@@ -25,13 +28,17 @@ export async function initCommand(ctx: CommandContext): Promise<void> {
   }
 
   // Determine template type
+  const detect = getBooleanOption(ctx.args.options, "detect");
   const minimal = getBooleanOption(ctx.args.options, "minimal");
   const monorepo = getBooleanOption(ctx.args.options, "monorepo");
 
   let template: string;
   let templateName: string;
 
-  if (minimal) {
+  if (detect) {
+    template = await detectTemplate(ctx);
+    templateName = "detected";
+  } else if (minimal) {
     template = CONFIG_TEMPLATE_MINIMAL;
     templateName = "minimal";
   } else if (monorepo) {
@@ -52,3 +59,51 @@ export async function initCommand(ctx: CommandContext): Promise<void> {
   logger.dim("  1. Edit bunman.config.ts to define your services");
   logger.dim("  2. Run 'bunman start <service>' to start a service");
 }
+
+/**
+ * Build a config from workspace packages, letting the user pick the apps
+ */
+async function detectTemplate(ctx: CommandContext): Promise<string> {
+  const detected = await detectWorkspaceApps(ctx.cwd);
+
+  if (detected.length === 0) {
+    throw new BunmanError(
+      "No workspace packages with a start script found",
+      'Add a "start" script to the packages you want to run as services'
+    );
+  }
+
+  const yes = getBooleanOption(ctx.args.options, "yes", "y");
+  let apps = detected;
+
+  if (!yes) {
+    if (!isInteractive()) {
+      throw new CommandError(
+        "Cannot prompt for apps in a non-interactive shell",
+        "Pass --yes to include every detected app"
+      );
+    }
+
+    logger.info(`Found ${detected.length} workspace app(s):`);
+    console.log("");
+    const selected = promptSelection(
+      detected.map((app) =>
+        app.description
+          ? `${app.name} ${logger.color.dim(`${app.cwd} - ${app.description}`)}`
+          : `${app.name} ${logger.color.dim(app.cwd)}`
+      ),
+      "Apps to include"
+    );
+    apps = selected.map((index) => detected[index]!);
+
+    if (apps.length === 0) {
+      throw new CommandError("No apps selected", "bunman.config.ts was not created");
+    }
+  }
+
+  for (const app of apps) {
+    logger.dim(`  + ${app.name} (${app.cwd})`);
+  }
+
+  return renderDetectedConfig(apps);
+}
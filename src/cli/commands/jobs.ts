@@ -0,0 +1,92 @@
+import type { CommandContext } from "../../types/cli";
+import type { NormalizedConfig } from "../../types/config";
+import { logger } from "../../utils/logger";
+import { CommandError, ServiceNotFoundError } from "../../utils/errors";
+import { formatJobsTable } from "../../utils/format";
+import { getOutputMode, formatJobsJson } from "../../utils/output";
+import { getServiceManager } from "../../core/backend";
+import { getJobStatuses } from "../../core/status";
+
+/**
+ * List scheduled jobs, or trigger one with `bunman jobs run <name>`
+ */
+export async function jobsCommand(ctx: CommandContext): Promise<void> {
+  // Config should be loaded by CLI entry
+  if (!ctx.config) {
+    throw new CommandError(
+      "Configuration not loaded",
+      'Run "bunman init" to create a configuration file'
+    );
+  }
+
+  const [subcommand, name] = ctx.args.args;
+
+  switch (subcommand) {
+    case undefined:
+    case "list":
+    case "ls":
+      await listJobsCommand(ctx, ctx.config);
+      break;
+    case "run":
+      await runJobCommand(ctx.config, name);
+      break;
+    default:
+      throw new CommandError(
+        `Unknown jobs subcommand: ${subcommand}`,
+        "Usage: bunman jobs [list|run <name>]"
+      );
+  }
+}
+
+/**
+ * Show the schedule, next and last run of each job
+ */
+async function listJobsCommand(
+  ctx: CommandContext,
+  config: NormalizedConfig
+): Promise<void> {
+  const jobs = await getJobStatuses(config);
+
+  if (getOutputMode(ctx.args.options) === "json") {
+    console.log(JSON.stringify(formatJobsJson(jobs, config.environment), null, 2));
+    return;
+  }
+
+  if (jobs.length === 0) {
+    logger.info("No scheduled jobs configured");
+    logger.dim("  Add a 'schedule' to an app (e.g., \"0 2 * * *\") to run it as a job");
+    return;
+  }
+
+  console.log("");
+  console.log(formatJobsTable(jobs));
+  console.log("");
+}
+
+/**
+ * Start a job now, outside its schedule
+ */
+async function runJobCommand(config: NormalizedConfig, name?: string): Promise<void> {
+  if (!name) {
+    throw new CommandError("Job name required", "Usage: bunman jobs run <name>");
+  }
+
+  const app = config.apps[name];
+
+  if (!app) {
+    throw new ServiceNotFoundError(name, Object.keys(config.apps));
+  }
+
+  if (!app.schedule) {
+    throw new CommandError(
+      `Service ${name} is not a scheduled job`,
+      "Add a 'schedule' to the app to run it as a job"
+    );
+  }
+
+  const serviceManager = await getServiceManager(config);
+  await serviceManager.runJob(app.serviceName);
+
+  logger.success(`Triggered job ${name}`);
+  logger.dim(`  Follow its output with 'bunman logs ${name} -f'`);
+}
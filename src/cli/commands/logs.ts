@@ -1,39 +1,28 @@
 import type { CommandContext } from "../../types/cli";
-import type { LogOptions } from "../../types/backend";
+import type { LogOptions, ServiceManager } from "../../types/backend";
+import type { NormalizedAppConfig } from "../../types/config";
 import { logger } from "../../utils/logger";
-import { CommandError, ServiceNotFoundError } from "../../utils/errors";
+import { formatServicePrefix, pipeWithPrefix } from "../../utils/prefix";
+import { BunmanError, CommandError, ServiceNotFoundError } from "../../utils/errors";
 import { getServiceManager } from "../../core/backend";
+import { expandInstances, getInstanceIndexes, isClustered } from "../../core/instances";
+import {
+  getErrorLogFile,
+  getLogFile,
+  getTailArgs,
+  rotateLogFile,
+  tailLogFiles,
+  usesLogFiles,
+} from "../../core/logs";
+import { SystemdLogger } from "../../core/systemd/logger";
 import { getBooleanOption, getNumberOption, getStringOption } from "../parser";
-import { join } from "path";
-import { existsSync, writeFileSync } from "fs";
-import { homedir } from "os";
-
-// ANSI color codes for service prefixes
-const COLORS = {
-  cyan: "\x1b[36m",
-  green: "\x1b[32m",
-  magenta: "\x1b[35m",
-  yellow: "\x1b[33m",
-  blue: "\x1b[34m",
-  red: "\x1b[31m",
-  reset: "\x1b[0m",
-  dim: "\x1b[2m",
-};
-
-const SERVICE_COLORS = [
-  COLORS.cyan,
-  COLORS.green,
-  COLORS.magenta,
-  COLORS.yellow,
-  COLORS.blue,
-];
+import { existsSync } from "fs";
+import { truncate } from "fs/promises";
 
 /**
- * View logs for one or all services
+ * View, clear or rotate logs for one or all services
  */
 export async function logsCommand(ctx: CommandContext): Promise<void> {
-  const serviceName = ctx.args.args[0];
-
   // Config should be loaded by CLI entry
   if (!ctx.config) {
     throw new CommandError(
@@ -42,10 +31,31 @@ export async function logsCommand(ctx: CommandContext): Promise<void> {
     );
   }
 
+  // "bunman logs rotate [service]"; an app named "rotate" keeps its logs view
+  const [first, second] = ctx.args.args;
+  const isRotate = first === "rotate" && !ctx.config.apps["rotate"];
+  const serviceName = isRotate ? second : first;
+
+  if (serviceName && !ctx.config.apps[serviceName]) {
+    throw new ServiceNotFoundError(
+      serviceName,
+      Object.keys(ctx.config.apps)
+    );
+  }
+
+  const serviceManager = await getServiceManager(ctx.config);
+
   // Check for --clear flag
   const shouldClear = getBooleanOption(ctx.args.options, "clear");
   if (shouldClear) {
-    await clearLogs(ctx, serviceName);
+    await clearLogs(ctx, serviceManager, serviceName);
+    return;
+  }
+
+  // Rotate subcommand, or its --rotate alias
+  if (isRotate || getBooleanOption(ctx.args.options, "rotate")) {
+    const force = getBooleanOption(ctx.args.options, "force");
+    await rotateLogs(ctx, serviceManager, serviceName, force);
     return;
   }
 
@@ -58,21 +68,12 @@ export async function logsCommand(ctx: CommandContext): Promise<void> {
 
   // If no service name provided, show logs for all services
   if (!serviceName) {
-    await showAllLogs(ctx, options);
+    await showAllLogs(ctx, serviceManager, options);
     return;
   }
 
   // Single service logs
-  const app = ctx.config.apps[serviceName];
-
-  if (!app) {
-    throw new ServiceNotFoundError(
-      serviceName,
-      Object.keys(ctx.config.apps)
-    );
-  }
-
-  const serviceManager = getServiceManager();
+  const app = ctx.config.apps[serviceName]!;
 
   // Show what we're doing
   if (options.follow) {
@@ -80,90 +81,118 @@ export async function logsCommand(ctx: CommandContext): Promise<void> {
     logger.dim("");
   }
 
-  // Get and display logs
-  await serviceManager.logs(app.serviceName, options);
+  if (logsToFiles(app, serviceManager)) {
+    const logFiles = await getLogFiles(app, serviceManager);
+    const existing = logFiles.filter((file) => existsSync(file));
+
+    if (existing.length === 0) {
+      throw new BunmanError(
+        `Log file not found for ${serviceName}`,
+        `Expected log file at: ${logFiles[0] ?? getLogFile(app)}`
+      );
+    }
+
+    await tailLogFiles(existing, options);
+    return;
+  }
+
+  // Get and display logs (journalctl matches every instance of a cluster)
+  const target = isClustered(app) ? `${app.serviceName}@*` : app.serviceName;
+  await serviceManager.logs(target, options);
 }
 
 /**
- * Show logs for all services with colored prefixes
+ * Check whether an app's output is in log files: the supervisor writes
+ * every app's output to its log file
+ */
+function logsToFiles(app: NormalizedAppConfig, serviceManager: ServiceManager): boolean {
+  return serviceManager.getName() === "supervisor" || usesLogFiles(app);
+}
+
+/**
+ * Log files of an app, one per instance of a clustered app; launchd's
+ * error logs are included on request
+ */
+async function getLogFiles(
+  app: NormalizedAppConfig,
+  serviceManager: ServiceManager,
+  includeErrorLogs = false
+): Promise<string[]> {
+  const logFiles = isClustered(app)
+    ? (await getInstanceIndexes(app, serviceManager)).map((index) => getLogFile(app, index))
+    : [getLogFile(app)];
+
+  if (includeErrorLogs && process.platform === "darwin") {
+    return logFiles.flatMap((file) => [file, getErrorLogFile(file)]);
+  }
+
+  return logFiles;
+}
+
+/**
+ * Show logs for all services with colored prefixes, whether they log to
+ * files or to the journal
  */
 async function showAllLogs(
   ctx: CommandContext,
+  serviceManager: ServiceManager,
   options: LogOptions
 ): Promise<void> {
-  const serviceNames = Object.keys(ctx.config!.apps);
+  const config = ctx.config!;
+  const entries = Object.entries(config.apps);
 
-  if (serviceNames.length === 0) {
+  if (entries.length === 0) {
     logger.warn("No services configured");
     return;
   }
 
-  const logDir = join(homedir(), ".bunman", "logs");
+  // The combined view always streams
+  const streamOptions: LogOptions = { ...options, follow: true };
+  const journal = new SystemdLogger(config.systemd.userMode);
+
+  // One log source per service (or instance of a clustered app)
+  const sources: Array<{ name: string; command: string[] }> = [];
+  const missing: string[] = [];
+
+  for (const [name, app] of await expandInstances(entries, serviceManager)) {
+    if (!logsToFiles(app, serviceManager)) {
+      sources.push({ name, command: journal.getMessageCommand(app.serviceName, streamOptions) });
+      continue;
+    }
 
-  // Find which services have log files
-  const servicesWithLogs = serviceNames.filter((name) => {
-    const app = ctx.config!.apps[name];
-    const logFile = join(logDir, `${app.serviceName}.log`);
-    return existsSync(logFile);
-  });
+    const logFile = getLogFile(app);
+    if (existsSync(logFile)) {
+      sources.push({ name, command: ["tail", ...getTailArgs(streamOptions), logFile] });
+    } else {
+      missing.push(logFile);
+    }
+  }
 
-  if (servicesWithLogs.length === 0) {
+  if (sources.length === 0) {
     logger.warn("No log files found for any service");
-    logger.info(`Expected log directory: ${logDir}`);
+    logger.info(`Expected log file at: ${missing[0]}`);
     return;
   }
 
   logger.info(
-    `Streaming logs for ${servicesWithLogs.length} service(s)... (Ctrl+C to exit)`
+    `Streaming logs for ${sources.length} service(s)... (Ctrl+C to exit)`
   );
   logger.dim("");
 
-  // Spawn tail process for each service with colored prefix
-  const procs = servicesWithLogs.map((name, index) => {
-    const app = ctx.config!.apps[name];
-    const logFile = join(logDir, `${app.serviceName}.log`);
-    const color = SERVICE_COLORS[index % SERVICE_COLORS.length];
-
-    // Build tail arguments
-    const args = ["-f"];
-    if (options.lines) {
-      args.push("-n", options.lines.toString());
-    }
-    args.push(logFile);
-
-    // Spawn tail and prefix each line with service name
-    return Bun.spawn(["tail", ...args], {
+  // Spawn one process per source; lines are prefixed with the service name
+  const procs = sources.map((source) =>
+    Bun.spawn(source.command, {
       stdout: "pipe",
       stderr: "inherit",
-    });
-  });
+    })
+  );
 
   // Read from all processes and prefix lines
-  const readers = procs.map(async (proc, index) => {
-    const name = servicesWithLogs[index];
-    const color = SERVICE_COLORS[index % SERVICE_COLORS.length];
-    const reader = proc.stdout.getReader();
-    const decoder = new TextDecoder();
-
-    let buffer = "";
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split("\n");
-      buffer = lines.pop() || "";
-
-      for (const line of lines) {
-        if (line.trim()) {
-          console.log(`${color}[${name}]${COLORS.reset} ${line}`);
-        }
-      }
-    }
-  });
+  const readers = procs.map((proc, index) =>
+    pipeWithPrefix(proc.stdout, formatServicePrefix(sources[index]!.name, index))
+  );
 
-  // Wait for all readers (will run indefinitely with -f)
+  // Wait for all readers (will run indefinitely while following)
   await Promise.race([...readers, ...procs.map((p) => p.exited)]);
 }
 
@@ -172,23 +201,38 @@ async function showAllLogs(
  */
 async function clearLogs(
   ctx: CommandContext,
+  serviceManager: ServiceManager,
   serviceName?: string
 ): Promise<void> {
-  const logDir = join(homedir(), ".bunman", "logs");
+  const apps = serviceName
+    ? [[serviceName, ctx.config!.apps[serviceName]!] as const]
+    : Object.entries(ctx.config!.apps);
+  let clearedCount = 0;
 
-  // If specific service provided, clear only that service's logs
-  if (serviceName) {
-    const app = ctx.config!.apps[serviceName];
-    if (!app) {
-      throw new ServiceNotFoundError(
-        serviceName,
-        Object.keys(ctx.config!.apps)
-      );
+  for (const [name, app] of apps) {
+    // journald owns its storage; bunman cannot clear single services
+    if (!logsToFiles(app, serviceManager)) {
+      if (serviceName) {
+        logger.warn(`${name} logs to the journal, which bunman cannot clear`);
+        logger.dim("  Use 'journalctl --vacuum-time' or set logs.target to \"file\"");
+        return;
+      }
+      continue;
     }
 
-    const logFile = join(logDir, `${app.serviceName}.log`);
-    if (existsSync(logFile)) {
-      writeFileSync(logFile, "");
+    const logFiles = (await getLogFiles(app, serviceManager, true)).filter((file) =>
+      existsSync(file)
+    );
+    for (const file of logFiles) {
+      await truncate(file, 0);
+    }
+    if (logFiles.length > 0) {
+      clearedCount++;
+    }
+  }
+
+  if (serviceName) {
+    if (clearedCount > 0) {
       logger.success(`Cleared logs for ${serviceName}`);
     } else {
       logger.warn(`No log file found for ${serviceName}`);
@@ -196,22 +240,55 @@ async function clearLogs(
     return;
   }
 
-  // Clear logs for all services
-  const serviceNames = Object.keys(ctx.config!.apps);
-  let clearedCount = 0;
-
-  for (const name of serviceNames) {
-    const app = ctx.config!.apps[name];
-    const logFile = join(logDir, `${app.serviceName}.log`);
-    if (existsSync(logFile)) {
-      writeFileSync(logFile, "");
-      clearedCount++;
-    }
-  }
-
   if (clearedCount === 0) {
     logger.warn("No log files found");
   } else {
     logger.success(`Cleared logs for ${clearedCount} service(s)`);
   }
 }
+
+/**
+ * Rotate log files that outgrew `logs.maxSize` (or all of them with
+ * --force), keeping `logs.keep` rotated copies
+ */
+async function rotateLogs(
+  ctx: CommandContext,
+  serviceManager: ServiceManager,
+  serviceName: string | undefined,
+  force: boolean
+): Promise<void> {
+  const apps = serviceName
+    ? [[serviceName, ctx.config!.apps[serviceName]!] as const]
+    : Object.entries(ctx.config!.apps);
+  let rotatedCount = 0;
+
+  for (const [name, app] of apps) {
+    if (!logsToFiles(app, serviceManager)) {
+      if (serviceName) {
+        logger.warn(`${name} logs to the journal, which journald rotates itself`);
+      }
+      continue;
+    }
+
+    const options = {
+      maxSize: app.logs.maxSize === undefined ? undefined : app.logs.maxSize * 1024 * 1024,
+      keep: app.logs.keep,
+      force,
+    };
+
+    for (const file of await getLogFiles(app, serviceManager, true)) {
+      if (await rotateLogFile(file, options)) {
+        logger.success(`Rotated ${file}`);
+        rotatedCount++;
+      }
+    }
+  }
+
+  if (rotatedCount === 0) {
+    logger.info(
+      force
+        ? "No log files to rotate"
+        : "No log file exceeds logs.maxSize (use --force to rotate anyway)"
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import type { CommandContext } from "../../types/cli";
+import { logger } from "../../utils/logger";
+import { CommandError, ServiceNotFoundError } from "../../utils/errors";
+import { getServiceManager } from "../../core/backend";
+import { rollingReload } from "../../core/reload";
+import { isClustered } from "../../core/instances";
+
+/**
+ * Restart the instances of a service one at a time, without downtime
+ */
+export async function reloadCommand(ctx: CommandContext): Promise<void> {
+  // Config should be loaded by CLI entry
+  if (!ctx.config) {
+    throw new CommandError(
+      "Configuration not loaded",
+      'Run "bunman init" to create a configuration file'
+    );
+  }
+
+  const [serviceName] = ctx.args.args;
+
+  if (!serviceName) {
+    throw new CommandError("Service name required", "Usage: bunman reload <service>");
+  }
+
+  const app = ctx.config.apps[serviceName];
+
+  if (!app) {
+    throw new ServiceNotFoundError(serviceName, Object.keys(ctx.config.apps));
+  }
+
+  if (app.schedule !== undefined) {
+    throw new CommandError(
+      `Service ${serviceName} is a scheduled job`,
+      "Jobs pick up config changes on their next run; use 'bunman restart' to reinstall it"
+    );
+  }
+
+  const serviceManager = await getServiceManager(ctx.config);
+
+  if (!isClustered(app)) {
+    logger.warn(`Service ${serviceName} runs a single instance; it is down while it restarts`);
+  }
+
+  const summary = await rollingReload(serviceName, app, serviceManager);
+
+  if (summary.failed > 0) {
+    throw new CommandError(
+      `Reload of ${serviceName} failed`,
+      `Reloaded instances were rolled back; check the logs with: bunman logs ${serviceName}`
+    );
+  }
+}
@@ -36,7 +36,7 @@ export async function removeCommand(ctx: CommandContext): Promise<void> {
     );
   }
 
-  const serviceManager = getServiceManager();
+  const serviceManager = await getServiceManager(ctx.config);
   const force = getBooleanOption(ctx.args.options, "force", "f");
 
   // Check if service exists
@@ -0,0 +1,60 @@
+import type { CommandContext } from "../../types/cli";
+import type { NormalizedAppConfig } from "../../types/config";
+import { logger } from "../../utils/logger";
+import { CommandError } from "../../utils/errors";
+import { getServiceManager } from "../../core/backend";
+import { validateServiceNames } from "../../core/batch";
+import { expandInstances } from "../../core/instances";
+
+/**
+ * Clear the failed state of services that hit their start limit
+ */
+export async function resetCommand(ctx: CommandContext): Promise<void> {
+  // Config should be loaded by CLI entry
+  if (!ctx.config) {
+    throw new CommandError(
+      "Configuration not loaded",
+      'Run "bunman init" to create a configuration file'
+    );
+  }
+
+  const config = ctx.config;
+
+  // Without service names, every failed service is reset
+  const serviceNames = ctx.args.args.length > 0 ? ctx.args.args : Object.keys(config.apps);
+  validateServiceNames(serviceNames, config.apps);
+
+  const serviceManager = await getServiceManager(config);
+  const apps = await expandInstances(
+    serviceNames.map((name) => [name, config.apps[name]] as [string, NormalizedAppConfig]),
+    serviceManager
+  );
+
+  let resetCount = 0;
+
+  for (const [name, app] of apps) {
+    const status = await serviceManager.getStatus(app.serviceName);
+
+    if (status.state !== "failed") {
+      if (ctx.args.args.length > 0) {
+        logger.info(`Service ${name} has not failed`);
+      }
+      continue;
+    }
+
+    await serviceManager.resetFailed(app.serviceName);
+    resetCount++;
+
+    logger.success(
+      status.startLimitHit
+        ? `Service ${name} reset; its start limit is cleared`
+        : `Service ${name} reset`
+    );
+  }
+
+  if (resetCount > 0) {
+    logger.dim("  Run 'bunman start <service>' to start it again");
+  } else if (ctx.args.args.length === 0) {
+    logger.info("No failed services");
+  }
+}
@@ -4,6 +4,8 @@ import { logger } from "../../utils/logger";
 import { CommandError, ServiceNotFoundError } from "../../utils/errors";
 import { getServiceManager } from "../../core/backend";
 import { executeBatch, validateServiceNames } from "../../core/batch";
+import { expandInstances, isClustered } from "../../core/instances";
+import { getBatchOptions } from "../parser";
 
 /**
  * Restart one or more services
@@ -42,7 +44,13 @@ export async function restartCommand(ctx: CommandContext): Promise<void> {
     );
   }
 
-  const serviceManager = getServiceManager();
+  // A clustered app is handled per instance
+  if (isClustered(app)) {
+    await restartMultipleServices(ctx, [serviceName]);
+    return;
+  }
+
+  const serviceManager = await getServiceManager(ctx.config);
 
   // Check if service is active
   const isActive = await serviceManager.isActive(app.serviceName);
@@ -91,10 +99,10 @@ async function restartAllServices(ctx: CommandContext): Promise<void> {
     return;
   }
 
-  const serviceManager = getServiceManager();
+  const serviceManager = await getServiceManager(ctx.config);
 
   await executeBatch(
-    apps as Array<[string, NormalizedAppConfig]>,
+    await expandInstances(apps, serviceManager),
     serviceManager,
     {
       presentVerb: "Restarting",
@@ -106,6 +114,7 @@ async function restartAllServices(ctx: CommandContext): Promise<void> {
         await sm.restart(app.serviceName);
       },
       successStates: ["active", "activating"],
+      ...getBatchOptions(ctx.args.options, ctx.config!.batch),
     }
   );
 }
@@ -122,9 +131,9 @@ async function restartMultipleServices(
   const apps = serviceNames.map(
     (name) => [name, ctx.config!.apps[name]] as [string, NormalizedAppConfig]
   );
-  const serviceManager = getServiceManager();
+  const serviceManager = await getServiceManager(ctx.config);
 
-  await executeBatch(apps, serviceManager, {
+  await executeBatch(await expandInstances(apps, serviceManager), serviceManager, {
     presentVerb: "Restarting",
     pastVerb: "restarted",
     execute: async (_name, app, sm) => {
@@ -134,5 +143,6 @@ async function restartMultipleServices(
       await sm.restart(app.serviceName);
     },
     successStates: ["active", "activating"],
+    ...getBatchOptions(ctx.args.options, ctx.config!.batch),
   });
 }
@@ -0,0 +1,52 @@
+import type { CommandContext } from "../../types/cli";
+import { logger } from "../../utils/logger";
+import { CommandError, ServiceNotFoundError } from "../../utils/errors";
+import { getServiceManager } from "../../core/backend";
+import { rollbackApp } from "../../core/deploy";
+
+/**
+ * Switch a deployed service back to an earlier release
+ */
+export async function rollbackCommand(ctx: CommandContext): Promise<void> {
+  // Config should be loaded by CLI entry
+  if (!ctx.config) {
+    throw new CommandError(
+      "Configuration not loaded",
+      'Run "bunman init" to create a configuration file'
+    );
+  }
+
+  const [serviceName, target] = ctx.args.args;
+
+  if (!serviceName) {
+    throw new CommandError(
+      "Service name required",
+      "Usage: bunman rollback <service> [release]"
+    );
+  }
+
+  const app = ctx.config.apps[serviceName];
+
+  if (!app) {
+    throw new ServiceNotFoundError(serviceName, Object.keys(ctx.config.apps));
+  }
+
+  const serviceManager = await getServiceManager(ctx.config);
+  const { release, previous, summary } = await rollbackApp(
+    serviceName,
+    app,
+    serviceManager,
+    target
+  );
+
+  if (summary.failed > 0) {
+    throw new CommandError(
+      `Rollback of ${serviceName} to release ${release} failed`,
+      previous
+        ? `${serviceName} runs release ${previous} again`
+        : `Check the logs with: bunman logs ${serviceName}`
+    );
+  }
+
+  logger.success(`Service ${serviceName} runs release ${release}`);
+}
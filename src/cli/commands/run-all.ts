@@ -0,0 +1,101 @@
+import type { CommandContext } from "../../types/cli";
+import { logger } from "../../utils/logger";
+import { CommandError } from "../../utils/errors";
+import { formatServicePrefix, pipeWithPrefix } from "../../utils/prefix";
+import { getSupervisorSocket, SupervisorBackend } from "../../core/backend";
+import { parseInstanceName } from "../../core/instances";
+import { createSecretsResolver } from "../../core/secrets";
+import { Supervisor, serveSupervisor } from "../../core/supervisor";
+import { getBooleanOption } from "../parser";
+import { existsSync } from "fs";
+import { rm } from "fs/promises";
+
+/**
+ * Supervise every app in the foreground, in place of systemd (e.g., as
+ * the command of a container)
+ */
+export async function runAllCommand(ctx: CommandContext): Promise<void> {
+  // Config should be loaded by CLI entry
+  if (!ctx.config) {
+    throw new CommandError(
+      "Configuration not loaded",
+      'Run "bunman init" to create a configuration file'
+    );
+  }
+
+  if (!getBooleanOption(ctx.args.options, "foreground")) {
+    throw new CommandError(
+      "run-all only runs in the foreground",
+      "Use 'bunman run-all --foreground' (e.g., as a container's command); 'bunman start' installs services instead"
+    );
+  }
+
+  const config = ctx.config;
+  const apps = Object.entries(config.apps);
+
+  if (apps.length === 0) {
+    logger.warn("No services defined in config");
+    return;
+  }
+
+  const socketPath = getSupervisorSocket();
+  if (existsSync(socketPath) && (await new SupervisorBackend(socketPath).isAvailable())) {
+    throw new CommandError(
+      "A bunman supervisor is already running",
+      `It listens on ${socketPath}; use 'bunman status' to see its services`
+    );
+  }
+
+  // Each service (or instance) gets its own prefix color, in start order
+  const prefixes = new Map<string, string>();
+  const getPrefix = (name: string): string => {
+    if (!prefixes.has(name)) {
+      prefixes.set(name, formatServicePrefix(name, prefixes.size));
+    }
+    return prefixes.get(name)!;
+  };
+
+  const resolveSecrets = createSecretsResolver(config);
+  const supervisor = new Supervisor(apps, {
+    resolveSecrets: (app) => resolveSecrets(parseInstanceName(app.serviceName).serviceName),
+    output: (name, stream) => pipeWithPrefix(stream, getPrefix(name)),
+    log: (name, message) => console.log(`${getPrefix(name)} ${logger.color.dim(message)}`),
+    // As PID 1 (e.g., in Docker), orphaned processes end up with bunman
+    reapZombies: process.pid === 1,
+  });
+  const server = serveSupervisor(supervisor, socketPath);
+
+  const stop = async (): Promise<void> => {
+    await supervisor.shutdown();
+    server.stop(true);
+    await rm(socketPath, { force: true });
+  };
+
+  // Wait for SIGTERM (e.g., from 'docker stop') or Ctrl+C
+  const stopped = new Promise<void>((resolve) => {
+    process.once("SIGINT", resolve);
+    process.once("SIGTERM", resolve);
+  });
+
+  logger.info(`Supervising ${apps.length} service(s) on ${socketPath}`);
+  const jobs = apps.filter(([, app]) => app.schedule !== undefined);
+  if (jobs.length > 0) {
+    const names = jobs.map(([name]) => name).join(", ");
+    logger.dim(`  Scheduled jobs only run with 'bunman jobs run <name>': ${names}`);
+  }
+  logger.dim("");
+
+  try {
+    await supervisor.start();
+  } catch (error) {
+    await stop();
+    throw error;
+  }
+
+  await stopped;
+
+  logger.dim("");
+  logger.step("Stopping services...");
+  await stop();
+  logger.success("All services stopped");
+}
@@ -0,0 +1,111 @@
+import { availableParallelism } from "os";
+import type { CommandContext } from "../../types/cli";
+import { logger } from "../../utils/logger";
+import { CommandError, ServiceNotFoundError } from "../../utils/errors";
+import { getServiceManager } from "../../core/backend";
+import { executeBatch } from "../../core/batch";
+import { getInstanceApp, isClustered } from "../../core/instances";
+import { getBatchOptions } from "../parser";
+
+/**
+ * Grow or shrink the instances of a clustered app
+ */
+export async function scaleCommand(ctx: CommandContext): Promise<void> {
+  // Config should be loaded by CLI entry
+  if (!ctx.config) {
+    throw new CommandError(
+      "Configuration not loaded",
+      'Run "bunman init" to create a configuration file'
+    );
+  }
+
+  const [serviceName, countArg] = ctx.args.args;
+
+  if (!serviceName || !countArg) {
+    throw new CommandError(
+      "Service name and instance count required",
+      "Usage: bunman scale <service> <count>"
+    );
+  }
+
+  const app = ctx.config.apps[serviceName];
+
+  if (!app) {
+    throw new ServiceNotFoundError(
+      serviceName,
+      Object.keys(ctx.config.apps)
+    );
+  }
+
+  if (!isClustered(app)) {
+    throw new CommandError(
+      `Service ${serviceName} does not run as a cluster`,
+      "Set 'instances' on the app to run several instances"
+    );
+  }
+
+  const count = countArg === "max" ? availableParallelism() : Number(countArg);
+
+  if (!Number.isInteger(count) || count < 1) {
+    throw new CommandError(
+      `Invalid instance count: ${countArg}`,
+      'Use a positive integer, or "max" for one instance per CPU'
+    );
+  }
+
+  const serviceManager = await getServiceManager(ctx.config);
+  const batchOptions = getBatchOptions(ctx.args.options, ctx.config.batch);
+
+  // Only instances that are added or dropped are touched
+  const current = await serviceManager.listInstances(app.serviceName);
+  const toStart: number[] = [];
+  for (let index = 1; index <= count; index++) {
+    if (!current.includes(index)) {
+      toStart.push(index);
+    }
+  }
+  const toStop = current.filter((index) => index > count);
+
+  if (toStart.length === 0 && toStop.length === 0) {
+    logger.info(`Service ${serviceName} already runs ${count} instance(s)`);
+    return;
+  }
+
+  if (toStart.length > 0) {
+    await executeBatch(
+      toStart.map((index) => getInstanceApp(serviceName, app, index)),
+      serviceManager,
+      {
+        presentVerb: "Starting",
+        pastVerb: "started",
+        execute: async (_name, instance, sm) => {
+          await sm.install(instance.serviceName, instance);
+        },
+        successStates: ["active", "activating"],
+        ...batchOptions,
+      }
+    );
+  }
+
+  if (toStop.length > 0) {
+    await executeBatch(
+      toStop.map((index) => getInstanceApp(serviceName, app, index)),
+      serviceManager,
+      {
+        presentVerb: "Stopping",
+        pastVerb: "stopped",
+        execute: async (_name, instance, sm) => {
+          await sm.remove(instance.serviceName);
+        },
+        successStates: ["inactive", "deactivating"],
+        ...batchOptions,
+      }
+    );
+  }
+
+  if (count !== app.instances) {
+    logger.dim(
+      `  The config sets ${app.instances} instance(s); it applies again once the instances are removed`
+    );
+  }
+}
@@ -0,0 +1,156 @@
+import type { CommandContext } from "../../types/cli";
+import type { NormalizedConfig } from "../../types/config";
+import { logger } from "../../utils/logger";
+import { CommandError, ServiceNotFoundError } from "../../utils/errors";
+import { getOutputMode } from "../../utils/output";
+import { promptSecret } from "../../utils/prompt";
+import {
+  assertSecretName,
+  getSecretsPaths,
+  listSecrets,
+  removeSecret,
+  setSecret,
+} from "../../core/secrets";
+
+const USAGE = "Usage: bunman secrets <set|list|rm> [service] [NAME]";
+
+/**
+ * Manage encrypted secrets
+ */
+export async function secretsCommand(ctx: CommandContext): Promise<void> {
+  // Config should be loaded by CLI entry
+  if (!ctx.config) {
+    throw new CommandError(
+      "Configuration not loaded",
+      'Run "bunman init" to create a configuration file'
+    );
+  }
+
+  const [subcommand, serviceName, name] = ctx.args.args;
+
+  switch (subcommand) {
+    case "set":
+      await setSecretCommand(ctx.config, serviceName, name);
+      break;
+    case "list":
+    case "ls":
+      await listSecretsCommand(ctx, ctx.config, serviceName);
+      break;
+    case "rm":
+    case "remove":
+      await removeSecretCommand(ctx.config, serviceName, name);
+      break;
+    default:
+      throw new CommandError(
+        subcommand ? `Unknown secrets subcommand: ${subcommand}` : "Missing secrets subcommand",
+        USAGE
+      );
+  }
+}
+
+/**
+ * Encrypt and store a secret read from the terminal or stdin
+ */
+async function setSecretCommand(
+  config: NormalizedConfig,
+  serviceName?: string,
+  name?: string
+): Promise<void> {
+  const app = requireApp(config, serviceName, name);
+  const value = await promptSecret(`Value for ${name}:`);
+
+  if (value.length === 0) {
+    throw new CommandError("Secret value cannot be empty", `Nothing was stored for ${name}`);
+  }
+
+  await setSecret(config.configDir, app, name!, value);
+
+  logger.success(`Stored secret ${name} for ${app}`);
+  logger.dim(`  Run 'bunman restart ${app}' to apply`);
+}
+
+/**
+ * List secret names (values are never shown)
+ */
+async function listSecretsCommand(
+  ctx: CommandContext,
+  config: NormalizedConfig,
+  serviceName?: string
+): Promise<void> {
+  if (serviceName && !config.apps[serviceName]) {
+    throw new ServiceNotFoundError(serviceName, Object.keys(config.apps));
+  }
+
+  const stored = await listSecrets(config.configDir);
+  const names = serviceName ? [serviceName] : Object.keys(stored).sort();
+
+  if (getOutputMode(ctx.args.options) === "json") {
+    console.log(JSON.stringify({
+      store: getSecretsPaths(config.configDir).store,
+      apps: Object.fromEntries(names.map((app) => [app, stored[app] ?? []])),
+    }, null, 2));
+    return;
+  }
+
+  const withSecrets = names.filter((app) => (stored[app] ?? []).length > 0);
+  if (withSecrets.length === 0) {
+    logger.info(serviceName ? `No secrets stored for ${serviceName}` : "No secrets stored");
+    logger.dim("  Add one with 'bunman secrets set <service> <NAME>'");
+    return;
+  }
+
+  for (const app of withSecrets) {
+    const unknown = config.apps[app] ? "" : logger.color.dim(" (not in config)");
+    logger.bold(`${app}${unknown}`);
+    for (const secret of stored[app]!) {
+      console.log(`  ${secret}`);
+    }
+  }
+}
+
+/**
+ * Delete a secret
+ */
+async function removeSecretCommand(
+  config: NormalizedConfig,
+  serviceName?: string,
+  name?: string
+): Promise<void> {
+  if (!serviceName || !name) {
+    throw new CommandError("Missing service or secret name", "Usage: bunman secrets rm <service> <NAME>");
+  }
+
+  // Secrets of apps removed from the config can still be cleaned up
+  const removed = await removeSecret(config.configDir, serviceName, name);
+  if (!removed) {
+    throw new CommandError(
+      `Secret ${name} not found for ${serviceName}`,
+      `Run 'bunman secrets list ${serviceName}' to see stored secrets`
+    );
+  }
+
+  logger.success(`Removed secret ${name} from ${serviceName}`);
+  if (config.apps[serviceName]) {
+    logger.dim(`  Run 'bunman restart ${serviceName}' to apply`);
+  }
+}
+
+/**
+ * Check the service and secret name arguments of `set`
+ */
+function requireApp(
+  config: NormalizedConfig,
+  serviceName?: string,
+  name?: string
+): string {
+  if (!serviceName || !name) {
+    throw new CommandError("Missing service or secret name", "Usage: bunman secrets set <service> <NAME>");
+  }
+
+  if (!config.apps[serviceName]) {
+    throw new ServiceNotFoundError(serviceName, Object.keys(config.apps));
+  }
+
+  assertSecretName(name);
+  return serviceName;
+}
@@ -5,7 +5,8 @@ import { CommandError, ServiceNotFoundError } from "../../utils/errors";
 import { getOutputMode, formatAppConfigJson } from "../../utils/output";
 import { getServiceManager } from "../../core/backend";
 import { executeBatch, validateServiceNames } from "../../core/batch";
-import { getBooleanOption } from "../parser";
+import { expandInstances, isClustered } from "../../core/instances";
+import { getBatchOptions, getBooleanOption } from "../parser";
 
 /**
  * Start one or more services
@@ -47,7 +48,7 @@ export async function startCommand(ctx: CommandContext): Promise<void> {
   const dryRun = getBooleanOption(ctx.args.options, "dry-run");
   const outputMode = getOutputMode(ctx.args.options);
 
-  const serviceManager = getServiceManager();
+  const serviceManager = await getServiceManager(ctx.config);
 
   // Handle dry-run mode
   if (dryRun) {
@@ -56,6 +57,7 @@ export async function startCommand(ctx: CommandContext): Promise<void> {
       console.log(JSON.stringify({
         dryRun: true,
         command: "start",
+        environment: ctx.config.environment ?? null,
         service: formatAppConfigJson(serviceName, app),
         backend: serviceManager.getName(),
         configContent,
@@ -63,6 +65,12 @@ export async function startCommand(ctx: CommandContext): Promise<void> {
     } else {
       logger.info(`[DRY-RUN] Would start service: ${serviceName}`);
       logger.dim(`  Backend: ${serviceManager.getName()}`);
+      if (isClustered(app)) {
+        logger.dim(`  Instances: ${app.serviceName}@1 to @${app.instances}`);
+      }
+      if (ctx.config.environment) {
+        logger.dim(`  Environment: ${ctx.config.environment}`);
+      }
       console.log("");
       logger.bold("Generated configuration:");
       console.log(logger.color.dim(configContent));
@@ -70,6 +78,12 @@ export async function startCommand(ctx: CommandContext): Promise<void> {
     return;
   }
 
+  // A clustered app is started per instance
+  if (isClustered(app)) {
+    await startMultipleServices(ctx, [serviceName]);
+    return;
+  }
+
   // Step 1: Initialize service manager
   logger.step(`Installing ${app.serviceName} on ${serviceManager.getName()}...`);
   await serviceManager.install(app.serviceName, app);
@@ -114,10 +128,10 @@ async function startAllServices(ctx: CommandContext): Promise<void> {
     return;
   }
 
-  const serviceManager = getServiceManager();
+  const serviceManager = await getServiceManager(ctx.config);
 
   await executeBatch(
-    apps as Array<[string, NormalizedAppConfig]>,
+    await expandInstances(apps, serviceManager),
     serviceManager,
     {
       presentVerb: "Starting",
@@ -126,6 +140,7 @@ async function startAllServices(ctx: CommandContext): Promise<void> {
         await sm.install(app.serviceName, app);
       },
       successStates: ["active", "activating"],
+      ...getBatchOptions(ctx.args.options, ctx.config!.batch),
     }
   );
 }
@@ -142,14 +157,15 @@ async function startMultipleServices(
   const apps = serviceNames.map(
     (name) => [name, ctx.config!.apps[name]] as [string, NormalizedAppConfig]
   );
-  const serviceManager = getServiceManager();
+  const serviceManager = await getServiceManager(ctx.config);
 
-  await executeBatch(apps, serviceManager, {
+  await executeBatch(await expandInstances(apps, serviceManager), serviceManager, {
     presentVerb: "Starting",
     pastVerb: "started",
     execute: async (_name, app, sm) => {
       await sm.install(app.serviceName, app);
     },
     successStates: ["active", "activating"],
+    ...getBatchOptions(ctx.args.options, ctx.config!.batch),
   });
 }
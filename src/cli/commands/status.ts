@@ -1,9 +1,12 @@
 import type { CommandContext } from "../../types/cli";
+import type { ServiceStatus } from "../../types/service";
 import { logger } from "../../utils/logger";
-import { CommandError, ServiceNotFoundError } from "../../utils/errors";
+import { CommandError } from "../../utils/errors";
 import { formatStatusTable, formatServiceDetail } from "../../utils/format";
 import { getOutputMode, formatStatusJson } from "../../utils/output";
 import { getServiceManager } from "../../core/backend";
+import { getAppStatus, getAppStatuses } from "../../core/status";
+import { isClustered } from "../../core/instances";
 
 /**
  * Show status of all services
@@ -17,41 +20,50 @@ export async function statusCommand(ctx: CommandContext): Promise<void> {
     );
   }
 
-  const serviceManager = getServiceManager();
+  const serviceManager = await getServiceManager(ctx.config);
   const outputMode = getOutputMode(ctx.args.options);
 
   // Check if a specific service was requested
   const specificService = ctx.args.args[0];
 
-  if (specificService) {
-    // Show detailed status for one service
-    const app = ctx.config.apps[specificService];
+  const specificApp = specificService ? ctx.config.apps[specificService] : undefined;
 
-    if (!app) {
-      throw new ServiceNotFoundError(
-        specificService,
-        Object.keys(ctx.config.apps)
-      );
-    }
+  if (specificService && specificApp && isClustered(specificApp)) {
+    // Show a row per instance of a clustered app
+    const statuses = await getAppStatuses(ctx.config, [specificService], serviceManager);
 
-    const status = await serviceManager.getStatus(app.serviceName);
+    if (outputMode === "json") {
+      console.log(JSON.stringify(formatStatusJson(statuses, ctx.config.environment), null, 2));
+      return;
+    }
 
-    // Update name to show user-friendly name
-    status.name = specificService;
+    console.log("");
+    console.log(formatStatusTable(statuses));
+    console.log("");
+    printStartLimitHint(statuses);
+  } else if (specificService) {
+    // Show detailed status for one service
+    const status = await getAppStatus(ctx.config, specificService, serviceManager);
 
     if (outputMode === "json") {
-      console.log(JSON.stringify(formatStatusJson([status]), null, 2));
+      console.log(JSON.stringify(formatStatusJson([status], ctx.config.environment), null, 2));
       return;
     }
 
     console.log(formatServiceDetail(status));
+    if (ctx.config.environment) {
+      logger.dim(`   Environment: ${ctx.config.environment}`);
+    }
+    if (status.startLimitHit) {
+      logger.dim(`   Run 'bunman reset ${specificService}' to allow restarts again`);
+    }
   } else {
     // Show table of all services
     const apps = Object.entries(ctx.config.apps);
 
     if (apps.length === 0) {
       if (outputMode === "json") {
-        console.log(JSON.stringify({ services: [], summary: { total: 0, active: 0, inactive: 0, failed: 0 } }, null, 2));
+        console.log(JSON.stringify({ environment: ctx.config.environment ?? null, services: [], summary: { total: 0, active: 0, inactive: 0, failed: 0 } }, null, 2));
         return;
       }
       logger.warn("No services defined in config");
@@ -60,22 +72,29 @@ export async function statusCommand(ctx: CommandContext): Promise<void> {
     }
 
     // Get status for all services
-    const serviceNames = apps.map(([_, app]) => app.serviceName);
-    const statuses = await serviceManager.getAllStatuses(serviceNames);
-
-    // Map back to user-friendly names
-    for (let i = 0; i < statuses.length; i++) {
-      const [name] = apps[i]!;
-      statuses[i]!.name = name;
-    }
+    const statuses = await getAppStatuses(ctx.config, undefined, serviceManager);
 
     if (outputMode === "json") {
-      console.log(JSON.stringify(formatStatusJson(statuses), null, 2));
+      console.log(JSON.stringify(formatStatusJson(statuses, ctx.config.environment), null, 2));
       return;
     }
 
     console.log("");
+    if (ctx.config.environment) {
+      logger.dim(`Environment: ${ctx.config.environment}`);
+    }
     console.log(formatStatusTable(statuses));
     console.log("");
+    printStartLimitHint(statuses);
+  }
+}
+
+/**
+ * Point to `bunman reset` when services gave up restarting
+ */
+function printStartLimitHint(statuses: ServiceStatus[]): void {
+  if (statuses.some((status) => status.startLimitHit)) {
+    logger.dim("  Services marked 'gave up' hit their start limit");
+    logger.dim("  Run 'bunman reset <service>' after fixing them to allow restarts again");
   }
 }
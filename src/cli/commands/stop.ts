@@ -4,6 +4,8 @@ import { logger } from "../../utils/logger";
 import { CommandError, ServiceNotFoundError } from "../../utils/errors";
 import { getServiceManager } from "../../core/backend";
 import { executeBatch, validateServiceNames } from "../../core/batch";
+import { expandInstances, isClustered } from "../../core/instances";
+import { getBatchOptions } from "../parser";
 
 /**
  * Stop one or more services
@@ -42,7 +44,13 @@ export async function stopCommand(ctx: CommandContext): Promise<void> {
     );
   }
 
-  const serviceManager = getServiceManager();
+  // A clustered app is handled per instance
+  if (isClustered(app)) {
+    await stopMultipleServices(ctx, [serviceName]);
+    return;
+  }
+
+  const serviceManager = await getServiceManager(ctx.config);
 
   // Check if service is running
   const isActive = await serviceManager.isActive(app.serviceName);
@@ -80,10 +88,10 @@ async function stopAllServices(ctx: CommandContext): Promise<void> {
     return;
   }
 
-  const serviceManager = getServiceManager();
+  const serviceManager = await getServiceManager(ctx.config);
 
   await executeBatch(
-    apps as Array<[string, NormalizedAppConfig]>,
+    await expandInstances(apps, serviceManager),
     serviceManager,
     {
       presentVerb: "Stopping",
@@ -96,6 +104,8 @@ async function stopAllServices(ctx: CommandContext): Promise<void> {
       },
       skipMessage: "already stopped",
       successStates: ["inactive", "deactivating"],
+      reverseDependencies: true,
+      ...getBatchOptions(ctx.args.options, ctx.config!.batch),
     }
   );
 }
@@ -112,9 +122,9 @@ async function stopMultipleServices(
   const apps = serviceNames.map(
     (name) => [name, ctx.config!.apps[name]] as [string, NormalizedAppConfig]
   );
-  const serviceManager = getServiceManager();
+  const serviceManager = await getServiceManager(ctx.config);
 
-  await executeBatch(apps, serviceManager, {
+  await executeBatch(await expandInstances(apps, serviceManager), serviceManager, {
     presentVerb: "Stopping",
     pastVerb: "stopped",
     execute: async (_name, app, sm) => {
@@ -125,5 +135,7 @@ async function stopMultipleServices(
     },
     skipMessage: "already stopped",
     successStates: ["inactive", "deactivating"],
+    reverseDependencies: true,
+    ...getBatchOptions(ctx.args.options, ctx.config!.batch),
   });
 }
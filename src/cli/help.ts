@@ -27,9 +27,20 @@ ${color.bold("COMMANDS")}
   ${color.cyan("start")} [service]      Start a service or all services
   ${color.cyan("stop")} [service]       Stop a service or all services
   ${color.cyan("restart")} [service]    Restart a service or all services
+  ${color.cyan("reload")} <service>     Restart instances one at a time (zero downtime)
+  ${color.cyan("deploy")} <service>     Build a release from source and switch to it
+  ${color.cyan("rollback")} <service>   Switch back to the previous release
   ${color.cyan("remove")} <service>     Remove a service (stop, disable, delete)
   ${color.cyan("logs")} [service]       View logs for a service or all services
   ${color.cyan("status")}               Show status of all services
+  ${color.cyan("config")} show          Show the resolved configuration
+  ${color.cyan("secrets")} <action>     Manage encrypted secrets (set, list, rm)
+  ${color.cyan("scale")} <service> <n>  Change the number of instances of a cluster
+  ${color.cyan("jobs")} [run <name>]    List scheduled jobs or run one now
+  ${color.cyan("audit")} [service]      Score the sandboxing of each service
+  ${color.cyan("reset")} [service]      Clear the failed state after a start limit
+  ${color.cyan("dev")} [service...]     Run services in the foreground (watch mode)
+  ${color.cyan("run-all")} --foreground Supervise all services without systemd
   ${color.cyan("doctor")}               Check system requirements
   ${color.cyan("help")}                 Show this help message
   ${color.cyan("version")}              Show version number
@@ -37,6 +48,9 @@ ${color.bold("COMMANDS")}
 ${color.bold("OPTIONS")}
   ${color.dim("-h, --help")}     Show help
   ${color.dim("-v, --version")}  Show version
+  ${color.dim("--user")}         Use user-level systemd units
+  ${color.dim("--system")}       Use system-level systemd units
+  ${color.dim("--env")} <name>   Apply an environment profile (or BUNMAN_ENV)
 
 ${color.bold("EXAMPLES")}
   ${color.dim("# Initialize configuration")}
@@ -74,6 +88,16 @@ export function printCommandHelp(command: string): void {
   // Cast to CommandName for exhaustiveness checking
   const cmd = command as CommandName;
 
+  // Shared by the commands that act on several services
+  const batchOptions = `${color.bold("OPTIONS")}
+  ${color.dim("--parallel")} <n>        Handle up to n services at once (default: 1)
+  ${color.dim("--fail-fast")}           Stop after the first failure
+  ${color.dim("--continue-on-error")}   Handle every service even if some fail (default)
+
+  Services are handled in 'dependsOn' order; with --parallel, each
+  wave of independent services runs concurrently. Defaults can be
+  set in the config under 'batch'.`;
+
   switch (cmd) {
     case "init":
       console.log(`
@@ -86,11 +110,15 @@ ${color.bold("USAGE")}
 ${color.bold("OPTIONS")}
   ${color.dim("--minimal")}   Create minimal config (no comments)
   ${color.dim("--monorepo")}  Create monorepo-style config
+  ${color.dim("--detect")}    Generate apps from package.json workspaces
+  ${color.dim("-y, --yes")}   With --detect, include every app without prompting
 
 ${color.bold("EXAMPLES")}
   bunman init
   bunman init --minimal
   bunman init --monorepo
+  bunman init --detect
+  bunman init --detect --yes
 `);
       break;
 
@@ -108,10 +136,13 @@ ${color.bold("DESCRIPTION")}
 
   If no service name is provided, starts all services.
 
+${batchOptions}
+
 ${color.bold("EXAMPLES")}
   bunman start          ${color.dim("# Start all services")}
   bunman start api      ${color.dim("# Start a specific service")}
   bunman start worker
+  bunman start --parallel 4 --fail-fast
 `);
       break;
 
@@ -125,6 +156,9 @@ ${color.bold("USAGE")}
 
 ${color.bold("DESCRIPTION")}
   If no service name is provided, stops all running services.
+  Dependents are stopped before the apps they depend on.
+
+${batchOptions}
 
 ${color.bold("EXAMPLES")}
   bunman stop           ${color.dim("# Stop all services")}
@@ -146,9 +180,12 @@ ${color.bold("DESCRIPTION")}
 
   If no service name is provided, restarts all services.
 
+${batchOptions}
+
 ${color.bold("EXAMPLES")}
   bunman restart        ${color.dim("# Restart all services")}
   bunman restart api    ${color.dim("# Restart a specific service")}
+  bunman restart --parallel 8
 `);
       break;
 
@@ -159,11 +196,17 @@ View logs for a service or all services.
 
 ${color.bold("USAGE")}
   bunman logs [service] ${color.dim("[options]")}
+  bunman logs rotate [service] ${color.dim("[--force]")}
 
 ${color.bold("DESCRIPTION")}
   If no service name is provided, shows logs for all services
   with color-coded prefixes.
 
+  Services log to the journal on Linux unless they set
+  logs.target to "file"; on macOS they always log to files.
+  "rotate" rotates log files larger than logs.maxSize, keeping
+  logs.keep copies; schedule it as a job to rotate periodically.
+
 ${color.bold("OPTIONS")}
   ${color.dim("-f, --follow")}     Follow log output (stream)
   ${color.dim("-n, --lines")} <n>  Number of lines to show (default: 50)
@@ -171,6 +214,8 @@ ${color.bold("OPTIONS")}
   ${color.dim("--until")} <time>   Show logs until timestamp
   ${color.dim("-r, --reverse")}    Show newest entries first
   ${color.dim("--clear")}          Clear log files
+  ${color.dim("--rotate")}         Same as "bunman logs rotate"
+  ${color.dim("--force")}          Rotate regardless of size (with rotate)
 
 ${color.bold("EXAMPLES")}
   bunman logs api
@@ -179,6 +224,8 @@ ${color.bold("EXAMPLES")}
   bunman logs api --since "1 hour ago"
   bunman logs --clear             ${color.dim("# Clear all logs")}
   bunman logs gateway --clear     ${color.dim("# Clear logs for specific service")}
+  bunman logs rotate              ${color.dim("# Rotate logs over logs.maxSize")}
+  bunman logs rotate api --force  ${color.dim("# Rotate api's logs regardless of size")}
 `);
       break;
 
@@ -239,6 +286,264 @@ ${color.bold("DESCRIPTION")}
 `);
       break;
 
+    case "config":
+      console.log(`
+${color.bold("bunman config show [service]")}
+Show the configuration after defaults and environment profiles are applied.
+
+${color.bold("USAGE")}
+  bunman config show [service] ${color.dim("[options]")}
+
+${color.bold("OPTIONS")}
+  ${color.dim("--origin")}  Show which layer each value came from
+  ${color.dim("--json")}    Output JSON
+
+${color.bold("DESCRIPTION")}
+  Layers are merged in order: builtin defaults, defaults,
+  environment defaults, app, environment app overrides.
+  env is merged per variable, limits and hooks per field, and
+  after/requires are concatenated. Set a value to null to unset an
+  inherited one.
+
+${color.bold("EXAMPLES")}
+  bunman config show
+  bunman config show api --origin
+  bunman config show --env production --json
+`);
+      break;
+
+    case "secrets":
+      console.log(`
+${color.bold("bunman secrets <set|list|rm>")}
+Manage secrets encrypted at rest in .bunman/secrets.json.
+
+${color.bold("USAGE")}
+  bunman secrets set <service> <NAME>
+  bunman secrets list [service] ${color.dim("[--json]")}
+  bunman secrets rm <service> <NAME>
+
+${color.bold("DESCRIPTION")}
+  Values are read from a hidden prompt, or from stdin when piped.
+  They are encrypted with the local key in .bunman/secrets.key
+  (keep it out of version control) and written to an owner-only
+  environment file when the service is installed. Values never
+  appear in dry-run previews or JSON output.
+
+${color.bold("EXAMPLES")}
+  bunman secrets set api DB_PASSWORD
+  echo "$TOKEN" | bunman secrets set worker API_TOKEN
+  bunman secrets list
+  bunman secrets rm api DB_PASSWORD
+`);
+      break;
+
+    case "scale":
+      console.log(`
+${color.bold("bunman scale <service> <count>")}
+Change the number of instances of a clustered service.
+
+${color.bold("USAGE")}
+  bunman scale <service> <count>
+
+${color.bold("DESCRIPTION")}
+  Starts the missing instances up to <count> and stops the
+  ones above it; instances in between are left running.
+  Other commands keep to the new count until the instances
+  are removed. The app must set 'instances' in the config.
+  Use "max" for one instance per CPU.
+
+${color.bold("EXAMPLES")}
+  bunman scale api 6      ${color.dim("# Run api@1 to api@6")}
+  bunman scale api 2      ${color.dim("# Stop api@3 and above")}
+`);
+      break;
+
+    case "jobs":
+      console.log(`
+${color.bold("bunman jobs [list|run <name>]")}
+List scheduled jobs or run one outside its schedule.
+
+${color.bold("USAGE")}
+  bunman jobs ${color.dim("[--json]")}
+  bunman jobs run <name>
+
+${color.bold("DESCRIPTION")}
+  Apps with a 'schedule' run as jobs: a oneshot service and a
+  timer on systemd, StartCalendarInterval on launchd. The list
+  shows when each job runs next, when it last ran and its
+  exit status. 'run' starts a job now without waiting for it.
+
+${color.bold("EXAMPLES")}
+  bunman jobs
+  bunman jobs --json
+  bunman jobs run backup
+`);
+      break;
+
+    case "audit":
+      console.log(`
+${color.bold("bunman audit [service]")}
+Score how exposed each generated systemd unit is.
+
+${color.bold("USAGE")}
+  bunman audit [service] ${color.dim("[--json]")}
+
+${color.bold("DESCRIPTION")}
+  Checks the sandboxing directives of each unit, loosely following
+  'systemd-analyze security', and scores its exposure from 0.0
+  (fully sandboxed) to 10.0 (none). With a service name, lists
+  every check. Set 'hardening' to "basic" or "strict" per app or
+  in defaults, and override single settings under 'security'.
+
+${color.bold("EXAMPLES")}
+  bunman audit
+  bunman audit api
+  bunman audit --json
+`);
+      break;
+
+    case "dev":
+      console.log(`
+${color.bold("bunman dev [service...]")}
+Run services in the foreground for local development.
+
+${color.bold("USAGE")}
+  bunman dev [service...]
+
+${color.bold("DESCRIPTION")}
+  Spawns each service's command in its cwd with its env, envFile
+  and secrets, without installing anything, and prefixes the output
+  with the service name. Services start after the apps they
+  depend on (which are included too); scheduled jobs only run when
+  named. A service restarts when files matching its 'watch' globs
+  (relative to its cwd) change. Ctrl+C stops all of them.
+
+${color.bold("EXAMPLES")}
+  bunman dev
+  bunman dev api worker
+`);
+      break;
+
+    case "run-all":
+      console.log(`
+${color.bold("bunman run-all --foreground")}
+Supervise all services in the foreground, without systemd.
+
+${color.bold("USAGE")}
+  bunman run-all --foreground
+
+${color.bold("DESCRIPTION")}
+  Runs every service as a child process, for containers where
+  systemd isn't available (e.g., as a Docker image's command).
+  Services restart according to 'restart', 'restartSec',
+  'maxRestarts' and 'restartBackoff'; SIGTERM stops them, dependents
+  first, with their 'killSignal' and 'stopTimeout'. Output goes to
+  each service's log file and, prefixed, to stdout. As PID 1 it
+  also reaps orphaned processes.
+
+  While it runs, 'bunman status', 'stop', 'restart', 'logs' and
+  'reset' control its services over a Unix socket
+  (~/.bunman/supervisor.sock, or BUNMAN_SUPERVISOR_SOCKET).
+  Scheduled jobs only run with 'bunman jobs run <name>'.
+
+${color.bold("EXAMPLES")}
+  bunman run-all --foreground
+  docker exec <container> bunman status
+`);
+      break;
+
+    case "reload":
+      console.log(`
+${color.bold("bunman reload <service>")}
+Restart the instances of a service one at a time.
+
+${color.bold("USAGE")}
+  bunman reload <service>
+
+${color.bold("DESCRIPTION")}
+  Reinstalls and restarts each instance in turn, and waits for it
+  to be healthy before moving on to the next, so the others keep
+  serving. An instance is healthy once it is active and its
+  'healthCheck' passes: an HTTP 2xx from 'healthCheck.http', or
+  else a TCP connection to its port ('healthCheck.port', the port
+  from 'portBase', or env.PORT), within 'healthCheck.timeout'
+  seconds (default: 30).
+
+  If an instance fails, the instances already reloaded get their
+  previous unit file back and are restarted; the rest are not
+  touched. A single-instance service is down while it restarts.
+
+${color.bold("EXAMPLES")}
+  bunman reload api
+`);
+      break;
+
+    case "deploy":
+      console.log(`
+${color.bold("bunman deploy <service>")}
+Build a new release of a service and switch to it.
+
+${color.bold("USAGE")}
+  bunman deploy <service>
+
+${color.bold("DESCRIPTION")}
+  Clones 'deploy.source' (at 'deploy.ref') into
+  releases/<timestamp> next to the app's cwd, runs 'deploy.install'
+  (default: bun install --frozen-lockfile) and 'deploy.build' there,
+  then atomically points the cwd (a 'current' symlink) at it and
+  restarts the service like 'bunman reload', checking its health.
+
+  A release that fails to build is discarded before anything is
+  switched. If an instance is not healthy, the previous release is
+  linked again and the reloaded instances restarted. The newest
+  'deploy.keep' releases (default: 5) are kept for rollbacks.
+
+${color.bold("EXAMPLES")}
+  bunman deploy api
+`);
+      break;
+
+    case "rollback":
+      console.log(`
+${color.bold("bunman rollback <service> [release]")}
+Switch a deployed service back to an earlier release.
+
+${color.bold("USAGE")}
+  bunman rollback <service> [release]
+
+${color.bold("DESCRIPTION")}
+  Points the app's 'current' link at the release before the current
+  one (or at the named release) and restarts the service like
+  'bunman reload', checking its health. If it is not healthy, the
+  release it ran before is linked again.
+
+${color.bold("EXAMPLES")}
+  bunman rollback api
+  bunman rollback api 20250101T120000Z
+`);
+      break;
+
+    case "reset":
+      console.log(`
+${color.bold("bunman reset [service...]")}
+Clear the failed state of services.
+
+${color.bold("USAGE")}
+  bunman reset [service...]
+
+${color.bold("DESCRIPTION")}
+  A service that restarts more than 'maxRestarts' times within
+  'restartWindow' seconds gives up and stays failed ('bunman status'
+  shows it as "gave up"). Reset it (systemctl reset-failed) once
+  it is fixed, then start it again. Without a service name, every
+  failed service is reset.
+
+${color.bold("EXAMPLES")}
+  bunman reset api
+  bunman reset
+`);
+      break;
+
     // Backward compatibility aliases - show the equivalent command help
     case "startall":
       printCommandHelp("start");
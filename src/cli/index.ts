@@ -1,20 +1,31 @@
 #!/usr/bin/env bun
 
 import type { CommandContext, CommandName } from '../types/cli';
-import { parseArgs } from './parser';
+import { parseArgs, getBooleanOption, getStringOption } from './parser';
 import { printHelp, printVersion, printCommandHelp } from './help';
 import {
     initCommand,
     startCommand,
     stopCommand,
     restartCommand,
+    reloadCommand,
+    deployCommand,
+    rollbackCommand,
     logsCommand,
     statusCommand,
     removeCommand,
-    doctorCommand
+    doctorCommand,
+    configCommand,
+    secretsCommand,
+    scaleCommand,
+    jobsCommand,
+    auditCommand,
+    resetCommand,
+    devCommand,
+    runAllCommand
 } from './commands';
 import { loadConfig } from '../core/config';
-import { BunmanError } from '../utils/errors';
+import { BunmanError, CommandError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import { getServiceManager, getPlatformName } from '../core/backend';
 
@@ -25,15 +36,39 @@ const COMMANDS_REQUIRING_CONFIG: ReadonlySet<CommandName> = new Set<CommandName>
     'start',
     'stop',
     'restart',
+    'reload',
+    'deploy',
+    'rollback',
     'logs',
     'status',
     'remove',
+    'config',
+    'secrets',
+    'scale',
+    'jobs',
+    'audit',
+    'reset',
+    'dev',
+    'run-all',
     // Backward compatibility aliases
     'startall',
     'stopall',
     'restartall',
 ]);
 
+/**
+ * Commands that work without a running service manager
+ */
+const COMMANDS_WITHOUT_SERVICE_MANAGER: ReadonlySet<CommandName> = new Set<CommandName>([
+    'init',
+    'doctor',
+    'config',
+    'secrets',
+    'audit',
+    'dev',
+    'run-all',
+]);
+
 /**
  * Main CLI entry point
  */
@@ -57,45 +92,49 @@ async function main(): Promise<void> {
             return;
         }
 
-        // Check service manager availability for commands that need it
-        if (args.command !== 'init' && args.command !== 'doctor') {
+        // Build command context
+        const ctx: CommandContext = {
+            args,
+            cwd: process.cwd()
+        };
+
+        // Load config for commands that need it
+        if (COMMANDS_REQUIRING_CONFIG.has(args.command)) {
             try {
-                const serviceManager = getServiceManager();
-                const available = await serviceManager.isAvailable();
-                if (!available) {
-                    throw new BunmanError(
-                        `${serviceManager.getName()} is not available`,
-                        `bunman requires ${serviceManager.getName()} on ${getPlatformName()}`
-                    );
-                }
+                ctx.config = await loadConfig(ctx.cwd, {
+                    environment: getEnvironmentName(ctx)
+                });
+                ctx.configPath = ctx.config.configPath;
+                applyScopeOverride(ctx);
             } catch (error) {
                 if (error instanceof BunmanError) {
                     throw error;
                 }
                 throw new BunmanError(
-                    'Service manager not available',
+                    'Failed to load configuration',
                     error instanceof Error ? error.message : 'Unknown error'
                 );
             }
         }
 
-        // Build command context
-        const ctx: CommandContext = {
-            args,
-            cwd: process.cwd()
-        };
-
-        // Load config for commands that need it
-        if (COMMANDS_REQUIRING_CONFIG.has(args.command)) {
+        // Check service manager availability for commands that need it, in the
+        // scope (config and --user/--system) the command will use
+        if (!COMMANDS_WITHOUT_SERVICE_MANAGER.has(args.command)) {
             try {
-                ctx.config = await loadConfig(ctx.cwd);
-                ctx.configPath = ctx.config.configPath;
+                const serviceManager = await getServiceManager(ctx.config);
+                const available = await serviceManager.isAvailable();
+                if (!available) {
+                    throw new BunmanError(
+                        `${serviceManager.getName()} is not available`,
+                        `bunman requires ${serviceManager.getName()} on ${getPlatformName()}`
+                    );
+                }
             } catch (error) {
                 if (error instanceof BunmanError) {
                     throw error;
                 }
                 throw new BunmanError(
-                    'Failed to load configuration',
+                    'Service manager not available',
                     error instanceof Error ? error.message : 'Unknown error'
                 );
             }
@@ -115,6 +154,15 @@ async function main(): Promise<void> {
             case 'restart':
                 await restartCommand(ctx);
                 break;
+            case 'reload':
+                await reloadCommand(ctx);
+                break;
+            case 'deploy':
+                await deployCommand(ctx);
+                break;
+            case 'rollback':
+                await rollbackCommand(ctx);
+                break;
             case 'logs':
                 await logsCommand(ctx);
                 break;
@@ -127,6 +175,30 @@ async function main(): Promise<void> {
             case 'doctor':
                 await doctorCommand(ctx);
                 break;
+            case 'config':
+                await configCommand(ctx);
+                break;
+            case 'secrets':
+                await secretsCommand(ctx);
+                break;
+            case 'scale':
+                await scaleCommand(ctx);
+                break;
+            case 'jobs':
+                await jobsCommand(ctx);
+                break;
+            case 'audit':
+                await auditCommand(ctx);
+                break;
+            case 'reset':
+                await resetCommand(ctx);
+                break;
+            case 'dev':
+                await devCommand(ctx);
+                break;
+            case 'run-all':
+                await runAllCommand(ctx);
+                break;
             default:
                 printHelp();
         }
@@ -135,6 +207,39 @@ async function main(): Promise<void> {
     }
 }
 
+/**
+ * Resolve the environment profile from --env or BUNMAN_ENV
+ */
+function getEnvironmentName(ctx: CommandContext): string | undefined {
+    if (ctx.args.options['env'] === true) {
+        throw new CommandError(
+            'Missing value for --env',
+            'Example: bunman start --env production'
+        );
+    }
+
+    return getStringOption(ctx.args.options, 'env') ?? (process.env['BUNMAN_ENV'] || undefined);
+}
+
+/**
+ * Apply --user/--system overrides on top of the config's systemd.userMode
+ */
+function applyScopeOverride(ctx: CommandContext): void {
+    const user = getBooleanOption(ctx.args.options, 'user');
+    const system = getBooleanOption(ctx.args.options, 'system');
+
+    if (user && system) {
+        throw new CommandError(
+            'Cannot use --user and --system together',
+            'Pick one scope for systemd units'
+        );
+    }
+
+    if (ctx.config && (user || system)) {
+        ctx.config.systemd.userMode = user;
+    }
+}
+
 /**
  * Handle errors gracefully
  */
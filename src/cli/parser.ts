@@ -1,4 +1,5 @@
 import type { ParsedArgs, CommandName } from "../types/cli";
+import type { BatchSettings } from "../types/config";
 import { CommandError } from "../utils/errors";
 
 /**
@@ -9,10 +10,21 @@ const COMMANDS: CommandName[] = [
   "start",
   "stop",
   "restart",
+  "reload",
+  "deploy",
+  "rollback",
   "logs",
   "status",
   "remove",
   "doctor",
+  "config",
+  "secrets",
+  "scale",
+  "jobs",
+  "audit",
+  "reset",
+  "dev",
+  "run-all",
   "startall",
   "stopall",
   "restartall",
@@ -20,6 +32,17 @@ const COMMANDS: CommandName[] = [
   "version",
 ];
 
+/**
+ * Global flags that never take a value, so a following positional
+ * argument is not consumed as their value
+ */
+const BOOLEAN_FLAGS: ReadonlySet<string> = new Set([
+  "user",
+  "system",
+  "fail-fast",
+  "continue-on-error",
+]);
+
 /**
  * Parse CLI arguments
  */
@@ -70,7 +93,7 @@ export function parseArgs(argv: string[]): ParsedArgs {
         const key = arg.slice(2);
         const next = argv[i + 1];
 
-        if (next && !next.startsWith("-")) {
+        if (next && !next.startsWith("-") && !BOOLEAN_FLAGS.has(key)) {
           options[key] = next;
           i++; // Skip next arg
         } else {
@@ -169,3 +192,36 @@ export function getBooleanOption(
   const lower = value.toLowerCase();
   return lower === "true" || lower === "yes" || lower === "1";
 }
+
+/**
+ * Get batch execution options from --parallel, --fail-fast and
+ * --continue-on-error, falling back to the config's batch settings
+ */
+export function getBatchOptions(
+  options: Record<string, string | boolean>,
+  settings: BatchSettings = {}
+): { parallel: number; failFast: boolean } {
+  const parallel = getNumberOption(options, "parallel", undefined, settings.parallel ?? 1)!;
+
+  if (parallel < 1) {
+    throw new CommandError(
+      "Invalid value for --parallel: expected a positive number",
+      "Example: --parallel 4"
+    );
+  }
+
+  const failFast = getBooleanOption(options, "fail-fast");
+  const continueOnError = getBooleanOption(options, "continue-on-error");
+
+  if (failFast && continueOnError) {
+    throw new CommandError(
+      "--fail-fast and --continue-on-error cannot be combined",
+      "Pick one of the two modes"
+    );
+  }
+
+  return {
+    parallel,
+    failFast: failFast || (!continueOnError && (settings.failFast ?? false)),
+  };
+}
@@ -11,13 +11,36 @@ export const NAME = 'bunman';
 /**
  * Config file names to search for
  */
-export const CONFIG_NAMES = ['bunman.config.ts', 'bunman.config.js'] as const;
+export const CONFIG_NAMES = [
+    'bunman.config.ts',
+    'bunman.config.js',
+    'bunman.config.json',
+    'bunman.yaml',
+    'bunman.yml',
+    'bunman.toml'
+] as const;
 
 /**
  * Default service name prefix
  */
 export const DEFAULT_SERVICE_PREFIX = 'bunman-';
 
+/**
+ * Where file-based service logs are written by default
+ */
+export const DEFAULT_LOG_DIR = `${process.env['HOME']}/.bunman/logs`;
+
+/**
+ * Unix socket of the foreground supervisor (`bunman run-all --foreground`),
+ * unless BUNMAN_SUPERVISOR_SOCKET is set
+ */
+export const DEFAULT_SUPERVISOR_SOCKET = `${process.env['HOME']}/.bunman/supervisor.sock`;
+
+/**
+ * First systemd version with RestartSteps and RestartMaxDelaySec
+ */
+export const SYSTEMD_RESTART_BACKOFF_VERSION = 254;
+
 /**
  * Default systemd paths
  */
@@ -29,12 +52,39 @@ export const SYSTEMD_PATHS = {
     user: `${process.env['HOME']}/.config/systemd/user`
 } as const;
 
+/**
+ * Encrypted secrets store, relative to the config directory
+ */
+export const SECRETS_DIR = {
+    /** Directory holding the store and key */
+    dir: '.bunman',
+
+    /** Encrypted values (safe to commit) */
+    store: 'secrets.json',
+
+    /** Local encryption key (never commit) */
+    key: 'secrets.key'
+} as const;
+
+/**
+ * Where decrypted secrets are written for services at install time
+ */
+export const SECRETS_ENV_PATHS = {
+    /** System-level services */
+    system: '/etc/bunman/secrets',
+
+    /** User-level services */
+    user: `${process.env['HOME']}/.config/bunman/secrets`
+} as const;
+
 /**
  * Default service configuration
  */
 export const DEFAULT_SERVICE_CONFIG = {
     restart: 'always' as const,
     restartSec: 3,
+    hardening: 'none' as const,
+    logs: { target: 'journal' as const, keep: 5 },
     after: ['network.target'] as string[],
     requires: [] as string[],
     env: {} as Record<string, string>,
@@ -1,7 +1,9 @@
 export { SystemdBackend } from "./systemd";
 export { LaunchdBackend } from "./launchd";
+export { SupervisorBackend } from "./supervisor";
 export {
   getServiceManager,
+  getSupervisorSocket,
   isPlatformSupported,
   getPlatformName,
 } from "./platform";
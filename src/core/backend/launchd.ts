@@ -1,11 +1,23 @@
 import type { ServiceManager, LogOptions } from "../../types/backend";
-import type { ServiceStatus, ServiceState } from "../../types/service";
+import type { JobRuns, ServiceStatus, ServiceState } from "../../types/service";
 import type { NormalizedAppConfig } from "../../types/config";
 import { BunmanError } from "../../utils/errors";
-import { existsSync } from "fs";
-import { mkdir } from "fs/promises";
+import type { SecretsResolver } from "../secrets";
+import {
+  getInstanceApp,
+  getInstancePort,
+  getInstanceServiceName,
+  isClustered,
+  parseInstanceName,
+} from "../instances";
+import { toCalendarIntervals } from "../schedule";
+import { buildHookScript, hasHooks } from "../hooks";
+import { getErrorLogFile, getLogFile, tailLogFiles } from "../logs";
+import { DEFAULT_LOG_DIR } from "../../constants";
+import { existsSync, readFileSync } from "fs";
+import { chmod, mkdir, readdir } from "fs/promises";
 import { homedir } from "os";
-import { join } from "path";
+import { dirname, join } from "path";
 
 /**
  * launchd backend implementation for macOS
@@ -13,10 +25,12 @@ import { join } from "path";
 export class LaunchdBackend implements ServiceManager {
   private agentDir: string;
   private logDir: string;
+  private resolveSecrets: SecretsResolver;
 
-  constructor() {
+  constructor(resolveSecrets: SecretsResolver = async () => ({})) {
     this.agentDir = join(homedir(), "Library", "LaunchAgents");
-    this.logDir = join(homedir(), ".bunman", "logs");
+    this.logDir = DEFAULT_LOG_DIR;
+    this.resolveSecrets = resolveSecrets;
   }
 
   getName(): string {
@@ -126,7 +140,14 @@ export class LaunchdBackend implements ServiceManager {
       const stdout = await new Response(proc.stdout).text();
       await proc.exited;
 
-      return this.parseListOutput(serviceName, label, stdout);
+      const status = this.parseListOutput(serviceName, label, stdout);
+
+      // A loaded job waits for its calendar interval between runs
+      if (status.state === "inactive" && stdout.includes(label) && this.isJob(serviceName)) {
+        return { ...status, state: "active" };
+      }
+
+      return status;
     } catch {
       return {
         name: serviceName,
@@ -139,47 +160,122 @@ export class LaunchdBackend implements ServiceManager {
     return Promise.all(serviceNames.map((name) => this.getStatus(name)));
   }
 
+  async getJobRuns(serviceName: string): Promise<JobRuns> {
+    // launchd only reports the last exit status (callers compute the
+    // next run from the schedule)
+    const proc = Bun.spawn(["launchctl", "list"], {
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+    const stdout = await new Response(proc.stdout).text();
+    await proc.exited;
+
+    const line = stdout
+      .split("\n")
+      .find((entry) => entry.trim().endsWith(this.getLabel(serviceName)));
+    const exitCode = line ? parseInt(line.trim().split(/\s+/)[1] ?? "", 10) : NaN;
+
+    return {
+      lastExitCode: isNaN(exitCode) ? undefined : exitCode,
+    };
+  }
+
+  async runJob(serviceName: string): Promise<void> {
+    const proc = Bun.spawn(["launchctl", "start", this.getLabel(serviceName)], {
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+
+    const exitCode = await proc.exited;
+
+    if (exitCode !== 0) {
+      const stderr = await new Response(proc.stderr).text();
+      throw new BunmanError(
+        `Failed to run job ${serviceName}`,
+        stderr.trim() || "launchctl start failed"
+      );
+    }
+  }
+
+  async resetFailed(serviceName: string): Promise<void> {
+    throw new BunmanError(
+      `launchd keeps no start limit for ${serviceName}`,
+      "launchd spaces restarts out with ThrottleInterval instead; use 'bunman restart' to start it again"
+    );
+  }
+
+  async listInstances(serviceName: string): Promise<number[]> {
+    // Each instance has its own plist (launchd has no templates)
+    if (!existsSync(this.agentDir)) {
+      return [];
+    }
+
+    const prefix = `${this.getLabel(serviceName)}@`;
+    const files = await readdir(this.agentDir);
+    return files
+      .filter((file) => file.startsWith(prefix) && file.endsWith(".plist"))
+      .map((file) => parseInstanceName(file.slice(0, -".plist".length)).instance)
+      .filter((index): index is number => index !== undefined)
+      .sort((a, b) => a - b);
+  }
+
   async isActive(serviceName: string): Promise<boolean> {
     const status = await this.getStatus(serviceName);
     return status.state === "active";
   }
 
   async logs(serviceName: string, options: LogOptions): Promise<void> {
-    const logFile = join(this.logDir, `${serviceName}.log`);
-
-    if (!existsSync(logFile)) {
+    // "bunman-api@*" follows every instance of a clustered app
+    const logFiles = serviceName.endsWith("@*")
+      ? (await this.listInstances(serviceName.slice(0, -2))).map((index) =>
+          join(this.logDir, `${serviceName.slice(0, -1)}${index}.log`)
+        )
+      : [join(this.logDir, `${serviceName}.log`)];
+
+    const missing =
+      logFiles.length > 0
+        ? logFiles.find((file) => !existsSync(file))
+        : join(this.logDir, `${serviceName}.log`);
+
+    if (missing) {
       throw new BunmanError(
         `Log file not found for ${serviceName}`,
-        `Expected log file at: ${logFile}`
+        `Expected log file at: ${missing}`
       );
     }
 
-    // Build tail command
-    const args = ["-f"];
-
-    if (options.lines) {
-      args.push("-n", options.lines.toString());
-    }
+    await tailLogFiles(logFiles, options);
+  }
 
-    args.push(logFile);
+  generateConfig(serviceName: string, app: NormalizedAppConfig): string {
+    // Previews show which secrets are set, never their values
+    const masked = Object.fromEntries(app.secrets.map((name) => [name, "<secret>"]));
 
-    // Use tail to follow the log
-    const proc = Bun.spawn(["tail", ...args], {
-      stdout: "inherit",
-      stderr: "inherit",
-      stdin: "inherit",
-    });
+    // A clustered app is previewed through its first instance
+    if (isClustered(app) && app.instance === undefined) {
+      const [, first] = getInstanceApp(serviceName, app, 1);
+      return this.buildPlist(first.serviceName, first, masked);
+    }
 
-    await proc.exited;
+    return this.buildPlist(serviceName, app, masked);
   }
 
-  generateConfig(serviceName: string, app: NormalizedAppConfig): string {
+  /**
+   * Build the plist, with secrets passed as environment variables
+   */
+  private buildPlist(
+    serviceName: string,
+    app: NormalizedAppConfig,
+    secrets: Record<string, string>
+  ): string {
     const label = this.getLabel(serviceName);
-    const logFile = join(this.logDir, `${serviceName}.log`);
-    const errorLogFile = join(this.logDir, `${serviceName}.error.log`);
+    const logFile = getLogFile(app);
+    const errorLogFile = getErrorLogFile(logFile);
 
-    // Parse command into program and arguments
-    const commandParts = this.parseCommand(app.command);
+    // Parse command into program and arguments; hooks need a shell wrapper
+    const commandParts = hasHooks(app)
+      ? ["/bin/sh", "-c", buildHookScript(app)]
+      : this.parseCommand(app.command);
 
     // Build plist structure
     const plist: any = {
@@ -191,13 +287,25 @@ export class LaunchdBackend implements ServiceManager {
       StandardErrorPath: errorLogFile,
     };
 
-    // Add environment variables
-    if (Object.keys(app.env).length > 0) {
-      plist.EnvironmentVariables = app.env;
+    // Add environment variables (secrets override plain values)
+    const env: Record<string, string> = { ...app.env, ...secrets };
+    if (app.instance !== undefined) {
+      env.BUNMAN_INSTANCE = String(app.instance);
+      const port = getInstancePort(app);
+      if (port !== undefined) {
+        env.PORT = String(port);
+      }
+    }
+    if (Object.keys(env).length > 0) {
+      plist.EnvironmentVariables = env;
     }
 
-    // Add KeepAlive based on restart policy
-    if (app.restart === "always") {
+    // Jobs run on their calendar interval instead of staying alive
+    if (app.schedule !== undefined) {
+      const intervals = toCalendarIntervals(app.schedule);
+      plist.RunAtLoad = false;
+      plist.StartCalendarInterval = intervals.length === 1 ? intervals[0] : intervals;
+    } else if (app.restart === "always") {
       plist.KeepAlive = true;
     } else if (app.restart === "on-failure") {
       plist.KeepAlive = {
@@ -205,6 +313,17 @@ export class LaunchdBackend implements ServiceManager {
       };
     }
 
+    // launchd has no start limit; it spaces restarts out instead
+    const throttleInterval = getThrottleInterval(app);
+    if (throttleInterval !== undefined) {
+      plist.ThrottleInterval = throttleInterval;
+    }
+
+    // launchd sends SIGKILL once ExitTimeOut (whole seconds) has passed
+    if (app.stopTimeout !== undefined) {
+      plist.ExitTimeOut = Math.ceil(app.stopTimeout);
+    }
+
     // Add resource limits if specified
     if (app.limits.memory) {
       // Convert MB to bytes
@@ -232,19 +351,46 @@ export class LaunchdBackend implements ServiceManager {
   async install(serviceName: string, app: NormalizedAppConfig): Promise<void> {
     // Ensure directories exist
     await this.init();
+    await mkdir(dirname(getLogFile(app)), { recursive: true });
 
     // Generate plist content
-    const plistContent = this.generateConfig(serviceName, app);
+    const secrets =
+      app.secrets.length > 0
+        ? await this.resolveSecrets(parseInstanceName(serviceName).serviceName)
+        : {};
+    const plistContent = this.buildPlist(serviceName, app, secrets);
 
-    // Write plist file
+    // Write plist file (owner-only when it holds secrets)
     const plistPath = this.getPlistPath(serviceName);
+    if (Object.keys(secrets).length > 0) {
+      await Bun.write(plistPath, "");
+      await chmod(plistPath, 0o600);
+    }
     await Bun.write(plistPath, plistContent);
 
     // Load the service
     await this.start(serviceName);
   }
 
+  async readConfig(serviceName: string): Promise<string | undefined> {
+    const plistPath = this.getPlistPath(serviceName);
+    return existsSync(plistPath) ? readFileSync(plistPath, "utf8") : undefined;
+  }
+
+  async restoreConfig(serviceName: string, content: string): Promise<void> {
+    // Writing keeps the file's mode (owner-only when it holds secrets);
+    // launchd reads the plist again when the service is restarted
+    await Bun.write(this.getPlistPath(serviceName), content);
+  }
+
   async remove(serviceName: string): Promise<void> {
+    // Removing a clustered app removes all of its instances
+    if (parseInstanceName(serviceName).instance === undefined) {
+      for (const index of await this.listInstances(serviceName)) {
+        await this.remove(getInstanceServiceName(serviceName, index));
+      }
+    }
+
     const plistPath = this.getPlistPath(serviceName);
 
     // Stop service if running
@@ -282,6 +428,17 @@ export class LaunchdBackend implements ServiceManager {
     // This is handled in the stop() method
   }
 
+  /**
+   * Check whether a service is a scheduled job
+   */
+  private isJob(serviceName: string): boolean {
+    const plistPath = this.getPlistPath(serviceName);
+    return (
+      existsSync(plistPath) &&
+      readFileSync(plistPath, "utf8").includes("<key>StartCalendarInterval</key>")
+    );
+  }
+
   /**
    * Get the launchd label for a service
    */
@@ -451,3 +608,17 @@ export class LaunchdBackend implements ServiceManager {
   }
 }
 
+
+/**
+ * Seconds launchd waits between restarts, so that no more than
+ * `maxRestarts` happen within `restartWindow` and the delay reaches
+ * `restartBackoff.maxDelay`; undefined keeps launchd's default
+ */
+export function getThrottleInterval(app: NormalizedAppConfig): number | undefined {
+  if (app.maxRestarts === undefined && app.restartBackoff === undefined) {
+    return undefined;
+  }
+
+  const spacing = app.maxRestarts === undefined ? 0 : (app.restartWindow ?? 10) / app.maxRestarts;
+  return Math.ceil(Math.max(app.restartSec, app.restartBackoff?.maxDelay ?? 0, spacing));
+}
@@ -1,19 +1,51 @@
 import type { ServiceManager } from "../../types/backend";
+import type { NormalizedConfig } from "../../types/config";
 import { SystemdBackend } from "./systemd";
 import { LaunchdBackend } from "./launchd";
+import { SupervisorBackend } from "./supervisor";
 import { BunmanError } from "../../utils/errors";
+import { createSecretsResolver } from "../secrets";
+import { DEFAULT_SUPERVISOR_SOCKET } from "../../constants";
+import { existsSync } from "fs";
 
 /**
- * Get the appropriate service manager for the current platform
+ * Get the appropriate service manager for the current platform, or the
+ * foreground supervisor while one is running (e.g., in a container)
+ * @param config - Loaded config; its systemd settings select the unit scope
  */
-export function getServiceManager(): ServiceManager {
+export async function getServiceManager(config?: NormalizedConfig): Promise<ServiceManager> {
+  // A supervisor that was killed leaves its socket behind, so the socket
+  // only counts while the supervisor answers on it
+  const socketPath = getSupervisorSocket();
+  if (existsSync(socketPath)) {
+    const supervisor = new SupervisorBackend(socketPath);
+    if (await supervisor.isAvailable()) {
+      return supervisor;
+    }
+  }
+
+  return getPlatformServiceManager(config);
+}
+
+/**
+ * Get the service manager of the current platform (systemd or launchd)
+ */
+function getPlatformServiceManager(config?: NormalizedConfig): ServiceManager {
   const platform = process.platform;
 
   switch (platform) {
     case "linux":
+      if (config) {
+        return new SystemdBackend(
+          config.systemd.userMode,
+          config.systemd.unitPath,
+          createSecretsResolver(config),
+          config.apps
+        );
+      }
       return new SystemdBackend();
     case "darwin":
-      return new LaunchdBackend();
+      return new LaunchdBackend(config ? createSecretsResolver(config) : undefined);
     case "win32":
       throw new BunmanError(
         "Windows is not yet supported",
@@ -27,6 +59,13 @@ export function getServiceManager(): ServiceManager {
   }
 }
 
+/**
+ * Unix socket of the foreground supervisor
+ */
+export function getSupervisorSocket(): string {
+  return process.env["BUNMAN_SUPERVISOR_SOCKET"] || DEFAULT_SUPERVISOR_SOCKET;
+}
+
 /**
  * Check if the current platform is supported
  */
@@ -0,0 +1,201 @@
+import type { ServiceManager, LogOptions } from "../../types/backend";
+import type { JobRuns, ServiceStatus } from "../../types/service";
+import type { NormalizedAppConfig } from "../../types/config";
+import { BunmanError } from "../../utils/errors";
+import { buildHookScript, hasHooks } from "../hooks";
+import { getInstanceApp, isClustered } from "../instances";
+import { getLogFile, tailLogFiles } from "../logs";
+import { existsSync } from "fs";
+
+/**
+ * Backend that controls the foreground supervisor (`bunman run-all
+ * --foreground`) over its Unix socket, for containers without systemd
+ */
+export class SupervisorBackend implements ServiceManager {
+  constructor(private socketPath: string) {}
+
+  getName(): string {
+    return "supervisor";
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.request("GET", "/health");
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async init(): Promise<void> {
+    // The supervisor creates its log directories as apps start
+  }
+
+  async start(serviceName: string): Promise<void> {
+    await this.request("POST", `/services/${encodeURIComponent(serviceName)}/start`);
+  }
+
+  async stop(serviceName: string): Promise<void> {
+    await this.request("POST", `/services/${encodeURIComponent(serviceName)}/stop`);
+  }
+
+  async restart(serviceName: string): Promise<void> {
+    await this.request("POST", `/services/${encodeURIComponent(serviceName)}/restart`);
+  }
+
+  async getStatus(serviceName: string): Promise<ServiceStatus> {
+    return this.request<ServiceStatus>("GET", `/services/${encodeURIComponent(serviceName)}`);
+  }
+
+  async getAllStatuses(serviceNames: string[]): Promise<ServiceStatus[]> {
+    return Promise.all(serviceNames.map((name) => this.getStatus(name)));
+  }
+
+  async getJobRuns(serviceName: string): Promise<JobRuns> {
+    // The supervisor doesn't arm schedules, so jobs only have past runs
+    const runs = await this.request<{ lastRun?: string; lastExitCode?: number }>(
+      "GET",
+      `/services/${encodeURIComponent(serviceName)}/jobs`
+    );
+    return {
+      lastRun: runs.lastRun ? new Date(runs.lastRun) : undefined,
+      lastExitCode: runs.lastExitCode,
+    };
+  }
+
+  async runJob(serviceName: string): Promise<void> {
+    await this.request("POST", `/services/${encodeURIComponent(serviceName)}/run`);
+  }
+
+  async resetFailed(serviceName: string): Promise<void> {
+    await this.request("POST", `/services/${encodeURIComponent(serviceName)}/reset`);
+  }
+
+  async listInstances(serviceName: string): Promise<number[]> {
+    return this.request<number[]>(
+      "GET",
+      `/services/${encodeURIComponent(serviceName)}/instances`
+    );
+  }
+
+  async isActive(serviceName: string): Promise<boolean> {
+    const status = await this.getStatus(serviceName);
+    return status.state === "active";
+  }
+
+  async logs(serviceName: string, options: LogOptions): Promise<void> {
+    // "bunman-api@*" follows every instance of a clustered app
+    const logFiles = await this.request<string[]>(
+      "GET",
+      `/services/${encodeURIComponent(serviceName)}/logs`
+    );
+
+    const missing = logFiles.find((file) => !existsSync(file));
+    if (logFiles.length === 0 || missing) {
+      throw new BunmanError(
+        `Log file not found for ${serviceName}`,
+        missing ? `Expected log file at: ${missing}` : "The service has not started yet"
+      );
+    }
+
+    await tailLogFiles(logFiles, options);
+  }
+
+  generateConfig(serviceName: string, app: NormalizedAppConfig): string {
+    // A clustered app is previewed through its first instance
+    const [, preview] =
+      isClustered(app) && app.instance === undefined
+        ? getInstanceApp(serviceName, app, 1)
+        : [serviceName, app];
+
+    // Previews show which secrets are set, never their values
+    const masked = Object.fromEntries(app.secrets.map((name) => [name, "<secret>"]));
+
+    return `${JSON.stringify(
+      {
+        service: preview.serviceName,
+        command: hasHooks(app) ? ["/bin/sh", "-c", buildHookScript(app)] : app.command,
+        cwd: app.cwd,
+        env: { ...app.env, ...masked },
+        envFile: app.envFile,
+        restart: app.restart,
+        restartSec: app.restartSec,
+        killSignal: app.killSignal ?? "SIGTERM",
+        stopTimeout: app.stopTimeout,
+        logFile: getLogFile(preview),
+      },
+      null,
+      2
+    )}\n`;
+  }
+
+  async install(serviceName: string, app: NormalizedAppConfig): Promise<void> {
+    // The supervisor resolves secrets itself; it only gets the app config
+    await this.request("PUT", `/services/${encodeURIComponent(serviceName)}`, app);
+  }
+
+  async readConfig(serviceName: string): Promise<string | undefined> {
+    const app = await this.request<NormalizedAppConfig | null>(
+      "GET",
+      `/services/${encodeURIComponent(serviceName)}/config`
+    );
+    return app ? JSON.stringify(app) : undefined;
+  }
+
+  async restoreConfig(serviceName: string, content: string): Promise<void> {
+    await this.request(
+      "PUT",
+      `/services/${encodeURIComponent(serviceName)}/config`,
+      JSON.parse(content)
+    );
+  }
+
+  async remove(serviceName: string): Promise<void> {
+    await this.request("DELETE", `/services/${encodeURIComponent(serviceName)}`);
+  }
+
+  async reload(): Promise<void> {
+    // Installed apps take effect right away
+  }
+
+  async enable(_serviceName: string): Promise<void> {
+    // Apps run for as long as the supervisor does
+  }
+
+  async disable(_serviceName: string): Promise<void> {
+    // Apps run for as long as the supervisor does
+  }
+
+  /**
+   * Send a request to the supervisor, turning its errors into BunmanErrors
+   */
+  private async request<T = ServiceStatus>(
+    method: string,
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`http://localhost${path}`, {
+        method,
+        unix: this.socketPath,
+        headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch {
+      throw new BunmanError(
+        `Cannot reach the bunman supervisor at ${this.socketPath}`,
+        "Check that 'bunman run-all --foreground' is running, or remove the stale socket"
+      );
+    }
+
+    const data = (await response.json()) as T & { error?: string; help?: string };
+    if (!response.ok) {
+      throw new BunmanError(
+        data.error ?? `Supervisor request failed: ${method} ${path}`,
+        data.help
+      );
+    }
+    return data;
+  }
+}
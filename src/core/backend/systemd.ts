@@ -1,14 +1,26 @@
 import type { ServiceManager, LogOptions } from "../../types/backend";
-import type { ServiceStatus } from "../../types/service";
+import type { JobRuns, ServiceStatus } from "../../types/service";
 import type { NormalizedAppConfig } from "../../types/config";
 import { SystemdController } from "../systemd/controller";
 import { SystemdLogger } from "../systemd/logger";
-import { generateUnitFile } from "../systemd/generator";
+import { generateUnitFile, generateTimerFile } from "../systemd/generator";
 import {
   getUnitFilePath,
+  getTimerFilePath,
+  getSecretsFilePath,
   ensureUnitDirectory,
   unitFileExists,
 } from "../systemd/paths";
+import { writeSecretsEnvFile, removeSecretsEnvFile } from "../secrets";
+import type { SecretsResolver } from "../secrets";
+import {
+  getInstanceServiceName,
+  isClustered,
+  parseInstanceName,
+} from "../instances";
+import { getLogFile } from "../logs";
+import { mkdir, rm } from "fs/promises";
+import { dirname } from "path";
 import { checkPermissions } from "../../utils/permissions";
 import { BunmanError } from "../../utils/errors";
 
@@ -19,9 +31,21 @@ export class SystemdBackend implements ServiceManager {
   private controller: SystemdController;
   private logger: SystemdLogger;
   private userMode: boolean;
+  private unitPath?: string;
+  private resolveSecrets: SecretsResolver;
+  private apps: Record<string, NormalizedAppConfig>;
+  private systemdVersion?: number;
 
-  constructor(userMode: boolean = true) {
+  constructor(
+    userMode: boolean = true,
+    unitPath?: string,
+    resolveSecrets: SecretsResolver = async () => ({}),
+    apps: Record<string, NormalizedAppConfig> = {}
+  ) {
     this.userMode = userMode;
+    this.unitPath = unitPath;
+    this.resolveSecrets = resolveSecrets;
+    this.apps = apps;
     this.controller = new SystemdController(userMode);
     this.logger = new SystemdLogger(userMode);
   }
@@ -44,31 +68,95 @@ export class SystemdBackend implements ServiceManager {
   }
 
   async init(): Promise<void> {
-    await ensureUnitDirectory(this.userMode);
+    await ensureUnitDirectory(this.userMode, this.unitPath);
   }
 
   async start(serviceName: string): Promise<void> {
-    await this.controller.start(serviceName);
+    // Starting a job arms its timer rather than running it
+    await this.controller.start(await this.getTriggerUnit(serviceName));
   }
 
   async stop(serviceName: string): Promise<void> {
+    if (await this.isJob(serviceName)) {
+      await this.controller.stop(`${serviceName}.timer`);
+      if (!(await this.controller.isActive(serviceName))) return;
+    }
     await this.controller.stop(serviceName);
   }
 
   async restart(serviceName: string): Promise<void> {
-    await this.controller.restart(serviceName);
+    await this.controller.restart(await this.getTriggerUnit(serviceName));
   }
 
   async getStatus(serviceName: string): Promise<ServiceStatus> {
-    return await this.controller.getStatus(serviceName);
+    const status = await this.controller.getStatus(serviceName);
+
+    // A unit that restarted too often stays failed until it is reset
+    if (status.state === "failed") {
+      const { Result } = await this.controller.show(`${serviceName}.service`, ["Result"]);
+      if (Result === "start-limit-hit") {
+        return { ...status, startLimitHit: true };
+      }
+    }
+
+    // An idle job is reported by the state of its timer
+    if (status.state === "inactive" && (await this.isJob(serviceName))) {
+      const timer = await this.controller.getStatus(`${serviceName}.timer`);
+      return { ...status, state: timer.state };
+    }
+
+    return status;
   }
 
   async getAllStatuses(serviceNames: string[]): Promise<ServiceStatus[]> {
-    return await this.controller.getAllStatuses(serviceNames);
+    return Promise.all(serviceNames.map((name) => this.getStatus(name)));
+  }
+
+  async getJobRuns(serviceName: string): Promise<JobRuns> {
+    const timer = await this.controller.show(`${serviceName}.timer`, [
+      "NextElapseUSecRealtime",
+    ]);
+    const service = await this.controller.show(`${serviceName}.service`, [
+      "ExecMainStartTimestamp",
+      "ExecMainStatus",
+    ]);
+
+    const lastRun = parseTimestamp(service["ExecMainStartTimestamp"]);
+    return {
+      nextRun: parseTimestamp(timer["NextElapseUSecRealtime"]),
+      lastRun,
+      lastExitCode:
+        lastRun && service["ExecMainStatus"]
+          ? parseInt(service["ExecMainStatus"], 10)
+          : undefined,
+    };
+  }
+
+  async runJob(serviceName: string): Promise<void> {
+    await this.controller.startNoBlock(serviceName);
+  }
+
+  async resetFailed(serviceName: string): Promise<void> {
+    await this.controller.resetFailed(serviceName);
+  }
+
+  async listInstances(serviceName: string): Promise<number[]> {
+    const units = await this.controller.listUnits(`${serviceName}@*.service`);
+    return units
+      .map((unit) => parseInstanceName(unit.replace(/\.service$/, "")))
+      .filter((parsed) => parsed.serviceName === serviceName && parsed.instance !== undefined)
+      .map((parsed) => parsed.instance!)
+      .sort((a, b) => a - b);
   }
 
   async isActive(serviceName: string): Promise<boolean> {
-    return await this.controller.isActive(serviceName);
+    if (await this.controller.isActive(serviceName)) {
+      return true;
+    }
+    return (
+      (await this.isJob(serviceName)) &&
+      (await this.controller.isActive(`${serviceName}.timer`))
+    );
   }
 
   async logs(serviceName: string, options: LogOptions): Promise<void> {
@@ -76,7 +164,22 @@ export class SystemdBackend implements ServiceManager {
   }
 
   generateConfig(serviceName: string, app: NormalizedAppConfig): string {
-    return generateUnitFile(app);
+    // Only the path of the secrets file is referenced, never the values;
+    // instances of a clustered app share the file
+    const baseName = parseInstanceName(serviceName).serviceName;
+    const unit = generateUnitFile(app, {
+      secretsFile:
+        app.secrets.length > 0
+          ? getSecretsFilePath(baseName, this.userMode)
+          : undefined,
+      apps: this.apps,
+      systemdVersion: this.systemdVersion,
+    });
+
+    if (app.schedule === undefined) {
+      return unit;
+    }
+    return `${unit}\n# ${serviceName}.timer\n${generateTimerFile(app)}`;
   }
 
   async install(serviceName: string, app: NormalizedAppConfig): Promise<void> {
@@ -84,54 +187,128 @@ export class SystemdBackend implements ServiceManager {
     await checkPermissions(this.userMode);
 
     // Ensure unit directory exists
-    await ensureUnitDirectory(this.userMode);
+    await ensureUnitDirectory(this.userMode, this.unitPath);
+
+    // Write decrypted secrets to an owner-only environment file
+    const baseName = parseInstanceName(serviceName).serviceName;
+    const secretsPath = getSecretsFilePath(baseName, this.userMode);
+    if (app.secrets.length > 0) {
+      await writeSecretsEnvFile(secretsPath, await this.resolveSecrets(baseName));
+    } else {
+      await removeSecretsEnvFile(secretsPath);
+    }
 
-    // Generate unit file
-    const unitContent = this.generateConfig(serviceName, app);
+    // systemd creates the log file, but not its directory
+    if (app.logs.target === "file") {
+      await mkdir(dirname(getLogFile(app)), { recursive: true });
+    }
+
+    // Leave out directives the installed systemd doesn't know
+    this.systemdVersion ??= await this.controller.getVersion();
 
-    // Write unit file
-    const unitPath = getUnitFilePath(serviceName, this.userMode);
-    await Bun.write(unitPath, unitContent);
+    // Write unit file (a clustered app's instances share one template)
+    const unitName = isClustered(app) ? `${baseName}@` : serviceName;
+    const unitPath = getUnitFilePath(unitName, this.userMode, this.unitPath);
+    await Bun.write(
+      unitPath,
+      generateUnitFile(app, {
+        secretsFile: app.secrets.length > 0 ? secretsPath : undefined,
+        apps: this.apps,
+        systemdVersion: this.systemdVersion,
+      })
+    );
+
+    // Scheduled apps get a timer, which is what gets enabled
+    const timerPath = getTimerFilePath(serviceName, this.userMode, this.unitPath);
+    if (app.schedule !== undefined) {
+      await Bun.write(timerPath, generateTimerFile(app));
+    } else {
+      await rm(timerPath, { force: true });
+    }
 
     // Reload daemon and enable service
     await this.controller.daemonReload();
-    await this.controller.enable(serviceName);
+    if (app.schedule !== undefined) {
+      await this.controller.enable(`${serviceName}.timer`);
+      await this.controller.start(`${serviceName}.timer`);
+    } else {
+      await this.controller.enable(serviceName);
+    }
+  }
+
+  async readConfig(serviceName: string): Promise<string | undefined> {
+    const file = Bun.file(this.getUnitFile(serviceName));
+    return (await file.exists()) ? file.text() : undefined;
+  }
+
+  async restoreConfig(serviceName: string, content: string): Promise<void> {
+    await checkPermissions(this.userMode);
+    await Bun.write(this.getUnitFile(serviceName), content);
+    await this.controller.daemonReload();
   }
 
   async remove(serviceName: string): Promise<void> {
     // Check permissions
     await checkPermissions(this.userMode);
 
-    // Stop service if running
-    const isActive = await this.controller.isActive(serviceName);
-    if (isActive) {
-      await this.controller.stop(serviceName);
-    }
+    // Removing a clustered app removes all of its instances; removing a
+    // single instance (e.g., when scaling down) keeps the shared template
+    const { instance } = parseInstanceName(serviceName);
+    const instances =
+      instance === undefined ? await this.listInstances(serviceName) : [];
+    const units = [
+      serviceName,
+      ...instances.map((index) => getInstanceServiceName(serviceName, index)),
+    ];
 
-    // Disable service
-    try {
-      await this.controller.disable(serviceName);
-    } catch {
-      // Service might not be enabled, that's okay
+    // A job's timer goes first so it can't trigger the service again
+    if (await this.isJob(serviceName)) {
+      units.unshift(`${serviceName}.timer`);
     }
 
-    // Remove unit file
-    const unitPath = getUnitFilePath(serviceName, this.userMode);
-    const exists = await unitFileExists(serviceName, this.userMode);
-    if (exists) {
-      await Bun.write(unitPath, ""); // Clear file
-      const file = Bun.file(unitPath);
-      // Delete file by unlinking
+    for (const unit of units) {
+      // Stop service if running
+      const isActive = await this.controller.isActive(unit);
+      if (isActive) {
+        await this.controller.stop(unit);
+      }
+
+      // Disable service
       try {
-        await Bun.$`rm ${unitPath}`;
+        await this.controller.disable(unit);
       } catch {
-        throw new BunmanError(
-          "Failed to remove unit file",
-          `Could not delete ${unitPath}`
-        );
+        // Service might not be enabled, that's okay
+      }
+    }
+
+    if (instance !== undefined) {
+      await this.controller.daemonReload();
+      return;
+    }
+
+    // Remove unit file (and the template of a clustered app)
+    for (const unitName of [serviceName, `${serviceName}@`]) {
+      const unitPath = getUnitFilePath(unitName, this.userMode, this.unitPath);
+      const exists = await unitFileExists(unitName, this.userMode, this.unitPath);
+      if (exists) {
+        // Delete file by unlinking
+        try {
+          await Bun.$`rm ${unitPath}`;
+        } catch {
+          throw new BunmanError(
+            "Failed to remove unit file",
+            `Could not delete ${unitPath}`
+          );
+        }
       }
     }
 
+    // Remove the timer of a job
+    await rm(getTimerFilePath(serviceName, this.userMode, this.unitPath), { force: true });
+
+    // Remove decrypted secrets
+    await removeSecretsEnvFile(getSecretsFilePath(serviceName, this.userMode));
+
     // Reload daemon
     await this.controller.daemonReload();
   }
@@ -140,6 +317,29 @@ export class SystemdBackend implements ServiceManager {
     await this.controller.daemonReload();
   }
 
+  /**
+   * Check whether a service is a scheduled job (has a timer unit)
+   */
+  private async isJob(serviceName: string): Promise<boolean> {
+    return Bun.file(getTimerFilePath(serviceName, this.userMode, this.unitPath)).exists();
+  }
+
+  /**
+   * Unit file of a service; the instances of a clustered app share a template
+   */
+  private getUnitFile(serviceName: string): string {
+    const { serviceName: baseName, instance } = parseInstanceName(serviceName);
+    const unitName = instance === undefined ? serviceName : `${baseName}@`;
+    return getUnitFilePath(unitName, this.userMode, this.unitPath);
+  }
+
+  /**
+   * Unit to start or restart: a job's timer, otherwise the service itself
+   */
+  private async getTriggerUnit(serviceName: string): Promise<string> {
+    return (await this.isJob(serviceName)) ? `${serviceName}.timer` : serviceName;
+  }
+
   async enable(serviceName: string): Promise<void> {
     await this.controller.enable(serviceName);
   }
@@ -149,3 +349,14 @@ export class SystemdBackend implements ServiceManager {
   }
 }
 
+
+/**
+ * Parse a systemctl timestamp property ("n/a" or empty when unset)
+ */
+function parseTimestamp(value: string | undefined): Date | undefined {
+  if (!value || value === "n/a") {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
@@ -3,6 +3,8 @@ import type { ServiceManager } from "../types/backend";
 import type { ServiceState } from "../types/service";
 import { logger } from "../utils/logger";
 import { ServiceNotFoundError } from "../utils/errors";
+import { formatElapsed } from "../utils/format";
+import { getDependencyWaves } from "./dependencies";
 
 /**
  * Result of a batch operation on a single service
@@ -11,7 +13,11 @@ export interface BatchResult {
   name: string;
   success: boolean;
   skipped: boolean;
+  /** Not attempted because an earlier service failed (fail-fast) */
+  cancelled?: boolean;
   error?: string;
+  /** Time spent on the service, in milliseconds */
+  durationMs?: number;
 }
 
 /**
@@ -22,6 +28,7 @@ export interface BatchSummary {
   succeeded: number;
   failed: number;
   skipped: number;
+  cancelled: number;
   results: BatchResult[];
 }
 
@@ -54,6 +61,15 @@ export interface BatchOperationOptions {
 
   /** Optional: Verify success after execution (returns list of acceptable states) */
   successStates?: ServiceState[];
+
+  /** Optional: Handle dependents before the apps they depend on (e.g., when stopping) */
+  reverseDependencies?: boolean;
+
+  /** Optional: Number of services handled at once (default: 1) */
+  parallel?: number;
+
+  /** Optional: Stop starting new services after the first failure */
+  failFast?: boolean;
 }
 
 /**
@@ -70,51 +86,47 @@ export function validateServiceNames(
 }
 
 /**
- * Execute a batch operation on multiple services
+ * Execute a batch operation on multiple services, in dependency order
+ * (each service after the ones it depends on, unless reversed)
+ *
+ * With `parallel` above 1, the services of each dependency wave run
+ * concurrently; results are always reported in plan order.
  */
 export async function executeBatch(
   services: Array<[string, NormalizedAppConfig]>,
   serviceManager: ServiceManager,
   options: BatchOperationOptions
 ): Promise<BatchSummary> {
-  const results: BatchResult[] = [];
+  const parallel = Math.max(1, options.parallel ?? 1);
   const successStates = options.successStates ?? ["active", "activating"];
 
-  logger.info(`${options.presentVerb} ${services.length} service(s)...`);
-  console.log("");
+  const waves = getDependencyWaves(services);
+  if (options.reverseDependencies) {
+    waves.reverse();
+    waves.forEach((wave) => wave.reverse());
+  }
 
-  for (const [name, app] of services) {
-    // Check if should skip
-    if (options.shouldSkip) {
-      const skip = await options.shouldSkip(name, app, serviceManager);
-      if (skip) {
-        logger.dim(`  ${name} ${options.skipMessage ?? "skipped"}`);
-        results.push({ name, success: false, skipped: true });
-        continue;
-      }
-    }
+  const concurrency = parallel > 1 ? ` (${parallel} at a time)` : "";
+  logger.info(`${options.presentVerb} ${services.length} service(s)${concurrency}...`);
+  console.log("");
 
-    try {
-      logger.step(`${options.presentVerb} ${name}...`);
-      await options.execute(name, app, serviceManager);
+  const results: BatchResult[] = [];
+  let failed = false;
 
-      // Verify status
-      const status = await serviceManager.getStatus(app.serviceName);
-      const success = successStates.includes(status.state);
+  for (const wave of waves) {
+    const waveResults = await runConcurrently(wave, parallel, async ([name, app]) => {
+      if (options.failFast && failed) {
+        logger.dim(`  ${name} not ${options.pastVerb} (an earlier service failed)`);
+        return { name, success: false, skipped: true, cancelled: true };
+      }
 
-      if (success) {
-        logger.success(`  ${name} ${options.pastVerb}`);
-        results.push({ name, success: true, skipped: false });
-      } else {
-        logger.warn(`  ${name} may not have ${options.pastVerb} correctly`);
-        results.push({ name, success: false, skipped: false });
+      const result = await executeOne(name, app, serviceManager, options, successStates);
+      if (!result.success && !result.skipped) {
+        failed = true;
       }
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error";
-      logger.error(`  ${name} failed: ${errorMessage}`);
-      results.push({ name, success: false, skipped: false, error: errorMessage });
-    }
+      return result;
+    });
+    results.push(...waveResults);
   }
 
   console.log("");
@@ -125,15 +137,82 @@ export async function executeBatch(
   return summary;
 }
 
+/**
+ * Run the operation on one service of a batch
+ */
+async function executeOne(
+  name: string,
+  app: NormalizedAppConfig,
+  serviceManager: ServiceManager,
+  options: BatchOperationOptions,
+  successStates: ServiceState[]
+): Promise<BatchResult> {
+  // Check if should skip
+  if (options.shouldSkip) {
+    const skip = await options.shouldSkip(name, app, serviceManager);
+    if (skip) {
+      logger.dim(`  ${name} ${options.skipMessage ?? "skipped"}`);
+      return { name, success: false, skipped: true };
+    }
+  }
+
+  const startedAt = performance.now();
+  const elapsed = () => Math.round(performance.now() - startedAt);
+
+  try {
+    logger.step(`${options.presentVerb} ${name}...`);
+    await options.execute(name, app, serviceManager);
+
+    // Verify status
+    const status = await serviceManager.getStatus(app.serviceName);
+    const success = successStates.includes(status.state);
+
+    if (success) {
+      logger.success(`  ${name} ${options.pastVerb}`);
+    } else {
+      logger.warn(`  ${name} may not have ${options.pastVerb} correctly`);
+    }
+    return { name, success, skipped: false, durationMs: elapsed() };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    logger.error(`  ${name} failed: ${errorMessage}`);
+    return { name, success: false, skipped: false, error: errorMessage, durationMs: elapsed() };
+  }
+}
+
+/**
+ * Map items with at most `limit` calls in flight, keeping input order
+ */
+async function runConcurrently<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
 /**
  * Summarize batch results
  */
-function summarizeBatch(results: BatchResult[]): BatchSummary {
+export function summarizeBatch(results: BatchResult[]): BatchSummary {
   return {
     total: results.length,
     succeeded: results.filter((r) => r.success).length,
     failed: results.filter((r) => !r.success && !r.skipped).length,
     skipped: results.filter((r) => r.skipped).length,
+    cancelled: results.filter((r) => r.cancelled).length,
     results,
   };
 }
@@ -141,8 +220,8 @@ function summarizeBatch(results: BatchResult[]): BatchSummary {
 /**
  * Print batch summary
  */
-function printBatchSummary(summary: BatchSummary, pastVerb: string): void {
-  const { total, succeeded, failed, skipped } = summary;
+export function printBatchSummary(summary: BatchSummary, pastVerb: string): void {
+  const { total, succeeded, failed, skipped, cancelled } = summary;
   const actualAttempted = total - skipped;
 
   if (failed === 0) {
@@ -155,8 +234,17 @@ function printBatchSummary(summary: BatchSummary, pastVerb: string): void {
     }
   } else {
     const capitalizedVerb = pastVerb.charAt(0).toUpperCase() + pastVerb.slice(1);
+    const notRun = cancelled > 0 ? `, ${cancelled} not run` : "";
     logger.warn(
-      `${capitalizedVerb} ${succeeded}/${actualAttempted} services (${failed} failed)`
+      `${capitalizedVerb} ${succeeded}/${actualAttempted} services (${failed} failed${notRun})`
     );
   }
+
+  // Time taken by each service that was attempted
+  const timed = summary.results.filter((r) => r.durationMs !== undefined);
+  const width = Math.max(0, ...timed.map((r) => r.name.length));
+  for (const result of timed) {
+    const outcome = result.success ? "" : logger.color.red(" failed");
+    logger.dim(`  ${result.name.padEnd(width)}  ${formatElapsed(result.durationMs!)}${outcome}`);
+  }
 }
@@ -0,0 +1,233 @@
+import { resolve } from "path";
+import type {
+  AppConfig,
+  BunmanConfig,
+  EnvironmentConfig,
+  Nullable,
+  SystemdDirectives,
+} from "../../types/config";
+import { ConfigError } from "../../utils/errors";
+
+/**
+ * A config file taking part in composition
+ */
+export interface ConfigSource {
+  /** Path shown in error messages */
+  path: string;
+
+  /** Validated config, without its `extends`/`include` keys */
+  config: Partial<BunmanConfig>;
+}
+
+/**
+ * Merge config files, lowest precedence first
+ *
+ * - `apps`: combined; an app may only be defined in one file
+ * - `defaults` and environment overrides: later files win per field,
+ *   with `env`, `limits`, `hooks`, `security` and `logs` merged per key and
+ *   `systemd` per directive
+ * - `systemd`, `vars` and `batch`: later files win per field
+ */
+export function composeConfigs(sources: ConfigSource[]): BunmanConfig {
+  const apps: Record<string, AppConfig> = {};
+  const appSources: Record<string, string> = {};
+  let defaults: Partial<AppConfig> | undefined;
+  let systemd: BunmanConfig["systemd"];
+  let environments: Record<string, EnvironmentConfig> | undefined;
+  let vars: Record<string, string> | undefined;
+  let batch: BunmanConfig["batch"];
+
+  for (const { path, config } of sources) {
+    for (const [name, app] of Object.entries(config.apps ?? {})) {
+      const existing = appSources[name];
+      if (existing !== undefined) {
+        throw new ConfigError(
+          `Duplicate app '${name}' defined in ${existing} and ${path}`,
+          "Each app name may only be defined in one config file"
+        );
+      }
+      apps[name] = app;
+      appSources[name] = path;
+    }
+
+    if (config.defaults) {
+      defaults = mergePartialApp(defaults, config.defaults);
+    }
+
+    if (config.systemd) {
+      systemd = { ...systemd, ...config.systemd };
+    }
+
+    if (config.vars) {
+      vars = { ...vars, ...config.vars };
+    }
+
+    if (config.batch) {
+      batch = { ...batch, ...config.batch };
+    }
+
+    for (const [envName, profile] of Object.entries(config.environments ?? {})) {
+      environments ??= {};
+      environments[envName] = mergeEnvironment(environments[envName], profile);
+    }
+  }
+
+  return {
+    apps,
+    ...(defaults ? { defaults } : {}),
+    ...(systemd ? { systemd } : {}),
+    ...(environments ? { environments } : {}),
+    ...(vars ? { vars } : {}),
+    ...(batch ? { batch } : {}),
+  };
+}
+
+/**
+ * Make the paths in a config absolute, relative to the file that defines them
+ */
+export function resolveConfigPaths(
+  config: Partial<BunmanConfig>,
+  dir: string
+): Partial<BunmanConfig> {
+  // Paths starting with a placeholder (e.g., "${vars.root}/api") are
+  // resolved after substitution, against the main config directory
+  const resolvePath = (path: string): string =>
+    path.startsWith("${") ? path : resolve(dir, path);
+
+  const resolveApp = <T extends Partial<AppConfig>>(app: T): T => ({
+    ...app,
+    ...(typeof app.cwd === "string" ? { cwd: resolvePath(app.cwd) } : {}),
+    ...(typeof app.envFile === "string"
+      ? { envFile: resolvePath(app.envFile) }
+      : {}),
+    ...(typeof app.logs?.path === "string"
+      ? { logs: { ...app.logs, path: resolvePath(app.logs.path) } }
+      : {}),
+    ...(Array.isArray(app.security?.readWritePaths)
+      ? {
+          security: {
+            ...app.security,
+            readWritePaths: app.security.readWritePaths.map(resolvePath),
+          },
+        }
+      : {}),
+    ...(typeof app.deploy?.source === "string" && !isRemoteSource(app.deploy.source)
+      ? { deploy: { ...app.deploy, source: resolvePath(app.deploy.source) } }
+      : {}),
+  });
+
+  const resolveApps = <T extends Partial<AppConfig>>(
+    apps: Record<string, T>
+  ): Record<string, T> =>
+    Object.fromEntries(
+      Object.entries(apps).map(([name, app]) => [name, resolveApp(app)])
+    );
+
+  return {
+    ...config,
+    ...(config.apps ? { apps: resolveApps(config.apps) } : {}),
+    ...(config.defaults ? { defaults: resolveApp(config.defaults) } : {}),
+    ...(config.systemd?.unitPath
+      ? {
+          systemd: {
+            ...config.systemd,
+            unitPath: resolvePath(config.systemd.unitPath),
+          },
+        }
+      : {}),
+    ...(config.environments
+      ? {
+          environments: Object.fromEntries(
+            Object.entries(config.environments).map(([envName, profile]) => [
+              envName,
+              {
+                ...profile,
+                ...(profile.defaults ? { defaults: resolveApp(profile.defaults) } : {}),
+                ...(profile.apps ? { apps: resolveApps(profile.apps) } : {}),
+              },
+            ])
+          ),
+        }
+      : {}),
+  };
+}
+
+/**
+ * Check whether a deploy source is a remote (a URL or an scp-style
+ * "git@host:repo.git") rather than a local path
+ */
+export function isRemoteSource(source: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(source) || /^[^/]+@[^/]+:/.test(source);
+}
+
+/**
+ * Merge two environment profiles, the second taking precedence
+ */
+function mergeEnvironment(
+  base: EnvironmentConfig | undefined,
+  overlay: EnvironmentConfig
+): EnvironmentConfig {
+  const merged: EnvironmentConfig = { ...base };
+
+  if (overlay.defaults) {
+    merged.defaults = mergePartialApp(base?.defaults, overlay.defaults);
+  }
+
+  if (overlay.apps) {
+    merged.apps = { ...base?.apps };
+    for (const [name, app] of Object.entries(overlay.apps)) {
+      merged.apps[name] = mergePartialApp(merged.apps[name], app);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Merge two partial app configs, the second taking precedence per field
+ * (see `mergeAppLayers` for how records and lists combine)
+ */
+function mergePartialApp(
+  base: Partial<AppConfig> | undefined,
+  overlay: Partial<AppConfig>
+): Partial<AppConfig> {
+  const merged: Partial<AppConfig> = { ...base, ...overlay };
+
+  // env, limits, hooks, security and logs are merged per key unless one side unsets them
+  if (base?.env && overlay.env) {
+    merged.env = { ...base.env, ...overlay.env };
+  }
+  if (base?.limits && overlay.limits) {
+    merged.limits = { ...base.limits, ...overlay.limits };
+  }
+  if (base?.hooks && overlay.hooks) {
+    merged.hooks = { ...base.hooks, ...overlay.hooks };
+  }
+  if (base?.security && overlay.security) {
+    merged.security = { ...base.security, ...overlay.security };
+  }
+  if (base?.logs && overlay.logs) {
+    merged.logs = { ...base.logs, ...overlay.logs };
+  }
+  // Lists are concatenated and deduplicated, as when layering defaults into apps
+  for (const key of ["after", "requires", "dependsOn", "watch"] as const) {
+    const baseList = base?.[key];
+    const overlayList = overlay[key];
+    if (baseList && overlayList) {
+      merged[key] = [...new Set([...baseList, ...overlayList])];
+    }
+  }
+  if (base?.systemd && overlay.systemd) {
+    const systemd: Nullable<SystemdDirectives> = { ...base.systemd, ...overlay.systemd };
+    for (const section of ["unit", "service", "install"] as const) {
+      const baseSection = base.systemd[section];
+      const overlaySection = overlay.systemd[section];
+      if (baseSection && overlaySection) {
+        systemd[section] = { ...baseSection, ...overlaySection };
+      }
+    }
+    merged.systemd = systemd;
+  }
+
+  return merged;
+}
@@ -0,0 +1,22 @@
+import type { BunmanConfig, ConfigFactory } from "../../types/config";
+
+/**
+ * Define a bunman config with type checking and editor autocomplete
+ *
+ * Accepts either a config object or a (possibly async) function that
+ * receives the runtime context and returns one.
+ *
+ * @example
+ * import { defineConfig } from "bunman";
+ *
+ * export default defineConfig({
+ *   apps: { api: { cwd: ".", command: "bun run start" } },
+ * });
+ */
+export function defineConfig(config: BunmanConfig): BunmanConfig;
+export function defineConfig(config: ConfigFactory): ConfigFactory;
+export function defineConfig(
+  config: BunmanConfig | ConfigFactory
+): BunmanConfig | ConfigFactory {
+  return config;
+}
@@ -0,0 +1,124 @@
+import { dirname, resolve } from "path";
+import { ConfigError } from "../../utils/errors";
+
+/**
+ * An app proposed from a workspace package
+ */
+export interface DetectedApp {
+  /** App name (derived from the package name) */
+  name: string;
+
+  /** Workspace directory, relative to the root */
+  cwd: string;
+
+  /** Command to run */
+  command: string;
+
+  /** Package description, if any */
+  description?: string;
+}
+
+interface PackageJson {
+  name?: string;
+  description?: string;
+  scripts?: Record<string, string>;
+  workspaces?: string[] | { packages?: string[] };
+}
+
+/**
+ * Find workspace packages with a `start` script in a Bun workspace root
+ * @throws ConfigError if the root has no package.json or no workspaces
+ */
+export async function detectWorkspaceApps(rootDir: string): Promise<DetectedApp[]> {
+  const rootManifest = resolve(rootDir, "package.json");
+  const root = await readPackageJson(rootManifest);
+
+  if (!root) {
+    throw new ConfigError(
+      "No package.json found",
+      `Run "bunman init --detect" from the workspace root`
+    );
+  }
+
+  const patterns = Array.isArray(root.workspaces)
+    ? root.workspaces
+    : root.workspaces?.packages ?? [];
+
+  if (patterns.length === 0) {
+    throw new ConfigError(
+      "No workspaces defined in package.json",
+      'Add a "workspaces" array (e.g., ["apps/*"]) or run "bunman init" without --detect'
+    );
+  }
+
+  const include = patterns.filter((pattern) => !pattern.startsWith("!"));
+  const exclude = patterns
+    .filter((pattern) => pattern.startsWith("!"))
+    .map((pattern) => new Bun.Glob(trimSlashes(pattern.slice(1))));
+
+  const directories = new Set<string>();
+  for (const pattern of include) {
+    const glob = new Bun.Glob(`${trimSlashes(pattern)}/package.json`);
+    for await (const manifest of glob.scan({ cwd: rootDir, onlyFiles: true })) {
+      const dir = dirname(manifest);
+      if (!exclude.some((negated) => negated.match(dir))) {
+        directories.add(dir);
+      }
+    }
+  }
+
+  const apps: DetectedApp[] = [];
+  const names = new Set<string>();
+
+  for (const dir of [...directories].sort()) {
+    const pkg = await readPackageJson(resolve(rootDir, dir, "package.json"));
+    if (!pkg?.scripts?.["start"]) continue;
+
+    const name = uniqueName(toAppName(pkg.name ?? dir), names);
+    names.add(name);
+
+    apps.push({
+      name,
+      cwd: dir,
+      command: "bun run start",
+      description: pkg.description || undefined,
+    });
+  }
+
+  return apps;
+}
+
+/**
+ * Turn a package name (e.g., "@acme/api-server") into an app name
+ */
+export function toAppName(packageName: string): string {
+  const base = packageName.replace(/^@[^/]+\//, "").split("/").pop() ?? "";
+  const name = base
+    .replace(/[^a-zA-Z0-9_-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return name || "app";
+}
+
+async function readPackageJson(path: string): Promise<PackageJson | null> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) return null;
+
+  try {
+    return (await file.json()) as PackageJson;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    throw new ConfigError(`Failed to read ${path}: ${message}`);
+  }
+}
+
+function uniqueName(name: string, taken: Set<string>): string {
+  let candidate = name;
+  for (let index = 2; taken.has(candidate); index++) {
+    candidate = `${name}-${index}`;
+  }
+  return candidate;
+}
+
+function trimSlashes(pattern: string): string {
+  return pattern.replace(/^\.\//, "").replace(/\/+$/, "");
+}
@@ -0,0 +1,418 @@
+import { basename, extname } from "path";
+import type { ConfigIssue } from "../../types/config";
+import { ConfigError } from "../../utils/errors";
+
+/**
+ * Config file formats
+ */
+export type ConfigFormat = "module" | "json" | "yaml" | "toml";
+
+/**
+ * A position in a config file (1-based)
+ */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * Detect the config format from the file name
+ */
+export function getConfigFormat(configPath: string): ConfigFormat {
+  switch (extname(configPath)) {
+    case ".json":
+      return "json";
+    case ".yaml":
+    case ".yml":
+      return "yaml";
+    case ".toml":
+      return "toml";
+    default:
+      return "module";
+  }
+}
+
+/**
+ * Parse the text of a JSON, YAML or TOML config file
+ * @throws ConfigError with the line and column of the syntax error
+ */
+export function parseConfigText(
+  text: string,
+  format: Exclude<ConfigFormat, "module">,
+  configPath: string
+): unknown {
+  // Bun.YAML landed in Bun 1.2.21; engines.bun still allows older versions
+  if (format === "yaml" && typeof Bun.YAML === "undefined") {
+    throw new ConfigError(
+      `YAML config files require Bun >= 1.2.21 (running ${Bun.version})`,
+      `Run "bun upgrade", or convert ${basename(configPath)} to JSON, TOML or TypeScript`
+    );
+  }
+
+  try {
+    return parseText(text, format);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    const position = locateSyntaxError(text, format);
+    const where = position
+      ? ` at line ${position.line}, column ${position.column}`
+      : "";
+
+    throw new ConfigError(
+      `Failed to parse ${basename(configPath)}${where}: ${message}`,
+      `Check ${format.toUpperCase()} syntax in ${configPath}`
+    );
+  }
+}
+
+/**
+ * Attach source positions to validation issues where the key can be found
+ */
+export function locateIssues(
+  issues: ConfigIssue[],
+  text: string,
+  format: Exclude<ConfigFormat, "module">
+): ConfigIssue[] {
+  return issues.map((issue) => {
+    // "config" refers to the document as a whole
+    if (issue.path === "config") return issue;
+
+    const position = locatePath(text, format, issue.path);
+    return position ? { ...issue, ...position } : issue;
+  });
+}
+
+function parseText(text: string, format: Exclude<ConfigFormat, "module">): unknown {
+  switch (format) {
+    case "json":
+      return JSON.parse(text);
+    case "yaml":
+      return Bun.YAML.parse(text);
+    case "toml":
+      return Bun.TOML.parse(text);
+  }
+}
+
+/**
+ * Find where a syntax error is in a config file
+ */
+function locateSyntaxError(
+  text: string,
+  format: Exclude<ConfigFormat, "module">
+): SourcePosition | undefined {
+  if (format === "json") {
+    const offset = findJsonErrorOffset(text);
+    return offset === undefined ? undefined : offsetToPosition(text, offset);
+  }
+
+  // YAML and TOML are line-oriented: the error is on the first line that
+  // follows the longest prefix of the document that still parses
+  const lines = text.split("\n");
+  let lastValid = 0;
+
+  for (let count = 1; count <= lines.length; count++) {
+    try {
+      parseText(lines.slice(0, count).join("\n"), format);
+      lastValid = count;
+    } catch {
+      // Keep looking: a later prefix may close a multi-line value
+    }
+  }
+
+  const line = lines[lastValid];
+  if (line === undefined) return undefined;
+
+  return {
+    line: lastValid + 1,
+    column: line.length - line.trimStart().length + 1,
+  };
+}
+
+/**
+ * Scan JSON text and return the offset of the first syntax error
+ */
+export function findJsonErrorOffset(text: string): number | undefined {
+  let i = 0;
+
+  const skipWhitespace = () => {
+    while (i < text.length && " \t\n\r".includes(text[i]!)) i++;
+  };
+
+  const scanString = () => {
+    i++; // opening quote
+    while (i < text.length) {
+      const ch = text[i]!;
+      if (ch === '"') {
+        i++;
+        return;
+      }
+      if (ch === "\\") {
+        i += 2;
+        continue;
+      }
+      if (ch < " ") throw i;
+      i++;
+    }
+    throw i;
+  };
+
+  const scanValue = (): void => {
+    skipWhitespace();
+    const ch = text[i];
+
+    if (ch === "{" || ch === "[") {
+      const close = ch === "{" ? "}" : "]";
+      i++;
+      skipWhitespace();
+      if (text[i] === close) {
+        i++;
+        return;
+      }
+      while (true) {
+        if (ch === "{") {
+          skipWhitespace();
+          if (text[i] !== '"') throw i;
+          scanString();
+          skipWhitespace();
+          if (text[i] !== ":") throw i;
+          i++;
+        }
+        scanValue();
+        skipWhitespace();
+        if (text[i] === ",") {
+          i++;
+          continue;
+        }
+        if (text[i] === close) {
+          i++;
+          return;
+        }
+        throw i;
+      }
+    }
+
+    if (ch === '"') {
+      scanString();
+      return;
+    }
+
+    const literal = /true|false|null|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+    literal.lastIndex = i;
+    if (literal.test(text)) {
+      i = literal.lastIndex;
+      return;
+    }
+
+    throw i;
+  };
+
+  try {
+    scanValue();
+    skipWhitespace();
+    if (i < text.length) throw i;
+    return undefined;
+  } catch (offset) {
+    if (typeof offset === "number") return Math.min(offset, text.length);
+    throw offset;
+  }
+}
+
+/**
+ * Find the position of a JSON-path-like key (e.g., "apps.worker.restartSec")
+ */
+export function locatePath(
+  text: string,
+  format: Exclude<ConfigFormat, "module">,
+  path: string
+): SourcePosition | undefined {
+  const segments = splitPath(path);
+  if (segments.length === 0) return undefined;
+
+  if (format === "toml") {
+    return locateTomlPath(text, segments);
+  }
+
+  // JSON and YAML: find each key in turn within the value of the previous
+  // one; a missing key points at its parent
+  let offset = 0;
+  let end = text.length;
+  let found: number | undefined;
+
+  for (const segment of segments) {
+    const key = escapeRegExp(segment);
+    const pattern =
+      format === "json"
+        ? new RegExp(`"${key}"\\s*:`, "g")
+        : new RegExp(`(?:^|[\\s{,])(?:"${key}"|'${key}'|${key})\\s*:`, "gm");
+
+    pattern.lastIndex = offset;
+    const match = pattern.exec(text);
+    if (!match || pattern.lastIndex > end) break;
+
+    found = match.index + match[0].search(/["'\w$-]/);
+    offset = pattern.lastIndex;
+    end = Math.min(end, findValueEnd(text, format, found, offset));
+  }
+
+  return found === undefined ? undefined : offsetToPosition(text, found);
+}
+
+/**
+ * Offset just past the value of the key at `keyOffset`, whose value
+ * starts at `offset`: the matching bracket of a flow collection, or for
+ * a YAML block the first line indented no deeper than the key
+ */
+function findValueEnd(
+  text: string,
+  format: "json" | "yaml",
+  keyOffset: number,
+  offset: number
+): number {
+  // In YAML, a value that starts on the next line is a block
+  const blank = format === "json" ? /\s/ : /[ \t]/;
+  let i = offset;
+  while (i < text.length && blank.test(text[i]!)) i++;
+
+  if (text[i] === "{" || text[i] === "[") {
+    return findClosingBracket(text, i);
+  }
+  if (format === "json") return i;
+
+  // YAML block: the lines below the key that are indented deeper
+  const keyIndent = keyOffset - (text.lastIndexOf("\n", keyOffset - 1) + 1);
+  let lineStart = text.indexOf("\n", offset) + 1;
+
+  while (lineStart > 0 && lineStart < text.length) {
+    const lineEnd = text.indexOf("\n", lineStart);
+    const line = text.slice(lineStart, lineEnd === -1 ? text.length : lineEnd);
+    const content = line.trimStart();
+    if (content !== "" && !content.startsWith("#") && line.length - content.length <= keyIndent) {
+      return lineStart;
+    }
+    lineStart = lineEnd + 1;
+  }
+
+  return text.length;
+}
+
+/**
+ * Offset just past the bracket closing the one at `start`, skipping strings
+ */
+function findClosingBracket(text: string, start: number): number {
+  let depth = 0;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"' || char === "'") {
+      // Skip the string; JSON escapes with a backslash
+      for (i++; i < text.length && text[i] !== char; i++) {
+        if (text[i] === "\\" && char === '"') i++;
+      }
+    } else if (char === "{" || char === "[") {
+      depth++;
+    } else if (char === "}" || char === "]") {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+
+  return text.length;
+}
+
+/**
+ * Find a key in TOML, which may sit under a [table] header, use a dotted
+ * key, or live in an inline table
+ */
+function locateTomlPath(
+  text: string,
+  segments: string[]
+): SourcePosition | undefined {
+  // Try the deepest table header first: [apps.worker] then restartSec = ...
+  for (let depth = segments.length - 1; depth >= 0; depth--) {
+    let offset = 0;
+
+    if (depth > 0) {
+      const header = segments.slice(0, depth).map(escapeRegExp).join("\\s*\\.\\s*");
+      const headerPattern = new RegExp(`^\\s*\\[\\[?\\s*${header}\\s*\\]\\]?`, "gm");
+      const headerMatch = headerPattern.exec(text);
+      if (!headerMatch) continue;
+      offset = headerPattern.lastIndex;
+    }
+
+    const rest = segments.slice(depth);
+    const tableEnd = findNextTomlHeader(text, offset);
+    const body = text.slice(0, tableEnd);
+
+    // Dotted key: worker.restartSec = ...
+    const dotted = new RegExp(
+      `^\\s*${rest.map(escapeRegExp).join("\\s*\\.\\s*")}\\s*=`,
+      "gm"
+    );
+    dotted.lastIndex = offset;
+    const dottedMatch = dotted.exec(body);
+    if (dottedMatch) {
+      return offsetToPosition(text, dottedMatch.index + dottedMatch[0].search(/\S/));
+    }
+
+    // Inline tables: worker = { restartSec = ... }
+    let position = offset;
+    let found: number | undefined;
+    for (const segment of rest) {
+      const pattern = new RegExp(`(?:^|[\\s{,])(?:"${escapeRegExp(segment)}"|${escapeRegExp(segment)})\\s*=`, "gm");
+      pattern.lastIndex = position;
+      const match = pattern.exec(body);
+      if (!match) {
+        found = undefined;
+        break;
+      }
+      found = match.index + match[0].search(/["\w$-]/);
+      position = pattern.lastIndex;
+    }
+
+    if (found !== undefined) {
+      return offsetToPosition(text, found);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Offset of the next [table] header after `offset` (or end of text)
+ */
+function findNextTomlHeader(text: string, offset: number): number {
+  const pattern = /^\s*\[/gm;
+  pattern.lastIndex = offset;
+  const match = pattern.exec(text);
+  return match ? match.index : text.length;
+}
+
+/**
+ * Split "apps.worker.env.PORT" / 'apps["my.app"].after[0]' into keys,
+ * dropping array indices
+ */
+function splitPath(path: string): string[] {
+  const segments: string[] = [];
+  const pattern = /\[("(?:[^"\\]|\\.)*")\]|\[\d+\]|([^.[\]]+)/g;
+
+  for (const match of path.matchAll(pattern)) {
+    if (match[1]) {
+      segments.push(JSON.parse(match[1]) as string);
+    } else if (match[2]) {
+      segments.push(match[2]);
+    }
+  }
+
+  return segments;
+}
+
+function offsetToPosition(text: string, offset: number): SourcePosition {
+  const before = text.slice(0, offset);
+  const line = before.split("\n").length;
+  const column = offset - before.lastIndexOf("\n");
+  return { line, column };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
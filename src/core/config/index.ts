@@ -1,5 +1,6 @@
 export { loadConfig, configExists } from "./loader";
-export { validateConfig } from "./validator";
+export { defineConfig } from "./define";
+export { validateConfig, collectConfigIssues } from "./validator";
 export {
   CONFIG_TEMPLATE,
   CONFIG_TEMPLATE_MINIMAL,
@@ -0,0 +1,136 @@
+import { ConfigError } from "../../utils/errors";
+
+/**
+ * Values available to `${...}` placeholders
+ */
+export interface InterpolationContext {
+  /** Directory containing the config file (`${configDir}`) */
+  configDir: string;
+
+  /** Resolved top-level vars (`${vars.X}`) */
+  vars: Record<string, string>;
+
+  /** Process environment (`${env:X}`) */
+  env: Readonly<Record<string, string | undefined>>;
+
+  /** Name of the app being normalized (`${app.name}`) */
+  appName?: string;
+}
+
+/**
+ * Matches `${ref}` and the escaped form `$${ref}`
+ */
+const PLACEHOLDER = /\$(\$?)\{([^}]*)\}/g;
+
+/**
+ * Check whether a `${ref}` is a bunman placeholder; anything else (e.g., a
+ * shell or systemd variable like `${PORT}` or `${MAINPID}`) is kept as written
+ */
+function isPlaceholder(ref: string): boolean {
+  return (
+    ref.startsWith("env:") ||
+    ref.startsWith("vars.") ||
+    ref.startsWith("app.") ||
+    ref === "configDir"
+  );
+}
+
+/**
+ * Substitute placeholders in a config string
+ *
+ * Supports `${env:NAME}`, `${app.name}`, `${configDir}` and `${vars.NAME}`;
+ * other `${...}` references are left alone, and `$${...}` produces a
+ * literal `${...}`.
+ *
+ * @param field Config path of the value, reported in errors
+ * @throws ConfigError if a placeholder cannot be resolved
+ */
+export function interpolate(
+  value: string,
+  ctx: InterpolationContext,
+  field: string
+): string {
+  return value.replace(PLACEHOLDER, (match, escaped: string, ref: string) => {
+    if (escaped) return match.slice(1);
+    const reference = ref.trim();
+    return isPlaceholder(reference) ? resolveReference(reference, ctx, field) : match;
+  });
+}
+
+/**
+ * Resolve the top-level `vars` map; vars may use `${env:...}` and
+ * `${configDir}` but not other vars or app placeholders
+ */
+export function resolveVars(
+  vars: Record<string, string> | undefined,
+  configDir: string,
+  env: Readonly<Record<string, string | undefined>>
+): Record<string, string> {
+  const resolved: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(vars ?? {})) {
+    resolved[name] = value.replace(PLACEHOLDER, (match, escaped: string, ref: string) => {
+      if (escaped) return match.slice(1);
+      const reference = ref.trim();
+      if (!isPlaceholder(reference)) return match;
+      if (reference.startsWith("vars.") || reference.startsWith("app.")) {
+        throw new ConfigError(
+          `Cannot use \${${reference}} in vars.${name}`,
+          "Vars may only reference ${env:NAME} and ${configDir}"
+        );
+      }
+      return resolveReference(reference, { configDir, vars: {}, env }, `vars.${name}`);
+    });
+  }
+
+  return resolved;
+}
+
+function resolveReference(
+  ref: string,
+  ctx: InterpolationContext,
+  field: string
+): string {
+  if (ref.startsWith("env:")) {
+    const name = ref.slice("env:".length);
+    const value = ctx.env[name];
+    if (value === undefined) {
+      throw unresolved(ref, field, `Set the ${name} environment variable`);
+    }
+    return value;
+  }
+
+  if (ref.startsWith("vars.")) {
+    const name = ref.slice("vars.".length);
+    const value = ctx.vars[name];
+    if (value === undefined) {
+      const available = Object.keys(ctx.vars);
+      throw unresolved(
+        ref,
+        field,
+        available.length > 0
+          ? `Defined vars: ${available.join(", ")}`
+          : `Define it under 'vars' in the config`
+      );
+    }
+    return value;
+  }
+
+  if (ref === "app.name" && ctx.appName !== undefined) {
+    return ctx.appName;
+  }
+
+  if (ref === "configDir") {
+    return ctx.configDir;
+  }
+
+  throw unresolved(
+    ref,
+    field,
+    "Supported placeholders: ${env:NAME}, ${app.name}, ${configDir}, ${vars.NAME}"
+  );
+}
+
+function unresolved(ref: string, field: string, help: string): ConfigError {
+  return new ConfigError(`Unresolved reference \${${ref}} in ${field}`, help);
+}
@@ -1,34 +1,194 @@
-import { resolve, dirname } from "path";
+import { resolve, dirname, relative } from "path";
+import { availableParallelism, hostname } from "os";
 import type {
+  AppHooks,
   BunmanConfig,
+  ConfigContext,
+  EnvironmentConfig,
   NormalizedConfig,
   NormalizedAppConfig,
+  NormalizedHooks,
+  NormalizedLogSettings,
+  NormalizedSystemdDirectives,
+  SecuritySettings,
+  SystemdDirectiveValue,
 } from "../../types/config";
-import { ConfigError } from "../../utils/errors";
-import { validateConfig } from "./validator";
+import {
+  ConfigError,
+  ConfigValidationError,
+  formatConfigIssue,
+} from "../../utils/errors";
+import { logger } from "../../utils/logger";
+import { validateConfig, collectConfigIssues, joinPath } from "./validator";
+import { mergeAppLayers } from "./merge";
+import { getConfigFormat, parseConfigText, locateIssues } from "./formats";
+import { composeConfigs, isRemoteSource, resolveConfigPaths } from "./compose";
+import { interpolate, resolveVars } from "./interpolate";
+import { listSecrets } from "../secrets";
+import type { AppLayer } from "./merge";
+import type { ConfigFormat } from "./formats";
+import type { ConfigSource } from "./compose";
+import type { InterpolationContext } from "./interpolate";
 import {
   CONFIG_NAMES,
   DEFAULT_SERVICE_PREFIX,
   DEFAULT_SERVICE_CONFIG,
 } from "../../constants";
 
+/**
+ * Options for loading the configuration
+ */
+export interface LoadConfigOptions {
+  /** Environment profile to apply (from --env or BUNMAN_ENV) */
+  environment?: string;
+}
+
 /**
  * Load and normalize the bunman configuration
  */
 export async function loadConfig(
-  cwd: string = process.cwd()
+  cwd: string = process.cwd(),
+  options: LoadConfigOptions = {}
 ): Promise<NormalizedConfig> {
   const configPath = await findConfigFile(cwd);
 
   if (!configPath) {
     throw new ConfigError(
-      "No bunman.config.ts found",
-      'Run "bunman init" to create a configuration file'
+      "No bunman config file found",
+      `Run "bunman init" to create one (supported: ${CONFIG_NAMES.join(", ")})`
     );
   }
 
-  let config: BunmanConfig;
+  const configDir = dirname(configPath);
+  const sources = await loadConfigSources(configPath, {
+    rootDir: configDir,
+    environment: options.environment,
+    chain: [],
+  });
+
+  // A single file has been fully validated already; a composed config is
+  // checked again as a whole (e.g., overrides of apps from other files)
+  const config = composeConfigs(sources);
+  if (sources.length > 1) {
+    validateConfig(config);
+  }
+
+  // Normalize config (resolve paths, apply defaults)
+  const normalized = normalizeConfig(
+    config,
+    configPath,
+    configDir,
+    options.environment
+  );
 
+  // Attach the names of stored secrets (values are decrypted at install time)
+  const secrets = await listSecrets(configDir);
+  for (const [name, app] of Object.entries(normalized.apps)) {
+    app.secrets = secrets[name] ?? [];
+    for (const secret of app.secrets) {
+      normalized.origins[name]![`secrets.${secret}`] = "secrets";
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * State carried while following `extends` and `include`
+ */
+interface SourceState {
+  /** Directory of the main config (file paths are reported relative to it) */
+  rootDir: string;
+
+  /** Selected environment profile */
+  environment?: string;
+
+  /** Files currently being loaded, to detect cycles */
+  chain: string[];
+}
+
+/**
+ * Load a config file and everything it extends or includes, lowest
+ * precedence first: extended bases, included files, then the file itself
+ */
+async function loadConfigSources(
+  configPath: string,
+  state: SourceState
+): Promise<ConfigSource[]> {
+  if (state.chain.includes(configPath)) {
+    const cycle = [...state.chain, configPath].map((path) =>
+      relative(state.rootDir, path)
+    );
+    throw new ConfigError(
+      `Circular config reference: ${cycle.join(" -> ")}`,
+      "Remove one of the extends/include entries"
+    );
+  }
+
+  const isRoot = state.chain.length === 0;
+  const label = relative(state.rootDir, configPath);
+  const configDir = dirname(configPath);
+  const { config, text, format } = await readConfigFile(configPath, state.environment);
+
+  const composed =
+    !isRoot ||
+    (typeof config === "object" &&
+      config !== null &&
+      ("extends" in config || "include" in config));
+
+  checkConfigFile(config, { partial: composed, text, format, label: isRoot ? undefined : label });
+
+  const { extends: bases, include, ...own } = config;
+  const childState = { ...state, chain: [...state.chain, configPath] };
+  const sources: ConfigSource[] = [];
+
+  for (const base of typeof bases === "string" ? [bases] : bases ?? []) {
+    const basePath = resolve(configDir, base);
+    if (!(await Bun.file(basePath).exists())) {
+      throw new ConfigError(
+        `Config to extend not found: ${base}`,
+        `Referenced from ${configPath}`
+      );
+    }
+    sources.push(...(await loadConfigSources(basePath, childState)));
+  }
+
+  for (const pattern of include ?? []) {
+    const matches = await Array.fromAsync(
+      new Bun.Glob(pattern).scan({ cwd: configDir, absolute: true, onlyFiles: true })
+    );
+    if (matches.length === 0) {
+      logger.warn(`include pattern "${pattern}" in ${label} matched no files`);
+    }
+    for (const match of matches.sort()) {
+      sources.push(...(await loadConfigSources(match, childState)));
+    }
+  }
+
+  // Paths in other files are relative to the file that defines them
+  sources.push({
+    path: label,
+    config: isRoot ? own : resolveConfigPaths(own, configDir),
+  });
+
+  return sources;
+}
+
+/**
+ * Read, parse or evaluate a single config file
+ */
+async function readConfigFile(
+  configPath: string,
+  environment?: string
+): Promise<{ config: unknown; text?: string; format: ConfigFormat }> {
+  const format = getConfigFormat(configPath);
+
+  if (format !== "module") {
+    const text = await Bun.file(configPath).text();
+    return { config: parseConfigText(text, format, configPath), text, format };
+  }
+
+  let config: unknown;
   try {
     // Bun can directly import .ts files
     const module = await import(configPath);
@@ -42,14 +202,64 @@ export async function loadConfig(
     );
   }
 
-  // Validate config structure
-  validateConfig(config);
+  // Function-style config: compute it from the runtime context
+  if (typeof config === "function") {
+    const ctx = createConfigContext(dirname(configPath), environment);
+    try {
+      config = await config(ctx);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error";
+      throw new ConfigError(
+        `Config function failed: ${message}`,
+        `Check the default export of ${configPath}`
+      );
+    }
+  }
 
-  // Normalize config (resolve paths, apply defaults)
-  const configDir = dirname(configPath);
-  const normalized = normalizeConfig(config, configPath, configDir);
+  return { config, format };
+}
 
-  return normalized;
+/**
+ * Validate one config file, pointing issues at their line where possible
+ * and logging warnings such as unknown keys
+ */
+function checkConfigFile(
+  config: unknown,
+  source: { partial: boolean; text?: string; format: ConfigFormat; label?: string }
+): asserts config is BunmanConfig {
+  let issues = collectConfigIssues(config, { partial: source.partial });
+
+  if (source.text !== undefined && source.format !== "module") {
+    issues = locateIssues(issues, source.text, source.format);
+  }
+  if (source.label !== undefined) {
+    issues = issues.map((issue) => ({ ...issue, file: source.label }));
+  }
+
+  if (issues.some((issue) => issue.severity === "error")) {
+    throw new ConfigValidationError(issues);
+  }
+
+  for (const issue of issues) {
+    logger.warn(formatConfigIssue(issue));
+  }
+}
+
+/**
+ * Build the context passed to a function-style config
+ */
+export function createConfigContext(
+  configDir: string,
+  environment?: string
+): ConfigContext {
+  return {
+    platform: process.platform,
+    hostname: hostname(),
+    environment,
+    configDir,
+    env: process.env,
+  };
 }
 
 /**
@@ -79,51 +289,191 @@ async function findConfigFile(startDir: string): Promise<string | null> {
 
 /**
  * Normalize the config by resolving paths and applying defaults
+ *
+ * Layers are merged in order (see `mergeAppLayers` for the rules):
+ * built-in defaults, global defaults, environment defaults, app config,
+ * environment app overrides. Placeholders such as `${vars.X}` are then
+ * substituted (see `interpolate`).
  */
-function normalizeConfig(
+export function normalizeConfig(
   config: BunmanConfig,
   configPath: string,
-  configDir: string
+  configDir: string,
+  environment?: string
 ): NormalizedConfig {
-  const defaults = config.defaults ?? {};
   const systemdPrefix = config.systemd?.prefix ?? DEFAULT_SERVICE_PREFIX;
+  const profile = environment
+    ? getEnvironment(config, environment)
+    : undefined;
 
   const apps: Record<string, NormalizedAppConfig> = {};
+  const origins: Record<string, Record<string, string>> = {};
+  const vars = resolveVars(config.vars, configDir, process.env);
 
   for (const [name, app] of Object.entries(config.apps)) {
-    // Merge defaults with app config
-    const merged = { ...defaults, ...app };
+    const layers: AppLayer[] = [
+      { name: "defaults", config: config.defaults },
+      { name: `environments.${environment}.defaults`, config: profile?.defaults },
+      { name: "app", config: app },
+      { name: `environments.${environment}.apps.${name}`, config: profile?.apps?.[name] },
+    ];
+
+    const result = mergeAppLayers(
+      { ...DEFAULT_SERVICE_CONFIG, description: `bunman service: ${name}` },
+      layers
+    );
+    const merged = result.app;
+
+    // Substitute ${...} placeholders before resolving paths
+    const ctx: InterpolationContext = { configDir, vars, env: process.env, appName: name };
+    const appPath = joinPath("apps", name);
+    const substitute = (key: string, value: string | undefined) =>
+      value === undefined ? undefined : interpolate(value, ctx, joinPath(appPath, key));
+
+    const env: Record<string, string> = {};
+    for (const [key, value] of Object.entries(merged.env)) {
+      env[key] = interpolate(value, ctx, joinPath(joinPath(appPath, "env"), key));
+    }
+
+    const envFile = substitute("envFile", merged.envFile);
+
+    const hooks: NormalizedHooks = {};
+    const hookEntries = Object.entries(merged.hooks) as Array<[keyof AppHooks, string | string[]]>;
+    for (const [key, value] of hookEntries) {
+      const hookPath = joinPath(joinPath(appPath, "hooks"), key);
+      hooks[key] = Array.isArray(value)
+        ? value.map((command, index) => interpolate(command, ctx, `${hookPath}[${index}]`))
+        : [interpolate(value, ctx, hookPath)];
+    }
+
+    const security: SecuritySettings = { ...merged.security };
+    if (security.readWritePaths) {
+      const pathsPath = joinPath(joinPath(appPath, "security"), "readWritePaths");
+      security.readWritePaths = security.readWritePaths.map((path, index) =>
+        resolve(configDir, interpolate(path, ctx, `${pathsPath}[${index}]`))
+      );
+    }
+
+    const logPath =
+      merged.logs.path === undefined
+        ? undefined
+        : interpolate(merged.logs.path, ctx, joinPath(joinPath(appPath, "logs"), "path"));
+    const logs: NormalizedLogSettings = {
+      target: merged.logs.target ?? DEFAULT_SERVICE_CONFIG.logs.target,
+      path: logPath ? resolve(configDir, logPath) : undefined,
+      maxSize: merged.logs.maxSize,
+      keep: merged.logs.keep ?? DEFAULT_SERVICE_CONFIG.logs.keep,
+    };
+
+    const systemd: NormalizedSystemdDirectives = {};
+    for (const [section, entries] of Object.entries(merged.systemd) as Array<
+      [keyof NormalizedSystemdDirectives, Record<string, SystemdDirectiveValue>]
+    >) {
+      const directives: Record<string, string[]> = {};
+      for (const [directive, value] of Object.entries(entries)) {
+        const directivePath = joinPath(joinPath(joinPath(appPath, "systemd"), section), directive);
+        directives[directive] = (Array.isArray(value) ? value : [value]).map((item) =>
+          typeof item === "string" ? interpolate(item, ctx, directivePath) : String(item)
+        );
+      }
+      systemd[section] = directives;
+    }
 
     apps[name] = {
-      // Required fields
-      cwd: resolve(configDir, merged.cwd),
-      command: merged.command,
+      // Required fields (enforced by the validator)
+      cwd: resolve(configDir, substitute("cwd", merged.cwd)!),
+      command: substitute("command", merged.command)!,
 
       // Optional fields with defaults
-      env: merged.env ?? DEFAULT_SERVICE_CONFIG.env,
-      envFile: merged.envFile ? resolve(configDir, merged.envFile) : undefined,
-      user: merged.user,
-      group: merged.group,
-      description: merged.description ?? `bunman service: ${name}`,
+      env,
+      envFile: envFile ? resolve(configDir, envFile) : undefined,
+      user: substitute("user", merged.user),
+      group: substitute("group", merged.group),
+      description: substitute("description", merged.description) ?? `bunman service: ${name}`,
       restart: merged.restart ?? DEFAULT_SERVICE_CONFIG.restart,
       restartSec: merged.restartSec ?? DEFAULT_SERVICE_CONFIG.restartSec,
-      after: merged.after ?? DEFAULT_SERVICE_CONFIG.after,
-      requires: merged.requires ?? DEFAULT_SERVICE_CONFIG.requires,
-      limits: merged.limits ?? DEFAULT_SERVICE_CONFIG.limits,
+      maxRestarts: merged.maxRestarts,
+      restartWindow: merged.restartWindow,
+      restartBackoff: merged.restartBackoff,
+      killSignal: merged.killSignal,
+      stopTimeout: merged.stopTimeout,
+      startTimeout: merged.startTimeout,
+      killMode: merged.killMode,
+      after: merged.after,
+      requires: merged.requires,
+      dependsOn: merged.dependsOn,
+      watch: merged.watch,
+      limits: merged.limits,
+      secrets: [],
+      instances: merged.instances === "max" ? availableParallelism() : merged.instances,
+      portBase: merged.portBase,
+      healthCheck: merged.healthCheck,
+      deploy: merged.deploy && {
+        ...merged.deploy,
+        source: resolveDeploySource(configDir, merged.deploy.source),
+      },
+      schedule: merged.schedule,
+      hooks,
+      hardening: merged.hardening ?? DEFAULT_SERVICE_CONFIG.hardening,
+      security,
+      systemd,
+      logs,
 
       // Computed fields
       serviceName: `${systemdPrefix}${name}`,
     };
+    origins[name] = result.origins;
   }
 
   return {
     ...config,
     configPath,
     configDir,
+    environment,
     apps,
+    origins,
+    systemd: {
+      prefix: systemdPrefix,
+      // Without an explicit setting, units go to the user's instance;
+      // system units need userMode: false or --system
+      userMode: config.systemd?.userMode ?? true,
+      unitPath: config.systemd?.unitPath
+        ? resolve(configDir, config.systemd.unitPath)
+        : undefined,
+    },
   };
 }
 
+/**
+ * Resolve a local deploy source against the config directory; URLs and
+ * scp-style remotes (e.g., "git@host:repo.git") are kept as written
+ */
+function resolveDeploySource(configDir: string, source: string): string {
+  return isRemoteSource(source) ? source : resolve(configDir, source);
+}
+
+/**
+ * Look up an environment profile by name
+ */
+function getEnvironment(
+  config: BunmanConfig,
+  environment: string
+): EnvironmentConfig {
+  const profile = config.environments?.[environment];
+
+  if (!profile) {
+    const available = Object.keys(config.environments ?? {});
+    throw new ConfigError(
+      `Unknown environment: ${environment}`,
+      available.length > 0
+        ? `Available environments: ${available.join(", ")}`
+        : "Define it under 'environments' in the config"
+    );
+  }
+
+  return profile;
+}
+
 /**
  * Check if a config file exists in the given directory
  */
@@ -0,0 +1,304 @@
+import type {
+  AppConfig,
+  AppHooks,
+  DeployConfig,
+  HardeningLevel,
+  HealthCheck,
+  KillMode,
+  KillSignal,
+  LogSettings,
+  ResourceLimits,
+  RestartBackoff,
+  RestartPolicy,
+  SecuritySettings,
+  SystemdDirectiveValue,
+  SystemdDirectives,
+} from "../../types/config";
+
+/**
+ * A named layer of app configuration (e.g., "defaults" or "app")
+ */
+export interface AppLayer {
+  /** Layer name, reported as the origin of the values it sets */
+  name: string;
+
+  /** Partial app config contributed by this layer */
+  config?: Partial<AppConfig>;
+}
+
+/**
+ * App config after all layers have been merged (paths not yet resolved)
+ */
+export interface MergedAppConfig {
+  cwd?: string;
+  command?: string;
+  env: Record<string, string>;
+  envFile?: string;
+  user?: string;
+  group?: string;
+  description?: string;
+  restart?: RestartPolicy;
+  restartSec?: number;
+  maxRestarts?: number;
+  restartWindow?: number;
+  restartBackoff?: RestartBackoff;
+  killSignal?: KillSignal;
+  stopTimeout?: number;
+  startTimeout?: number;
+  killMode?: KillMode;
+  after: string[];
+  requires: string[];
+  dependsOn: string[];
+  watch: string[];
+  limits: ResourceLimits;
+  hooks: AppHooks;
+  hardening?: HardeningLevel;
+  security: SecuritySettings;
+  logs: LogSettings;
+  systemd: { [S in keyof SystemdDirectives]?: Record<string, SystemdDirectiveValue> };
+  instances?: number | "max";
+  portBase?: number;
+  healthCheck?: HealthCheck;
+  deploy?: DeployConfig;
+  schedule?: string;
+}
+
+/**
+ * Result of merging app layers
+ */
+export interface MergeResult {
+  /** Merged values */
+  app: MergedAppConfig;
+
+  /** Layer name for each value, keyed by path (e.g., "env.PORT", "after[0]") */
+  origins: Record<string, string>;
+}
+
+/**
+ * Name of the layer holding bunman's built-in defaults
+ */
+export const BUILTIN_LAYER = "builtin";
+
+type RecordKey = "env" | "limits" | "hooks" | "security" | "logs";
+type ListKey = "after" | "requires" | "dependsOn" | "watch";
+type SystemdSection = keyof SystemdDirectives;
+
+/** A merged value and the layer it came from */
+interface Entry<T> {
+  value: T;
+  origin: string;
+}
+
+const RECORD_KEYS: readonly RecordKey[] = ["env", "limits", "hooks", "security", "logs"];
+const LIST_KEYS: readonly ListKey[] = ["after", "requires", "dependsOn", "watch"];
+
+type ScalarKey = Exclude<keyof MergedAppConfig, RecordKey | ListKey | "systemd">;
+
+// A record rather than a list, so that a new scalar field cannot be missed
+const SCALAR_FIELDS: Record<ScalarKey, true> = {
+  cwd: true,
+  command: true,
+  envFile: true,
+  user: true,
+  group: true,
+  description: true,
+  restart: true,
+  restartSec: true,
+  maxRestarts: true,
+  restartWindow: true,
+  restartBackoff: true,
+  killSignal: true,
+  stopTimeout: true,
+  startTimeout: true,
+  killMode: true,
+  hardening: true,
+  instances: true,
+  portBase: true,
+  healthCheck: true,
+  deploy: true,
+  schedule: true,
+};
+
+function isScalarKey(key: string): key is ScalarKey {
+  return key in SCALAR_FIELDS;
+}
+
+/**
+ * Merge app config layers, lowest precedence first
+ *
+ * - Scalars: the last layer that sets a value wins
+ * - `env`: merged per variable
+ * - `limits`, `hooks`, `security` and `logs`: merged per field
+ * - `systemd`: merged per directive within each section
+ * - `after`/`requires`/`dependsOn`/`watch`: concatenated and deduplicated
+ * - `null` unsets the inherited value: scalars fall back to the built-in
+ *   default (if any), keys of records are removed, and a `null` list
+ *   or record (or `systemd` section) clears everything inherited so far
+ */
+export function mergeAppLayers(
+  builtin: Partial<AppConfig>,
+  layers: AppLayer[]
+): MergeResult {
+  const scalars: Pick<Partial<AppConfig>, ScalarKey> = {};
+  const records = {
+    env: new Map<string, Entry<string>>(),
+    limits: new Map<string, Entry<unknown>>(),
+    hooks: new Map<string, Entry<unknown>>(),
+    security: new Map<string, Entry<unknown>>(),
+    logs: new Map<string, Entry<unknown>>(),
+  };
+  const lists: Record<ListKey, Array<Entry<string>>> = {
+    after: [],
+    requires: [],
+    dependsOn: [],
+    watch: [],
+  };
+  // Raw systemd directives, keyed by "section.Directive"
+  const directives = new Map<string, Entry<SystemdDirectiveValue>>();
+  const origins: Record<string, string> = {};
+
+  function mergeScalar<K extends ScalarKey>(
+    key: K,
+    config: Partial<AppConfig>,
+    origin: string
+  ): void {
+    if (config[key] === undefined) return;
+
+    if (config[key] === null) {
+      // Fall back to the built-in default, if there is one
+      if (builtin[key] !== undefined && builtin[key] !== null) {
+        scalars[key] = builtin[key];
+        origins[key] = BUILTIN_LAYER;
+      } else {
+        delete scalars[key];
+        delete origins[key];
+      }
+    } else {
+      scalars[key] = config[key];
+      origins[key] = origin;
+    }
+  }
+
+  for (const layer of [{ name: BUILTIN_LAYER, config: builtin }, ...layers]) {
+    if (!layer.config) continue;
+
+    for (const [key, value] of Object.entries(layer.config)) {
+      if (value === undefined) continue;
+
+      if ((RECORD_KEYS as readonly string[]).includes(key)) {
+        const record = records[key as RecordKey];
+        if (value === null) {
+          record.clear();
+          continue;
+        }
+        for (const [field, fieldValue] of Object.entries(value)) {
+          if (fieldValue === undefined) continue;
+          if (fieldValue === null) {
+            record.delete(field);
+          } else {
+            record.set(field, { value: fieldValue, origin: layer.name });
+          }
+        }
+      } else if (key === "systemd") {
+        if (value === null) {
+          directives.clear();
+          continue;
+        }
+        for (const [section, entries] of Object.entries(value)) {
+          if (entries === undefined) continue;
+          if (entries === null) {
+            for (const name of directives.keys()) {
+              if (name.startsWith(`${section}.`)) directives.delete(name);
+            }
+            continue;
+          }
+          for (const [name, entry] of Object.entries<SystemdDirectiveValue | null>(entries)) {
+            if (entry === undefined) continue;
+            if (entry === null) {
+              directives.delete(`${section}.${name}`);
+            } else {
+              directives.set(`${section}.${name}`, { value: entry, origin: layer.name });
+            }
+          }
+        }
+      } else if ((LIST_KEYS as readonly string[]).includes(key)) {
+        const list = lists[key as ListKey];
+        if (value === null) {
+          list.length = 0;
+          continue;
+        }
+        for (const item of value as string[]) {
+          if (!list.some((entry) => entry.value === item)) {
+            list.push({ value: item, origin: layer.name });
+          }
+        }
+      } else if (isScalarKey(key)) {
+        mergeScalar(key, layer.config, layer.name);
+      }
+    }
+  }
+
+  function collectRecord<T>(key: RecordKey, entries: Map<string, Entry<T>>): Record<string, T> {
+    const record: Record<string, T> = {};
+    for (const [field, entry] of entries) {
+      record[field] = entry.value;
+      origins[`${key}.${field}`] = entry.origin;
+    }
+    return record;
+  }
+
+  function collectList(key: ListKey): string[] {
+    return lists[key].map((entry, index) => {
+      origins[`${key}[${index}]`] = entry.origin;
+      return entry.value;
+    });
+  }
+
+  const systemd: MergedAppConfig["systemd"] = {};
+  for (const [path, entry] of directives) {
+    const [section, name] = path.split(".") as [SystemdSection, string];
+    (systemd[section] ??= {})[name] = entry.value;
+    origins[`systemd.${path}`] = entry.origin;
+  }
+
+  // Nulls never reach the scalars (they unset the value), but their type allows them
+  const values: { [K in ScalarKey]: MergedAppConfig[K] | undefined } = {
+    cwd: scalars.cwd ?? undefined,
+    command: scalars.command ?? undefined,
+    envFile: scalars.envFile ?? undefined,
+    user: scalars.user ?? undefined,
+    group: scalars.group ?? undefined,
+    description: scalars.description ?? undefined,
+    restart: scalars.restart ?? undefined,
+    restartSec: scalars.restartSec ?? undefined,
+    maxRestarts: scalars.maxRestarts ?? undefined,
+    restartWindow: scalars.restartWindow ?? undefined,
+    restartBackoff: scalars.restartBackoff ?? undefined,
+    killSignal: scalars.killSignal ?? undefined,
+    stopTimeout: scalars.stopTimeout ?? undefined,
+    startTimeout: scalars.startTimeout ?? undefined,
+    killMode: scalars.killMode ?? undefined,
+    hardening: scalars.hardening ?? undefined,
+    instances: scalars.instances ?? undefined,
+    portBase: scalars.portBase ?? undefined,
+    healthCheck: scalars.healthCheck ?? undefined,
+    deploy: scalars.deploy ?? undefined,
+    schedule: scalars.schedule ?? undefined,
+  };
+
+  const app: MergedAppConfig = {
+    ...values,
+    env: collectRecord("env", records.env),
+    limits: collectRecord("limits", records.limits),
+    hooks: collectRecord("hooks", records.hooks),
+    security: collectRecord("security", records.security),
+    logs: collectRecord("logs", records.logs),
+    systemd,
+    after: collectList("after"),
+    requires: collectList("requires"),
+    dependsOn: collectList("dependsOn"),
+    watch: collectList("watch"),
+  };
+
+  return { app, origins };
+}
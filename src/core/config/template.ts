@@ -1,3 +1,5 @@
+import type { DetectedApp } from "./detect";
+
 /**
  * Default config template for `bunman init`
  */
@@ -37,6 +39,15 @@ const config: BunmanConfig = {
   //   prefix: "bunman-",
   //   userMode: false,
   // },
+
+  // Environment profiles (select with --env or BUNMAN_ENV)
+  // environments: {
+  //   production: {
+  //     apps: {
+  //       api: { env: { NODE_ENV: "production" }, user: "www-data" },
+  //     },
+  //   },
+  // },
 };
 
 export default config;
@@ -101,3 +112,36 @@ const config: BunmanConfig = {
 
 export default config;
 `;
+
+/**
+ * Config file for apps detected from workspaces (`bunman init --detect`)
+ */
+export function renderDetectedConfig(apps: DetectedApp[]): string {
+  const entries = apps.map((app) => {
+    const lines = [
+      `    ${formatKey(app.name)}: {`,
+      `      cwd: ${JSON.stringify(app.cwd)},`,
+      `      command: ${JSON.stringify(app.command)},`,
+    ];
+    if (app.description) {
+      lines.push(`      description: ${JSON.stringify(app.description)},`);
+    }
+    lines.push("    },");
+    return lines.join("\n");
+  });
+
+  return `import type { BunmanConfig } from "bunman";
+
+const config: BunmanConfig = {
+  apps: {
+${entries.join("\n")}
+  },
+};
+
+export default config;
+`;
+}
+
+function formatKey(name: string): string {
+  return /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
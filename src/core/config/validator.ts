@@ -1,5 +1,29 @@
-import type { BunmanConfig, AppConfig, RestartPolicy } from "../../types/config";
-import { ConfigError } from "../../utils/errors";
+import type {
+  AppConfig,
+  AppHooks,
+  BatchSettings,
+  BunmanConfig,
+  ConfigIssue,
+  DeployConfig,
+  EnvironmentConfig,
+  HardeningLevel,
+  HealthCheck,
+  KillMode,
+  KillSignal,
+  LogSettings,
+  LogTarget,
+  ResourceLimits,
+  RestartBackoff,
+  RestartPolicy,
+  SecuritySettings,
+  SystemdDirectives,
+  SystemdSettings,
+} from "../../types/config";
+import { ConfigError, ConfigValidationError } from "../../utils/errors";
+import { findClosestMatch } from "../../utils/suggest";
+import { isCronExpression, parseCron } from "../schedule";
+import { findDependencyCycle } from "../dependencies";
+import { MANAGED_DIRECTIVES, isDirectiveName } from "../systemd/directives";
 
 const VALID_RESTART_POLICIES: RestartPolicy[] = [
   "always",
@@ -8,213 +32,1663 @@ const VALID_RESTART_POLICIES: RestartPolicy[] = [
   "no",
 ];
 
+const VALID_KILL_SIGNALS: KillSignal[] = [
+  "SIGTERM",
+  "SIGINT",
+  "SIGQUIT",
+  "SIGHUP",
+  "SIGUSR1",
+  "SIGUSR2",
+  "SIGKILL",
+];
+
+const VALID_KILL_MODES: KillMode[] = ["control-group", "mixed", "process", "none"];
+
+const VALID_HARDENING_LEVELS: HardeningLevel[] = ["none", "basic", "strict"];
+
+const VALID_LOG_TARGETS: LogTarget[] = ["journal", "file"];
+
+/**
+ * Known keys for each config section (used for unknown-key detection)
+ */
+const CONFIG_KEYS: Record<keyof BunmanConfig, true> = {
+  apps: true,
+  defaults: true,
+  systemd: true,
+  environments: true,
+  extends: true,
+  include: true,
+  vars: true,
+  batch: true,
+};
+
+const APP_KEYS: Record<keyof AppConfig, true> = {
+  cwd: true,
+  command: true,
+  env: true,
+  envFile: true,
+  user: true,
+  group: true,
+  description: true,
+  restart: true,
+  restartSec: true,
+  maxRestarts: true,
+  restartWindow: true,
+  restartBackoff: true,
+  killSignal: true,
+  stopTimeout: true,
+  startTimeout: true,
+  killMode: true,
+  after: true,
+  requires: true,
+  dependsOn: true,
+  watch: true,
+  limits: true,
+  instances: true,
+  portBase: true,
+  healthCheck: true,
+  deploy: true,
+  schedule: true,
+  hooks: true,
+  hardening: true,
+  security: true,
+  systemd: true,
+  logs: true,
+};
+
+const LIMIT_KEYS: Record<keyof ResourceLimits, true> = {
+  memory: true,
+  cpu: true,
+  nofile: true,
+  nproc: true,
+};
+
+const HOOK_KEYS: Record<keyof AppHooks, true> = {
+  preStart: true,
+  postStart: true,
+  reload: true,
+  preStop: true,
+  postStop: true,
+};
+
+const SECURITY_KEYS: Record<keyof SecuritySettings, true> = {
+  privateTmp: true,
+  noNewPrivileges: true,
+  protectSystem: true,
+  protectHome: true,
+  privateDevices: true,
+  protectKernelTunables: true,
+  protectKernelModules: true,
+  protectControlGroups: true,
+  restrictAddressFamilies: true,
+  restrictNamespaces: true,
+  restrictRealtime: true,
+  restrictSUIDSGID: true,
+  lockPersonality: true,
+  readWritePaths: true,
+};
+
+const BACKOFF_KEYS: Record<keyof RestartBackoff, true> = {
+  maxDelay: true,
+  steps: true,
+};
+
+const HEALTH_CHECK_KEYS: Record<keyof HealthCheck, true> = {
+  http: true,
+  port: true,
+  timeout: true,
+};
+
+const DEPLOY_KEYS: Record<keyof DeployConfig, true> = {
+  source: true,
+  ref: true,
+  install: true,
+  build: true,
+  keep: true,
+};
+
+const LOG_KEYS: Record<keyof LogSettings, true> = {
+  target: true,
+  path: true,
+  maxSize: true,
+  keep: true,
+};
+
+const DIRECTIVE_SECTION_KEYS: Record<keyof SystemdDirectives, true> = {
+  unit: true,
+  service: true,
+  install: true,
+};
+
+const SYSTEMD_KEYS: Record<keyof SystemdSettings, true> = {
+  unitPath: true,
+  prefix: true,
+  userMode: true,
+};
+
+const BATCH_KEYS: Record<keyof BatchSettings, true> = {
+  parallel: true,
+  failFast: true,
+};
+
+const ENVIRONMENT_KEYS: Record<keyof EnvironmentConfig, true> = {
+  defaults: true,
+  apps: true,
+};
+
+/**
+ * Options for config validation
+ */
+export interface ValidateConfigOptions {
+  /**
+   * Validate one file of a composed config: `apps` may be missing or empty,
+   * and environment overrides may target apps defined in other files
+   */
+  partial?: boolean;
+}
+
 /**
  * Validate the bunman configuration structure
+ * @throws ConfigValidationError listing every issue if any error is found
+ */
+export function validateConfig(
+  config: unknown,
+  options: ValidateConfigOptions = {}
+): asserts config is BunmanConfig {
+  const issues = collectConfigIssues(config, options);
+
+  if (issues.some((issue) => issue.severity === "error")) {
+    throw new ConfigValidationError(issues);
+  }
+}
+
+/**
+ * Collect every validation issue in the config without throwing
  */
-export function validateConfig(config: unknown): asserts config is BunmanConfig {
-  if (!config || typeof config !== "object") {
-    throw new ConfigError(
-      "Invalid config: expected an object",
+export function collectConfigIssues(
+  config: unknown,
+  options: ValidateConfigOptions = {}
+): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+
+  if (!isPlainObject(config)) {
+    addError(
+      issues,
+      "config",
+      "expected an object",
       "Config must export a default object with 'apps' property"
     );
+    return issues;
   }
 
-  const configObj = config as Record<string, unknown>;
+  checkUnknownKeys(issues, "", config, CONFIG_KEYS);
 
   // Check apps property exists
-  if (!("apps" in configObj)) {
-    throw new ConfigError(
-      "Invalid config: missing 'apps' property",
-      "Config must have an 'apps' object with service definitions"
-    );
-  }
+  const apps = config["apps"];
+  const appNames = isPlainObject(apps) ? Object.keys(apps) : [];
 
-  if (typeof configObj["apps"] !== "object" || configObj["apps"] === null) {
-    throw new ConfigError(
-      "Invalid config: 'apps' must be an object",
+  // In a partial config the apps may come from other files
+  if (apps === undefined) {
+    if (!options.partial) {
+      addError(
+        issues,
+        "apps",
+        "missing 'apps' property",
+        "Config must have an 'apps' object with service definitions"
+      );
+    }
+  } else if (!isPlainObject(apps)) {
+    addError(
+      issues,
+      "apps",
+      "must be an object",
       "Apps should be an object mapping service names to configurations"
     );
+  } else if (appNames.length === 0) {
+    if (!options.partial) {
+      addError(
+        issues,
+        "apps",
+        "no apps defined",
+        "Define at least one app in the 'apps' object"
+      );
+    }
+  } else {
+    for (const [name, app] of Object.entries(apps)) {
+      validateAppConfig(issues, joinPath("apps", name), app);
+    }
+
+    // In a partial config the dependencies may be defined in other files
+    if (!options.partial) {
+      validateDependencies(issues, config, apps);
+    }
+  }
+
+  // Validate defaults if present
+  if (config["defaults"] !== undefined) {
+    validateDefaults(issues, "defaults", config["defaults"]);
+  }
+
+  // Validate systemd settings if present
+  if (config["systemd"] !== undefined) {
+    validateSystemdSettings(issues, "systemd", config["systemd"]);
   }
 
-  const apps = configObj["apps"] as Record<string, unknown>;
+  // Validate batch settings if present
+  if (config["batch"] !== undefined) {
+    validateBatchSettings(issues, "batch", config["batch"]);
+  }
 
-  // Check at least one app is defined
-  if (Object.keys(apps).length === 0) {
-    throw new ConfigError(
-      "Invalid config: no apps defined",
-      "Define at least one app in the 'apps' object"
+  // Validate environment profiles if present
+  if (config["environments"] !== undefined) {
+    validateEnvironments(
+      issues,
+      config["environments"],
+      options.partial ? undefined : appNames
     );
   }
 
-  // Validate each app
-  for (const [name, app] of Object.entries(apps)) {
-    validateAppConfig(name, app);
+  // Validate vars if present
+  if (config["vars"] !== undefined) {
+    validateVars(issues, config["vars"]);
   }
 
-  // Validate defaults if present
-  if ("defaults" in configObj && configObj["defaults"] !== undefined) {
-    validateDefaults(configObj["defaults"]);
+  // Validate composition if present
+  if (config["extends"] !== undefined) {
+    const value = config["extends"];
+    if (Array.isArray(value)) {
+      validatePathList(issues, "extends", value);
+    } else {
+      checkNonEmptyString(
+        issues,
+        "extends",
+        value,
+        "Path to a base config file, or an array of paths"
+      );
+    }
   }
 
-  // Validate systemd settings if present
-  if ("systemd" in configObj && configObj["systemd"] !== undefined) {
-    validateSystemdSettings(configObj["systemd"]);
+  if (config["include"] !== undefined) {
+    validatePathList(issues, "include", config["include"]);
   }
+
+  return issues;
 }
 
 /**
  * Validate a single app configuration
  */
-function validateAppConfig(name: string, app: unknown): asserts app is AppConfig {
-  if (!app || typeof app !== "object") {
-    throw new ConfigError(
-      `Invalid config for app '${name}': expected an object`,
-      `Each app must be an object with 'cwd' and 'command' properties`
+function validateAppConfig(
+  issues: ConfigIssue[],
+  path: string,
+  app: unknown
+): void {
+  if (!isPlainObject(app)) {
+    addError(
+      issues,
+      path,
+      "expected an object",
+      "Each app must be an object with 'cwd' and 'command' properties"
     );
+    return;
   }
 
-  const appObj = app as Record<string, unknown>;
-
   // Required: cwd
-  if (!("cwd" in appObj) || typeof appObj["cwd"] !== "string") {
-    throw new ConfigError(
-      `Invalid config for app '${name}': missing or invalid 'cwd'`,
+  if (app["cwd"] === undefined) {
+    addError(
+      issues,
+      joinPath(path, "cwd"),
+      "missing required field",
       "'cwd' must be a string path to the working directory"
     );
   }
 
-  if (appObj["cwd"].length === 0) {
-    throw new ConfigError(
-      `Invalid config for app '${name}': 'cwd' cannot be empty`,
-      "Provide a valid working directory path"
+  // Required: command
+  if (app["command"] === undefined) {
+    addError(
+      issues,
+      joinPath(path, "command"),
+      "missing required field",
+      "'command' must be a string (e.g., 'bun run start')"
     );
   }
 
-  // Required: command
-  if (!("command" in appObj) || typeof appObj["command"] !== "string") {
-    throw new ConfigError(
-      `Invalid config for app '${name}': missing or invalid 'command'`,
-      "'command' must be a string (e.g., 'bun run start')"
+  validateAppFields(issues, path, app);
+}
+
+/**
+ * Validate the fields of an app config, defaults block or app override
+ */
+function validateAppFields(
+  issues: ConfigIssue[],
+  path: string,
+  app: Record<string, unknown>
+): void {
+  checkUnknownKeys(issues, path, app, APP_KEYS);
+
+  // cwd/command (required on apps, optional on overrides, never unset)
+  for (const key of ["cwd", "command"] as const) {
+    if (app[key] === null) {
+      addError(
+        issues,
+        joinPath(path, key),
+        "cannot be unset",
+        `Every app needs a '${key}'`
+      );
+    }
+  }
+
+  if (isSet(app["cwd"])) {
+    checkNonEmptyString(
+      issues,
+      joinPath(path, "cwd"),
+      app["cwd"],
+      "Provide a valid working directory path"
     );
   }
 
-  if (appObj["command"].length === 0) {
-    throw new ConfigError(
-      `Invalid config for app '${name}': 'command' cannot be empty`,
-      "Provide a valid command to run"
+  if (isSet(app["command"])) {
+    checkNonEmptyString(
+      issues,
+      joinPath(path, "command"),
+      app["command"],
+      "Provide a valid command to run (e.g., 'bun run start')"
     );
   }
 
   // Optional: env
-  if ("env" in appObj && appObj["env"] !== undefined) {
-    if (typeof appObj["env"] !== "object" || appObj["env"] === null) {
-      throw new ConfigError(
-        `Invalid config for app '${name}': 'env' must be an object`,
-        "Environment variables should be key-value pairs"
+  if (isSet(app["env"])) {
+    validateEnv(issues, joinPath(path, "env"), app["env"]);
+  }
+
+  // Optional: envFile
+  if (isSet(app["envFile"])) {
+    checkNonEmptyString(
+      issues,
+      joinPath(path, "envFile"),
+      app["envFile"],
+      "Specify a path to an environment file (e.g., '.env')"
+    );
+  }
+
+  // Optional: description
+  if (isSet(app["description"]) && typeof app["description"] !== "string") {
+    addError(
+      issues,
+      joinPath(path, "description"),
+      "must be a string",
+      "Describe the service in a single line"
+    );
+  }
+
+  // Optional: restart
+  if (
+    isSet(app["restart"]) &&
+    !VALID_RESTART_POLICIES.includes(app["restart"] as RestartPolicy)
+  ) {
+    addError(
+      issues,
+      joinPath(path, "restart"),
+      `invalid value ${JSON.stringify(app["restart"])}`,
+      `Valid values: ${VALID_RESTART_POLICIES.join(", ")}`
+    );
+  }
+
+  // Optional: restartSec
+  if (
+    isSet(app["restartSec"]) &&
+    (typeof app["restartSec"] !== "number" || app["restartSec"] < 0)
+  ) {
+    addError(
+      issues,
+      joinPath(path, "restartSec"),
+      "must be a non-negative number",
+      "Specify restart delay in seconds"
+    );
+  }
+
+  // Optional: maxRestarts
+  if (
+    isSet(app["maxRestarts"]) &&
+    !(Number.isInteger(app["maxRestarts"]) && (app["maxRestarts"] as number) >= 1)
+  ) {
+    addError(
+      issues,
+      joinPath(path, "maxRestarts"),
+      "must be a positive integer",
+      "Number of starts allowed within restartWindow, e.g. 5"
+    );
+  }
+
+  // Optional: restartWindow
+  if (
+    isSet(app["restartWindow"]) &&
+    !(typeof app["restartWindow"] === "number" && app["restartWindow"] > 0)
+  ) {
+    addError(
+      issues,
+      joinPath(path, "restartWindow"),
+      "must be a positive number",
+      "Window for maxRestarts in seconds, e.g. 60"
+    );
+  }
+
+  // Optional: restartBackoff
+  if (isSet(app["restartBackoff"])) {
+    validateRestartBackoff(issues, joinPath(path, "restartBackoff"), app["restartBackoff"]);
+  }
+
+  // Optional: killSignal
+  if (
+    isSet(app["killSignal"]) &&
+    !VALID_KILL_SIGNALS.includes(app["killSignal"] as KillSignal)
+  ) {
+    addError(
+      issues,
+      joinPath(path, "killSignal"),
+      `invalid value ${JSON.stringify(app["killSignal"])}`,
+      `Valid values: ${VALID_KILL_SIGNALS.join(", ")}`
+    );
+  }
+
+  // Optional: stopTimeout/startTimeout
+  for (const key of ["stopTimeout", "startTimeout"] as const) {
+    if (
+      isSet(app[key]) &&
+      !(typeof app[key] === "number" && (app[key] as number) > 0)
+    ) {
+      addError(
+        issues,
+        joinPath(path, key),
+        "must be a positive number",
+        key === "stopTimeout"
+          ? "Seconds to wait for a graceful stop before the process is killed"
+          : "Seconds to wait for the service to start"
       );
     }
   }
 
-  // Optional: restart
-  if ("restart" in appObj && appObj["restart"] !== undefined) {
-    if (!VALID_RESTART_POLICIES.includes(appObj["restart"] as RestartPolicy)) {
-      throw new ConfigError(
-        `Invalid config for app '${name}': invalid 'restart' value`,
-        `Valid values: ${VALID_RESTART_POLICIES.join(", ")}`
+  // Optional: killMode
+  if (
+    isSet(app["killMode"]) &&
+    !VALID_KILL_MODES.includes(app["killMode"] as KillMode)
+  ) {
+    addError(
+      issues,
+      joinPath(path, "killMode"),
+      `invalid value ${JSON.stringify(app["killMode"])}`,
+      `Valid values: ${VALID_KILL_MODES.join(", ")}`
+    );
+  }
+
+  // Optional: user/group
+  if (isSet(app["user"]) && typeof app["user"] !== "string") {
+    addError(
+      issues,
+      joinPath(path, "user"),
+      "must be a string",
+      "Specify unix username to run as"
+    );
+  }
+
+  if (isSet(app["group"]) && typeof app["group"] !== "string") {
+    addError(
+      issues,
+      joinPath(path, "group"),
+      "must be a string",
+      "Specify unix group to run as"
+    );
+  }
+
+  // Optional: after/requires
+  for (const key of ["after", "requires"] as const) {
+    if (isSet(app[key])) {
+      validateUnitList(issues, joinPath(path, key), app[key]);
+    }
+  }
+
+  // Optional: dependsOn (app names are checked against the config later)
+  if (isSet(app["dependsOn"])) {
+    validateAppNameList(issues, joinPath(path, "dependsOn"), app["dependsOn"]);
+  }
+
+  // Optional: watch
+  if (
+    isSet(app["watch"]) &&
+    !(
+      Array.isArray(app["watch"]) &&
+      app["watch"].every((glob) => typeof glob === "string" && glob.length > 0)
+    )
+  ) {
+    addError(
+      issues,
+      joinPath(path, "watch"),
+      "must be an array of non-empty glob patterns",
+      "Example: ['src/**/*.ts', 'package.json']"
+    );
+  }
+
+  // Optional: limits
+  if (isSet(app["limits"])) {
+    validateLimits(issues, joinPath(path, "limits"), app["limits"]);
+  }
+
+  // Optional: hooks
+  if (isSet(app["hooks"])) {
+    validateHooks(issues, joinPath(path, "hooks"), app["hooks"]);
+  }
+
+  // Optional: hardening
+  if (
+    isSet(app["hardening"]) &&
+    !VALID_HARDENING_LEVELS.includes(app["hardening"] as HardeningLevel)
+  ) {
+    addError(
+      issues,
+      joinPath(path, "hardening"),
+      `invalid value ${JSON.stringify(app["hardening"])}`,
+      `Valid values: ${VALID_HARDENING_LEVELS.join(", ")}`
+    );
+  }
+
+  // Optional: security
+  if (isSet(app["security"])) {
+    validateSecurity(issues, joinPath(path, "security"), app["security"]);
+  }
+
+  // Optional: logs
+  if (isSet(app["logs"])) {
+    validateLogs(issues, joinPath(path, "logs"), app["logs"]);
+  }
+
+  // Optional: systemd
+  if (isSet(app["systemd"])) {
+    validateDirectives(issues, joinPath(path, "systemd"), app["systemd"]);
+  }
+
+  // Optional: instances
+  if (
+    isSet(app["instances"]) &&
+    app["instances"] !== "max" &&
+    !(Number.isInteger(app["instances"]) && (app["instances"] as number) >= 1)
+  ) {
+    addError(
+      issues,
+      joinPath(path, "instances"),
+      'must be a positive integer or "max"',
+      'Use e.g. 4, or "max" for one instance per CPU'
+    );
+  }
+
+  // Optional: portBase
+  if (
+    isSet(app["portBase"]) &&
+    !(
+      Number.isInteger(app["portBase"]) &&
+      (app["portBase"] as number) >= 1 &&
+      (app["portBase"] as number) <= 65535
+    )
+  ) {
+    addError(
+      issues,
+      joinPath(path, "portBase"),
+      "must be a port number (1-65535)",
+      "Instance N listens on portBase + N - 1"
+    );
+  }
+
+  // Optional: healthCheck
+  if (isSet(app["healthCheck"])) {
+    validateHealthCheck(issues, joinPath(path, "healthCheck"), app["healthCheck"]);
+  }
+
+  // Optional: deploy
+  if (isSet(app["deploy"])) {
+    validateDeploy(issues, joinPath(path, "deploy"), app["deploy"]);
+
+    // Releases live next to the "current" link the app runs from
+    if (typeof app["cwd"] === "string" && !/(^|\/)current\/?$/.test(app["cwd"])) {
+      addError(
+        issues,
+        joinPath(path, "cwd"),
+        "must end with a 'current' directory when deploy is set",
+        "bunman deploy links the active release there, e.g. '/srv/api/current'"
       );
     }
   }
 
-  // Optional: restartSec
-  if ("restartSec" in appObj && appObj["restartSec"] !== undefined) {
-    if (typeof appObj["restartSec"] !== "number" || appObj["restartSec"] < 0) {
-      throw new ConfigError(
-        `Invalid config for app '${name}': 'restartSec' must be a non-negative number`,
-        "Specify restart delay in seconds"
+  // Optional: schedule
+  if (isSet(app["schedule"])) {
+    validateSchedule(issues, joinPath(path, "schedule"), app["schedule"]);
+
+    if (isSet(app["instances"])) {
+      addError(
+        issues,
+        joinPath(path, "schedule"),
+        "cannot be combined with instances",
+        "A scheduled job runs a single process per trigger"
       );
     }
   }
+}
 
-  // Optional: user/group
-  if ("user" in appObj && appObj["user"] !== undefined) {
-    if (typeof appObj["user"] !== "string") {
-      throw new ConfigError(
-        `Invalid config for app '${name}': 'user' must be a string`,
-        "Specify unix username to run as"
+/**
+ * Validate a job schedule (cron expressions are checked field by field;
+ * OnCalendar values are left to systemd)
+ */
+function validateSchedule(
+  issues: ConfigIssue[],
+  path: string,
+  schedule: unknown
+): void {
+  if (typeof schedule !== "string" || schedule.trim() === "") {
+    addError(
+      issues,
+      path,
+      "must be a non-empty string",
+      'Use a cron expression (e.g., "0 2 * * *") or OnCalendar syntax (e.g., "daily")'
+    );
+    return;
+  }
+
+  if (isCronExpression(schedule)) {
+    try {
+      parseCron(schedule);
+    } catch (error) {
+      if (!(error instanceof ConfigError)) throw error;
+      addError(issues, path, error.message, error.help);
+    }
+  }
+}
+
+/**
+ * Validate environment variables
+ */
+function validateEnv(issues: ConfigIssue[], path: string, env: unknown): void {
+  if (!isPlainObject(env)) {
+    addError(
+      issues,
+      path,
+      "must be an object",
+      "Environment variables should be key-value pairs"
+    );
+    return;
+  }
+
+  for (const [key, value] of Object.entries(env)) {
+    // null removes an inherited variable
+    if (value !== null && typeof value !== "string") {
+      addError(
+        issues,
+        joinPath(path, key),
+        "must be a string",
+        typeof value === "number" || typeof value === "boolean"
+          ? `Quote the value: ${key}: "${value}"`
+          : "Environment variable values must be strings"
       );
     }
   }
+}
 
-  if ("group" in appObj && appObj["group"] !== undefined) {
-    if (typeof appObj["group"] !== "string") {
-      throw new ConfigError(
-        `Invalid config for app '${name}': 'group' must be a string`,
-        "Specify unix group to run as"
+/**
+ * Validate a list of systemd unit names (after/requires)
+ */
+function validateUnitList(
+  issues: ConfigIssue[],
+  path: string,
+  units: unknown
+): void {
+  if (!Array.isArray(units)) {
+    addError(
+      issues,
+      path,
+      "must be an array of unit names",
+      "Example: [\"network.target\", \"postgresql.service\"]"
+    );
+    return;
+  }
+
+  units.forEach((unit, index) => {
+    if (typeof unit !== "string" || unit.length === 0) {
+      addError(
+        issues,
+        `${path}[${index}]`,
+        "must be a non-empty string",
+        "Use a systemd unit name such as 'network.target'"
       );
     }
+  });
+}
+
+/**
+ * Validate a list of app names (dependsOn)
+ */
+function validateAppNameList(
+  issues: ConfigIssue[],
+  path: string,
+  names: unknown
+): void {
+  if (!Array.isArray(names)) {
+    addError(
+      issues,
+      path,
+      "must be an array of app names",
+      "Example: [\"api\", \"db\"]"
+    );
+    return;
+  }
+
+  names.forEach((name, index) => {
+    if (typeof name !== "string" || name.length === 0) {
+      addError(
+        issues,
+        `${path}[${index}]`,
+        "must be a non-empty string",
+        "Use the name of another app in the config"
+      );
+    }
+  });
+}
+
+/**
+ * Check that dependsOn refers to defined apps and has no cycles
+ *
+ * Lists are checked as merged into each app (see `mergeAppLayers`), with
+ * and without each environment, so entries from defaults count as well
+ */
+function validateDependencies(
+  issues: ConfigIssue[],
+  config: Record<string, unknown>,
+  apps: Record<string, unknown>
+): void {
+  const appNames = Object.keys(apps);
+  const environments = isPlainObject(config["environments"]) ? config["environments"] : {};
+  const profiles: Array<[string | undefined, unknown]> = [
+    [undefined, undefined],
+    ...Object.entries(environments),
+  ];
+  const reported = new Set<string>();
+  const report = (path: string, message: string, help: string): void => {
+    if (reported.has(`${path}: ${message}`)) return;
+    reported.add(`${path}: ${message}`);
+    addError(issues, path, message, help);
+  };
+
+  for (const [envName, profile] of profiles) {
+    const profilePath = envName === undefined ? undefined : joinPath("environments", envName);
+    const overrides = isPlainObject(profile) ? profile["apps"] : undefined;
+    const graph: Record<string, string[]> = {};
+
+    for (const [name, app] of Object.entries(apps)) {
+      const appPath = joinPath("apps", name);
+      const layers: Array<[string, unknown]> = [["defaults", config["defaults"]]];
+      if (profilePath && isPlainObject(profile)) {
+        layers.push([`${profilePath}.defaults`, profile["defaults"]]);
+      }
+      layers.push([appPath, app]);
+      if (profilePath && isPlainObject(overrides)) {
+        layers.push([`${profilePath}.${appPath}`, overrides[name]]);
+      }
+
+      // Concatenated and deduplicated; null clears what was inherited
+      const entries: Array<{ dependency: string; path: string }> = [];
+      for (const [layerPath, layer] of layers) {
+        const dependsOn = isPlainObject(layer) ? layer["dependsOn"] : undefined;
+        if (dependsOn === null) {
+          entries.length = 0;
+        } else if (Array.isArray(dependsOn)) {
+          dependsOn.forEach((dependency, index) => {
+            if (typeof dependency !== "string" || dependency.length === 0) return;
+            if (entries.some((entry) => entry.dependency === dependency)) return;
+            entries.push({ dependency, path: `${joinPath(layerPath, "dependsOn")}[${index}]` });
+          });
+        }
+      }
+
+      graph[name] = [];
+      for (const { dependency, path } of entries) {
+        if (dependency === name) {
+          if (path.startsWith(`${appPath}.`)) {
+            report(path, "an app cannot depend on itself", "Remove it from 'dependsOn'");
+          } else {
+            report(
+              path,
+              `makes app '${name}' depend on itself`,
+              "Set 'dependsOn' on the apps that need it rather than in defaults"
+            );
+          }
+        } else if (!apps[dependency]) {
+          const suggestion = findClosestMatch(dependency, appNames);
+          report(
+            path,
+            `depends on unknown app '${dependency}'`,
+            suggestion
+              ? `Did you mean '${suggestion}'?`
+              : `Available apps: ${appNames.join(", ")}`
+          );
+        } else {
+          graph[name]!.push(dependency);
+        }
+      }
+    }
+
+    const cycle = findDependencyCycle(graph);
+    if (cycle) {
+      report(
+        joinPath(joinPath("apps", cycle[0]!), "dependsOn"),
+        `dependency cycle: ${cycle.join(" -> ")}`,
+        "Remove one of the 'dependsOn' entries to break the cycle"
+      );
+    }
+  }
+}
+
+/**
+ * Validate the top-level vars map
+ */
+function validateVars(issues: ConfigIssue[], vars: unknown): void {
+  if (!isPlainObject(vars)) {
+    addError(
+      issues,
+      "vars",
+      "must be an object",
+      "Map names to values used as ${vars.NAME}"
+    );
+    return;
+  }
+
+  for (const [name, value] of Object.entries(vars)) {
+    if (typeof value !== "string") {
+      addError(
+        issues,
+        joinPath("vars", name),
+        "must be a string",
+        typeof value === "number" || typeof value === "boolean"
+          ? `Quote the value: ${name}: "${value}"`
+          : "Vars are substituted into strings"
+      );
+    }
+  }
+}
+
+/**
+ * Validate a list of config file paths or glob patterns (extends/include)
+ */
+function validatePathList(
+  issues: ConfigIssue[],
+  path: string,
+  paths: unknown
+): void {
+  if (!Array.isArray(paths)) {
+    addError(
+      issues,
+      path,
+      "must be an array of paths",
+      "Example: [\"apps/*/bunman.config.ts\"]"
+    );
+    return;
+  }
+
+  paths.forEach((entry, index) => {
+    if (typeof entry !== "string" || entry.length === 0) {
+      addError(
+        issues,
+        `${path}[${index}]`,
+        "must be a non-empty string",
+        "Paths are relative to the config file"
+      );
+    }
+  });
+}
+
+/**
+ * Validate resource limits
+ */
+function validateLimits(
+  issues: ConfigIssue[],
+  path: string,
+  limits: unknown
+): void {
+  if (!isPlainObject(limits)) {
+    addError(
+      issues,
+      path,
+      "must be an object",
+      "Limits may contain memory, cpu, nofile and nproc"
+    );
+    return;
+  }
+
+  checkUnknownKeys(issues, path, limits, LIMIT_KEYS);
+
+  const hints: Record<keyof ResourceLimits, string> = {
+    memory: "Max memory in MB (e.g., 512)",
+    cpu: "CPU quota percentage, 100 = 1 core (e.g., 50)",
+    nofile: "Max number of open file descriptors (e.g., 65536)",
+    nproc: "Max number of processes (e.g., 4096)",
+  };
+
+  for (const key of Object.keys(LIMIT_KEYS) as Array<keyof ResourceLimits>) {
+    const value = limits[key];
+    if (!isSet(value)) continue;
+
+    const integer = key === "nofile" || key === "nproc";
+    if (
+      typeof value !== "number" ||
+      value <= 0 ||
+      (integer && !Number.isInteger(value))
+    ) {
+      addError(
+        issues,
+        joinPath(path, key),
+        integer ? "must be a positive integer" : "must be a positive number",
+        hints[key]
+      );
+    }
+  }
+}
+
+/**
+ * Validate lifecycle hooks (a command or a list of commands each)
+ */
+function validateHooks(
+  issues: ConfigIssue[],
+  path: string,
+  hooks: unknown
+): void {
+  if (!isPlainObject(hooks)) {
+    addError(
+      issues,
+      path,
+      "must be an object",
+      "Hooks may contain preStart, postStart, reload, preStop and postStop"
+    );
+    return;
+  }
+
+  checkUnknownKeys(issues, path, hooks, HOOK_KEYS);
+
+  for (const key of Object.keys(HOOK_KEYS) as Array<keyof AppHooks>) {
+    const value = hooks[key];
+    if (!isSet(value)) continue;
+
+    const commands = Array.isArray(value) ? value : [value];
+    const valid =
+      commands.length > 0 &&
+      commands.every((command) => typeof command === "string" && command.trim() !== "");
+
+    if (!valid) {
+      addError(
+        issues,
+        joinPath(path, key),
+        "must be a command or a non-empty array of commands",
+        "Example: 'bun run migrate' or ['bun run migrate', 'bun run seed']"
+      );
+    }
+  }
+}
+
+/**
+ * Validate sandboxing overrides
+ */
+function validateSecurity(
+  issues: ConfigIssue[],
+  path: string,
+  security: unknown
+): void {
+  if (!isPlainObject(security)) {
+    addError(
+      issues,
+      path,
+      "must be an object",
+      "Override single settings of the hardening preset, e.g. { privateDevices: false }"
+    );
+    return;
+  }
+
+  checkUnknownKeys(issues, path, security, SECURITY_KEYS);
+
+  for (const key of Object.keys(SECURITY_KEYS) as Array<keyof SecuritySettings>) {
+    const value = security[key];
+    if (!isSet(value)) continue;
+
+    switch (key) {
+      case "protectSystem":
+        if (!["strict", "full", "yes", "no"].includes(value as string)) {
+          addError(
+            issues,
+            joinPath(path, key),
+            `invalid value ${JSON.stringify(value)}`,
+            "Valid values: strict, full, yes, no"
+          );
+        }
+        break;
+
+      case "protectHome":
+        if (typeof value !== "boolean" && value !== "read-only" && value !== "tmpfs") {
+          addError(
+            issues,
+            joinPath(path, key),
+            `invalid value ${JSON.stringify(value)}`,
+            'Valid values: true, false, "read-only", "tmpfs"'
+          );
+        }
+        break;
+
+      case "restrictAddressFamilies":
+      case "readWritePaths":
+        if (
+          !Array.isArray(value) ||
+          !value.every((item) => typeof item === "string" && item.length > 0)
+        ) {
+          addError(
+            issues,
+            joinPath(path, key),
+            "must be an array of non-empty strings",
+            key === "readWritePaths"
+              ? "Example: ['/var/lib/myapp']"
+              : "Example: ['AF_UNIX', 'AF_INET', 'AF_INET6']"
+          );
+        }
+        break;
+
+      default:
+        if (typeof value !== "boolean") {
+          addError(issues, joinPath(path, key), "must be a boolean", "Use true or false");
+        }
+    }
+  }
+}
+
+/**
+ * Validate a growing restart delay
+ */
+function validateRestartBackoff(
+  issues: ConfigIssue[],
+  path: string,
+  backoff: unknown
+): void {
+  if (!isPlainObject(backoff)) {
+    addError(
+      issues,
+      path,
+      "must be an object",
+      "Example: { maxDelay: 60, steps: 5 }"
+    );
+    return;
+  }
+
+  checkUnknownKeys(issues, path, backoff, BACKOFF_KEYS);
+
+  if (!(typeof backoff["maxDelay"] === "number" && backoff["maxDelay"] > 0)) {
+    addError(
+      issues,
+      joinPath(path, "maxDelay"),
+      "must be a positive number",
+      "Longest delay between restarts in seconds, e.g. 60"
+    );
+  }
+
+  if (!(Number.isInteger(backoff["steps"]) && (backoff["steps"] as number) >= 1)) {
+    addError(
+      issues,
+      joinPath(path, "steps"),
+      "must be a positive integer",
+      "Number of restarts it takes to reach maxDelay, e.g. 5"
+    );
+  }
+}
+
+/**
+ * Validate the readiness check used by rolling reloads
+ */
+function validateHealthCheck(issues: ConfigIssue[], path: string, check: unknown): void {
+  if (!isPlainObject(check)) {
+    addError(
+      issues,
+      path,
+      "must be an object",
+      "Example: { http: '/health', timeout: 30 }"
+    );
+    return;
+  }
+
+  checkUnknownKeys(issues, path, check, HEALTH_CHECK_KEYS);
+
+  const http = check["http"];
+  if (
+    http !== undefined &&
+    !(typeof http === "string" && (http.startsWith("/") || /^https?:\/\//.test(http)))
+  ) {
+    addError(
+      issues,
+      joinPath(path, "http"),
+      "must be a path starting with '/' or an http(s) URL",
+      "Example: '/health'"
+    );
+  }
+
+  const port = check["port"];
+  if (
+    port !== undefined &&
+    !(Number.isInteger(port) && (port as number) >= 1 && (port as number) <= 65535)
+  ) {
+    addError(
+      issues,
+      joinPath(path, "port"),
+      "must be a port number (1-65535)",
+      "Defaults to the instance's port from portBase"
+    );
+  }
+
+  const timeout = check["timeout"];
+  if (timeout !== undefined && !(typeof timeout === "number" && timeout > 0)) {
+    addError(
+      issues,
+      joinPath(path, "timeout"),
+      "must be a positive number",
+      "Seconds an instance has to become healthy, e.g. 30"
+    );
+  }
+}
+
+/**
+ * Validate how releases are built by `bunman deploy`
+ */
+function validateDeploy(issues: ConfigIssue[], path: string, deploy: unknown): void {
+  if (!isPlainObject(deploy)) {
+    addError(
+      issues,
+      path,
+      "must be an object",
+      "Example: { source: 'git@github.com:me/api.git', build: 'bun run build' }"
+    );
+    return;
+  }
+
+  checkUnknownKeys(issues, path, deploy, DEPLOY_KEYS);
+
+  if (deploy["source"] === undefined) {
+    addError(
+      issues,
+      joinPath(path, "source"),
+      "missing required field",
+      "Git repository to deploy from (URL or local path)"
+    );
+  } else {
+    checkNonEmptyString(
+      issues,
+      joinPath(path, "source"),
+      deploy["source"],
+      "Git repository to deploy from (URL or local path)"
+    );
+  }
+
+  for (const key of ["ref", "install", "build"] as const) {
+    if (isSet(deploy[key])) {
+      checkNonEmptyString(
+        issues,
+        joinPath(path, key),
+        deploy[key],
+        key === "ref" ? "Branch or tag, e.g. 'main'" : "Shell command run in the release"
+      );
+    }
+  }
+
+  if (
+    isSet(deploy["keep"]) &&
+    !(Number.isInteger(deploy["keep"]) && (deploy["keep"] as number) >= 1)
+  ) {
+    addError(
+      issues,
+      joinPath(path, "keep"),
+      "must be a positive integer",
+      "Number of releases kept for rollbacks, e.g. 5"
+    );
+  }
+}
+
+/**
+ * Validate log output and rotation settings
+ */
+function validateLogs(issues: ConfigIssue[], path: string, logs: unknown): void {
+  if (!isPlainObject(logs)) {
+    addError(
+      issues,
+      path,
+      "must be an object",
+      "Example: { target: 'file', maxSize: 10, keep: 5 }"
+    );
+    return;
+  }
+
+  checkUnknownKeys(issues, path, logs, LOG_KEYS);
+
+  if (isSet(logs["target"]) && !VALID_LOG_TARGETS.includes(logs["target"] as LogTarget)) {
+    addError(
+      issues,
+      joinPath(path, "target"),
+      `invalid value ${JSON.stringify(logs["target"])}`,
+      `Valid values: ${VALID_LOG_TARGETS.join(", ")}`
+    );
+  }
+
+  if (
+    isSet(logs["path"]) &&
+    (typeof logs["path"] !== "string" || logs["path"].length === 0)
+  ) {
+    addError(
+      issues,
+      joinPath(path, "path"),
+      "must be a non-empty string",
+      "Example: './logs/api.log'"
+    );
+  }
+
+  if (
+    isSet(logs["maxSize"]) &&
+    !(typeof logs["maxSize"] === "number" && logs["maxSize"] > 0)
+  ) {
+    addError(
+      issues,
+      joinPath(path, "maxSize"),
+      "must be a positive number",
+      "Size in MB, e.g. 10"
+    );
+  }
+
+  if (
+    isSet(logs["keep"]) &&
+    !(Number.isInteger(logs["keep"]) && (logs["keep"] as number) >= 0)
+  ) {
+    addError(
+      issues,
+      joinPath(path, "keep"),
+      "must be a non-negative integer",
+      "Number of rotated files to keep, e.g. 5"
+    );
+  }
+}
+
+/**
+ * Validate raw systemd directives, warning about those bunman writes itself
+ */
+function validateDirectives(
+  issues: ConfigIssue[],
+  path: string,
+  directives: unknown
+): void {
+  if (!isPlainObject(directives)) {
+    addError(
+      issues,
+      path,
+      "must be an object",
+      "Example: { service: { LimitCORE: 'infinity', Nice: 5 } }"
+    );
+    return;
+  }
+
+  checkUnknownKeys(issues, path, directives, DIRECTIVE_SECTION_KEYS);
+
+  for (const section of Object.keys(DIRECTIVE_SECTION_KEYS) as Array<keyof SystemdDirectives>) {
+    const entries = directives[section];
+    if (!isSet(entries)) continue;
+
+    const sectionPath = joinPath(path, section);
+    if (!isPlainObject(entries)) {
+      addError(
+        issues,
+        sectionPath,
+        "must be an object",
+        "Map directive names to values, e.g. { Nice: 5 }"
+      );
+      continue;
+    }
+
+    for (const [name, value] of Object.entries(entries)) {
+      const directivePath = joinPath(sectionPath, name);
+
+      if (!isDirectiveName(name)) {
+        addError(
+          issues,
+          directivePath,
+          "is not a systemd directive name",
+          "Directives are CamelCase (e.g., LimitCORE, RequiresMountsFor) or start with X-"
+        );
+        continue;
+      }
+
+      if (!isSet(value)) continue;
+
+      const values = Array.isArray(value) ? value : [value];
+      const valid =
+        values.length > 0 &&
+        values.every(
+          (item) =>
+            typeof item === "number" ||
+            typeof item === "boolean" ||
+            (typeof item === "string" && !/[\r\n]/.test(item))
+        );
+
+      if (!valid) {
+        addError(
+          issues,
+          directivePath,
+          "must be a string, number, boolean or a non-empty array of them",
+          "Values cannot contain line breaks; use an array to repeat a directive"
+        );
+        continue;
+      }
+
+      if (name in MANAGED_DIRECTIVES[section]) {
+        const option = MANAGED_DIRECTIVES[section][name];
+        addWarning(
+          issues,
+          directivePath,
+          "overrides a directive bunman manages",
+          option
+            ? `Prefer the '${option}' option unless you need to replace bunman's value`
+            : "bunman's value is replaced by this one"
+        );
+      }
+    }
   }
 }
 
 /**
  * Validate defaults configuration
  */
-function validateDefaults(defaults: unknown): void {
-  if (typeof defaults !== "object" || defaults === null) {
-    throw new ConfigError(
-      "Invalid config: 'defaults' must be an object",
+function validateDefaults(
+  issues: ConfigIssue[],
+  path: string,
+  defaults: unknown
+): void {
+  if (!isPlainObject(defaults)) {
+    addError(
+      issues,
+      path,
+      "must be an object",
       "Defaults should contain partial app configuration"
     );
+    return;
   }
 
   // Defaults can contain any AppConfig fields except cwd and command
-  const defaultsObj = defaults as Record<string, unknown>;
-
-  if ("cwd" in defaultsObj) {
-    throw new ConfigError(
-      "Invalid config: 'cwd' cannot be in defaults",
+  if (defaults["cwd"] !== undefined) {
+    addError(
+      issues,
+      joinPath(path, "cwd"),
+      "cannot be set in defaults",
       "Each app must specify its own working directory"
     );
   }
 
-  if ("command" in defaultsObj) {
-    throw new ConfigError(
-      "Invalid config: 'command' cannot be in defaults",
+  if (defaults["command"] !== undefined) {
+    addError(
+      issues,
+      joinPath(path, "command"),
+      "cannot be set in defaults",
       "Each app must specify its own command"
     );
   }
+
+  const { cwd: _cwd, command: _command, ...rest } = defaults;
+  validateAppFields(issues, path, rest);
 }
 
 /**
  * Validate systemd settings
  */
-function validateSystemdSettings(settings: unknown): void {
-  if (typeof settings !== "object" || settings === null) {
-    throw new ConfigError(
-      "Invalid config: 'systemd' must be an object",
+function validateSystemdSettings(
+  issues: ConfigIssue[],
+  path: string,
+  settings: unknown
+): void {
+  if (!isPlainObject(settings)) {
+    addError(
+      issues,
+      path,
+      "must be an object",
       "Systemd settings should contain unit path or prefix options"
     );
+    return;
   }
 
-  const settingsObj = settings as Record<string, unknown>;
+  checkUnknownKeys(issues, path, settings, SYSTEMD_KEYS);
 
-  if ("unitPath" in settingsObj && typeof settingsObj["unitPath"] !== "string") {
-    throw new ConfigError(
-      "Invalid config: 'systemd.unitPath' must be a string",
+  if (settings["unitPath"] !== undefined && typeof settings["unitPath"] !== "string") {
+    addError(
+      issues,
+      joinPath(path, "unitPath"),
+      "must be a string",
       "Specify path to systemd unit directory"
     );
   }
 
-  if ("prefix" in settingsObj && typeof settingsObj["prefix"] !== "string") {
-    throw new ConfigError(
-      "Invalid config: 'systemd.prefix' must be a string",
+  if (settings["prefix"] !== undefined && typeof settings["prefix"] !== "string") {
+    addError(
+      issues,
+      joinPath(path, "prefix"),
+      "must be a string",
       "Specify service name prefix (default: 'bunman-')"
     );
   }
 
-  if ("userMode" in settingsObj && typeof settingsObj["userMode"] !== "boolean") {
-    throw new ConfigError(
-      "Invalid config: 'systemd.userMode' must be a boolean",
+  if (settings["userMode"] !== undefined && typeof settings["userMode"] !== "boolean") {
+    addError(
+      issues,
+      joinPath(path, "userMode"),
+      "must be a boolean",
       "Set to true to use user-level systemd"
     );
   }
 }
+
+/**
+ * Validate batch execution settings
+ */
+function validateBatchSettings(
+  issues: ConfigIssue[],
+  path: string,
+  settings: unknown
+): void {
+  if (!isPlainObject(settings)) {
+    addError(
+      issues,
+      path,
+      "must be an object",
+      "Batch settings should contain 'parallel' or 'failFast'"
+    );
+    return;
+  }
+
+  checkUnknownKeys(issues, path, settings, BATCH_KEYS);
+
+  const parallel = settings["parallel"];
+  if (parallel !== undefined && !(Number.isInteger(parallel) && (parallel as number) >= 1)) {
+    addError(
+      issues,
+      joinPath(path, "parallel"),
+      "must be a positive integer",
+      "Number of services to handle at once (e.g., 4)"
+    );
+  }
+
+  if (settings["failFast"] !== undefined && typeof settings["failFast"] !== "boolean") {
+    addError(
+      issues,
+      joinPath(path, "failFast"),
+      "must be a boolean",
+      "Set to true to stop after the first failure"
+    );
+  }
+}
+
+/**
+ * Validate environment profiles
+ */
+function validateEnvironments(
+  issues: ConfigIssue[],
+  environments: unknown,
+  appNames?: string[]
+): void {
+  if (!isPlainObject(environments)) {
+    addError(
+      issues,
+      "environments",
+      "must be an object",
+      "Environments should map profile names to overrides"
+    );
+    return;
+  }
+
+  for (const [envName, profile] of Object.entries(environments)) {
+    const profilePath = joinPath("environments", envName);
+
+    if (!isPlainObject(profile)) {
+      addError(
+        issues,
+        profilePath,
+        "must be an object",
+        "An environment may contain 'defaults' and 'apps' overrides"
+      );
+      continue;
+    }
+
+    checkUnknownKeys(issues, profilePath, profile, ENVIRONMENT_KEYS);
+
+    if (profile["defaults"] !== undefined) {
+      validateDefaults(issues, joinPath(profilePath, "defaults"), profile["defaults"]);
+    }
+
+    const overrides = profile["apps"];
+    if (overrides === undefined) continue;
+
+    const appsPath = joinPath(profilePath, "apps");
+    if (!isPlainObject(overrides)) {
+      addError(
+        issues,
+        appsPath,
+        "must be an object",
+        "Map app names to the fields to override"
+      );
+      continue;
+    }
+
+    for (const [appName, override] of Object.entries(overrides)) {
+      const overridePath = joinPath(appsPath, appName);
+
+      // Without app names (partial validation) the app may be defined elsewhere
+      if (appNames && !appNames.includes(appName)) {
+        const suggestion = findClosestMatch(appName, appNames);
+        addError(
+          issues,
+          overridePath,
+          `overrides unknown app '${appName}'`,
+          suggestion
+            ? `Did you mean '${suggestion}'?`
+            : `Available apps: ${appNames.join(", ")}`
+        );
+        continue;
+      }
+
+      if (!isPlainObject(override)) {
+        addError(
+          issues,
+          overridePath,
+          "must be an object",
+          "App overrides should contain partial app configuration"
+        );
+        continue;
+      }
+
+      validateAppFields(issues, overridePath, override);
+    }
+  }
+}
+
+/**
+ * Report keys that are not part of a config section
+ */
+function checkUnknownKeys(
+  issues: ConfigIssue[],
+  path: string,
+  obj: Record<string, unknown>,
+  known: Record<string, true>
+): void {
+  const knownKeys = Object.keys(known);
+
+  for (const key of Object.keys(obj)) {
+    if (key in known) continue;
+
+    const suggestion = findClosestMatch(key, knownKeys);
+    issues.push({
+      path: joinPath(path, key),
+      message: "unknown key",
+      severity: "warning",
+      hint: suggestion
+        ? `Did you mean '${suggestion}'?`
+        : `Known keys: ${knownKeys.join(", ")}`,
+    });
+  }
+}
+
+/**
+ * Report a value that must be a non-empty string
+ */
+function checkNonEmptyString(
+  issues: ConfigIssue[],
+  path: string,
+  value: unknown,
+  hint: string
+): void {
+  if (typeof value !== "string") {
+    addError(issues, path, "must be a string", hint);
+  } else if (value.length === 0) {
+    addError(issues, path, "cannot be empty", hint);
+  }
+}
+
+/**
+ * Record an error-level issue
+ */
+function addError(
+  issues: ConfigIssue[],
+  path: string,
+  message: string,
+  hint?: string
+): void {
+  issues.push({ path, message, severity: "error", hint });
+}
+
+/**
+ * Record a warning-level issue
+ */
+function addWarning(
+  issues: ConfigIssue[],
+  path: string,
+  message: string,
+  hint?: string
+): void {
+  issues.push({ path, message, severity: "warning", hint });
+}
+
+/**
+ * Append a key to a JSON-path-like location
+ */
+export function joinPath(base: string, key: string): string {
+  const segment = /^[A-Za-z_$][\w$-]*$/.test(key) ? key : `[${JSON.stringify(key)}]`;
+  if (!base) return segment;
+  return segment.startsWith("[") ? `${base}${segment}` : `${base}.${segment}`;
+}
+
+/**
+ * Check that a value is present (null explicitly unsets inherited values)
+ */
+function isSet(value: unknown): boolean {
+  return value !== undefined && value !== null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
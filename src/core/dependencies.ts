@@ -0,0 +1,160 @@
+import type { NormalizedAppConfig } from "../types/config";
+import { ConfigError } from "../utils/errors";
+import { getInstanceServiceName, isClustered, parseInstanceName } from "./instances";
+
+/**
+ * Find a cycle in a dependency graph of app names
+ * @returns the apps along the cycle, ending with the first one again
+ *   (e.g., ["api", "worker", "api"]), or undefined if there is none
+ */
+export function findDependencyCycle(
+  graph: Record<string, string[]>
+): string[] | undefined {
+  return visitInOrder(Object.keys(graph), (name) => graph[name] ?? []).cycle;
+}
+
+/**
+ * Order services so each one comes after the apps it depends on, keeping
+ * config order otherwise; dependencies outside the list are ignored and
+ * the instances of a clustered app stay together
+ * @throws ConfigError if the services depend on each other in a cycle
+ */
+export function sortByDependencies(
+  services: Array<[string, NormalizedAppConfig]>
+): Array<[string, NormalizedAppConfig]> {
+  const groups = new Map<string, Array<[string, NormalizedAppConfig]>>();
+  for (const service of services) {
+    const name = parseInstanceName(service[0]).serviceName;
+    groups.set(name, [...(groups.get(name) ?? []), service]);
+  }
+
+  const { order, cycle } = visitInOrder([...groups.keys()], (name) =>
+    groups.get(name)![0]![1].dependsOn.filter((dependency) => groups.has(dependency))
+  );
+
+  if (cycle) {
+    throw new ConfigError(
+      `Dependency cycle: ${cycle.join(" -> ")}`,
+      "Remove one of the 'dependsOn' entries to break the cycle"
+    );
+  }
+
+  return order.flatMap((name) => groups.get(name)!);
+}
+
+/**
+ * Split services into waves that can run concurrently: each wave only
+ * depends on earlier ones, and keeps the order of `sortByDependencies`
+ * @throws ConfigError if the services depend on each other in a cycle
+ */
+export function getDependencyWaves(
+  services: Array<[string, NormalizedAppConfig]>
+): Array<Array<[string, NormalizedAppConfig]>> {
+  const sorted = sortByDependencies(services);
+  const levels = new Map<string, number>();
+  const waves: Array<Array<[string, NormalizedAppConfig]>> = [];
+
+  for (const service of sorted) {
+    const name = parseInstanceName(service[0]).serviceName;
+    let level = levels.get(name);
+
+    if (level === undefined) {
+      // Dependencies come first in sorted order, so their levels are known
+      level = 0;
+      for (const dependency of service[1].dependsOn) {
+        const dependencyLevel = levels.get(dependency);
+        if (dependencyLevel !== undefined) {
+          level = Math.max(level, dependencyLevel + 1);
+        }
+      }
+      levels.set(name, level);
+    }
+
+    (waves[level] ??= []).push(service);
+  }
+
+  return waves;
+}
+
+/**
+ * App names together with every app they depend on, directly or not,
+ * in config order
+ */
+export function withDependencies(
+  names: string[],
+  apps: Record<string, NormalizedAppConfig>
+): string[] {
+  const included = new Set<string>();
+  const include = (name: string): void => {
+    if (included.has(name) || !apps[name]) return;
+    included.add(name);
+    apps[name]!.dependsOn.forEach(include);
+  };
+  names.forEach(include);
+
+  return Object.keys(apps).filter((name) => included.has(name));
+}
+
+/**
+ * systemd units an app depends on: one per instance of a clustered dependency
+ */
+export function getDependencyUnits(
+  app: NormalizedAppConfig,
+  apps: Record<string, NormalizedAppConfig>
+): string[] {
+  const units: string[] = [];
+
+  for (const name of app.dependsOn) {
+    const dependency = apps[name];
+    if (!dependency) continue;
+
+    if (isClustered(dependency)) {
+      for (let index = 1; index <= dependency.instances!; index++) {
+        units.push(`${getInstanceServiceName(dependency.serviceName, index)}.service`);
+      }
+    } else {
+      units.push(`${dependency.serviceName}.service`);
+    }
+  }
+
+  return units;
+}
+
+/**
+ * Depth-first walk listing each name after its dependencies
+ */
+function visitInOrder(
+  names: string[],
+  getDependencies: (name: string) => string[]
+): { order: string[]; cycle?: string[] } {
+  const order: string[] = [];
+  const done = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (name: string): string[] | undefined => {
+    if (done.has(name)) return undefined;
+
+    const start = path.indexOf(name);
+    if (start !== -1) {
+      return [...path.slice(start), name];
+    }
+
+    path.push(name);
+    for (const dependency of getDependencies(name)) {
+      const cycle = visit(dependency);
+      if (cycle) return cycle;
+    }
+    path.pop();
+
+    done.add(name);
+    order.push(name);
+    return undefined;
+  };
+
+  for (const name of names) {
+    const cycle = visit(name);
+    if (cycle) return { order, cycle };
+  }
+
+  return { order };
+}
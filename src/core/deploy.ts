@@ -0,0 +1,296 @@
+import type { DeployConfig, NormalizedAppConfig } from "../types/config";
+import type { ServiceManager } from "../types/backend";
+import { logger } from "../utils/logger";
+import { BunmanError } from "../utils/errors";
+import type { BatchSummary } from "./batch";
+import { rollingReload } from "./reload";
+import type { ReloadOptions } from "./reload";
+import { isAbsolute, basename, dirname, join } from "path";
+import { lstat, mkdir, readdir, readlink, rename, rm, symlink } from "fs/promises";
+
+/**
+ * Releases kept when an app's deploy config sets no `keep`
+ */
+const DEFAULT_KEEP = 5;
+
+/**
+ * Install command when an app's deploy config sets none
+ */
+const DEFAULT_INSTALL = "bun install --frozen-lockfile";
+
+/**
+ * Outcome of a deploy or rollback
+ */
+export interface DeployResult {
+  /** Release the app was switched to */
+  release: string;
+
+  /** Release that was current before, if any */
+  previous?: string;
+
+  /** Outcome of the rolling restart; on failure `previous` is current again */
+  summary: BatchSummary;
+}
+
+/**
+ * Directory holding an app's releases, next to its "current" link (cwd)
+ */
+export function getReleasesDir(app: NormalizedAppConfig): string {
+  return join(dirname(app.cwd), "releases");
+}
+
+/**
+ * Releases of an app, oldest first (release names sort by time)
+ */
+export async function listReleases(app: NormalizedAppConfig): Promise<string[]> {
+  try {
+    return (await readdir(getReleasesDir(app))).sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Release the app's "current" link points to, if it exists yet
+ */
+export async function getCurrentRelease(app: NormalizedAppConfig): Promise<string | undefined> {
+  try {
+    const stats = await lstat(app.cwd);
+    if (!stats.isSymbolicLink()) {
+      throw new BunmanError(
+        `${app.cwd} is not a release link`,
+        "bunman deploy replaces it with a symlink; move the directory out of the way first"
+      );
+    }
+  } catch (error) {
+    if (error instanceof BunmanError) throw error;
+    return undefined;
+  }
+
+  return basename(await readlink(app.cwd));
+}
+
+/**
+ * Name for a new release: its UTC build time (e.g., "20250101T120000Z"),
+ * with a suffix if a release already has that name
+ */
+export function getReleaseName(existing: string[], now: Date = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, "").replace(/\.\d+Z$/, "Z");
+  let name = stamp;
+  for (let suffix = 2; existing.includes(name); suffix++) {
+    name = `${stamp}-${suffix}`;
+  }
+  return name;
+}
+
+/**
+ * Build a new release, switch the app to it and restart it one instance at
+ * a time; if an instance is not healthy, the previous release is restored
+ * and the new one removed
+ */
+export async function deployApp(
+  name: string,
+  app: NormalizedAppConfig,
+  serviceManager: ServiceManager,
+  options: ReloadOptions = {}
+): Promise<DeployResult> {
+  const deploy = getDeployConfig(name, app);
+  const previous = await getCurrentRelease(app);
+  const release = await buildRelease(app, deploy);
+
+  logger.step(`Switching ${name} to release ${release}...`);
+  await switchRelease(app, release);
+
+  const summary = await rollingReload(name, app, serviceManager, {
+    ...options,
+    onRollback: () => restoreRelease(name, app, previous),
+  });
+
+  if (summary.failed > 0) {
+    await rm(join(getReleasesDir(app), release), { recursive: true, force: true });
+    return { release, previous, summary };
+  }
+
+  await pruneReleases(app, deploy.keep ?? DEFAULT_KEEP);
+  return { release, previous, summary };
+}
+
+/**
+ * Switch the app back to an earlier release (by default, the one before
+ * the current release) and restart it one instance at a time
+ */
+export async function rollbackApp(
+  name: string,
+  app: NormalizedAppConfig,
+  serviceManager: ServiceManager,
+  target?: string,
+  options: ReloadOptions = {}
+): Promise<DeployResult> {
+  getDeployConfig(name, app);
+  const releases = await listReleases(app);
+  const current = await getCurrentRelease(app);
+
+  if (target !== undefined && !releases.includes(target)) {
+    throw new BunmanError(
+      `Unknown release ${target} of ${name}`,
+      releases.length > 0 ? `Releases: ${releases.join(", ")}` : "No release was deployed yet"
+    );
+  }
+
+  const index = current === undefined ? -1 : releases.indexOf(current);
+  const release = target ?? (index > 0 ? releases[index - 1] : undefined);
+
+  if (release === undefined) {
+    throw new BunmanError(
+      `No release of ${name} to roll back to`,
+      current ? `${current} is the oldest release kept` : "Deploy it with 'bunman deploy' first"
+    );
+  }
+
+  if (release === current) {
+    throw new BunmanError(`${name} already runs release ${release}`);
+  }
+
+  logger.step(`Switching ${name} to release ${release}...`);
+  await switchRelease(app, release);
+
+  const summary = await rollingReload(name, app, serviceManager, {
+    ...options,
+    onRollback: () => restoreRelease(name, app, current),
+  });
+
+  return { release, previous: current, summary };
+}
+
+/**
+ * Deploy settings of an app, which `deploy` and `rollback` require
+ */
+function getDeployConfig(name: string, app: NormalizedAppConfig): DeployConfig {
+  if (!app.deploy) {
+    throw new BunmanError(
+      `Service ${name} has no deploy config`,
+      "Add 'deploy: { source: ... }' to the app and point its cwd at '<dir>/current'"
+    );
+  }
+  return app.deploy;
+}
+
+/**
+ * Clone the source into a new release directory and run its install and
+ * build commands; a release that fails to build is removed
+ */
+async function buildRelease(app: NormalizedAppConfig, deploy: DeployConfig): Promise<string> {
+  const releasesDir = getReleasesDir(app);
+  await mkdir(releasesDir, { recursive: true });
+
+  const release = getReleaseName(await listReleases(app));
+  const releaseDir = join(releasesDir, release);
+
+  // Shallow clones of local paths need a file:// URL
+  const source = isAbsolute(deploy.source) ? `file://${deploy.source}` : deploy.source;
+  const ref = deploy.ref ? ["--branch", deploy.ref] : [];
+
+  try {
+    logger.step(`Cloning ${deploy.source}${deploy.ref ? ` (${deploy.ref})` : ""}...`);
+    await runStep("git clone", [
+      "git",
+      "clone",
+      "--quiet",
+      "--depth",
+      "1",
+      ...ref,
+      source,
+      releaseDir,
+    ]);
+
+    const rev = Bun.spawn(["git", "rev-parse", "--short", "HEAD"], {
+      cwd: releaseDir,
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+    const commit = (await new Response(rev.stdout).text()).trim();
+    await rev.exited;
+    logger.dim(`  Release ${release} at commit ${commit}`);
+
+    const env = { ...process.env, ...app.env };
+    const install = deploy.install ?? DEFAULT_INSTALL;
+    logger.step(`Installing dependencies (${install})...`);
+    await runStep("Install", ["/bin/sh", "-c", install], releaseDir, env);
+
+    if (deploy.build) {
+      logger.step(`Building (${deploy.build})...`);
+      await runStep("Build", ["/bin/sh", "-c", deploy.build], releaseDir, env);
+    }
+  } catch (error) {
+    await rm(releaseDir, { recursive: true, force: true });
+    throw error;
+  }
+
+  return release;
+}
+
+/**
+ * Run one deploy step with its output shown, failing on a non-zero exit
+ */
+async function runStep(
+  label: string,
+  cmd: string[],
+  cwd?: string,
+  env?: Record<string, string | undefined>
+): Promise<void> {
+  const proc = Bun.spawn(cmd, { cwd, env, stdout: "inherit", stderr: "inherit" });
+  const exitCode = await proc.exited;
+
+  if (exitCode !== 0) {
+    throw new BunmanError(
+      `${label} failed with exit code ${exitCode}`,
+      `Command: ${cmd.join(" ")}; the release was discarded`
+    );
+  }
+}
+
+/**
+ * Point the app's "current" link at a release, atomically (a new link is
+ * renamed over the old one, so there is never a moment without one)
+ */
+async function switchRelease(app: NormalizedAppConfig, release: string): Promise<void> {
+  const next = `${app.cwd}.next`;
+  await rm(next, { force: true });
+  await symlink(join(basename(getReleasesDir(app)), release), next);
+  await rename(next, app.cwd);
+}
+
+/**
+ * Switch back to the release that was current before a failed switch
+ * (after a failed first deploy there is none, so the link is removed)
+ */
+async function restoreRelease(
+  name: string,
+  app: NormalizedAppConfig,
+  release: string | undefined
+): Promise<void> {
+  if (release === undefined) {
+    await rm(app.cwd, { force: true });
+    return;
+  }
+
+  logger.step(`Switching ${name} back to release ${release}...`);
+  await switchRelease(app, release);
+}
+
+/**
+ * Remove the oldest releases beyond `keep`, never the current one
+ */
+async function pruneReleases(app: NormalizedAppConfig, keep: number): Promise<void> {
+  const current = await getCurrentRelease(app);
+  const others = (await listReleases(app)).filter((release) => release !== current);
+  const old = others.slice(0, Math.max(0, others.length - (keep - 1)));
+
+  for (const release of old) {
+    await rm(join(getReleasesDir(app), release), { recursive: true, force: true });
+  }
+
+  if (old.length > 0) {
+    logger.dim(`  Removed ${old.length} old release(s), keeping ${keep}`);
+  }
+}
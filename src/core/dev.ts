@@ -0,0 +1,168 @@
+import { watch } from "fs";
+import type { FSWatcher } from "fs";
+import type { NormalizedAppConfig } from "../types/config";
+import { sortByDependencies } from "./dependencies";
+import { drain, getAppEnv, spawnApp, stopApp } from "./foreground";
+import type { AppProcess } from "./foreground";
+
+/**
+ * Directories whose changes never restart an app
+ */
+const IGNORED_DIRS = ["node_modules", ".git"];
+
+/**
+ * Wait this long after a change before restarting, so that a burst of
+ * changes (e.g., a git checkout) restarts an app once
+ */
+const RESTART_DELAY_MS = 100;
+
+/**
+ * Options for running apps in the foreground
+ */
+export interface DevOptions {
+  /** Decrypted secrets of an app */
+  resolveSecrets?: (app: NormalizedAppConfig) => Promise<Record<string, string>>;
+
+  /** Consume the stdout or stderr of an app until it ends */
+  output?: (name: string, stream: ReadableStream<Uint8Array>) => Promise<void>;
+
+  /** Report a lifecycle event of an app (started, exited, restarting) */
+  log?: (name: string, message: string) => void;
+}
+
+interface DevProcess {
+  name: string;
+  app: NormalizedAppConfig;
+  proc?: AppProcess;
+  watcher?: FSWatcher;
+  timer?: ReturnType<typeof setTimeout>;
+
+  /** Restarts run one after another */
+  queue: Promise<void>;
+}
+
+/**
+ * Runs apps as child processes in dependency order, restarting each one
+ * when files matching its `watch` globs change
+ */
+export class DevRunner {
+  private processes: DevProcess[] = [];
+  private stopping = false;
+
+  constructor(
+    private apps: Array<[string, NormalizedAppConfig]>,
+    private options: DevOptions = {}
+  ) {}
+
+  /**
+   * Spawn every app (after the apps it depends on) and start watching
+   */
+  async start(): Promise<void> {
+    for (const [name, app] of sortByDependencies(this.apps)) {
+      const entry: DevProcess = { name, app, queue: Promise.resolve() };
+      this.processes.push(entry);
+
+      await this.spawn(entry);
+      this.watch(entry);
+    }
+  }
+
+  /**
+   * Stop watching and stop every app, dependents first
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+
+    for (const entry of this.processes) {
+      entry.watcher?.close();
+      clearTimeout(entry.timer);
+    }
+
+    for (const entry of [...this.processes].reverse()) {
+      await entry.queue;
+      await this.kill(entry);
+    }
+  }
+
+  /**
+   * Restart one app
+   */
+  restart(name: string, reason = "restarting"): Promise<void> {
+    const entry = this.processes.find((process) => process.name === name);
+    if (!entry || this.stopping) {
+      return Promise.resolve();
+    }
+
+    entry.queue = entry.queue.then(async () => {
+      if (this.stopping) return;
+      this.options.log?.(name, reason);
+      await this.kill(entry);
+
+      // A failed restart must not block the ones queued after it
+      try {
+        await this.spawn(entry);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        this.options.log?.(name, `failed to restart: ${message}`);
+      }
+    });
+    return entry.queue;
+  }
+
+  private async spawn(entry: DevProcess): Promise<void> {
+    const { name, app } = entry;
+    const secrets = (await this.options.resolveSecrets?.(app)) ?? {};
+
+    const proc = spawnApp(app, await getAppEnv(app, secrets));
+    entry.proc = proc;
+
+    this.options.log?.(name, `started (pid ${proc.pid})`);
+
+    const output = this.options.output ?? ((_name, stream) => drain(stream));
+    void output(name, proc.stdout);
+    void output(name, proc.stderr);
+
+    void proc.exited.then((code) => {
+      // Exits caused by a restart or stop are expected
+      if (entry.proc !== proc || this.stopping) return;
+      entry.proc = undefined;
+
+      const waiting = app.watch.length > 0 ? ", waiting for changes" : "";
+      this.options.log?.(name, `exited with code ${code}${waiting}`);
+    });
+  }
+
+  private watch(entry: DevProcess): void {
+    const { name, app } = entry;
+    if (app.watch.length === 0) return;
+
+    entry.watcher = watch(app.cwd, { recursive: true }, (_event, filename) => {
+      if (!filename || !isWatchedFile(app.watch, filename.toString())) return;
+
+      clearTimeout(entry.timer);
+      entry.timer = setTimeout(() => {
+        void this.restart(name, `${filename} changed, restarting`);
+      }, RESTART_DELAY_MS);
+    });
+  }
+
+  private async kill(entry: DevProcess): Promise<void> {
+    const proc = entry.proc;
+    entry.proc = undefined;
+    if (proc) {
+      await stopApp(entry.app, proc);
+    }
+  }
+}
+
+/**
+ * Check whether a changed file (relative to the app's cwd) matches one
+ * of its watch globs; files in node_modules and .git never do
+ */
+export function isWatchedFile(patterns: string[], file: string): boolean {
+  const segments = file.split("/");
+  if (segments.some((segment) => IGNORED_DIRS.includes(segment))) {
+    return false;
+  }
+  return patterns.some((pattern) => new Bun.Glob(pattern).match(file));
+}
@@ -0,0 +1,149 @@
+import { existsSync } from "fs";
+import type { Subprocess } from "bun";
+import type { NormalizedAppConfig } from "../types/config";
+import { BunmanError } from "../utils/errors";
+import { buildHookScript, hasHooks } from "./hooks";
+import { getInstancePort, isClustered } from "./instances";
+
+/**
+ * Seconds to wait for an app to stop when it sets no `stopTimeout`
+ */
+const DEFAULT_STOP_TIMEOUT = 10;
+
+/**
+ * An app run as a child process of bunman
+ */
+export type AppProcess = Subprocess<"ignore", "pipe", "pipe">;
+
+/**
+ * Spawn an app as a child process, with its output piped
+ *
+ * Like the generated units: hooks need the wrapper script, and the command
+ * itself runs through a shell. Each app gets its own process group, so
+ * that stopping it reaches every process it started (as systemd's cgroups
+ * do) and Ctrl+C only reaches bunman.
+ */
+export function spawnApp(
+  app: NormalizedAppConfig,
+  env: Record<string, string | undefined>
+): AppProcess {
+  const script = hasHooks(app) ? buildHookScript(app) : `exec ${app.command}`;
+  return Bun.spawn(["/bin/sh", "-c", script], {
+    cwd: app.cwd,
+    env,
+    detached: true,
+    stdin: "ignore",
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+}
+
+/**
+ * Send an app's process group its `killSignal`, and SIGKILL once
+ * `stopTimeout` passes
+ */
+export async function stopApp(app: NormalizedAppConfig, proc: AppProcess): Promise<void> {
+  if (proc.exitCode !== null || proc.signalCode !== null) return;
+
+  signalGroup(proc.pid, app.killSignal ?? "SIGTERM");
+
+  const timeout = (app.stopTimeout ?? DEFAULT_STOP_TIMEOUT) * 1000;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const killed = await Promise.race([
+    proc.exited.then(() => false),
+    new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(true), timeout);
+    }),
+  ]);
+  clearTimeout(timer);
+
+  if (killed) {
+    signalGroup(proc.pid, "SIGKILL");
+    await proc.exited;
+  }
+}
+
+/**
+ * Signal every process in the group led by `pid`
+ */
+function signalGroup(pid: number, signal: NodeJS.Signals): void {
+  try {
+    process.kill(-pid, signal);
+  } catch {
+    // The group is already gone
+  }
+}
+
+/**
+ * Environment of an app run in the foreground, in the order systemd
+ * applies it: `env`, then `envFile`, then secrets. A clustered app that
+ * is not split into instances runs as its first instance.
+ */
+export async function getAppEnv(
+  app: NormalizedAppConfig,
+  secrets: Record<string, string> = {}
+): Promise<Record<string, string | undefined>> {
+  let fileEnv: Record<string, string> = {};
+
+  if (app.envFile) {
+    if (!existsSync(app.envFile)) {
+      throw new BunmanError(
+        `Environment file not found: ${app.envFile}`,
+        "Create the file or remove 'envFile' from the app"
+      );
+    }
+    fileEnv = parseEnvFile(await Bun.file(app.envFile).text());
+  }
+
+  const instance: Record<string, string> = {};
+  if (isClustered(app)) {
+    const index = app.instance ?? 1;
+    const port = getInstancePort({ ...app, instance: index });
+    instance["BUNMAN_INSTANCE"] = String(index);
+    if (port !== undefined) {
+      instance["PORT"] = String(port);
+    }
+  }
+
+  return { ...process.env, ...app.env, ...instance, ...fileEnv, ...secrets };
+}
+
+/**
+ * Parse an environment file: KEY=value lines, optionally prefixed with
+ * "export"; values may be single or double quoted (with \", \\ and \n
+ * escapes), and lines starting with "#" are comments
+ */
+export function parseEnvFile(content: string): Record<string, string> {
+  const env: Record<string, string> = {};
+
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const match = line.match(/^(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/);
+    if (!match) continue;
+
+    let value = match[2]!;
+    if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+      value = value
+        .slice(1, -1)
+        .replace(/\\(["\\n])/g, (_, char: string) => (char === "n" ? "\n" : char));
+    } else if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) {
+      value = value.slice(1, -1);
+    }
+
+    env[match[1]!] = value;
+  }
+
+  return env;
+}
+
+/**
+ * Read a stream to its end, discarding it
+ */
+export async function drain(stream: ReadableStream<Uint8Array>): Promise<void> {
+  const reader = stream.getReader();
+  while (!(await reader.read()).done) {
+    // Discard
+  }
+}
@@ -0,0 +1,64 @@
+import type { NormalizedAppConfig } from "../types/config";
+
+/**
+ * Check whether an app defines any lifecycle hook
+ */
+export function hasHooks(app: NormalizedAppConfig): boolean {
+  return Object.values(app.hooks).some((commands) => commands.length > 0);
+}
+
+/**
+ * Build a shell script that runs an app's main command with its hooks,
+ * for service managers without native hook support (launchd)
+ *
+ * - preStart commands run in order; the first failure aborts the start
+ * - the main command runs in the background with its PID in $MAINPID
+ * - postStart runs once it has been spawned; a failure stops it
+ * - SIGHUP runs the reload commands
+ * - SIGTERM/SIGINT run preStop, then send `killSignal` to the main process
+ * - postStop runs after it exits, and the script exits with its status
+ */
+export function buildHookScript(app: NormalizedAppConfig): string {
+  const { preStart = [], postStart = [], reload = [], preStop = [], postStop = [] } = app.hooks;
+  const signal = (app.killSignal ?? "SIGTERM").replace(/^SIG/, "");
+  const lines: string[] = [];
+
+  for (const command of preStart) {
+    lines.push(`${command} || exit $?`);
+  }
+
+  lines.push(`${app.command} &`);
+  lines.push("MAINPID=$!");
+  lines.push("export MAINPID");
+
+  if (reload.length > 0) {
+    lines.push(`trap ${quoteShell(reload.join("; "))} HUP`);
+  }
+  lines.push(
+    `trap ${quoteShell([...preStop, `kill -${signal} "$MAINPID" 2>/dev/null`].join("; "))} TERM INT`
+  );
+
+  for (const command of postStart) {
+    lines.push(`${command} || { kill -${signal} "$MAINPID"; wait "$MAINPID"; exit 1; }`);
+  }
+
+  // A trapped signal interrupts wait, so keep waiting until the process is gone
+  lines.push('wait "$MAINPID"');
+  lines.push("status=$?");
+  lines.push('while kill -0 "$MAINPID" 2>/dev/null; do wait "$MAINPID"; status=$?; done');
+
+  for (const command of postStop) {
+    lines.push(command);
+  }
+
+  lines.push("exit $status");
+
+  return lines.join("\n");
+}
+
+/**
+ * Quote a string as a single shell word
+ */
+function quoteShell(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
@@ -0,0 +1,101 @@
+import type { NormalizedAppConfig } from "../types/config";
+import type { ServiceManager } from "../types/backend";
+
+/**
+ * Separates a service name from its instance number (systemd template syntax)
+ */
+const INSTANCE_SEPARATOR = "@";
+
+/**
+ * Get the service name of one instance (e.g., "bunman-api@2")
+ */
+export function getInstanceServiceName(serviceName: string, index: number): string {
+  return `${serviceName}${INSTANCE_SEPARATOR}${index}`;
+}
+
+/**
+ * Split an instance service name into the app's service name and instance number
+ */
+export function parseInstanceName(serviceName: string): {
+  serviceName: string;
+  instance?: number;
+} {
+  const match = serviceName.match(/^(.+)@(\d+)$/);
+  if (!match) {
+    return { serviceName };
+  }
+  return { serviceName: match[1]!, instance: parseInt(match[2]!, 10) };
+}
+
+/**
+ * Check whether an app runs as several instances
+ */
+export function isClustered(app: NormalizedAppConfig): boolean {
+  return app.instances !== undefined;
+}
+
+/**
+ * Port an instance listens on, if the app sets `portBase`
+ */
+export function getInstancePort(app: NormalizedAppConfig): number | undefined {
+  if (app.portBase === undefined || app.instance === undefined) {
+    return undefined;
+  }
+  return app.portBase + app.instance - 1;
+}
+
+/**
+ * Build the per-instance copy of a clustered app, named like "api@2"
+ */
+export function getInstanceApp(
+  name: string,
+  app: NormalizedAppConfig,
+  index: number
+): [string, NormalizedAppConfig] {
+  return [
+    `${name}${INSTANCE_SEPARATOR}${index}`,
+    {
+      ...app,
+      serviceName: getInstanceServiceName(app.serviceName, index),
+      instance: index,
+    },
+  ];
+}
+
+/**
+ * Instance numbers of a clustered app: the instances the service manager
+ * already runs, so a count set with `scale` sticks, or the configured 1..N
+ * when none are installed yet
+ */
+export async function getInstanceIndexes(
+  app: NormalizedAppConfig,
+  serviceManager: ServiceManager
+): Promise<number[]> {
+  const installed = await serviceManager.listInstances(app.serviceName);
+  if (installed.length > 0) {
+    return installed;
+  }
+  return Array.from({ length: app.instances ?? 0 }, (_, index) => index + 1);
+}
+
+/**
+ * Replace each clustered app with one entry per instance
+ */
+export async function expandInstances(
+  apps: Array<[string, NormalizedAppConfig]>,
+  serviceManager: ServiceManager
+): Promise<Array<[string, NormalizedAppConfig]>> {
+  const expanded: Array<[string, NormalizedAppConfig]> = [];
+
+  for (const [name, app] of apps) {
+    if (!isClustered(app)) {
+      expanded.push([name, app]);
+      continue;
+    }
+    for (const index of await getInstanceIndexes(app, serviceManager)) {
+      expanded.push(getInstanceApp(name, app, index));
+    }
+  }
+
+  return expanded;
+}
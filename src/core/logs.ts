@@ -0,0 +1,120 @@
+import { existsSync } from "fs";
+import { copyFile, rename, rm, stat, truncate } from "fs/promises";
+import { extname, join } from "path";
+import type { LogOptions } from "../types/backend";
+import type { NormalizedAppConfig } from "../types/config";
+import { DEFAULT_LOG_DIR } from "../constants";
+import { parseInstanceName } from "./instances";
+
+/**
+ * Options for rotating a log file
+ */
+export interface RotateOptions {
+  /** Rotate only once the file is larger than this many bytes */
+  maxSize?: number;
+
+  /** Number of rotated copies to keep */
+  keep: number;
+
+  /** Rotate regardless of size */
+  force?: boolean;
+}
+
+/**
+ * Check whether an app writes its output to log files: always on launchd,
+ * and with `logs.target: "file"` on systemd
+ */
+export function usesLogFiles(
+  app: NormalizedAppConfig,
+  platform: NodeJS.Platform = process.platform
+): boolean {
+  return platform === "darwin" || app.logs.target === "file";
+}
+
+/**
+ * Log file of an app or one of its instances ("%i" in a systemd template)
+ */
+export function getLogFile(
+  app: NormalizedAppConfig,
+  instance: number | string | undefined = app.instance
+): string {
+  const suffix = instance === undefined ? "" : `@${instance}`;
+
+  if (app.logs.path) {
+    const extension = extname(app.logs.path);
+    return `${app.logs.path.slice(0, app.logs.path.length - extension.length)}${suffix}${extension}`;
+  }
+
+  const { serviceName } = parseInstanceName(app.serviceName);
+  return join(DEFAULT_LOG_DIR, `${serviceName}${suffix}.log`);
+}
+
+/**
+ * Error log next to a log file (launchd writes stderr separately)
+ */
+export function getErrorLogFile(logFile: string): string {
+  const extension = extname(logFile);
+  return `${logFile.slice(0, logFile.length - extension.length)}.error${extension || ".log"}`;
+}
+
+/**
+ * Rotate a log file: shift older copies up (`<file>.1` becomes `<file>.2`,
+ * dropping those beyond `keep`), copy the file to `<file>.1` and truncate
+ * it in place, so a service holding it open keeps appending to it
+ * @returns whether the file was rotated
+ */
+export async function rotateLogFile(file: string, options: RotateOptions): Promise<boolean> {
+  if (!existsSync(file)) return false;
+
+  const { size } = await stat(file);
+  if (size === 0) return false;
+  if (!options.force && (options.maxSize === undefined || size <= options.maxSize)) {
+    return false;
+  }
+
+  await rm(`${file}.${options.keep}`, { force: true });
+  for (let index = options.keep - 1; index >= 1; index--) {
+    if (existsSync(`${file}.${index}`)) {
+      await rename(`${file}.${index}`, `${file}.${index + 1}`);
+    }
+  }
+
+  if (options.keep > 0) {
+    await copyFile(file, `${file}.1`);
+  }
+  await truncate(file, 0);
+
+  return true;
+}
+
+/**
+ * Print the end of log files, following them if requested
+ */
+export async function tailLogFiles(files: string[], options: LogOptions): Promise<void> {
+  const args = getTailArgs(options);
+
+  const proc = Bun.spawn(["tail", ...args, ...files], {
+    stdout: "inherit",
+    stderr: "inherit",
+    stdin: "inherit",
+  });
+
+  await proc.exited;
+}
+
+/**
+ * tail arguments for log options (-F keeps following across rotations)
+ */
+export function getTailArgs(options: LogOptions): string[] {
+  const args: string[] = [];
+
+  if (options.follow) {
+    args.push("-F");
+  }
+
+  if (options.lines) {
+    args.push("-n", options.lines.toString());
+  }
+
+  return args;
+}
@@ -0,0 +1,235 @@
+import type { NormalizedAppConfig } from "../types/config";
+import type { ServiceManager } from "../types/backend";
+import { logger } from "../utils/logger";
+import { BunmanError } from "../utils/errors";
+import { printBatchSummary, summarizeBatch } from "./batch";
+import type { BatchResult, BatchSummary } from "./batch";
+import { expandInstances, getInstancePort } from "./instances";
+
+/**
+ * Seconds an instance has to become healthy when its app sets no
+ * `healthCheck.timeout`
+ */
+const DEFAULT_HEALTH_TIMEOUT = 30;
+
+/**
+ * Milliseconds a single HTTP probe may take
+ */
+const PROBE_TIMEOUT = 2000;
+
+/**
+ * Where a restarted instance is probed
+ */
+export type HealthCheckTarget = { type: "http"; url: string } | { type: "tcp"; port: number };
+
+/**
+ * Options for rolling reloads
+ */
+export interface ReloadOptions {
+  /** Milliseconds between health probes (default: 500) */
+  pollInterval?: number;
+
+  /** Called before reloaded instances are rolled back (e.g., to switch releases back) */
+  onRollback?: () => Promise<void>;
+}
+
+/**
+ * Restart the instances of an app one at a time, waiting for each to be
+ * healthy before the next; on the first failure, the instances already
+ * reloaded get their previous unit file back and the rest are left alone
+ */
+export async function rollingReload(
+  name: string,
+  app: NormalizedAppConfig,
+  serviceManager: ServiceManager,
+  options: ReloadOptions = {}
+): Promise<BatchSummary> {
+  const instances = await expandInstances([[name, app]], serviceManager);
+
+  // Snapshot every unit file before touching any (instances of a
+  // clustered app may share one template)
+  const previous = new Map<string, string | undefined>();
+  for (const [, instance] of instances) {
+    previous.set(instance.serviceName, await serviceManager.readConfig(instance.serviceName));
+  }
+
+  logger.info(`Reloading ${instances.length} instance(s) of ${name}, one at a time...`);
+  console.log("");
+
+  const results: BatchResult[] = [];
+  const touched: NormalizedAppConfig[] = [];
+  let failed = false;
+
+  for (const [instanceName, instance] of instances) {
+    if (failed) {
+      logger.dim(`  ${instanceName} not reloaded (an earlier instance failed)`);
+      results.push({ name: instanceName, success: false, skipped: true, cancelled: true });
+      continue;
+    }
+
+    const startedAt = performance.now();
+    const elapsed = () => Math.round(performance.now() - startedAt);
+
+    try {
+      logger.step(`Reloading ${instanceName}...`);
+      touched.push(instance);
+      await serviceManager.install(instance.serviceName, instance);
+      await serviceManager.restart(instance.serviceName);
+
+      logger.step(`Waiting for ${instanceName} to become healthy...`);
+      await waitForHealthy(instance, serviceManager, options);
+
+      logger.success(`  ${instanceName} reloaded`);
+      results.push({ name: instanceName, success: true, skipped: false, durationMs: elapsed() });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      logger.error(`  ${instanceName} failed: ${errorMessage}`);
+      results.push({
+        name: instanceName,
+        success: false,
+        skipped: false,
+        error: errorMessage,
+        durationMs: elapsed(),
+      });
+      failed = true;
+    }
+  }
+
+  if (failed) {
+    await rollBack(touched, previous, serviceManager, options);
+  }
+
+  console.log("");
+
+  const summary = summarizeBatch(results);
+  printBatchSummary(summary, "reloaded");
+
+  return summary;
+}
+
+/**
+ * Put the previous unit file back on each reloaded instance and restart it
+ */
+async function rollBack(
+  instances: NormalizedAppConfig[],
+  previous: Map<string, string | undefined>,
+  serviceManager: ServiceManager,
+  options: ReloadOptions
+): Promise<void> {
+  console.log("");
+  await options.onRollback?.();
+  logger.step(`Rolling back ${instances.length} instance(s)...`);
+
+  for (const instance of instances) {
+    const content = previous.get(instance.serviceName);
+
+    try {
+      if (content === undefined) {
+        // Nothing ran before the reload, so nothing is brought back
+        await serviceManager.stop(instance.serviceName);
+      } else {
+        await serviceManager.restoreConfig(instance.serviceName, content);
+        await serviceManager.restart(instance.serviceName);
+      }
+      logger.dim(`  ${instance.serviceName} rolled back`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      logger.error(`  ${instance.serviceName} could not be rolled back: ${errorMessage}`);
+    }
+  }
+}
+
+/**
+ * Wait until a restarted service is active and passes its health check
+ * (without a port to probe, being active is enough)
+ */
+export async function waitForHealthy(
+  app: NormalizedAppConfig,
+  serviceManager: ServiceManager,
+  options: ReloadOptions = {}
+): Promise<void> {
+  const timeout = app.healthCheck?.timeout ?? DEFAULT_HEALTH_TIMEOUT;
+  const target = getHealthCheckTarget(app);
+  const deadline = Date.now() + timeout * 1000;
+  let reason = "The service did not become active";
+
+  for (;;) {
+    const status = await serviceManager.getStatus(app.serviceName);
+
+    if (status.state === "failed") {
+      throw new BunmanError(
+        `${app.serviceName} failed after restarting`,
+        "Check its logs with 'bunman logs'"
+      );
+    }
+
+    if (status.state === "active") {
+      const error = target ? await probe(target) : undefined;
+      if (!error) {
+        return;
+      }
+      reason = error;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new BunmanError(`${app.serviceName} was not healthy within ${timeout}s`, reason);
+    }
+
+    await Bun.sleep(options.pollInterval ?? 500);
+  }
+}
+
+/**
+ * Where to probe an app: its health check URL, or else its port
+ * (`healthCheck.port`, the instance's port from `portBase`, or env.PORT)
+ */
+export function getHealthCheckTarget(app: NormalizedAppConfig): HealthCheckTarget | undefined {
+  const http = app.healthCheck?.http;
+  if (http && /^https?:\/\//.test(http)) {
+    return { type: "http", url: http };
+  }
+
+  const envPort = Number(app.env["PORT"]);
+  const port =
+    app.healthCheck?.port ??
+    getInstancePort(app) ??
+    (Number.isInteger(envPort) && envPort > 0 ? envPort : undefined);
+
+  if (port === undefined) {
+    if (http) {
+      throw new BunmanError(
+        `No port to check ${http} on for ${app.serviceName}`,
+        "Set healthCheck.port, portBase or env.PORT, or use a full URL"
+      );
+    }
+    return undefined;
+  }
+
+  return http ? { type: "http", url: `http://127.0.0.1:${port}${http}` } : { type: "tcp", port };
+}
+
+/**
+ * Probe a target once; returns why it is not healthy, if it isn't
+ */
+async function probe(target: HealthCheckTarget): Promise<string | undefined> {
+  if (target.type === "http") {
+    try {
+      const response = await fetch(target.url, { signal: AbortSignal.timeout(PROBE_TIMEOUT) });
+      return response.ok ? undefined : `${target.url} answered with status ${response.status}`;
+    } catch {
+      return `${target.url} did not answer`;
+    }
+  }
+
+  try {
+    const socket = await Bun.connect({
+      hostname: "127.0.0.1",
+      port: target.port,
+      socket: { data() {} },
+    });
+    socket.end();
+    return undefined;
+  } catch {
+    return `Nothing accepts connections on port ${target.port}`;
+  }
+}
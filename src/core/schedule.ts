@@ -0,0 +1,291 @@
+import { ConfigError } from "../utils/errors";
+
+/**
+ * Cron shortcuts and their five-field equivalents
+ */
+const CRON_MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+/**
+ * systemd calendar shorthands that launchd can also express
+ */
+const CALENDAR_SHORTHANDS: Record<string, string> = {
+  minutely: "* * * * *",
+  hourly: "0 * * * *",
+  daily: "0 0 * * *",
+  weekly: "0 0 * * 1",
+  monthly: "0 0 1 * *",
+  yearly: "0 0 1 1 *",
+  annually: "0 0 1 1 *",
+};
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const SYSTEMD_DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  /** Names accepted instead of numbers, starting at `min` */
+  names?: string[];
+}
+
+const CRON_FIELDS: CronField[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is accepted as another name for Sunday
+  { name: "day of week", min: 0, max: 7, names: DAY_NAMES },
+];
+
+/**
+ * A parsed cron expression; unset fields match every value
+ */
+export interface CronSchedule {
+  minute?: number[];
+  hour?: number[];
+  dayOfMonth?: number[];
+  month?: number[];
+  dayOfWeek?: number[];
+}
+
+/**
+ * Check whether a schedule is a cron expression (five fields or a macro)
+ * rather than systemd `OnCalendar` syntax
+ */
+export function isCronExpression(schedule: string): boolean {
+  const trimmed = schedule.trim();
+  return trimmed in CRON_MACROS || trimmed.split(/\s+/).length === 5;
+}
+
+/**
+ * Parse a five-field cron expression (or a macro such as "@daily")
+ * @throws ConfigError if the expression is invalid or can't be translated
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (CRON_MACROS[trimmed] ?? trimmed).split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new ConfigError(
+      `Invalid cron expression: ${expression}`,
+      "Use five fields: minute hour day-of-month month day-of-week"
+    );
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields.map((text, index) =>
+    parseField(text, CRON_FIELDS[index]!, expression)
+  );
+
+  // cron runs when either day field matches, systemd only when both do
+  if (dayOfMonth && dayOfWeek) {
+    throw new ConfigError(
+      `Unsupported cron expression: ${expression}`,
+      "Restrict either the day of month or the day of week, not both"
+    );
+  }
+
+  return { minute, hour, dayOfMonth, month, dayOfWeek };
+}
+
+/**
+ * Translate a cron expression to a systemd `OnCalendar` value
+ * (e.g., "30 4 * * 1-5" -> "Mon..Fri *-*-* 04:30:00")
+ */
+export function cronToOnCalendar(expression: string): string {
+  const cron = parseCron(expression);
+
+  const weekdays = cron.dayOfWeek
+    ? `${formatWeekdays(cron.dayOfWeek)} `
+    : "";
+  const date = `*-${formatValues(cron.month, CRON_FIELDS[3]!)}-${formatValues(cron.dayOfMonth, CRON_FIELDS[2]!)}`;
+  const time = `${formatValues(cron.hour, CRON_FIELDS[1]!)}:${formatValues(cron.minute, CRON_FIELDS[0]!)}:00`;
+
+  return `${weekdays}${date} ${time}`;
+}
+
+/**
+ * Get the `OnCalendar` value for an app's schedule
+ */
+export function toOnCalendar(schedule: string): string {
+  return isCronExpression(schedule) ? cronToOnCalendar(schedule) : schedule.trim();
+}
+
+/**
+ * Get launchd `StartCalendarInterval` entries for an app's schedule
+ * @throws ConfigError for `OnCalendar` syntax launchd can't express
+ */
+export function toCalendarIntervals(schedule: string): Array<Record<string, number>> {
+  const trimmed = schedule.trim();
+  const shorthand = CALENDAR_SHORTHANDS[trimmed.toLowerCase()];
+
+  if (!shorthand && !isCronExpression(trimmed)) {
+    throw new ConfigError(
+      `Schedule "${schedule}" uses systemd OnCalendar syntax`,
+      "Use a cron expression (e.g., \"0 2 * * *\") to run it with launchd"
+    );
+  }
+
+  const cron = parseCron(shorthand ?? trimmed);
+  const keys: Array<[string, number[] | undefined]> = [
+    ["Minute", cron.minute],
+    ["Hour", cron.hour],
+    ["Day", cron.dayOfMonth],
+    ["Month", cron.month],
+    ["Weekday", cron.dayOfWeek],
+  ];
+
+  // One entry per combination of restricted fields; an empty entry
+  // (every field unset) runs every minute
+  let intervals: Array<Record<string, number>> = [{}];
+  for (const [key, values] of keys) {
+    if (!values) continue;
+    intervals = intervals.flatMap((interval) =>
+      values.map((value) => ({ ...interval, [key]: value }))
+    );
+  }
+
+  return intervals;
+}
+
+/**
+ * Compute the next run of a cron (or shorthand) schedule in local time
+ * @returns undefined for OnCalendar syntax, which only systemd evaluates
+ */
+export function getNextRun(schedule: string, from: Date = new Date()): Date | undefined {
+  const trimmed = schedule.trim();
+  const expression = CALENDAR_SHORTHANDS[trimmed.toLowerCase()] ?? trimmed;
+  if (!isCronExpression(expression)) {
+    return undefined;
+  }
+
+  const cron = parseCron(expression);
+  const matches = (values: number[] | undefined, value: number) =>
+    !values || values.includes(value);
+
+  const next = new Date(from);
+  next.setSeconds(0, 0);
+
+  // Check minute by minute, for up to a (leap) year ahead
+  for (let minutes = 0; minutes < 366 * 24 * 60; minutes++) {
+    next.setMinutes(next.getMinutes() + 1);
+    if (
+      matches(cron.minute, next.getMinutes()) &&
+      matches(cron.hour, next.getHours()) &&
+      matches(cron.dayOfMonth, next.getDate()) &&
+      matches(cron.month, next.getMonth() + 1) &&
+      matches(cron.dayOfWeek, next.getDay())
+    ) {
+      return next;
+    }
+  }
+
+  return undefined;
+}
+
+function parseField(
+  text: string,
+  field: CronField,
+  expression: string
+): number[] | undefined {
+  if (text === "*") {
+    return undefined;
+  }
+
+  const invalid = () =>
+    new ConfigError(
+      `Invalid ${field.name} "${text}" in cron expression: ${expression}`,
+      `Use numbers from ${field.min} to ${field.max}, ranges (1-5), lists (1,3) and steps (*/5)`
+    );
+
+  const values = new Set<number>();
+
+  for (const part of text.split(",")) {
+    const match = part.match(/^(\*|[a-z0-9]+(?:-[a-z0-9]+)?)(?:\/(\d+))?$/i);
+    if (!match) throw invalid();
+
+    const [range, stepText] = [match[1]!, match[2]];
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    let start: number;
+    let end: number;
+
+    if (range === "*") {
+      start = field.min;
+      end = field.name === "day of week" ? 6 : field.max;
+    } else {
+      const [from, to] = range.split("-");
+      start = parseValue(from!, field);
+      // "5/15" means from 5 to the end in steps of 15
+      end = to !== undefined ? parseValue(to, field) : stepText !== undefined ? field.max : start;
+    }
+
+    if (Number.isNaN(start) || Number.isNaN(end) || step < 1 || start > end) {
+      throw invalid();
+    }
+    if (start < field.min || end > field.max) {
+      throw invalid();
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(field.name === "day of week" ? value % 7 : value);
+    }
+  }
+
+  return [...values].sort((a, b) => a - b);
+}
+
+function parseValue(token: string, field: CronField): number {
+  if (/^\d+$/.test(token)) {
+    return parseInt(token, 10);
+  }
+
+  const index = field.names?.indexOf(token.toLowerCase()) ?? -1;
+  if (index === -1) {
+    return NaN;
+  }
+  return index + (field.name === "month" ? 1 : 0);
+}
+
+/**
+ * Format values for OnCalendar, using "a..b" for runs and "a/step" for
+ * progressions that continue to the end of the field
+ */
+function formatValues(values: number[] | undefined, field: CronField): string {
+  if (!values) {
+    return "*";
+  }
+
+  const pad = (value: number) => String(value).padStart(2, "0");
+
+  if (values.length >= 3) {
+    const step = values[1]! - values[0]!;
+    const regular = values.every((value, index) => value === values[0]! + index * step);
+    const last = values[values.length - 1]!;
+
+    if (regular && step === 1) {
+      return `${pad(values[0]!)}..${pad(last)}`;
+    }
+    if (regular && last + step > field.max) {
+      return `${pad(values[0]!)}/${step}`;
+    }
+  }
+
+  return values.map(pad).join(",");
+}
+
+function formatWeekdays(days: number[]): string {
+  const regular = days.every((day, index) => day === days[0]! + index);
+  if (days.length >= 3 && regular) {
+    return `${SYSTEMD_DAYS[days[0]!]}..${SYSTEMD_DAYS[days[days.length - 1]!]}`;
+  }
+  return days.map((day) => SYSTEMD_DAYS[day]).join(",");
+}
@@ -0,0 +1,278 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import { chmod, mkdir, rm } from "fs/promises";
+import { dirname, join } from "path";
+import type { NormalizedConfig } from "../types/config";
+import { SecretsError } from "../utils/errors";
+import { SECRETS_DIR } from "../constants";
+
+/**
+ * Encrypted secrets file: app name -> secret name -> encrypted value
+ */
+interface SecretStoreFile {
+  version: 1;
+  apps: Record<string, Record<string, string>>;
+}
+
+/**
+ * Decrypted secrets for the app behind a service (empty if it has none)
+ */
+export type SecretsResolver = (serviceName: string) => Promise<Record<string, string>>;
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const VALUE_PREFIX = "v1";
+
+/**
+ * Secret names must be valid environment variable names
+ */
+const SECRET_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Paths of the encrypted store and its key for a project
+ */
+export function getSecretsPaths(configDir: string): { store: string; key: string } {
+  const dir = join(configDir, SECRETS_DIR.dir);
+  return {
+    store: join(dir, SECRETS_DIR.store),
+    key: join(dir, SECRETS_DIR.key),
+  };
+}
+
+/**
+ * List secret names per app (reading names does not need the key)
+ */
+export async function listSecrets(configDir: string): Promise<Record<string, string[]>> {
+  const store = await readStore(configDir);
+  return Object.fromEntries(
+    Object.entries(store.apps).map(([app, secrets]) => [app, Object.keys(secrets).sort()])
+  );
+}
+
+/**
+ * Check that a secret name is a valid environment variable name
+ * @throws SecretsError if it is not
+ */
+export function assertSecretName(name: string): void {
+  if (!SECRET_NAME.test(name)) {
+    throw new SecretsError(
+      `Invalid secret name: ${name}`,
+      "Use letters, digits and underscores, not starting with a digit (e.g., DB_PASSWORD)"
+    );
+  }
+}
+
+/**
+ * Encrypt and store a secret, creating the key file on first use
+ */
+export async function setSecret(
+  configDir: string,
+  app: string,
+  name: string,
+  value: string
+): Promise<void> {
+  assertSecretName(name);
+
+  const key = await readKey(configDir, true);
+  const store = await readStore(configDir);
+
+  store.apps[app] = { ...store.apps[app], [name]: encrypt(key, `${app}.${name}`, value) };
+  await writeStore(configDir, store);
+}
+
+/**
+ * Remove a secret
+ * @returns false if the secret did not exist
+ */
+export async function removeSecret(
+  configDir: string,
+  app: string,
+  name: string
+): Promise<boolean> {
+  const store = await readStore(configDir);
+  const secrets = store.apps[app];
+
+  if (!secrets || !(name in secrets)) {
+    return false;
+  }
+
+  delete secrets[name];
+  if (Object.keys(secrets).length === 0) {
+    delete store.apps[app];
+  }
+
+  await writeStore(configDir, store);
+  return true;
+}
+
+/**
+ * Decrypt every secret of an app
+ */
+export async function readSecrets(
+  configDir: string,
+  app: string
+): Promise<Record<string, string>> {
+  const store = await readStore(configDir);
+  const secrets = store.apps[app];
+  if (!secrets || Object.keys(secrets).length === 0) {
+    return {};
+  }
+
+  const key = await readKey(configDir, false);
+  const values: Record<string, string> = {};
+
+  for (const [name, encrypted] of Object.entries(secrets)) {
+    values[name] = decrypt(key, `${app}.${name}`, encrypted);
+  }
+
+  return values;
+}
+
+/**
+ * Build a resolver that decrypts secrets for the services of a config
+ */
+export function createSecretsResolver(config: NormalizedConfig): SecretsResolver {
+  return async (serviceName) => {
+    const entry = Object.entries(config.apps).find(
+      ([, app]) => app.serviceName === serviceName
+    );
+    if (!entry || entry[1].secrets.length === 0) {
+      return {};
+    }
+    return readSecrets(config.configDir, entry[0]);
+  };
+}
+
+/**
+ * Write secrets as an environment file only the owner can read
+ */
+export async function writeSecretsEnvFile(
+  path: string,
+  secrets: Record<string, string>
+): Promise<void> {
+  const lines = Object.entries(secrets).map(
+    ([name, value]) => `${name}=${quoteEnvValue(value)}`
+  );
+
+  await mkdir(dirname(path), { recursive: true, mode: 0o700 });
+  // Create the file empty with restricted permissions before writing values
+  await Bun.write(path, "");
+  await chmod(path, 0o600);
+  await Bun.write(path, lines.join("\n") + "\n");
+}
+
+/**
+ * Delete a secrets environment file if it exists
+ */
+export async function removeSecretsEnvFile(path: string): Promise<void> {
+  await rm(path, { force: true });
+}
+
+/**
+ * Quote a value for a systemd EnvironmentFile
+ */
+function quoteEnvValue(value: string): string {
+  const escaped = value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+  return `"${escaped}"`;
+}
+
+async function readStore(configDir: string): Promise<SecretStoreFile> {
+  const { store: path } = getSecretsPaths(configDir);
+  const file = Bun.file(path);
+
+  if (!(await file.exists())) {
+    return { version: 1, apps: {} };
+  }
+
+  try {
+    const store = (await file.json()) as SecretStoreFile;
+    return { version: 1, apps: store.apps ?? {} };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    throw new SecretsError(`Failed to read secrets store: ${message}`, `Check ${path}`);
+  }
+}
+
+async function writeStore(configDir: string, store: SecretStoreFile): Promise<void> {
+  const { store: path } = getSecretsPaths(configDir);
+  await mkdir(dirname(path), { recursive: true });
+  await Bun.write(path, JSON.stringify(store, null, 2) + "\n");
+}
+
+async function readKey(configDir: string, create: boolean): Promise<Buffer> {
+  const { key: path } = getSecretsPaths(configDir);
+  const file = Bun.file(path);
+
+  if (await file.exists()) {
+    const key = Buffer.from((await file.text()).trim(), "base64");
+    if (key.length !== KEY_BYTES) {
+      throw new SecretsError("Invalid secrets key", `${path} must hold a base64-encoded 256-bit key`);
+    }
+    return key;
+  }
+
+  if (!create) {
+    throw new SecretsError(
+      "Secrets key not found",
+      `Copy the key to ${path}, or set the secrets again with "bunman secrets set"`
+    );
+  }
+
+  const key = randomBytes(KEY_BYTES);
+  const dir = dirname(path);
+  await mkdir(dir, { recursive: true });
+
+  await Bun.write(path, "");
+  await chmod(path, 0o600);
+  await Bun.write(path, key.toString("base64") + "\n");
+
+  // Keep the key out of version control; the encrypted store can be committed
+  const gitignore = Bun.file(join(dir, ".gitignore"));
+  if (!(await gitignore.exists())) {
+    await Bun.write(gitignore, `${SECRETS_DIR.key}\n`);
+  }
+
+  return key;
+}
+
+/**
+ * Encrypt a value, binding it to its app and name so values can't be swapped
+ */
+function encrypt(key: Buffer, context: string, value: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(context));
+
+  const data = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [VALUE_PREFIX, iv, tag, data]
+    .map((part) => (typeof part === "string" ? part : part.toString("base64")))
+    .join(":");
+}
+
+function decrypt(key: Buffer, context: string, encrypted: string): string {
+  const [prefix, iv, tag, data] = encrypted.split(":");
+
+  if (prefix !== VALUE_PREFIX || !iv || !tag || data === undefined) {
+    throw new SecretsError(`Malformed secret: ${context}`, "Set it again with \"bunman secrets set\"");
+  }
+
+  try {
+    const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, "base64"));
+    decipher.setAAD(Buffer.from(context));
+    decipher.setAuthTag(Buffer.from(tag, "base64"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(data, "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch {
+    throw new SecretsError(
+      `Failed to decrypt secret: ${context}`,
+      "The secrets key does not match the one used to encrypt it"
+    );
+  }
+}
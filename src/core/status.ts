@@ -0,0 +1,88 @@
+import type { NormalizedConfig } from "../types/config";
+import type { ServiceManager } from "../types/backend";
+import type { JobStatus, ServiceStatus } from "../types/service";
+import { ServiceNotFoundError } from "../utils/errors";
+import { getServiceManager } from "./backend";
+import { validateServiceNames } from "./batch";
+import { expandInstances } from "./instances";
+import { getNextRun } from "./schedule";
+
+/**
+ * Get the status of one app, reported under its config name
+ * (use `getAppStatuses` for the instances of a clustered app)
+ */
+export async function getAppStatus(
+  config: NormalizedConfig,
+  name: string,
+  serviceManager?: ServiceManager
+): Promise<ServiceStatus> {
+  serviceManager ??= await getServiceManager(config);
+  const app = config.apps[name];
+  if (!app) {
+    throw new ServiceNotFoundError(name, Object.keys(config.apps));
+  }
+
+  const status = await serviceManager.getStatus(app.serviceName);
+  status.name = name;
+  return status;
+}
+
+/**
+ * Get the status of several apps (all apps by default), in config order;
+ * a clustered app is reported once per instance (e.g., "api@1", "api@2")
+ */
+export async function getAppStatuses(
+  config: NormalizedConfig,
+  names: string[] = Object.keys(config.apps),
+  serviceManager?: ServiceManager
+): Promise<ServiceStatus[]> {
+  serviceManager ??= await getServiceManager(config);
+  validateServiceNames(names, config.apps);
+
+  const services = await expandInstances(
+    names.map((name) => [name, config.apps[name]!]),
+    serviceManager
+  );
+  const statuses = await serviceManager.getAllStatuses(
+    services.map(([, app]) => app.serviceName)
+  );
+
+  // Map back to user-friendly names
+  statuses.forEach((status, index) => {
+    status.name = services[index]![0];
+  });
+
+  return statuses;
+}
+
+/**
+ * Get the state and run times of every app with a schedule, in config order
+ */
+export async function getJobStatuses(
+  config: NormalizedConfig,
+  serviceManager?: ServiceManager
+): Promise<JobStatus[]> {
+  serviceManager ??= await getServiceManager(config);
+  const jobs: JobStatus[] = [];
+
+  for (const [name, app] of Object.entries(config.apps)) {
+    if (!app.schedule) continue;
+
+    const [status, runs] = await Promise.all([
+      serviceManager.getStatus(app.serviceName),
+      serviceManager.getJobRuns(app.serviceName),
+    ]);
+
+    jobs.push({
+      name,
+      schedule: app.schedule,
+      state: status.state,
+      // Backends that can't report the next run fall back to the cron schedule
+      nextRun: runs.nextRun ?? (status.state === "active" ? getNextRun(app.schedule) : undefined),
+      lastRun: runs.lastRun,
+      lastExitCode: runs.lastExitCode,
+    });
+  }
+
+  return jobs;
+}
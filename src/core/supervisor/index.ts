@@ -0,0 +1,4 @@
+export { Supervisor, getRestartDelay, shouldRestart } from "./supervisor";
+export type { SupervisorOptions } from "./supervisor";
+export { serveSupervisor, handleRequest } from "./server";
+export { reapZombies, parseProcStat } from "./reaper";
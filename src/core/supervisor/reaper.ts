@@ -0,0 +1,80 @@
+import { readdirSync, readFileSync } from "fs";
+import { dlopen, FFIType } from "bun:ffi";
+
+/**
+ * Names of the C library on glibc and musl (Alpine) systems
+ */
+const LIBC_NAMES = ["libc.so.6", "libc.musl-x86_64.so.1", "libc.musl-aarch64.so.1"];
+
+/**
+ * waitpid() option: return right away instead of blocking
+ */
+const WNOHANG = 1;
+
+type Waitpid = (pid: number) => number;
+
+let waitpid: Waitpid | null | undefined;
+
+/**
+ * waitpid() from the C library, or null where it can't be loaded
+ */
+function loadWaitpid(): Waitpid | null {
+  for (const name of LIBC_NAMES) {
+    try {
+      const libc = dlopen(name, {
+        waitpid: { args: [FFIType.i32, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
+      });
+      return (pid) => libc.symbols.waitpid(pid, null, WNOHANG);
+    } catch {
+      // Try the next name
+    }
+  }
+  return null;
+}
+
+/**
+ * State and parent of a process, from the contents of /proc/<pid>/stat
+ */
+export function parseProcStat(content: string): { state: string; ppid: number } | undefined {
+  // The command name in parentheses may itself contain spaces and parentheses
+  const fields = content.slice(content.lastIndexOf(")") + 2).split(" ");
+  const ppid = parseInt(fields[1] ?? "", 10);
+  if (!fields[0] || isNaN(ppid)) {
+    return undefined;
+  }
+  return { state: fields[0], ppid };
+}
+
+/**
+ * Reap zombie children other than `exclude`: as PID 1, every orphaned
+ * process is reparented to bunman, and nothing else collects its exit
+ * status. The apps' own processes are left to Bun, which waits for them.
+ * @returns the number of processes reaped
+ */
+export function reapZombies(exclude: Set<number>): number {
+  if (process.platform !== "linux") return 0;
+
+  waitpid ??= loadWaitpid();
+  if (!waitpid) return 0;
+
+  let reaped = 0;
+
+  for (const entry of readdirSync("/proc")) {
+    const pid = Number(entry);
+    if (!Number.isInteger(pid) || exclude.has(pid)) continue;
+
+    let stat: ReturnType<typeof parseProcStat>;
+    try {
+      stat = parseProcStat(readFileSync(`/proc/${pid}/stat`, "utf8"));
+    } catch {
+      // The process is already gone
+      continue;
+    }
+
+    if (stat?.state === "Z" && stat.ppid === process.pid && waitpid(pid) === pid) {
+      reaped++;
+    }
+  }
+
+  return reaped;
+}
@@ -0,0 +1,100 @@
+import { existsSync, mkdirSync, unlinkSync } from "fs";
+import { dirname } from "path";
+import type { Server } from "bun";
+import type { NormalizedAppConfig } from "../../types/config";
+import { BunmanError } from "../../utils/errors";
+import type { Supervisor } from "./supervisor";
+
+/**
+ * Serve the supervisor's API on a Unix socket, so that bunman commands run
+ * next to it (e.g., through `docker exec`) can control its services
+ *
+ * Routes (JSON bodies and responses):
+ * - GET /health
+ * - GET /services/:name, GET /services/:name/instances,
+ *   GET /services/:name/jobs, GET /services/:name/logs,
+ *   GET /services/:name/config
+ * - POST /services/:name/(start|stop|restart|reset|run)
+ * - PUT /services/:name (install and start an app),
+ *   PUT /services/:name/config (replace an app's config), DELETE /services/:name
+ */
+export function serveSupervisor(supervisor: Supervisor, socketPath: string): Server<undefined> {
+  mkdirSync(dirname(socketPath), { recursive: true });
+  // A supervisor that didn't shut down cleanly leaves its socket behind
+  if (existsSync(socketPath)) {
+    unlinkSync(socketPath);
+  }
+
+  return Bun.serve({
+    unix: socketPath,
+    fetch: (request) => handleRequest(supervisor, request),
+  });
+}
+
+/**
+ * Route one API request to the supervisor
+ */
+export async function handleRequest(supervisor: Supervisor, request: Request): Promise<Response> {
+  const [, resource, rawName, action] = new URL(request.url).pathname.split("/");
+  const name = decodeURIComponent(rawName ?? "");
+  const route = `${request.method} ${action ?? ""}`;
+
+  try {
+    if (resource === "health") {
+      return Response.json({ ok: true });
+    }
+
+    if (resource !== "services" || !name) {
+      return Response.json({ error: "Not found" }, { status: 404 });
+    }
+
+    switch (route) {
+      case "GET ":
+        return Response.json(supervisor.getStatus(name));
+      case "GET instances":
+        return Response.json(supervisor.listInstances(name));
+      case "GET jobs":
+        return Response.json(supervisor.getJobRuns(name));
+      case "GET logs":
+        return Response.json(supervisor.getLogFiles(name));
+      case "GET config":
+        return Response.json(supervisor.getApp(name) ?? null);
+      case "POST start":
+        await supervisor.startService(name);
+        break;
+      case "POST stop":
+        await supervisor.stopService(name);
+        break;
+      case "POST restart":
+        await supervisor.restartService(name);
+        break;
+      case "POST reset":
+        supervisor.resetFailed(name);
+        break;
+      case "POST run":
+        await supervisor.runJob(name);
+        break;
+      case "PUT ":
+        await supervisor.install(name, (await request.json()) as NormalizedAppConfig);
+        break;
+      case "PUT config":
+        supervisor.setApp(name, (await request.json()) as NormalizedAppConfig);
+        break;
+      case "DELETE ":
+        await supervisor.remove(name);
+        break;
+      default:
+        return Response.json({ error: "Not found" }, { status: 404 });
+    }
+
+    return Response.json(supervisor.getStatus(name));
+  } catch (error) {
+    if (error instanceof BunmanError) {
+      return Response.json({ error: error.message, help: error.help }, { status: 400 });
+    }
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
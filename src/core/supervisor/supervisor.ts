@@ -0,0 +1,458 @@
+import { createWriteStream } from "fs";
+import { mkdir } from "fs/promises";
+import { dirname } from "path";
+import type { JobRuns, ServiceState, ServiceStatus } from "../../types/service";
+import type { NormalizedAppConfig, RestartPolicy } from "../../types/config";
+import { BunmanError } from "../../utils/errors";
+import { sortByDependencies } from "../dependencies";
+import { getAppEnv, spawnApp, stopApp } from "../foreground";
+import type { AppProcess } from "../foreground";
+import { getInstanceApp, isClustered, parseInstanceName } from "../instances";
+import { getLogFile } from "../logs";
+import { reapZombies } from "./reaper";
+
+/**
+ * Window of `maxRestarts` when the app sets no `restartWindow` (as on launchd)
+ */
+const DEFAULT_RESTART_WINDOW = 10;
+
+/**
+ * How often orphaned processes are reaped when running as PID 1
+ */
+const REAP_INTERVAL_MS = 1000;
+
+/**
+ * Signals systemd counts as a clean exit (so "on-failure" doesn't restart)
+ */
+const CLEAN_SIGNALS = ["SIGHUP", "SIGINT", "SIGTERM", "SIGPIPE"];
+
+/**
+ * Options of the foreground supervisor
+ */
+export interface SupervisorOptions {
+  /** Decrypted secrets of an app */
+  resolveSecrets?: (app: NormalizedAppConfig) => Promise<Record<string, string>>;
+
+  /** Consume the stdout or stderr of an app until it ends (besides its log file) */
+  output?: (name: string, stream: ReadableStream<Uint8Array>) => Promise<void>;
+
+  /** Report a lifecycle event of an app (started, exited, restarting) */
+  log?: (name: string, message: string) => void;
+
+  /** Reap orphaned processes that are reparented to the supervisor */
+  reapZombies?: boolean;
+}
+
+interface SupervisedService {
+  /** App name, with the instance of a clustered app (e.g., "api@2") */
+  name: string;
+  app: NormalizedAppConfig;
+  state: ServiceState;
+  proc?: AppProcess;
+  startedAt?: number;
+  restarts: number;
+  exitCode?: number;
+  startLimitHit: boolean;
+
+  /** Start times within the restart window, for `maxRestarts` */
+  starts: number[];
+  restartTimer?: ReturnType<typeof setTimeout>;
+
+  /** Start of the most recent run of a scheduled job */
+  lastRun?: Date;
+}
+
+/**
+ * Runs apps as child processes in place of systemd (e.g., as PID 1 of a
+ * container), restarting them according to their restart policy
+ */
+export class Supervisor {
+  private services = new Map<string, SupervisedService>();
+
+  /** App names by service name, for apps installed later */
+  private names = new Map<string, string>();
+  private reaper?: ReturnType<typeof setInterval>;
+  private stopping = false;
+
+  constructor(
+    apps: Array<[string, NormalizedAppConfig]>,
+    private options: SupervisorOptions = {}
+  ) {
+    for (const [name, app] of sortByDependencies(apps)) {
+      this.names.set(app.serviceName, name);
+      for (const [instanceName, instanceApp] of expandApp(name, app)) {
+        this.services.set(instanceApp.serviceName, createService(instanceName, instanceApp));
+      }
+    }
+  }
+
+  /**
+   * Start every app (after the apps it depends on); scheduled jobs only
+   * run when asked for with `runJob`
+   */
+  async start(): Promise<void> {
+    if (this.options.reapZombies) {
+      this.reaper = setInterval(() => reapZombies(this.getPids()), REAP_INTERVAL_MS);
+    }
+
+    for (const service of this.services.values()) {
+      if (service.app.schedule === undefined) {
+        await this.spawn(service);
+      }
+    }
+  }
+
+  /**
+   * Stop every app, dependents first
+   */
+  async shutdown(): Promise<void> {
+    this.stopping = true;
+    clearInterval(this.reaper);
+
+    for (const service of [...this.services.values()].reverse()) {
+      await this.stopService(service.app.serviceName);
+    }
+  }
+
+  /**
+   * Start a service that is not running
+   */
+  async startService(serviceName: string): Promise<void> {
+    const service = this.getService(serviceName);
+
+    if (service.startLimitHit) {
+      throw new BunmanError(
+        `Service ${service.name} hit its start limit`,
+        `Run 'bunman reset ${parseInstanceName(service.name).serviceName}' first`
+      );
+    }
+
+    clearTimeout(service.restartTimer);
+    if (!service.proc) {
+      await this.spawn(service);
+    }
+  }
+
+  /**
+   * Stop a service and keep it stopped
+   */
+  async stopService(serviceName: string): Promise<void> {
+    const service = this.services.get(serviceName);
+    if (!service) return;
+
+    clearTimeout(service.restartTimer);
+    const proc = service.proc;
+    if (!proc) {
+      if (service.state === "activating") {
+        service.state = "inactive";
+      }
+      return;
+    }
+
+    service.state = "deactivating";
+    service.proc = undefined;
+    await stopApp(service.app, proc);
+    service.state = "inactive";
+  }
+
+  async restartService(serviceName: string): Promise<void> {
+    await this.stopService(serviceName);
+    await this.startService(serviceName);
+  }
+
+  /**
+   * Run a scheduled job now, without waiting for it to finish
+   */
+  async runJob(serviceName: string): Promise<void> {
+    const service = this.getService(serviceName);
+    if (!service.proc) {
+      service.lastRun = new Date();
+      await this.spawn(service);
+    }
+  }
+
+  /**
+   * Clear the start limit of a service that gave up restarting
+   */
+  resetFailed(serviceName: string): void {
+    const service = this.services.get(serviceName);
+    if (!service || service.state !== "failed") return;
+
+    service.state = "inactive";
+    service.startLimitHit = false;
+    service.starts = [];
+  }
+
+  /**
+   * Add or update an app and start it (`bunman start` installs apps)
+   */
+  async install(serviceName: string, app: NormalizedAppConfig): Promise<void> {
+    this.setApp(serviceName, app);
+
+    if (app.schedule === undefined) {
+      await this.startService(serviceName);
+    }
+  }
+
+  /**
+   * Config of a service, if the supervisor knows it
+   */
+  getApp(serviceName: string): NormalizedAppConfig | undefined {
+    return this.services.get(serviceName)?.app;
+  }
+
+  /**
+   * Add or update an app; a running app uses it from its next restart
+   */
+  setApp(serviceName: string, app: NormalizedAppConfig): void {
+    const existing = this.services.get(serviceName);
+    if (existing) {
+      existing.app = app;
+      return;
+    }
+
+    const { serviceName: baseName, instance } = parseInstanceName(serviceName);
+    const name = this.names.get(baseName) ?? baseName;
+    this.services.set(
+      serviceName,
+      createService(instance === undefined ? name : `${name}@${instance}`, app)
+    );
+  }
+
+  /**
+   * Stop and forget a service (every instance, for a clustered app)
+   */
+  async remove(serviceName: string): Promise<void> {
+    const names = [serviceName, ...this.getInstanceNames(serviceName)];
+    for (const name of names) {
+      await this.stopService(name);
+      this.services.delete(name);
+    }
+  }
+
+  /**
+   * Status of a service; services the supervisor doesn't run are inactive
+   */
+  getStatus(serviceName: string): ServiceStatus {
+    const service = this.services.get(serviceName);
+    if (!service) {
+      return { name: serviceName, state: "inactive" };
+    }
+
+    return {
+      name: serviceName,
+      state: service.state,
+      pid: service.proc?.pid,
+      uptime:
+        service.proc && service.startedAt !== undefined
+          ? Math.floor((Date.now() - service.startedAt) / 1000)
+          : undefined,
+      restarts: service.restarts,
+      exitCode: service.exitCode,
+      ...(service.startLimitHit ? { startLimitHit: true } : {}),
+    };
+  }
+
+  getJobRuns(serviceName: string): JobRuns {
+    const service = this.services.get(serviceName);
+    return {
+      lastRun: service?.lastRun,
+      lastExitCode: service?.lastRun ? service.exitCode : undefined,
+    };
+  }
+
+  /**
+   * Instance numbers run for a clustered app
+   */
+  listInstances(serviceName: string): number[] {
+    return this.getInstanceNames(serviceName)
+      .map((name) => parseInstanceName(name).instance!)
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * Log files of a service; "bunman-api@*" matches every instance
+   */
+  getLogFiles(serviceName: string): string[] {
+    const names = serviceName.endsWith("@*")
+      ? this.getInstanceNames(serviceName.slice(0, -2))
+      : [serviceName];
+    return names.map((name) => getLogFile(this.getService(name).app));
+  }
+
+  private async spawn(service: SupervisedService): Promise<void> {
+    const { name, app } = service;
+    const secrets = (await this.options.resolveSecrets?.(app)) ?? {};
+    const logFile = getLogFile(app);
+    await mkdir(dirname(logFile), { recursive: true });
+
+    const proc = spawnApp(app, await getAppEnv(app, secrets));
+    service.proc = proc;
+    service.state = "active";
+    service.startedAt = Date.now();
+    service.starts.push(service.startedAt);
+
+    this.options.log?.(name, `started (pid ${proc.pid})`);
+
+    // Like StandardOutput=append:, both streams go to the log file
+    const log = createWriteStream(logFile, { flags: "a" });
+    const outputs = [proc.stdout, proc.stderr].map((stream) => {
+      const [toFile, toOutput] = this.options.output ? stream.tee() : [stream];
+      void this.options.output?.(name, toOutput!);
+      return appendTo(toFile!, log);
+    });
+    void Promise.all(outputs).then(() => log.end());
+
+    void proc.exited.then(() => {
+      // Exits caused by a stop or restart are expected
+      if (service.proc !== proc) return;
+      service.proc = undefined;
+      this.handleExit(service, proc);
+    });
+  }
+
+  /**
+   * Apply the restart policy to a service that exited on its own
+   */
+  private handleExit(service: SupervisedService, proc: AppProcess): void {
+    const { name, app } = service;
+    const signal = proc.signalCode ?? undefined;
+    service.exitCode = proc.exitCode ?? undefined;
+
+    const reason = signal ? `killed by ${signal}` : `exited with code ${proc.exitCode}`;
+    const failed = signal !== undefined || proc.exitCode !== 0;
+
+    // Scheduled jobs run once per `runJob`
+    const isJob = app.schedule !== undefined;
+    if (this.stopping || isJob || !shouldRestart(app.restart, proc.exitCode, signal)) {
+      service.state = failed && !isJob ? "failed" : "inactive";
+      this.options.log?.(name, reason);
+      return;
+    }
+
+    // systemd's StartLimitBurst: give up after maxRestarts starts in the window
+    const window = (app.restartWindow ?? DEFAULT_RESTART_WINDOW) * 1000;
+    service.starts = service.starts.filter((time) => Date.now() - time < window);
+    if (app.maxRestarts !== undefined && service.starts.length >= app.maxRestarts) {
+      service.state = "failed";
+      service.startLimitHit = true;
+      this.options.log?.(name, `${reason}; restarted too often, giving up`);
+      return;
+    }
+
+    const delay = getRestartDelay(app, service.restarts);
+    service.state = "activating";
+    this.options.log?.(name, `${reason}; restarting in ${delay}s`);
+
+    service.restartTimer = setTimeout(() => {
+      service.restarts++;
+      void this.spawn(service).catch((error: Error) => {
+        service.state = "failed";
+        this.options.log?.(name, `failed to restart: ${error.message}`);
+      });
+    }, delay * 1000);
+  }
+
+  private getService(serviceName: string): SupervisedService {
+    const service = this.services.get(serviceName);
+    if (!service) {
+      throw new BunmanError(
+        `Service ${serviceName} is not run by the supervisor`,
+        "Add it with 'bunman start <service>'"
+      );
+    }
+    return service;
+  }
+
+  private getInstanceNames(serviceName: string): string[] {
+    return [...this.services.keys()].filter((name) => {
+      const parsed = parseInstanceName(name);
+      return parsed.serviceName === serviceName && parsed.instance !== undefined;
+    });
+  }
+
+  /**
+   * Pids of the apps' main processes, which Bun reaps itself
+   */
+  private getPids(): Set<number> {
+    const pids = new Set<number>();
+    for (const service of this.services.values()) {
+      if (service.proc) pids.add(service.proc.pid);
+    }
+    return pids;
+  }
+}
+
+/**
+ * Check whether a restart policy restarts a process that exited with
+ * `exitCode` or was killed by `signal`, the way systemd's Restart= does
+ */
+export function shouldRestart(
+  policy: RestartPolicy,
+  exitCode: number | null,
+  signal?: string
+): boolean {
+  switch (policy) {
+    case "always":
+      return true;
+    case "on-failure":
+      return signal === undefined ? exitCode !== 0 : !CLEAN_SIGNALS.includes(signal);
+    case "on-abnormal":
+      return signal !== undefined && !CLEAN_SIGNALS.includes(signal);
+    case "no":
+      return false;
+  }
+}
+
+/**
+ * Seconds before restarting an app that has restarted `restarts` times:
+ * `restartSec`, growing to `restartBackoff.maxDelay` over its steps like
+ * systemd's RestartSteps
+ */
+export function getRestartDelay(app: NormalizedAppConfig, restarts: number): number {
+  const backoff = app.restartBackoff;
+  if (!backoff || backoff.maxDelay <= app.restartSec) {
+    return app.restartSec;
+  }
+
+  const progress = Math.min(restarts, backoff.steps) / backoff.steps;
+  const delay =
+    app.restartSec > 0
+      ? app.restartSec * Math.pow(backoff.maxDelay / app.restartSec, progress)
+      : backoff.maxDelay * progress;
+  return Math.round(delay * 10) / 10;
+}
+
+/**
+ * One entry per instance of a clustered app
+ */
+function expandApp(
+  name: string,
+  app: NormalizedAppConfig
+): Array<[string, NormalizedAppConfig]> {
+  if (!isClustered(app) || app.instance !== undefined) {
+    return [[name, app]];
+  }
+  return Array.from({ length: app.instances! }, (_, index) =>
+    getInstanceApp(name, app, index + 1)
+  );
+}
+
+function createService(name: string, app: NormalizedAppConfig): SupervisedService {
+  return { name, app, state: "inactive", restarts: 0, startLimitHit: false, starts: [] };
+}
+
+/**
+ * Copy a stream to a log file until it ends
+ */
+async function appendTo(
+  stream: ReadableStream<Uint8Array>,
+  log: ReturnType<typeof createWriteStream>
+): Promise<void> {
+  const reader = stream.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    log.write(value);
+  }
+}
@@ -0,0 +1,189 @@
+import type { NormalizedAppConfig } from "../../types/config";
+import type { ExposureRating, SecurityAudit, SecurityCheck } from "../../types/systemd";
+import { generateUnitFile } from "./generator";
+
+/**
+ * Options for auditing units
+ */
+export interface AuditOptions {
+  /** User-level units always run as the invoking user */
+  userMode?: boolean;
+}
+
+interface AuditRule {
+  directive: string;
+  description: string;
+  weight: number;
+  test: (service: Record<string, string>, options: AuditOptions) => boolean;
+}
+
+/**
+ * Values systemd reads as true or false in boolean settings
+ */
+const TRUE_VALUES = ["1", "yes", "y", "true", "t", "on"];
+const FALSE_VALUES = ["0", "no", "n", "false", "f", "off"];
+
+function isTrue(value: string | undefined): boolean {
+  return value !== undefined && TRUE_VALUES.includes(value.toLowerCase());
+}
+
+/**
+ * Checks scored by the audit, loosely following `systemd-analyze security`
+ */
+const AUDIT_RULES: AuditRule[] = [
+  {
+    directive: "User=",
+    description: "Runs as an unprivileged user",
+    weight: 20,
+    test: (service, options) =>
+      options.userMode === true ||
+      (service["User"] !== undefined && !["", "root", "0"].includes(service["User"])),
+  },
+  {
+    directive: "NoNewPrivileges=true",
+    description: "Cannot gain privileges through setuid binaries",
+    weight: 10,
+    test: (service) => isTrue(service["NoNewPrivileges"]),
+  },
+  {
+    directive: "ProtectSystem=strict",
+    description: "Filesystem is read-only outside ReadWritePaths",
+    weight: 10,
+    test: (service) => service["ProtectSystem"] === "strict",
+  },
+  {
+    directive: "ProtectHome=",
+    description: "Home directories are hidden or read-only",
+    weight: 5,
+    test: (service) =>
+      service["ProtectHome"] !== undefined &&
+      !["", ...FALSE_VALUES].includes(service["ProtectHome"].toLowerCase()),
+  },
+  {
+    directive: "PrivateTmp=true",
+    description: "Uses a private /tmp",
+    weight: 5,
+    test: (service) => isTrue(service["PrivateTmp"]),
+  },
+  {
+    directive: "PrivateDevices=true",
+    description: "Has no access to physical devices",
+    weight: 5,
+    test: (service) => isTrue(service["PrivateDevices"]),
+  },
+  {
+    directive: "ProtectKernelTunables=true",
+    description: "Cannot change kernel variables",
+    weight: 5,
+    test: (service) => isTrue(service["ProtectKernelTunables"]),
+  },
+  {
+    directive: "ProtectKernelModules=true",
+    description: "Cannot load kernel modules",
+    weight: 5,
+    test: (service) => isTrue(service["ProtectKernelModules"]),
+  },
+  {
+    directive: "ProtectControlGroups=true",
+    description: "Cannot modify control groups",
+    weight: 5,
+    test: (service) => isTrue(service["ProtectControlGroups"]),
+  },
+  {
+    directive: "RestrictAddressFamilies=",
+    description: "Can only open the listed socket types",
+    weight: 5,
+    test: (service) => (service["RestrictAddressFamilies"] ?? "").trim().length > 0,
+  },
+  {
+    directive: "RestrictNamespaces=true",
+    description: "Cannot create namespaces",
+    weight: 5,
+    test: (service) => isTrue(service["RestrictNamespaces"]),
+  },
+  {
+    directive: "RestrictSUIDSGID=true",
+    description: "Cannot create setuid/setgid files",
+    weight: 5,
+    test: (service) => isTrue(service["RestrictSUIDSGID"]),
+  },
+  {
+    directive: "RestrictRealtime=true",
+    description: "Cannot take realtime scheduling",
+    weight: 2,
+    test: (service) => isTrue(service["RestrictRealtime"]),
+  },
+  {
+    directive: "LockPersonality=true",
+    description: "Cannot change the execution domain",
+    weight: 2,
+    test: (service) => isTrue(service["LockPersonality"]),
+  },
+];
+
+/**
+ * Score the exposure of the service unit written for an app, after its
+ * raw `systemd` directives are applied
+ */
+export function auditApp(
+  name: string,
+  app: NormalizedAppConfig,
+  options: AuditOptions = {}
+): SecurityAudit {
+  const service = parseServiceSection(generateUnitFile(app));
+
+  const checks: SecurityCheck[] = AUDIT_RULES.map((rule) => ({
+    directive: rule.directive,
+    description: rule.description,
+    weight: rule.weight,
+    passed: rule.test(service, options),
+  }));
+
+  const total = checks.reduce((sum, check) => sum + check.weight, 0);
+  const failed = checks
+    .filter((check) => !check.passed)
+    .reduce((sum, check) => sum + check.weight, 0);
+  const exposure = Math.round((failed / total) * 100) / 10;
+
+  return {
+    name,
+    hardening: app.hardening,
+    exposure,
+    rating: getExposureRating(exposure),
+    checks,
+  };
+}
+
+/**
+ * Rating for an exposure score (0.0 to 10.0)
+ */
+export function getExposureRating(exposure: number): ExposureRating {
+  if (exposure < 2) return "safe";
+  if (exposure < 5) return "ok";
+  if (exposure < 7) return "medium";
+  if (exposure < 9) return "exposed";
+  return "unsafe";
+}
+
+/**
+ * Value of each directive in the [Service] section of a unit file (the
+ * last assignment wins, as in systemd)
+ */
+export function parseServiceSection(unitFile: string): Record<string, string> {
+  const directives: Record<string, string> = {};
+  let inService = false;
+
+  for (const line of unitFile.split("\n")) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith("[")) {
+      inService = trimmed === "[Service]";
+      continue;
+    }
+
+    const separator = trimmed.indexOf("=");
+    if (!inService || separator === -1 || trimmed.startsWith("#")) continue;
+    directives[trimmed.slice(0, separator).trim()] = trimmed.slice(separator + 1).trim();
+  }
+
+  return directives;
+}
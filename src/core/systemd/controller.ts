@@ -14,14 +14,15 @@ export class SystemdController {
    */
   async execute(
     operation: SystemdOperation,
-    serviceName?: string
+    serviceName?: string,
+    extraArgs: string[] = []
   ): Promise<void> {
     // Check permissions for write operations
     if (operation !== "status") {
       await checkPermissions(this.userMode);
     }
 
-    const args = this.buildArgs(operation, serviceName);
+    const args = [...this.buildArgs(operation, serviceName), ...extraArgs];
 
     try {
       const proc = Bun.spawn(["systemctl", ...args], {
@@ -65,6 +66,13 @@ export class SystemdController {
     await this.execute("start", serviceName);
   }
 
+  /**
+   * Start a service without waiting for it (e.g., a oneshot job) to finish
+   */
+  async startNoBlock(serviceName: string): Promise<void> {
+    await this.execute("start", serviceName, ["--no-block"]);
+  }
+
   /**
    * Stop a service
    */
@@ -79,6 +87,32 @@ export class SystemdController {
     await this.execute("restart", serviceName);
   }
 
+  /**
+   * Clear the failed state and start limit counter of a service
+   */
+  async resetFailed(serviceName: string): Promise<void> {
+    await this.execute("reset-failed", serviceName);
+  }
+
+  /**
+   * Get the version of systemd (e.g., 255), if it can be determined
+   */
+  async getVersion(): Promise<number | undefined> {
+    try {
+      const proc = Bun.spawn(["systemctl", "--version"], {
+        stdout: "pipe",
+        stderr: "pipe",
+      });
+
+      const stdout = await new Response(proc.stdout).text();
+      await proc.exited;
+
+      return parseVersionOutput(stdout);
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Enable a service (start on boot)
    */
@@ -126,6 +160,61 @@ export class SystemdController {
     return Promise.all(serviceNames.map((name) => this.getStatus(name)));
   }
 
+  /**
+   * Read unit properties (timestamps are formatted in UTC)
+   */
+  async show(unit: string, properties: string[]): Promise<Record<string, string>> {
+    const args = this.buildArgs("show", unit);
+    args.push(`--property=${properties.join(",")}`);
+
+    try {
+      const proc = Bun.spawn(["systemctl", ...args], {
+        stdout: "pipe",
+        stderr: "pipe",
+        env: { ...process.env, TZ: "UTC" },
+      });
+
+      const stdout = await new Response(proc.stdout).text();
+      await proc.exited;
+
+      const values: Record<string, string> = {};
+      for (const line of stdout.split("\n")) {
+        const index = line.indexOf("=");
+        if (index > 0) {
+          values[line.slice(0, index)] = line.slice(index + 1);
+        }
+      }
+      return values;
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * List loaded units matching a pattern (e.g., "bunman-api@*.service")
+   */
+  async listUnits(pattern: string): Promise<string[]> {
+    const args = this.buildArgs("list-units", pattern);
+    args.push("--all", "--plain", "--no-legend", "--no-pager");
+
+    try {
+      const proc = Bun.spawn(["systemctl", ...args], {
+        stdout: "pipe",
+        stderr: "pipe",
+      });
+
+      const stdout = await new Response(proc.stdout).text();
+      await proc.exited;
+
+      return stdout
+        .split("\n")
+        .map((line) => line.trim().split(/\s+/)[0] ?? "")
+        .filter((unit) => unit.length > 0);
+    } catch {
+      return [];
+    }
+  }
+
   /**
    * Check if a service is active
    */
@@ -160,7 +249,7 @@ export class SystemdController {
    * Build systemctl arguments
    */
   private buildArgs(
-    operation: SystemdOperation | "is-active" | "is-enabled",
+    operation: SystemdOperation | "is-active" | "is-enabled" | "list-units" | "show",
     serviceName?: string
   ): string[] {
     const args: string[] = [];
@@ -179,6 +268,14 @@ export class SystemdController {
   }
 }
 
+/**
+ * Parse the version from `systemctl --version` ("systemd 255 (255.4-1)")
+ */
+export function parseVersionOutput(output: string): number | undefined {
+  const match = output.match(/^systemd (\d+)/m);
+  return match?.[1] ? parseInt(match[1], 10) : undefined;
+}
+
 /**
  * Parse systemctl status output into ServiceStatus
  */
@@ -196,7 +293,7 @@ function parseStatusOutput(serviceName: string, output: string): ServiceStatus {
 
     // Parse Active line: "Active: active (running) since ..."
     if (trimmed.startsWith("Active:")) {
-      if (trimmed.includes("active (running)")) {
+      if (trimmed.includes("active (running)") || trimmed.includes("active (waiting)")) {
         state = "active";
       } else if (trimmed.includes("inactive")) {
         state = "inactive";
@@ -0,0 +1,96 @@
+import type { SystemdDirectives } from "../../types/config";
+
+/**
+ * Directives bunman writes itself, with the app option that sets them
+ * (null when no option does)
+ */
+export const MANAGED_DIRECTIVES: Record<keyof SystemdDirectives, Record<string, string | null>> = {
+  unit: {
+    Description: "description",
+    After: "after",
+    Requires: "requires",
+    StartLimitIntervalSec: "restartWindow",
+    StartLimitBurst: "maxRestarts",
+  },
+  service: {
+    Type: null,
+    WorkingDirectory: "cwd",
+    ExecStartPre: "hooks.preStart",
+    ExecStart: "command",
+    ExecStartPost: "hooks.postStart",
+    ExecReload: "hooks.reload",
+    ExecStop: "hooks.preStop",
+    ExecStopPost: "hooks.postStop",
+    Restart: "restart",
+    RestartSec: "restartSec",
+    RestartSteps: "restartBackoff.steps",
+    RestartMaxDelaySec: "restartBackoff.maxDelay",
+    Environment: "env",
+    EnvironmentFile: "envFile",
+    StandardOutput: "logs.target",
+    StandardError: "logs.target",
+    User: "user",
+    Group: "group",
+    KillSignal: "killSignal",
+    KillMode: "killMode",
+    TimeoutStartSec: "startTimeout",
+    TimeoutStopSec: "stopTimeout",
+    MemoryMax: "limits.memory",
+    CPUQuota: "limits.cpu",
+    LimitNOFILE: "limits.nofile",
+    LimitNPROC: "limits.nproc",
+    PrivateTmp: "security.privateTmp",
+    NoNewPrivileges: "security.noNewPrivileges",
+    ProtectSystem: "security.protectSystem",
+    ProtectHome: "security.protectHome",
+    PrivateDevices: "security.privateDevices",
+    ProtectKernelTunables: "security.protectKernelTunables",
+    ProtectKernelModules: "security.protectKernelModules",
+    ProtectControlGroups: "security.protectControlGroups",
+    RestrictNamespaces: "security.restrictNamespaces",
+    RestrictRealtime: "security.restrictRealtime",
+    RestrictSUIDSGID: "security.restrictSUIDSGID",
+    LockPersonality: "security.lockPersonality",
+    RestrictAddressFamilies: "security.restrictAddressFamilies",
+    ReadWritePaths: "security.readWritePaths",
+  },
+  install: {
+    WantedBy: null,
+  },
+};
+
+/**
+ * Check that a key looks like a systemd directive: CamelCase (e.g.,
+ * "LimitCORE") or an "X-" prefixed custom key
+ */
+export function isDirectiveName(name: string): boolean {
+  return /^[A-Z][A-Za-z0-9]*$/.test(name) || /^X-[A-Za-z0-9-]+$/.test(name);
+}
+
+/**
+ * Merge raw directives into the lines of one section (from `start` on):
+ * each directive replaces the lines bunman wrote for it, in place, or is
+ * appended if bunman wrote none
+ */
+export function mergeDirectives(
+  lines: string[],
+  start: number,
+  directives: Record<string, string[]> = {}
+): void {
+  for (const [name, values] of Object.entries(directives)) {
+    const entries = values.map((value) => `${name}=${value}`);
+    const index = lines.findIndex((line, i) => i >= start && line.startsWith(`${name}=`));
+
+    if (index === -1) {
+      lines.push(...entries);
+      continue;
+    }
+
+    for (let i = lines.length - 1; i > index; i--) {
+      if (lines[i]!.startsWith(`${name}=`)) {
+        lines.splice(i, 1);
+      }
+    }
+    lines.splice(index, 1, ...entries);
+  }
+}
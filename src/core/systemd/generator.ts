@@ -1,46 +1,164 @@
 import type { NormalizedAppConfig } from "../../types/config";
-import type { SystemdUnit } from "../../types/systemd";
+import type { SystemdTimer, SystemdUnit } from "../../types/systemd";
+import { toOnCalendar } from "../schedule";
+import { getDependencyUnits } from "../dependencies";
+import { getSecuritySettings } from "./hardening";
+import { mergeDirectives } from "./directives";
+import { getLogFile } from "../logs";
+import { SYSTEMD_RESTART_BACKOFF_VERSION } from "../../constants";
+
+/**
+ * Options for unit generation
+ */
+export interface UnitFileOptions {
+  /** Environment file holding the app's decrypted secrets */
+  secretsFile?: string;
+
+  /** Apps of the config, used to resolve `dependsOn` to unit names */
+  apps?: Record<string, NormalizedAppConfig>;
+
+  /** Version of the target systemd; directives it lacks are left out */
+  systemdVersion?: number;
+}
 
 /**
  * Generate a systemd unit file content from app configuration
  */
-export function generateUnitFile(app: NormalizedAppConfig): string {
-  const unit = buildUnit(app);
+export function generateUnitFile(
+  app: NormalizedAppConfig,
+  options: UnitFileOptions = {}
+): string {
+  const unit = buildUnit(app, options);
   return serializeUnit(unit);
 }
 
+/**
+ * Generate the timer unit that triggers a scheduled app
+ */
+export function generateTimerFile(app: NormalizedAppConfig): string {
+  const timer: SystemdTimer = {
+    Unit: {
+      Description: `Timer for ${app.description}`,
+    },
+    Timer: {
+      OnCalendar: toOnCalendar(app.schedule!),
+      // Catch up on runs missed while the machine was off
+      Persistent: true,
+      Unit: `${app.serviceName}.service`,
+    },
+    Install: {
+      WantedBy: ["timers.target"],
+    },
+  };
+  return serializeTimer(timer);
+}
+
 /**
  * Build the SystemdUnit structure from app config
  */
-function buildUnit(app: NormalizedAppConfig): SystemdUnit {
+export function buildUnit(
+  app: NormalizedAppConfig,
+  options: UnitFileOptions = {}
+): SystemdUnit {
+  // Files listed later override earlier ones, so secrets win over envFile
+  const environmentFiles = [app.envFile, options.secretsFile].filter(
+    (file): file is string => file !== undefined
+  );
+
+  // Clustered apps are written as a template; %i is the instance number
+  const template = app.instances !== undefined;
+  const environment = formatEnvironment(
+    template ? { ...app.env, BUNMAN_INSTANCE: "%i" } : app.env
+  );
+
+  // Scheduled apps run to completion each time their timer fires
+  const job = app.schedule !== undefined;
+
+  // Apps this one depends on are both ordered before it and required
+  const dependencies = getDependencyUnits(app, options.apps ?? {});
+  const after = [...new Set([...app.after, ...dependencies])];
+  const requires = [...new Set([...app.requires, ...dependencies])];
+
+  const security = getSecuritySettings(app);
+
+  // File logs: stdout and stderr share one file, like the journal
+  const output =
+    app.logs.target === "file"
+      ? (`append:${getLogFile(app, template ? "%i" : undefined)}` as const)
+      : "journal";
+
+  // Older systemd versions restart at a fixed RestartSec
+  const backoff =
+    options.systemdVersion === undefined ||
+    options.systemdVersion >= SYSTEMD_RESTART_BACKOFF_VERSION
+      ? app.restartBackoff
+      : undefined;
+
   return {
     Unit: {
-      Description: app.description,
-      After: app.after.length > 0 ? app.after : undefined,
-      Requires: app.requires.length > 0 ? app.requires : undefined,
+      Description: template ? `${app.description} (instance %i)` : app.description,
+      After: after.length > 0 ? after : undefined,
+      Requires: requires.length > 0 ? requires : undefined,
+      StartLimitIntervalSec: app.restartWindow,
+      StartLimitBurst: app.maxRestarts,
     },
     Service: {
-      Type: "simple",
+      Type: job ? "oneshot" : "simple",
       WorkingDirectory: app.cwd,
-      ExecStart: app.command,
-      Restart: app.restart,
+      ExecStartPre: app.hooks.preStart,
+      ExecStart:
+        template && app.portBase !== undefined
+          ? formatPortCommand(app.command, app.portBase)
+          : app.command,
+      ExecStartPost: app.hooks.postStart,
+      ExecReload: app.hooks.reload,
+      ExecStop: app.hooks.preStop,
+      ExecStopPost: app.hooks.postStop,
+      Restart: job ? "no" : app.restart,
       RestartSec: app.restartSec,
-      Environment: formatEnvironment(app.env),
-      EnvironmentFile: app.envFile,
-      StandardOutput: "journal",
-      StandardError: "journal",
+      RestartSteps: backoff?.steps,
+      RestartMaxDelaySec: backoff?.maxDelay,
+      Environment: environment,
+      EnvironmentFile: environmentFiles.length > 0 ? environmentFiles : undefined,
+      StandardOutput: output,
+      StandardError: output,
       User: app.user,
       Group: app.group,
 
+      // Stop and start behavior (only include if set)
+      KillSignal: app.killSignal,
+      KillMode: app.killMode,
+      TimeoutStartSec: app.startTimeout,
+      TimeoutStopSec: app.stopTimeout,
+
       // Resource limits (only include if set)
       MemoryMax: app.limits.memory ? `${app.limits.memory}M` : undefined,
       CPUQuota: app.limits.cpu ? `${app.limits.cpu}%` : undefined,
       LimitNOFILE: app.limits.nofile,
       LimitNPROC: app.limits.nproc,
+
+      // Sandboxing from the hardening preset and overrides (only include if set)
+      PrivateTmp: security.privateTmp,
+      NoNewPrivileges: security.noNewPrivileges,
+      ProtectSystem: security.protectSystem,
+      ProtectHome: security.protectHome,
+      PrivateDevices: security.privateDevices,
+      ProtectKernelTunables: security.protectKernelTunables,
+      ProtectKernelModules: security.protectKernelModules,
+      ProtectControlGroups: security.protectControlGroups,
+      RestrictAddressFamilies: security.restrictAddressFamilies,
+      RestrictNamespaces: security.restrictNamespaces,
+      RestrictRealtime: security.restrictRealtime,
+      RestrictSUIDSGID: security.restrictSUIDSGID,
+      LockPersonality: security.lockPersonality,
+      ReadWritePaths: security.readWritePaths,
     },
-    Install: {
-      WantedBy: ["multi-user.target"],
-    },
+    Install: job
+      ? undefined
+      : {
+          WantedBy: ["multi-user.target"],
+        },
+    Directives: app.systemd,
   };
 }
 
@@ -58,6 +176,16 @@ function formatEnvironment(env: Record<string, string>): string[] | undefined {
   });
 }
 
+/**
+ * Wrap a command in a shell that sets PORT from the instance number
+ * (systemd can't do arithmetic on %i itself; "$$" is a literal "$")
+ */
+function formatPortCommand(command: string, portBase: number): string {
+  const script = `export PORT=$$((${portBase} + %i - 1)); exec ${command}`;
+  const escaped = script.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+  return `/bin/sh -c "${escaped}"`;
+}
+
 /**
  * Serialize a SystemdUnit to INI format
  */
@@ -66,6 +194,7 @@ function serializeUnit(unit: SystemdUnit): string {
 
   // [Unit] section
   sections.push("[Unit]");
+  const unitStart = sections.length;
   sections.push(`Description=${unit.Unit.Description}`);
 
   if (unit.Unit.Documentation) {
@@ -86,25 +215,58 @@ function serializeUnit(unit: SystemdUnit): string {
     sections.push(`Wants=${unit.Unit.Wants.join(" ")}`);
   }
 
+  // Start rate limit
+  if (unit.Unit.StartLimitIntervalSec !== undefined) {
+    sections.push(`StartLimitIntervalSec=${unit.Unit.StartLimitIntervalSec}`);
+  }
+
+  if (unit.Unit.StartLimitBurst !== undefined) {
+    sections.push(`StartLimitBurst=${unit.Unit.StartLimitBurst}`);
+  }
+
+  mergeDirectives(sections, unitStart, unit.Directives?.unit);
   sections.push("");
 
   // [Service] section
   sections.push("[Service]");
+  const serviceStart = sections.length;
   sections.push(`Type=${unit.Service.Type}`);
   sections.push(`WorkingDirectory=${unit.Service.WorkingDirectory}`);
+
+  // Lifecycle commands; several lines of one kind run in order
+  for (const command of unit.Service.ExecStartPre ?? []) {
+    sections.push(`ExecStartPre=${command}`);
+  }
+
   sections.push(`ExecStart=${unit.Service.ExecStart}`);
 
-  if (unit.Service.ExecStop) {
-    sections.push(`ExecStop=${unit.Service.ExecStop}`);
+  for (const command of unit.Service.ExecStartPost ?? []) {
+    sections.push(`ExecStartPost=${command}`);
+  }
+
+  for (const command of unit.Service.ExecReload ?? []) {
+    sections.push(`ExecReload=${command}`);
   }
 
-  if (unit.Service.ExecReload) {
-    sections.push(`ExecReload=${unit.Service.ExecReload}`);
+  for (const command of unit.Service.ExecStop ?? []) {
+    sections.push(`ExecStop=${command}`);
+  }
+
+  for (const command of unit.Service.ExecStopPost ?? []) {
+    sections.push(`ExecStopPost=${command}`);
   }
 
   sections.push(`Restart=${unit.Service.Restart}`);
   sections.push(`RestartSec=${unit.Service.RestartSec}`);
 
+  if (unit.Service.RestartSteps !== undefined) {
+    sections.push(`RestartSteps=${unit.Service.RestartSteps}`);
+  }
+
+  if (unit.Service.RestartMaxDelaySec !== undefined) {
+    sections.push(`RestartMaxDelaySec=${unit.Service.RestartMaxDelaySec}`);
+  }
+
   // Environment variables
   if (unit.Service.Environment) {
     for (const env of unit.Service.Environment) {
@@ -113,7 +275,9 @@ function serializeUnit(unit: SystemdUnit): string {
   }
 
   if (unit.Service.EnvironmentFile) {
-    sections.push(`EnvironmentFile=${unit.Service.EnvironmentFile}`);
+    for (const file of unit.Service.EnvironmentFile) {
+      sections.push(`EnvironmentFile=${file}`);
+    }
   }
 
   sections.push(`StandardOutput=${unit.Service.StandardOutput}`);
@@ -127,6 +291,23 @@ function serializeUnit(unit: SystemdUnit): string {
     sections.push(`Group=${unit.Service.Group}`);
   }
 
+  // Stop and start behavior
+  if (unit.Service.KillSignal) {
+    sections.push(`KillSignal=${unit.Service.KillSignal}`);
+  }
+
+  if (unit.Service.KillMode) {
+    sections.push(`KillMode=${unit.Service.KillMode}`);
+  }
+
+  if (unit.Service.TimeoutStartSec !== undefined) {
+    sections.push(`TimeoutStartSec=${unit.Service.TimeoutStartSec}`);
+  }
+
+  if (unit.Service.TimeoutStopSec !== undefined) {
+    sections.push(`TimeoutStopSec=${unit.Service.TimeoutStopSec}`);
+  }
+
   // Resource limits
   if (unit.Service.MemoryMax) {
     sections.push(`MemoryMax=${unit.Service.MemoryMax}`);
@@ -161,22 +342,81 @@ function serializeUnit(unit: SystemdUnit): string {
     sections.push(`ProtectHome=${unit.Service.ProtectHome}`);
   }
 
-  sections.push("");
+  for (const key of [
+    "PrivateDevices",
+    "ProtectKernelTunables",
+    "ProtectKernelModules",
+    "ProtectControlGroups",
+    "RestrictNamespaces",
+    "RestrictRealtime",
+    "RestrictSUIDSGID",
+    "LockPersonality",
+  ] as const) {
+    if (unit.Service[key] !== undefined) {
+      sections.push(`${key}=${unit.Service[key]}`);
+    }
+  }
 
-  // [Install] section
-  sections.push("[Install]");
-  sections.push(`WantedBy=${unit.Install.WantedBy.join(" ")}`);
+  if (unit.Service.RestrictAddressFamilies && unit.Service.RestrictAddressFamilies.length > 0) {
+    sections.push(`RestrictAddressFamilies=${unit.Service.RestrictAddressFamilies.join(" ")}`);
+  }
 
-  if (unit.Install.RequiredBy) {
-    sections.push(`RequiredBy=${unit.Install.RequiredBy.join(" ")}`);
+  if (unit.Service.ReadWritePaths && unit.Service.ReadWritePaths.length > 0) {
+    sections.push(`ReadWritePaths=${unit.Service.ReadWritePaths.join(" ")}`);
   }
 
-  if (unit.Install.Alias) {
-    for (const alias of unit.Install.Alias) {
-      sections.push(`Alias=${alias}`);
+  mergeDirectives(sections, serviceStart, unit.Directives?.service);
+  sections.push("");
+
+  // [Install] section (jobs only get one from raw directives)
+  const rawInstall = unit.Directives?.install ?? {};
+  if (unit.Install || Object.keys(rawInstall).length > 0) {
+    sections.push("[Install]");
+    const installStart = sections.length;
+
+    if (unit.Install) {
+      sections.push(`WantedBy=${unit.Install.WantedBy.join(" ")}`);
+
+      if (unit.Install.RequiredBy) {
+        sections.push(`RequiredBy=${unit.Install.RequiredBy.join(" ")}`);
+      }
+
+      if (unit.Install.Alias) {
+        for (const alias of unit.Install.Alias) {
+          sections.push(`Alias=${alias}`);
+        }
+      }
     }
+
+    mergeDirectives(sections, installStart, rawInstall);
+    sections.push("");
   }
 
+  return sections.join("\n");
+}
+
+/**
+ * Serialize a SystemdTimer to INI format
+ */
+function serializeTimer(timer: SystemdTimer): string {
+  const sections: string[] = [];
+
+  sections.push("[Unit]");
+  sections.push(`Description=${timer.Unit.Description}`);
+  sections.push("");
+
+  sections.push("[Timer]");
+  sections.push(`OnCalendar=${timer.Timer.OnCalendar}`);
+
+  if (timer.Timer.Persistent !== undefined) {
+    sections.push(`Persistent=${timer.Timer.Persistent}`);
+  }
+
+  sections.push(`Unit=${timer.Timer.Unit}`);
+  sections.push("");
+
+  sections.push("[Install]");
+  sections.push(`WantedBy=${timer.Install.WantedBy.join(" ")}`);
   sections.push("");
 
   return sections.join("\n");
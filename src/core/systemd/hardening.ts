@@ -0,0 +1,59 @@
+import { dirname } from "path";
+import type {
+  HardeningLevel,
+  NormalizedAppConfig,
+  SecuritySettings,
+} from "../../types/config";
+import { getLogFile } from "../logs";
+
+const BASIC_PRESET: SecuritySettings = {
+  privateTmp: true,
+  noNewPrivileges: true,
+  protectSystem: "full",
+  protectKernelTunables: true,
+  protectKernelModules: true,
+  protectControlGroups: true,
+};
+
+/**
+ * Sandboxing settings of each hardening preset
+ *
+ * MemoryDenyWriteExecute is left out on purpose: it breaks the JIT of
+ * Bun's JavaScript engine.
+ */
+export const HARDENING_PRESETS: Record<HardeningLevel, SecuritySettings> = {
+  none: {},
+  basic: BASIC_PRESET,
+  strict: {
+    ...BASIC_PRESET,
+    protectSystem: "strict",
+    protectHome: "read-only",
+    privateDevices: true,
+    restrictAddressFamilies: ["AF_UNIX", "AF_INET", "AF_INET6"],
+    restrictNamespaces: true,
+    restrictRealtime: true,
+    restrictSUIDSGID: true,
+    lockPersonality: true,
+  },
+};
+
+/**
+ * Sandboxing settings of an app: its preset with the `security` overrides
+ * applied; under protectSystem "strict" the app's cwd (and log directory)
+ * stays writable
+ */
+export function getSecuritySettings(app: NormalizedAppConfig): SecuritySettings {
+  const settings: SecuritySettings = {
+    ...HARDENING_PRESETS[app.hardening],
+    ...app.security,
+  };
+
+  if (settings.protectSystem === "strict") {
+    const logDir = app.logs.target === "file" ? [dirname(getLogFile(app))] : [];
+    settings.readWritePaths = [
+      ...new Set([app.cwd, ...logDir, ...(settings.readWritePaths ?? [])]),
+    ];
+  }
+
+  return settings;
+}
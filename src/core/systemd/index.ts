@@ -1,9 +1,12 @@
-export { generateUnitFile } from "./generator";
+export { generateUnitFile, generateTimerFile, buildUnit } from "./generator";
+export { HARDENING_PRESETS, getSecuritySettings } from "./hardening";
+export { auditApp, getExposureRating } from "./audit";
 export { SystemdController } from "./controller";
 export { SystemdLogger } from "./logger";
 export {
   getUnitDirectory,
   getUnitFilePath,
+  getTimerFilePath,
   getServiceName,
   getAppName,
   unitFileExists,
@@ -91,6 +91,14 @@ export class SystemdLogger {
     }
   }
 
+  /**
+   * journalctl command printing only the messages of a service, for
+   * output that is prefixed per service
+   */
+  getMessageCommand(serviceName: string, options: LogOptions = {}): string[] {
+    return ["journalctl", ...this.buildArgs(serviceName, options), "-o", "cat"];
+  }
+
   /**
    * Build journalctl arguments
    */
@@ -1,9 +1,21 @@
-import { SYSTEMD_PATHS, DEFAULT_SERVICE_PREFIX } from "../../constants";
+import {
+  SYSTEMD_PATHS,
+  SECRETS_ENV_PATHS,
+  DEFAULT_SERVICE_PREFIX,
+} from "../../constants";
 
 /**
  * Get the systemd unit file directory path
+ * @param userMode - Whether using user-mode systemd
+ * @param unitPath - Explicit unit directory (overrides the default for the mode)
  */
-export function getUnitDirectory(userMode: boolean = false): string {
+export function getUnitDirectory(
+  userMode: boolean = false,
+  unitPath?: string
+): string {
+  if (unitPath) {
+    return unitPath;
+  }
   return userMode ? SYSTEMD_PATHS.user : SYSTEMD_PATHS.system;
 }
 
@@ -12,12 +24,36 @@ export function getUnitDirectory(userMode: boolean = false): string {
  */
 export function getUnitFilePath(
   serviceName: string,
-  userMode: boolean = false
+  userMode: boolean = false,
+  unitPath?: string
 ): string {
-  const dir = getUnitDirectory(userMode);
+  const dir = getUnitDirectory(userMode, unitPath);
   return `${dir}/${serviceName}.service`;
 }
 
+/**
+ * Get the full path to the timer unit of a scheduled service
+ */
+export function getTimerFilePath(
+  serviceName: string,
+  userMode: boolean = false,
+  unitPath?: string
+): string {
+  const dir = getUnitDirectory(userMode, unitPath);
+  return `${dir}/${serviceName}.timer`;
+}
+
+/**
+ * Get the path of the environment file holding a service's secrets
+ */
+export function getSecretsFilePath(
+  serviceName: string,
+  userMode: boolean = false
+): string {
+  const dir = userMode ? SECRETS_ENV_PATHS.user : SECRETS_ENV_PATHS.system;
+  return `${dir}/${serviceName}.env`;
+}
+
 /**
  * Get the service name from an app name
  */
@@ -46,23 +82,27 @@ export function getAppName(
  */
 export async function unitFileExists(
   serviceName: string,
-  userMode: boolean = false
+  userMode: boolean = false,
+  unitPath?: string
 ): Promise<boolean> {
-  const path = getUnitFilePath(serviceName, userMode);
+  const path = getUnitFilePath(serviceName, userMode, unitPath);
   const file = Bun.file(path);
   return file.exists();
 }
 
 /**
- * Ensure the unit directory exists (for user mode)
+ * Ensure the unit directory exists (for user mode or a custom unit path)
  */
-export async function ensureUnitDirectory(userMode: boolean = false): Promise<void> {
-  if (!userMode) {
+export async function ensureUnitDirectory(
+  userMode: boolean = false,
+  unitPath?: string
+): Promise<void> {
+  if (!userMode && !unitPath) {
     // System directory should already exist
     return;
   }
 
-  const dir = getUnitDirectory(userMode);
+  const dir = getUnitDirectory(userMode, unitPath);
   const file = Bun.file(dir);
 
   if (!(await file.exists())) {
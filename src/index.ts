@@ -0,0 +1,98 @@
+/**
+ * bunman library entry
+ *
+ * Config files import types and `defineConfig` from here; deploy scripts
+ * can use the programmatic API to drive services without the CLI.
+ */
+
+// Config
+export { defineConfig } from "./core/config/define";
+export {
+  loadConfig,
+  normalizeConfig,
+  createConfigContext,
+  configExists,
+} from "./core/config/loader";
+export type { LoadConfigOptions } from "./core/config/loader";
+export { validateConfig, collectConfigIssues } from "./core/config/validator";
+export type {
+  BunmanConfig,
+  BatchSettings,
+  ConfigContext,
+  ConfigFactory,
+  ConfigExport,
+  EnvironmentConfig,
+  AppConfig,
+  Nullable,
+  RestartPolicy,
+  KillSignal,
+  KillMode,
+  ResourceLimits,
+  AppHooks,
+  HardeningLevel,
+  SecuritySettings,
+  SystemdDirectives,
+  SystemdDirectiveValue,
+  SystemdSettings,
+  NormalizedSystemdSettings,
+  NormalizedConfig,
+  NormalizedAppConfig,
+  ConfigIssueSeverity,
+  ConfigIssue,
+} from "./types/config";
+
+// Service managers
+export {
+  getServiceManager,
+  isPlatformSupported,
+  getPlatformName,
+  SystemdBackend,
+  LaunchdBackend,
+  SupervisorBackend,
+} from "./core/backend";
+export type {
+  ServiceManager,
+  LogOptions,
+  Platform,
+  BackendType,
+} from "./types/backend";
+
+// Foreground supervisor (containers without systemd)
+export { Supervisor, serveSupervisor } from "./core/supervisor";
+export type { SupervisorOptions } from "./core/supervisor";
+
+// Batch operations and status
+export { executeBatch, validateServiceNames } from "./core/batch";
+export type {
+  BatchResult,
+  BatchSummary,
+  BatchOperationOptions,
+} from "./core/batch";
+export { getAppStatus, getAppStatuses, getJobStatuses } from "./core/status";
+export type {
+  ServiceState,
+  ServiceStatus,
+  JobRuns,
+  JobStatus,
+} from "./types/service";
+
+// Hardening
+export { auditApp, getExposureRating } from "./core/systemd/audit";
+export type { AuditOptions } from "./core/systemd/audit";
+export { HARDENING_PRESETS, getSecuritySettings } from "./core/systemd/hardening";
+export type {
+  ExposureRating,
+  SecurityAudit,
+  SecurityCheck,
+} from "./types/systemd";
+
+// Errors
+export {
+  BunmanError,
+  ConfigError,
+  ConfigValidationError,
+  PermissionError,
+  SystemdError,
+  ServiceNotFoundError,
+  CommandError,
+} from "./utils/errors";
@@ -1,5 +1,5 @@
 import type { NormalizedAppConfig } from "./config";
-import type { ServiceStatus } from "./service";
+import type { JobRuns, ServiceStatus } from "./service";
 
 /**
  * Log viewing options
@@ -47,6 +47,27 @@ export interface ServiceManager {
    */
   getAllStatuses(serviceNames: string[]): Promise<ServiceStatus[]>;
 
+  /**
+   * List the instance numbers installed or running for a clustered service
+   */
+  listInstances(serviceName: string): Promise<number[]>;
+
+  /**
+   * Get the next and last run times of a scheduled service
+   */
+  getJobRuns(serviceName: string): Promise<JobRuns>;
+
+  /**
+   * Run a scheduled service now, without waiting for it to finish
+   */
+  runJob(serviceName: string): Promise<void>;
+
+  /**
+   * Clear the failed state of a service, so it can be started again after
+   * hitting its start limit
+   */
+  resetFailed(serviceName: string): Promise<void>;
+
   /**
    * Check if a service is active
    */
@@ -67,6 +88,18 @@ export interface ServiceManager {
    */
   install(serviceName: string, app: NormalizedAppConfig): Promise<void>;
 
+  /**
+   * Read the installed configuration of a service (e.g., its unit file),
+   * if it is installed
+   */
+  readConfig(serviceName: string): Promise<string | undefined>;
+
+  /**
+   * Put back configuration returned by `readConfig`; the service picks it
+   * up on its next restart
+   */
+  restoreConfig(serviceName: string, content: string): Promise<void>;
+
   /**
    * Remove a service (stop, disable, and remove config)
    */
@@ -106,5 +139,5 @@ export type Platform = "linux" | "darwin" | "win32";
 /**
  * Backend type
  */
-export type BackendType = "systemd" | "launchd" | "windows";
+export type BackendType = "systemd" | "launchd" | "supervisor" | "windows";
 
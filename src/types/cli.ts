@@ -8,10 +8,21 @@ export type CommandName =
   | "start"
   | "stop"
   | "restart"
+  | "reload"
+  | "deploy"
+  | "rollback"
   | "logs"
   | "status"
   | "remove"
   | "doctor"
+  | "config"
+  | "secrets"
+  | "scale"
+  | "jobs"
+  | "audit"
+  | "reset"
+  | "dev"
+  | "run-all"
   | "startall"
   | "stopall"
   | "restartall"
@@ -10,10 +10,71 @@ export interface BunmanConfig {
 
   /** systemd settings */
   systemd?: SystemdSettings;
+
+  /** Per-environment overrides, selected with --env or BUNMAN_ENV */
+  environments?: Record<string, EnvironmentConfig>;
+
+  /** Base config file(s) this config builds on, relative to this file */
+  extends?: string | string[];
+
+  /** Glob patterns of config files whose apps are added to this config */
+  include?: string[];
+
+  /** Values for `${vars.NAME}` placeholders */
+  vars?: Record<string, string>;
+
+  /** How commands acting on several services run them */
+  batch?: BatchSettings;
+}
+
+/**
+ * Runtime information passed to a function-style config
+ */
+export interface ConfigContext {
+  /** Operating system (e.g., "linux", "darwin") */
+  platform: NodeJS.Platform;
+
+  /** Machine hostname */
+  hostname: string;
+
+  /** Selected environment profile (from --env or BUNMAN_ENV) */
+  environment?: string;
+
+  /** Directory containing the config file */
+  configDir: string;
+
+  /** Process environment variables */
+  env: Readonly<Record<string, string | undefined>>;
+}
+
+/**
+ * Config computed at load time from the runtime context
+ */
+export type ConfigFactory = (
+  ctx: ConfigContext
+) => BunmanConfig | Promise<BunmanConfig>;
+
+/**
+ * Anything a config module may export as its default
+ */
+export type ConfigExport = BunmanConfig | ConfigFactory;
+
+/**
+ * Overrides applied when an environment profile is active
+ */
+export interface EnvironmentConfig {
+  /** Defaults layered on top of the global defaults */
+  defaults?: Partial<AppConfig>;
+
+  /** Per-app overrides layered on top of the app config */
+  apps?: Record<string, Partial<AppConfig>>;
 }
 
 /**
  * Individual application configuration
+ *
+ * Optional fields accept `null` to unset a value inherited from `defaults`
+ * or a built-in default.
  */
 export interface AppConfig {
   /** Working directory (relative to config file or absolute) */
@@ -22,35 +83,97 @@ export interface AppConfig {
   /** Command to execute (e.g., "bun run start") */
   command: string;
 
-  /** Environment variables */
-  env?: Record<string, string>;
+  /** Environment variables (merged per key; null removes a variable) */
+  env?: Record<string, string | null> | null;
 
   /** Path to environment file (e.g., ".env" or "/etc/myapp/env") */
-  envFile?: string;
+  envFile?: string | null;
 
   /** Unix user to run as */
-  user?: string;
+  user?: string | null;
 
   /** Unix group to run as */
-  group?: string;
+  group?: string | null;
 
   /** Service description */
-  description?: string;
+  description?: string | null;
 
   /** Restart policy */
-  restart?: RestartPolicy;
+  restart?: RestartPolicy | null;
 
   /** Restart delay in seconds */
-  restartSec?: number;
+  restartSec?: number | null;
 
-  /** Dependencies (other systemd units) */
-  after?: string[];
-  requires?: string[];
+  /** Give up after this many starts within `restartWindow` */
+  maxRestarts?: number | null;
 
-  /** Resource limits */
-  limits?: ResourceLimits;
+  /** Window for `maxRestarts`, in seconds (default: 10) */
+  restartWindow?: number | null;
+
+  /** Grow the restart delay with each restart (systemd 254+) */
+  restartBackoff?: RestartBackoff | null;
+
+  /** Signal sent to stop the process (default: SIGTERM) */
+  killSignal?: KillSignal | null;
+
+  /** Seconds to wait for a stop before the process is killed */
+  stopTimeout?: number | null;
+
+  /** Seconds to wait for a start before it is considered failed */
+  startTimeout?: number | null;
+
+  /** Which processes are signalled on stop (systemd only) */
+  killMode?: KillMode | null;
+
+  /** Dependencies (other systemd units; concatenated with inherited ones) */
+  after?: string[] | null;
+  requires?: string[] | null;
+
+  /** Other apps (by name) to start before this one and stop after it */
+  dependsOn?: string[] | null;
+
+  /** Globs (relative to cwd) whose changes restart the app under `bunman dev` */
+  watch?: string[] | null;
+
+  /** Resource limits (merged per field) */
+  limits?: Nullable<ResourceLimits> | null;
+
+  /** Run this many copies as systemd template instances ("max" = one per CPU) */
+  instances?: number | "max" | null;
+
+  /** Port of the first instance; instance N gets PORT=portBase+N-1 */
+  portBase?: number | null;
+
+  /** How `bunman reload` tells that a restarted instance is ready */
+  healthCheck?: HealthCheck | null;
+
+  /** Where `bunman deploy` gets and builds releases (cwd is their "current" link) */
+  deploy?: DeployConfig | null;
+
+  /** Run as a scheduled job: a cron expression or systemd OnCalendar value */
+  schedule?: string | null;
+
+  /** Commands run around the main process (merged per hook) */
+  hooks?: Nullable<AppHooks> | null;
+
+  /** systemd sandboxing preset (default: "none") */
+  hardening?: HardeningLevel | null;
+
+  /** Sandboxing settings applied on top of the preset (merged per field) */
+  security?: Nullable<SecuritySettings> | null;
+
+  /** Raw directives added to the unit file (merged per directive) */
+  systemd?: Nullable<SystemdDirectives> | null;
+
+  /** Where output is written and how log files are rotated (merged per field) */
+  logs?: Nullable<LogSettings> | null;
 }
 
+/**
+ * Make every field optional and nullable
+ */
+export type Nullable<T> = { [K in keyof T]?: T[K] | null };
+
 /**
  * Restart policy options
  */
@@ -60,6 +183,75 @@ export type RestartPolicy =
   | "on-abnormal" // Restart on signal/timeout/watchdog
   | "no"; // Never restart
 
+/**
+ * Signals that can stop a service
+ */
+export type KillSignal =
+  | "SIGTERM"
+  | "SIGINT"
+  | "SIGQUIT"
+  | "SIGHUP"
+  | "SIGUSR1"
+  | "SIGUSR2"
+  | "SIGKILL";
+
+/**
+ * Processes signalled when a service stops (systemd KillMode)
+ */
+export type KillMode =
+  | "control-group" // Every process in the service's cgroup
+  | "mixed" // The main process, then SIGKILL to the rest of the cgroup
+  | "process" // Only the main process
+  | "none"; // No process is signalled (only ExecStop runs)
+
+/**
+ * Restart delay that grows from `restartSec` to `maxDelay`
+ */
+export interface RestartBackoff {
+  /** Longest delay between restarts, in seconds */
+  maxDelay: number;
+
+  /** Number of restarts it takes to reach `maxDelay` */
+  steps: number;
+}
+
+/**
+ * Readiness check of an instance during a rolling reload
+ */
+export interface HealthCheck {
+  /**
+   * Path (e.g., "/health") or URL that must answer with a 2xx status;
+   * without it, the port only has to accept a TCP connection
+   */
+  http?: string;
+
+  /** Port to check (default: the instance's port from portBase, or env.PORT) */
+  port?: number;
+
+  /** Seconds an instance has to become healthy (default: 30) */
+  timeout?: number;
+}
+
+/**
+ * How `bunman deploy` builds a release of an app
+ */
+export interface DeployConfig {
+  /** Git repository to clone (URL, or path relative to the config file) */
+  source: string;
+
+  /** Branch or tag to deploy (default: the repository's default branch) */
+  ref?: string;
+
+  /** Command that installs dependencies (default: "bun install --frozen-lockfile") */
+  install?: string;
+
+  /** Command that builds the release, run after install */
+  build?: string;
+
+  /** Number of releases kept for rollbacks (default: 5) */
+  keep?: number;
+}
+
 /**
  * Resource limits for services
  */
@@ -77,6 +269,117 @@ export interface ResourceLimits {
   nproc?: number;
 }
 
+/**
+ * Lifecycle hooks: a command, or several run in order
+ */
+export interface AppHooks {
+  /** Before the main process starts; a failure prevents the start */
+  preStart?: string | string[];
+
+  /** After the main process has started */
+  postStart?: string | string[];
+
+  /** On reload (systemd `ExecReload`, SIGHUP on launchd) */
+  reload?: string | string[];
+
+  /** Before the main process is signalled to stop */
+  preStop?: string | string[];
+
+  /** After the main process has exited */
+  postStop?: string | string[];
+}
+
+/**
+ * Lifecycle hooks with every hook as a list of commands
+ */
+export type NormalizedHooks = { [K in keyof AppHooks]?: string[] };
+
+/**
+ * systemd sandboxing presets
+ */
+export type HardeningLevel =
+  | "none" // No sandboxing
+  | "basic" // Safe for almost every app: private /tmp, no privilege gain, read-only /usr and /etc
+  | "strict"; // Read-only filesystem except the app directory, no devices, IP sockets only
+
+/**
+ * Individual systemd sandboxing settings (each maps to the directive of the same name)
+ */
+export interface SecuritySettings {
+  privateTmp?: boolean;
+  noNewPrivileges?: boolean;
+  protectSystem?: "strict" | "full" | "yes" | "no";
+  protectHome?: boolean | "read-only" | "tmpfs";
+  privateDevices?: boolean;
+  protectKernelTunables?: boolean;
+  protectKernelModules?: boolean;
+  protectControlGroups?: boolean;
+  restrictAddressFamilies?: string[];
+  restrictNamespaces?: boolean;
+  restrictRealtime?: boolean;
+  restrictSUIDSGID?: boolean;
+  lockPersonality?: boolean;
+
+  /** Paths kept writable under protectSystem "strict" (the app's cwd always is) */
+  readWritePaths?: string[];
+}
+
+/**
+ * Where service output goes
+ */
+export type LogTarget =
+  | "journal" // systemd journal (launchd always writes files)
+  | "file"; // A log file under ~/.bunman/logs, or `path`
+
+/**
+ * Log output and rotation settings
+ */
+export interface LogSettings {
+  /** Output destination (default: "journal") */
+  target?: LogTarget;
+
+  /** Log file (default: ~/.bunman/logs/<service>.log); instances add "@N" */
+  path?: string;
+
+  /** Rotate the file once it is larger than this many MB */
+  maxSize?: number;
+
+  /** Number of rotated files to keep (default: 5) */
+  keep?: number;
+}
+
+/**
+ * Log settings with defaults applied
+ */
+export interface NormalizedLogSettings {
+  target: LogTarget;
+  path?: string;
+  maxSize?: number;
+  keep: number;
+}
+
+/**
+ * Value of a raw systemd directive; an array writes the directive once per item
+ */
+export type SystemdDirectiveValue = string | number | boolean | Array<string | number | boolean>;
+
+/**
+ * Raw systemd directives per unit file section, keyed by directive name
+ * (null removes an inherited directive)
+ */
+export interface SystemdDirectives {
+  unit?: Record<string, SystemdDirectiveValue | null>;
+  service?: Record<string, SystemdDirectiveValue | null>;
+  install?: Record<string, SystemdDirectiveValue | null>;
+}
+
+/**
+ * Raw systemd directives with every value as a list of strings
+ */
+export type NormalizedSystemdDirectives = {
+  [S in keyof SystemdDirectives]?: Record<string, string[]>;
+};
+
 /**
  * Global systemd settings
  */
@@ -91,6 +394,32 @@ export interface SystemdSettings {
   userMode?: boolean;
 }
 
+/**
+ * Batch execution settings (overridden by --parallel, --fail-fast
+ * and --continue-on-error)
+ */
+export interface BatchSettings {
+  /** Number of services handled at once (default: 1) */
+  parallel?: number;
+
+  /** Stop starting new services after the first failure (default: false) */
+  failFast?: boolean;
+}
+
+/**
+ * systemd settings with defaults applied
+ */
+export interface NormalizedSystemdSettings {
+  /** Absolute unit file directory (if overridden in config) */
+  unitPath?: string;
+
+  /** Service name prefix */
+  prefix: string;
+
+  /** Use user-level systemd instead of system */
+  userMode: boolean;
+}
+
 /**
  * Validated and normalized config (after loading)
  */
@@ -101,8 +430,17 @@ export interface NormalizedConfig extends BunmanConfig {
   /** Config file directory (for resolving relative paths) */
   configDir: string;
 
+  /** Active environment profile (if selected) */
+  environment?: string;
+
   /** All apps with defaults applied */
   apps: Record<string, NormalizedAppConfig>;
+
+  /** systemd settings with defaults applied */
+  systemd: NormalizedSystemdSettings;
+
+  /** Layer each normalized value came from, per app (see `mergeAppLayers`) */
+  origins: Record<string, Record<string, string>>;
 }
 
 /**
@@ -136,13 +474,107 @@ export interface NormalizedAppConfig {
   /** Restart delay in seconds */
   restartSec: number;
 
+  /** Give up after this many starts within `restartWindow` */
+  maxRestarts?: number;
+
+  /** Window for `maxRestarts`, in seconds */
+  restartWindow?: number;
+
+  /** Growing restart delay */
+  restartBackoff?: RestartBackoff;
+
+  /** Signal sent to stop the process */
+  killSignal?: KillSignal;
+
+  /** Seconds to wait for a stop before the process is killed */
+  stopTimeout?: number;
+
+  /** Seconds to wait for a start before it is considered failed */
+  startTimeout?: number;
+
+  /** Which processes are signalled on stop */
+  killMode?: KillMode;
+
   /** Dependencies (other systemd units) */
   after: string[];
   requires: string[];
 
+  /** Apps this one depends on (names from config) */
+  dependsOn: string[];
+
+  /** Globs (relative to cwd) watched by `bunman dev` */
+  watch: string[];
+
   /** Resource limits */
   limits: ResourceLimits;
 
+  /** Names of encrypted secrets stored for the app (values are never loaded here) */
+  secrets: string[];
+
+  /** Number of instances ("max" resolved); unset for a single service */
+  instances?: number;
+
+  /** Port of the first instance */
+  portBase?: number;
+
+  /** Readiness check during a rolling reload */
+  healthCheck?: HealthCheck;
+
+  /** Release build settings ("source" resolved) */
+  deploy?: DeployConfig;
+
+  /** Instance number, set on the per-instance copies of a clustered app */
+  instance?: number;
+
+  /** Schedule of a job (cron or OnCalendar); unset for long-running services */
+  schedule?: string;
+
+  /** Lifecycle hook commands */
+  hooks: NormalizedHooks;
+
+  /** systemd sandboxing preset */
+  hardening: HardeningLevel;
+
+  /** Sandboxing overrides (readWritePaths resolved to absolute paths) */
+  security: SecuritySettings;
+
+  /** Raw unit file directives, each as the list of lines to write */
+  systemd: NormalizedSystemdDirectives;
+
+  /** Log output settings (path resolved to an absolute path) */
+  logs: NormalizedLogSettings;
+
   /** Service name (app name with prefix) */
   serviceName: string;
 }
+
+/**
+ * Severity of a config validation issue
+ */
+export type ConfigIssueSeverity = "error" | "warning";
+
+/**
+ * A single problem found while validating the config
+ */
+export interface ConfigIssue {
+  /** JSON-path-like location (e.g., "apps.worker.restartSec") */
+  path: string;
+
+  /** What is wrong */
+  message: string;
+
+  /** Errors block loading, warnings are only reported */
+  severity: ConfigIssueSeverity;
+
+  /** How to fix it */
+  hint?: string;
+
+  /** Config file the issue is in, when it isn't the main config */
+  file?: string;
+
+  /** Line in the config file (JSON, YAML and TOML configs only) */
+  line?: number;
+
+  /** Column in the config file (JSON, YAML and TOML configs only) */
+  column?: number;
+}
@@ -39,6 +39,37 @@ export interface ServiceStatus {
 
   /** Error message (if failed) */
   error?: string;
+
+  /** Restarted too often and gave up (systemd's start limit) */
+  startLimitHit?: boolean;
+}
+
+/**
+ * Run times of a scheduled job
+ */
+export interface JobRuns {
+  /** Next time the schedule fires (if known) */
+  nextRun?: Date;
+
+  /** Start of the most recent run (if it has run) */
+  lastRun?: Date;
+
+  /** Exit code of the most recent run */
+  lastExitCode?: number;
+}
+
+/**
+ * Scheduled job as listed by `bunman jobs`
+ */
+export interface JobStatus extends JobRuns {
+  /** App name from config */
+  name: string;
+
+  /** Schedule from config */
+  schedule: string;
+
+  /** State of the job ("active" while its schedule is armed) */
+  state: ServiceState;
 }
 
 /**
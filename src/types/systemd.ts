@@ -1,4 +1,10 @@
-import type { RestartPolicy } from "./config";
+import type {
+  HardeningLevel,
+  KillMode,
+  KillSignal,
+  NormalizedSystemdDirectives,
+  RestartPolicy,
+} from "./config";
 
 /**
  * systemd unit file structure
@@ -6,6 +12,18 @@ import type { RestartPolicy } from "./config";
 export interface SystemdUnit {
   Unit: UnitSection;
   Service: ServiceSection;
+  /** Omitted for jobs, which are started by their timer */
+  Install?: InstallSection;
+  /** Raw directives merged into the sections above when serializing */
+  Directives?: NormalizedSystemdDirectives;
+}
+
+/**
+ * systemd timer unit structure
+ */
+export interface SystemdTimer {
+  Unit: UnitSection;
+  Timer: TimerSection;
   Install: InstallSection;
 }
 
@@ -19,6 +37,8 @@ export interface UnitSection {
   Requires?: string[];
   Wants?: string[];
   Before?: string[];
+  StartLimitIntervalSec?: number;
+  StartLimitBurst?: number;
 }
 
 /**
@@ -27,18 +47,29 @@ export interface UnitSection {
 export interface ServiceSection {
   Type: ServiceType;
   WorkingDirectory: string;
+  ExecStartPre?: string[];
   ExecStart: string;
-  ExecStop?: string;
-  ExecReload?: string;
+  ExecStartPost?: string[];
+  ExecReload?: string[];
+  ExecStop?: string[];
+  ExecStopPost?: string[];
   Restart: RestartPolicy;
   RestartSec: number;
+  RestartSteps?: number;
+  RestartMaxDelaySec?: number;
   Environment?: string[];
-  EnvironmentFile?: string;
+  EnvironmentFile?: string[];
   StandardOutput: OutputDestination;
   StandardError: OutputDestination;
   User?: string;
   Group?: string;
 
+  // Stop and start behavior
+  KillSignal?: KillSignal;
+  KillMode?: KillMode;
+  TimeoutStartSec?: number;
+  TimeoutStopSec?: number;
+
   // Resource limits
   MemoryMax?: string;
   CPUQuota?: string;
@@ -50,6 +81,27 @@ export interface ServiceSection {
   NoNewPrivileges?: boolean;
   ProtectSystem?: "strict" | "full" | "yes" | "no";
   ProtectHome?: boolean | "read-only" | "tmpfs";
+  PrivateDevices?: boolean;
+  ProtectKernelTunables?: boolean;
+  ProtectKernelModules?: boolean;
+  ProtectControlGroups?: boolean;
+  RestrictAddressFamilies?: string[];
+  RestrictNamespaces?: boolean;
+  RestrictRealtime?: boolean;
+  RestrictSUIDSGID?: boolean;
+  LockPersonality?: boolean;
+  ReadWritePaths?: string[];
+}
+
+/**
+ * [Timer] section
+ */
+export interface TimerSection {
+  OnCalendar: string;
+  /** Run a missed trigger at the next boot */
+  Persistent?: boolean;
+  /** Service to activate */
+  Unit: string;
 }
 
 /**
@@ -80,7 +132,8 @@ export type OutputDestination =
   | "syslog" // syslog
   | "kmsg" // kernel log
   | "console" // console
-  | "null"; // discard
+  | "null" // discard
+  | `append:${string}`; // append to a file
 
 /**
  * systemd control operations
@@ -93,4 +146,45 @@ export type SystemdOperation =
   | "enable"
   | "disable"
   | "status"
+  | "reset-failed"
   | "daemon-reload";
+
+/**
+ * Exposure rating of an audited unit, from least to most exposed
+ */
+export type ExposureRating = "safe" | "ok" | "medium" | "exposed" | "unsafe";
+
+/**
+ * One sandboxing check of a security audit
+ */
+export interface SecurityCheck {
+  /** Directive (or directive value) that passes the check */
+  directive: string;
+
+  /** What the directive protects against */
+  description: string;
+
+  /** Share of the exposure score this check accounts for */
+  weight: number;
+
+  /** Whether the unit passes the check */
+  passed: boolean;
+}
+
+/**
+ * Security audit of a generated service unit
+ */
+export interface SecurityAudit {
+  /** App name from config */
+  name: string;
+
+  /** Hardening preset of the app */
+  hardening: HardeningLevel;
+
+  /** 0.0 (fully sandboxed) to 10.0 (no sandboxing) */
+  exposure: number;
+
+  rating: ExposureRating;
+
+  checks: SecurityCheck[];
+}
@@ -1,3 +1,5 @@
+import type { ConfigIssue } from "../types/config";
+
 /**
  * Base error class for bunman
  */
@@ -22,6 +24,41 @@ export class ConfigError extends BunmanError {
   }
 }
 
+/**
+ * Config validation failure carrying every issue found
+ */
+export class ConfigValidationError extends ConfigError {
+  public issues: ConfigIssue[];
+
+  constructor(issues: ConfigIssue[]) {
+    // Errors first, keeping discovery order otherwise
+    const errors = issues.filter((issue) => issue.severity === "error");
+    const warnings = issues.filter((issue) => issue.severity !== "error");
+    const sorted = [...errors, ...warnings];
+
+    super(
+      `Invalid config: ${errors.length} error(s) found`,
+      sorted.map(formatConfigIssue).join("\n  ")
+    );
+    this.name = "ConfigValidationError";
+    this.issues = sorted;
+  }
+}
+
+/**
+ * Format a config issue as a single line
+ */
+export function formatConfigIssue(issue: ConfigIssue): string {
+  const label = issue.severity === "error" ? "error" : "warning";
+  const hint = issue.hint ? ` (${issue.hint})` : "";
+  const parts = [
+    issue.file,
+    issue.line !== undefined ? `line ${issue.line}, column ${issue.column}` : undefined,
+  ].filter((part) => part !== undefined);
+  const location = parts.length > 0 ? ` [${parts.join(", ")}]` : "";
+  return `${label}: ${issue.path}${location}: ${issue.message}${hint}`;
+}
+
 /**
  * Permission-related errors
  */
@@ -61,6 +98,16 @@ export class ServiceNotFoundError extends BunmanError {
   }
 }
 
+/**
+ * Secrets store errors (missing key, failed decryption)
+ */
+export class SecretsError extends BunmanError {
+  constructor(message: string, help?: string) {
+    super(message, help, 1);
+    this.name = "SecretsError";
+  }
+}
+
 /**
  * Command validation error
  */
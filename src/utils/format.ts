@@ -1,4 +1,5 @@
-import type { ServiceStatus, ServiceState } from "../types/service";
+import type { JobStatus, ServiceStatus, ServiceState } from "../types/service";
+import type { ExposureRating, SecurityAudit } from "../types/systemd";
 import { logger } from "./logger";
 
 /**
@@ -39,6 +40,19 @@ export function formatDuration(seconds: number): string {
   return `${days}d ${hrs}h`;
 }
 
+/**
+ * Format an elapsed time in milliseconds (e.g., "850ms", "2.4s", "1m 5s")
+ */
+export function formatElapsed(ms: number): string {
+  if (ms < 1000) {
+    return `${ms}ms`;
+  }
+  if (ms < 60_000) {
+    return `${(ms / 1000).toFixed(1)}s`;
+  }
+  return formatDuration(Math.round(ms / 1000));
+}
+
 /**
  * Get colored state indicator
  */
@@ -114,7 +128,9 @@ export function formatStatusTable(statuses: ServiceStatus[]): string {
   // Rows
   for (const status of statuses) {
     const indicator = getStateIndicator(status.state);
-    const stateText = getStateText(status.state);
+    const stateText = status.startLimitHit
+      ? logger.color.red("gave up")
+      : getStateText(status.state);
 
     const name = padEnd(status.name, 25);
     const state = padEnd(`${indicator} ${stateText}`, 15);
@@ -131,6 +147,128 @@ export function formatStatusTable(statuses: ServiceStatus[]): string {
   return lines.join("\n");
 }
 
+/**
+ * Format scheduled jobs as a table, with run times relative to `now`
+ */
+export function formatJobsTable(jobs: JobStatus[], now: Date = new Date()): string {
+  if (jobs.length === 0) {
+    return logger.color.dim("No scheduled jobs configured");
+  }
+
+  const lines: string[] = [];
+  const seconds = (from: Date, to: Date) =>
+    Math.max(0, Math.round((to.getTime() - from.getTime()) / 1000));
+
+  // Header
+  const header = [
+    padEnd(logger.color.bold("Job"), 20),
+    padEnd(logger.color.bold("Schedule"), 22),
+    padEnd(logger.color.bold("Status"), 15),
+    padEnd(logger.color.bold("Next run"), 16),
+    padEnd(logger.color.bold("Last run"), 16),
+    logger.color.bold("Result"),
+  ].join("");
+
+  lines.push(header);
+  lines.push(logger.color.dim("─".repeat(95)));
+
+  // Rows
+  for (const job of jobs) {
+    const indicator = getStateIndicator(job.state);
+    const stateText = getStateText(job.state);
+
+    const name = padEnd(job.name, 20);
+    const schedule = padEnd(job.schedule, 22);
+    const state = padEnd(`${indicator} ${stateText}`, 15);
+    const nextRun = padEnd(
+      job.nextRun ? `in ${formatDuration(seconds(now, job.nextRun))}` : "-",
+      16
+    );
+    const lastRun = padEnd(
+      job.lastRun ? `${formatDuration(seconds(job.lastRun, now))} ago` : "-",
+      16
+    );
+    const result =
+      job.lastExitCode === undefined
+        ? "-"
+        : job.lastExitCode === 0
+          ? logger.color.green("success")
+          : logger.color.red(`exit ${job.lastExitCode}`);
+
+    lines.push(`${name}${schedule}${state}${nextRun}${lastRun}${result}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Get colored exposure rating text
+ */
+function getRatingText(rating: ExposureRating): string {
+  switch (rating) {
+    case "safe":
+    case "ok":
+      return logger.color.green(rating.toUpperCase());
+    case "medium":
+    case "exposed":
+      return logger.color.yellow(rating.toUpperCase());
+    case "unsafe":
+      return logger.color.red(rating.toUpperCase());
+  }
+}
+
+/**
+ * Format security audits as a table
+ */
+export function formatAuditTable(audits: SecurityAudit[]): string {
+  if (audits.length === 0) {
+    return logger.color.dim("No services configured");
+  }
+
+  const lines: string[] = [];
+
+  // Header
+  const header = [
+    padEnd(logger.color.bold("Service"), 25),
+    padEnd(logger.color.bold("Hardening"), 12),
+    padEnd(logger.color.bold("Exposure"), 10),
+    logger.color.bold("Rating"),
+  ].join("");
+
+  lines.push(header);
+  lines.push(logger.color.dim("─".repeat(55)));
+
+  // Rows
+  for (const audit of audits) {
+    const name = padEnd(audit.name, 25);
+    const hardening = padEnd(audit.hardening, 12);
+    const exposure = padEnd(audit.exposure.toFixed(1), 10);
+
+    lines.push(`${name}${hardening}${exposure}${getRatingText(audit.rating)}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format the checks of a single security audit
+ */
+export function formatAuditDetail(audit: SecurityAudit): string {
+  const lines: string[] = [];
+
+  lines.push(
+    `${logger.color.bold(audit.name)}  exposure ${audit.exposure.toFixed(1)} ` +
+      `${getRatingText(audit.rating)}  ${logger.color.dim(`(hardening: ${audit.hardening})`)}`
+  );
+
+  for (const check of audit.checks) {
+    const mark = check.passed ? logger.color.green("✓") : logger.color.red("✗");
+    lines.push(`   ${mark} ${padEnd(check.directive, 30)}${check.description}`);
+  }
+
+  return lines.join("\n");
+}
+
 /**
  * Format a single service status for detailed view
  */
@@ -143,6 +281,10 @@ export function formatServiceDetail(status: ServiceStatus): string {
   lines.push(`${indicator} ${logger.color.bold(status.name)}`);
   lines.push(`   State: ${stateText}`);
 
+  if (status.startLimitHit) {
+    lines.push(`   Start limit: ${logger.color.red("hit, restarts stopped")}`);
+  }
+
   if (status.pid) {
     lines.push(`   PID: ${status.pid}`);
   }
@@ -4,3 +4,6 @@ export * from "./logger";
 export * from "./permissions";
 export * from "./format";
 export * from "./output";
+export * from "./suggest";
+export * from "./prompt";
+export * from "./prefix";
@@ -1,5 +1,6 @@
-import type { ServiceStatus } from "../types/service";
+import type { JobStatus, ServiceStatus } from "../types/service";
 import type { NormalizedAppConfig } from "../types/config";
+import type { SecurityAudit } from "../types/systemd";
 
 /**
  * Output mode for CLI commands
@@ -42,8 +43,12 @@ export function printOutput(output: CommandOutput, mode: OutputMode): void {
 /**
  * Format service status for JSON output
  */
-export function formatStatusJson(statuses: ServiceStatus[]): object {
+export function formatStatusJson(
+  statuses: ServiceStatus[],
+  environment?: string
+): object {
   return {
+    environment: environment ?? null,
     services: statuses.map((s) => ({
       name: s.name,
       state: s.state,
@@ -53,6 +58,7 @@ export function formatStatusJson(statuses: ServiceStatus[]): object {
       restarts: s.restarts ?? null,
       exitCode: s.exitCode ?? null,
       error: s.error ?? null,
+      startLimitHit: s.startLimitHit ?? false,
     })),
     summary: {
       total: statuses.length,
@@ -63,6 +69,45 @@ export function formatStatusJson(statuses: ServiceStatus[]): object {
   };
 }
 
+/**
+ * Format scheduled jobs for JSON output
+ */
+export function formatJobsJson(
+  jobs: JobStatus[],
+  environment?: string
+): object {
+  return {
+    environment: environment ?? null,
+    jobs: jobs.map((j) => ({
+      name: j.name,
+      schedule: j.schedule,
+      state: j.state,
+      nextRun: j.nextRun?.toISOString() ?? null,
+      lastRun: j.lastRun?.toISOString() ?? null,
+      lastExitCode: j.lastExitCode ?? null,
+    })),
+  };
+}
+
+/**
+ * Format security audits for JSON output
+ */
+export function formatAuditJson(
+  audits: SecurityAudit[],
+  environment?: string
+): object {
+  return {
+    environment: environment ?? null,
+    services: audits.map((a) => ({
+      name: a.name,
+      hardening: a.hardening,
+      exposure: a.exposure,
+      rating: a.rating,
+      checks: a.checks,
+    })),
+  };
+}
+
 /**
  * Format app config for JSON output (dry-run)
  */
@@ -76,11 +121,32 @@ export function formatAppConfigJson(
     cwd: app.cwd,
     command: app.command,
     env: app.env,
+    // Names only: secret values are never included in output
+    secrets: app.secrets,
     user: app.user ?? null,
     group: app.group ?? null,
     description: app.description,
     restart: app.restart,
     restartSec: app.restartSec,
+    maxRestarts: app.maxRestarts ?? null,
+    restartWindow: app.restartWindow ?? null,
+    restartBackoff: app.restartBackoff ?? null,
+    killSignal: app.killSignal ?? null,
+    stopTimeout: app.stopTimeout ?? null,
+    startTimeout: app.startTimeout ?? null,
+    killMode: app.killMode ?? null,
     limits: app.limits,
+    dependsOn: app.dependsOn,
+    watch: app.watch,
+    hooks: app.hooks,
+    hardening: app.hardening,
+    security: app.security,
+    systemd: app.systemd,
+    logs: app.logs,
+    instances: app.instances ?? null,
+    portBase: app.portBase ?? null,
+    healthCheck: app.healthCheck ?? null,
+    deploy: app.deploy ?? null,
+    schedule: app.schedule ?? null,
   };
 }
@@ -0,0 +1,53 @@
+import { COLORS, colorize } from "./colors";
+
+/**
+ * Colors of the "[name]" prefixes, cycled through per service
+ */
+const SERVICE_COLORS = [
+  COLORS.cyan,
+  COLORS.green,
+  COLORS.magenta,
+  COLORS.yellow,
+  COLORS.blue,
+];
+
+/**
+ * Colored "[name]" prefix of the service at `index` in a multiplexed view
+ */
+export function formatServicePrefix(name: string, index: number): string {
+  return colorize(`[${name}]`, SERVICE_COLORS[index % SERVICE_COLORS.length]!);
+}
+
+/**
+ * Print each non-empty line of a stream after a prefix, until it ends
+ */
+export async function pipeWithPrefix(
+  stream: ReadableStream<Uint8Array>,
+  prefix: string,
+  write: (line: string) => void = console.log
+): Promise<void> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+
+    for (const line of lines) {
+      if (line.trim()) {
+        write(`${prefix} ${line}`);
+      }
+    }
+  }
+
+  // Output that doesn't end with a newline
+  if (buffer.trim()) {
+    write(`${prefix} ${buffer}`);
+  }
+}
@@ -0,0 +1,101 @@
+import { CommandError } from "./errors";
+import { logger } from "./logger";
+
+/**
+ * Check if stdin is an interactive terminal
+ */
+export function isInteractive(): boolean {
+  return process.stdin.isTTY ?? false;
+}
+
+/**
+ * Ask the user to pick items from a numbered list
+ * @returns Indices of the selected items, in list order
+ */
+export function promptSelection(items: string[], message: string): number[] {
+  items.forEach((item, index) => {
+    console.log(`  ${logger.color.cyan(String(index + 1).padStart(2))}  ${item}`);
+  });
+  console.log("");
+
+  const answer = prompt(`${message} (e.g., 1,3-4, "all" or "none")`, "all");
+  return parseSelection(answer ?? "none", items.length);
+}
+
+/**
+ * Parse a selection such as "1,3-4", "all" or "none" into 0-based indices
+ * @throws CommandError on numbers outside 1..count
+ */
+export function parseSelection(input: string, count: number): number[] {
+  const value = input.trim().toLowerCase();
+
+  if (value === "" || value === "all" || value === "*") {
+    return Array.from({ length: count }, (_, index) => index);
+  }
+  if (value === "none") {
+    return [];
+  }
+
+  const selected = new Set<number>();
+
+  for (const part of value.split(/[\s,]+/).filter(Boolean)) {
+    const match = /^(\d+)(?:-(\d+))?$/.exec(part);
+    const start = match ? Number(match[1]) : NaN;
+    const end = match?.[2] !== undefined ? Number(match[2]) : start;
+
+    if (!match || start < 1 || end > count || start > end) {
+      throw new CommandError(
+        `Invalid selection: ${part}`,
+        `Enter numbers between 1 and ${count}, ranges like 2-4, "all" or "none"`
+      );
+    }
+
+    for (let index = start; index <= end; index++) {
+      selected.add(index - 1);
+    }
+  }
+
+  return [...selected].sort((a, b) => a - b);
+}
+
+/**
+ * Read a secret value without echoing it, or from piped stdin
+ */
+export async function promptSecret(message: string): Promise<string> {
+  if (!isInteractive()) {
+    // Piped input: take everything, minus the trailing newline
+    return (await Bun.stdin.text()).replace(/\r?\n$/, "");
+  }
+
+  process.stdout.write(`${message} `);
+  const stdin = process.stdin;
+  stdin.setRawMode(true);
+  stdin.resume();
+
+  return new Promise((resolve, reject) => {
+    let value = "";
+
+    const finish = (error?: Error) => {
+      stdin.off("data", onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stdout.write("\n");
+      if (error) reject(error);
+      else resolve(value);
+    };
+
+    const onData = (chunk: Buffer) => {
+      for (const char of chunk.toString("utf8")) {
+        if (char === "\r" || char === "\n") return finish();
+        if (char === "\u0003") return finish(new CommandError("Cancelled"));
+        if (char === "\u007f" || char === "\b") {
+          value = value.slice(0, -1);
+        } else {
+          value += char;
+        }
+      }
+    };
+
+    stdin.on("data", onData);
+  });
+}
@@ -0,0 +1,51 @@
+/**
+ * Compute the Levenshtein edit distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0]!;
+    previous[0] = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j]!;
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      previous[j] = Math.min(above + 1, previous[j - 1]! + 1, diagonal + cost);
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length]!;
+}
+
+/**
+ * Normalize a key for fuzzy comparison (restart_sec ~ restartSec)
+ */
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[-_\s]/g, "");
+}
+
+/**
+ * Find the closest candidate to an unknown name, if any is close enough
+ */
+export function findClosestMatch(
+  input: string,
+  candidates: readonly string[]
+): string | undefined {
+  const normalizedInput = normalizeKey(input);
+  const maxDistance = Math.max(1, Math.floor(normalizedInput.length / 3));
+
+  let best: string | undefined;
+  let bestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(normalizedInput, normalizeKey(candidate));
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return bestDistance <= maxDistance ? best : undefined;
+}
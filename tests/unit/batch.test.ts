@@ -20,10 +20,16 @@ function createMockServiceManager(overrides?: Partial<ServiceManager>): ServiceM
       } as ServiceStatus)
     ),
     getAllStatuses: mock(() => Promise.resolve([])),
+    listInstances: mock(() => Promise.resolve([])),
+    getJobRuns: mock(() => Promise.resolve({})),
+    runJob: mock(() => Promise.resolve()),
+    resetFailed: mock(() => Promise.resolve()),
     isActive: mock(() => Promise.resolve(true)),
     logs: mock(() => Promise.resolve()),
     generateConfig: mock(() => ""),
     install: mock(() => Promise.resolve()),
+    readConfig: mock(() => Promise.resolve(undefined)),
+    restoreConfig: mock(() => Promise.resolve()),
     remove: mock(() => Promise.resolve()),
     reload: mock(() => Promise.resolve()),
     enable: mock(() => Promise.resolve()),
@@ -46,6 +52,13 @@ function createMockApp(name: string): NormalizedAppConfig {
     restartSec: 3,
     after: ["network.target"],
     requires: [],
+    dependsOn: [],
+    watch: [],
+    hooks: {},
+    hardening: "none",
+    security: {},
+    systemd: {},
+    logs: { target: "journal", keep: 5 },
     limits: {},
   };
 }
@@ -301,4 +314,110 @@ describe("executeBatch", () => {
     expect(result.results[1]!.success).toBe(false);
     expect(result.results[1]!.error).toBe("Worker failed");
   });
+
+  test("runs dependencies first, and last when reversed", async () => {
+    const services: Array<[string, NormalizedAppConfig]> = [
+      ["web", { ...createMockApp("web"), dependsOn: ["api"] }],
+      ["api", createMockApp("api")],
+    ];
+
+    const order: string[] = [];
+    const options = {
+      presentVerb: "Starting",
+      pastVerb: "started",
+      execute: async (name: string) => {
+        order.push(name);
+      },
+    };
+
+    await executeBatch(services, mockServiceManager, options);
+    expect(order).toEqual(["api", "web"]);
+
+    order.length = 0;
+    await executeBatch(services, mockServiceManager, { ...options, reverseDependencies: true });
+    expect(order).toEqual(["web", "api"]);
+  });
+
+  test("runs up to `parallel` services at once, reporting in plan order", async () => {
+    const services: Array<[string, NormalizedAppConfig]> = [
+      ["api", createMockApp("api")],
+      ["worker", createMockApp("worker")],
+      ["web", createMockApp("web")],
+    ];
+    const delays: Record<string, number> = { api: 30, worker: 5, web: 10 };
+
+    let running = 0;
+    let maxRunning = 0;
+
+    const result = await executeBatch(services, mockServiceManager, {
+      presentVerb: "Starting",
+      pastVerb: "started",
+      parallel: 2,
+      execute: async (name) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await Bun.sleep(delays[name]!);
+        running--;
+      },
+    });
+
+    expect(maxRunning).toBe(2);
+    expect(result.results.map((r) => r.name)).toEqual(["api", "worker", "web"]);
+    expect(result.results.every((r) => r.durationMs !== undefined)).toBe(true);
+  });
+
+  test("waits for dependencies between waves when running in parallel", async () => {
+    const services: Array<[string, NormalizedAppConfig]> = [
+      ["web", { ...createMockApp("web"), dependsOn: ["api"] }],
+      ["api", createMockApp("api")],
+      ["worker", createMockApp("worker")],
+    ];
+
+    const events: string[] = [];
+
+    await executeBatch(services, mockServiceManager, {
+      presentVerb: "Starting",
+      pastVerb: "started",
+      parallel: 3,
+      execute: async (name) => {
+        events.push(`start ${name}`);
+        await Bun.sleep(5);
+        events.push(`end ${name}`);
+      },
+    });
+
+    expect(events.indexOf("start web")).toBeGreaterThan(events.indexOf("end api"));
+    expect(events.indexOf("start worker")).toBeLessThan(events.indexOf("end api"));
+  });
+
+  test("cancels the remaining services with failFast", async () => {
+    const services: Array<[string, NormalizedAppConfig]> = [
+      ["api", createMockApp("api")],
+      ["worker", createMockApp("worker")],
+      ["web", createMockApp("web")],
+    ];
+
+    const executeFn = mock(async (name: string) => {
+      if (name === "api") {
+        throw new Error("API failed");
+      }
+    });
+
+    const result = await executeBatch(services, mockServiceManager, {
+      presentVerb: "Starting",
+      pastVerb: "started",
+      failFast: true,
+      execute: executeFn,
+    });
+
+    expect(executeFn).toHaveBeenCalledTimes(1);
+    expect(result.failed).toBe(1);
+    expect(result.cancelled).toBe(2);
+    expect(result.results[1]).toEqual({
+      name: "worker",
+      success: false,
+      skipped: true,
+      cancelled: true,
+    });
+  });
 });
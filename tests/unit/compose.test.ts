@@ -0,0 +1,155 @@
+import { describe, test, expect } from "bun:test";
+import { composeConfigs, resolveConfigPaths } from "../../src/core/config/compose";
+import { ConfigError } from "../../src/utils/errors";
+
+describe("composeConfigs", () => {
+  test("combines apps from every file", () => {
+    const result = composeConfigs([
+      { path: "base.config.ts", config: { apps: { api: { cwd: "/a", command: "a" } } } },
+      { path: "bunman.config.ts", config: { apps: { web: { cwd: "/w", command: "w" } } } },
+    ]);
+    expect(Object.keys(result.apps)).toEqual(["api", "web"]);
+  });
+
+  test("rejects an app defined in two files", () => {
+    const compose = () =>
+      composeConfigs([
+        { path: "apps/a/bunman.yaml", config: { apps: { api: { cwd: "/a", command: "a" } } } },
+        { path: "apps/b/bunman.yaml", config: { apps: { api: { cwd: "/b", command: "b" } } } },
+      ]);
+    expect(compose).toThrow(ConfigError);
+    expect(compose).toThrow(
+      "Duplicate app 'api' defined in apps/a/bunman.yaml and apps/b/bunman.yaml"
+    );
+  });
+
+  test("later files win for defaults, systemd and batch, merging env and limits per key", () => {
+    const result = composeConfigs([
+      {
+        path: "base.config.ts",
+        config: {
+          defaults: { user: "base", env: { A: "1", B: "1" }, limits: { memory: 256 } },
+          systemd: { prefix: "base-", userMode: true },
+          batch: { parallel: 2, failFast: true },
+        },
+      },
+      {
+        path: "bunman.config.ts",
+        config: {
+          apps: {},
+          defaults: { user: "root", env: { B: "2" }, limits: { cpu: 50 } },
+          systemd: { prefix: "app-" },
+          batch: { parallel: 4 },
+        },
+      },
+    ]);
+
+    expect(result.defaults).toEqual({
+      user: "root",
+      env: { A: "1", B: "2" },
+      limits: { memory: 256, cpu: 50 },
+    });
+    expect(result.systemd).toEqual({ prefix: "app-", userMode: true });
+    expect(result.batch).toEqual({ parallel: 4, failFast: true });
+  });
+
+  test("concatenates lists like dependsOn across files", () => {
+    const result = composeConfigs([
+      {
+        path: "base.config.ts",
+        config: { defaults: { dependsOn: ["db"], after: ["network-online.target"] } },
+      },
+      {
+        path: "bunman.config.ts",
+        config: { apps: {}, defaults: { dependsOn: ["cache", "db"] } },
+      },
+    ]);
+
+    expect(result.defaults).toEqual({
+      dependsOn: ["db", "cache"],
+      after: ["network-online.target"],
+    });
+  });
+
+  test("merges environment profiles across files", () => {
+    const result = composeConfigs([
+      {
+        path: "apps/api/bunman.config.ts",
+        config: { environments: { production: { apps: { api: { env: { PORT: "80" } } } } } },
+      },
+      {
+        path: "bunman.config.ts",
+        config: {
+          environments: {
+            production: {
+              defaults: { user: "www-data" },
+              apps: { api: { env: { HOST: "0.0.0.0" } } },
+            },
+          },
+        },
+      },
+    ]);
+
+    expect(result.environments?.["production"]).toEqual({
+      defaults: { user: "www-data" },
+      apps: { api: { env: { PORT: "80", HOST: "0.0.0.0" } } },
+    });
+  });
+});
+
+describe("resolveConfigPaths", () => {
+  test("resolves paths relative to the defining file", () => {
+    const result = resolveConfigPaths(
+      {
+        apps: { api: { cwd: ".", command: "a", envFile: ".env" } },
+        defaults: { envFile: "../shared.env" },
+        systemd: { unitPath: "units" },
+        environments: { production: { apps: { api: { cwd: "dist" } } } },
+      },
+      "/repo/apps/api"
+    );
+
+    expect(result.apps?.["api"]).toEqual({
+      cwd: "/repo/apps/api",
+      command: "a",
+      envFile: "/repo/apps/api/.env",
+    });
+    expect(result.defaults?.envFile).toBe("/repo/apps/shared.env");
+    expect(result.systemd?.unitPath).toBe("/repo/apps/api/units");
+    expect(result.environments?.["production"]?.apps?.["api"]?.cwd).toBe(
+      "/repo/apps/api/dist"
+    );
+  });
+
+  test("resolves log, writable and deploy source paths", () => {
+    const result = resolveConfigPaths(
+      {
+        apps: {
+          x: {
+            cwd: "current",
+            command: "a",
+            logs: { target: "file", path: "logs/x.log" },
+            security: { readWritePaths: ["data", "/var/cache/x"] },
+            deploy: { source: "../../repo" },
+          },
+          y: { cwd: ".", command: "a", deploy: { source: "git@github.com:me/y.git" } },
+        },
+      },
+      "/root/apps/x"
+    );
+
+    const x = result.apps?.["x"];
+    expect(x?.logs?.path).toBe("/root/apps/x/logs/x.log");
+    expect(x?.security?.readWritePaths).toEqual(["/root/apps/x/data", "/var/cache/x"]);
+    expect(x?.deploy?.source).toBe("/root/repo");
+    expect(result.apps?.["y"]?.deploy?.source).toBe("git@github.com:me/y.git");
+  });
+
+  test("leaves absolute paths alone", () => {
+    const result = resolveConfigPaths(
+      { apps: { api: { cwd: "/srv/api", command: "a" } } },
+      "/repo"
+    );
+    expect(result.apps?.["api"]?.cwd).toBe("/srv/api");
+  });
+});
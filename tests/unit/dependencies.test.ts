@@ -0,0 +1,146 @@
+import { describe, test, expect } from "bun:test";
+import {
+  findDependencyCycle,
+  getDependencyUnits,
+  getDependencyWaves,
+  sortByDependencies,
+  withDependencies,
+} from "../../src/core/dependencies";
+import { getInstanceApp } from "../../src/core/instances";
+import { generateUnitFile } from "../../src/core/systemd/generator";
+import { ConfigError } from "../../src/utils/errors";
+import type { NormalizedAppConfig } from "../../src/types/config";
+import { createApp } from "./fixtures";
+
+function names(services: Array<[string, NormalizedAppConfig]>): string[] {
+  return services.map(([name]) => name);
+}
+
+describe("findDependencyCycle", () => {
+  test("returns undefined for an acyclic graph", () => {
+    expect(findDependencyCycle({ web: ["api"], api: ["db"], db: [] })).toBeUndefined();
+  });
+
+  test("returns the apps along a cycle", () => {
+    expect(findDependencyCycle({ api: ["worker"], worker: ["api"] })).toEqual([
+      "api",
+      "worker",
+      "api",
+    ]);
+    expect(findDependencyCycle({ web: ["api"], api: ["db"], db: ["api"] })).toEqual([
+      "api",
+      "db",
+      "api",
+    ]);
+  });
+});
+
+describe("sortByDependencies", () => {
+  test("puts dependencies first and keeps config order otherwise", () => {
+    const services: Array<[string, NormalizedAppConfig]> = [
+      ["web", createApp({ dependsOn: ["api"] }, "web")],
+      ["api", createApp({ dependsOn: ["db"] }, "api")],
+      ["cron", createApp({}, "cron")],
+      ["db", createApp({}, "db")],
+    ];
+
+    expect(names(sortByDependencies(services))).toEqual(["db", "api", "web", "cron"]);
+  });
+
+  test("ignores dependencies outside the batch", () => {
+    const services: Array<[string, NormalizedAppConfig]> = [
+      ["worker", createApp({ dependsOn: ["api"] }, "worker")],
+      ["web", createApp({}, "web")],
+    ];
+
+    expect(names(sortByDependencies(services))).toEqual(["worker", "web"]);
+  });
+
+  test("keeps the instances of a clustered app together", () => {
+    const api = createApp({ instances: 2 }, "api");
+    const services: Array<[string, NormalizedAppConfig]> = [
+      ["web", createApp({ dependsOn: ["api"] }, "web")],
+      getInstanceApp("api", api, 1),
+      getInstanceApp("api", api, 2),
+    ];
+
+    expect(names(sortByDependencies(services))).toEqual(["api@1", "api@2", "web"]);
+  });
+
+  test("throws on a cycle", () => {
+    const services: Array<[string, NormalizedAppConfig]> = [
+      ["api", createApp({ dependsOn: ["worker"] }, "api")],
+      ["worker", createApp({ dependsOn: ["api"] }, "worker")],
+    ];
+
+    expect(() => sortByDependencies(services)).toThrow(ConfigError);
+    expect(() => sortByDependencies(services)).toThrow("api -> worker -> api");
+  });
+});
+
+describe("withDependencies", () => {
+  test("adds transitive dependencies in config order", () => {
+    const apps = {
+      db: createApp({}, "db"),
+      api: createApp({ dependsOn: ["db"] }, "api"),
+      web: createApp({ dependsOn: ["api"] }, "web"),
+      worker: createApp({}, "worker"),
+    };
+
+    expect(withDependencies(["web"], apps)).toEqual(["db", "api", "web"]);
+    expect(withDependencies(["worker", "api"], apps)).toEqual(["db", "api", "worker"]);
+  });
+});
+
+describe("getDependencyWaves", () => {
+  test("groups services whose dependencies are in earlier waves", () => {
+    const services: Array<[string, NormalizedAppConfig]> = [
+      ["web", createApp({ dependsOn: ["api"] }, "web")],
+      ["api", createApp({ dependsOn: ["db"] }, "api")],
+      ["worker", createApp({ dependsOn: ["db"] }, "worker")],
+      ["db", createApp({}, "db")],
+      ["cron", createApp({}, "cron")],
+    ];
+
+    expect(getDependencyWaves(services).map(names)).toEqual([
+      ["db", "cron"],
+      ["api", "worker"],
+      ["web"],
+    ]);
+  });
+});
+
+describe("getDependencyUnits", () => {
+  const apps = {
+    api: createApp({ instances: 2 }, "api"),
+    db: createApp({}, "db"),
+  };
+
+  test("resolves app names to prefixed units", () => {
+    expect(getDependencyUnits(createApp({ dependsOn: ["db"] }, "web"), apps)).toEqual([
+      "bunman-db.service",
+    ]);
+  });
+
+  test("lists every instance of a clustered dependency", () => {
+    expect(getDependencyUnits(createApp({ dependsOn: ["api"] }, "web"), apps)).toEqual([
+      "bunman-api@1.service",
+      "bunman-api@2.service",
+    ]);
+  });
+});
+
+describe("generateUnitFile with dependsOn", () => {
+  test("adds dependencies to After and Requires", () => {
+    const apps = {
+      db: createApp({ serviceName: "myapp-db" }, "db"),
+    };
+    const unit = generateUnitFile(
+      createApp({ dependsOn: ["db"], requires: ["redis.service"] }, "api"),
+      { apps }
+    );
+
+    expect(unit).toContain("After=network.target myapp-db.service");
+    expect(unit).toContain("Requires=redis.service myapp-db.service");
+  });
+});
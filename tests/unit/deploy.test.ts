@@ -0,0 +1,165 @@
+import { describe, test, expect, mock, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, readFile, readlink, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  deployApp,
+  getCurrentRelease,
+  getReleaseName,
+  listReleases,
+  rollbackApp,
+} from "../../src/core/deploy";
+import { BunmanError } from "../../src/utils/errors";
+import type { ServiceManager } from "../../src/types/backend";
+import type { DeployConfig, NormalizedAppConfig } from "../../src/types/config";
+import { createApp } from "./fixtures";
+import type { ServiceStatus } from "../../src/types/service";
+
+// Create a mock service manager
+function createMockServiceManager(overrides?: Partial<ServiceManager>): ServiceManager {
+  return {
+    init: mock(() => Promise.resolve()),
+    start: mock(() => Promise.resolve()),
+    stop: mock(() => Promise.resolve()),
+    restart: mock(() => Promise.resolve()),
+    getStatus: mock((name: string) =>
+      Promise.resolve({ name, state: "active" } as ServiceStatus)
+    ),
+    getAllStatuses: mock(() => Promise.resolve([])),
+    listInstances: mock(() => Promise.resolve([])),
+    getJobRuns: mock(() => Promise.resolve({})),
+    runJob: mock(() => Promise.resolve()),
+    resetFailed: mock(() => Promise.resolve()),
+    isActive: mock(() => Promise.resolve(true)),
+    logs: mock(() => Promise.resolve()),
+    generateConfig: mock(() => ""),
+    install: mock(() => Promise.resolve()),
+    readConfig: mock(() => Promise.resolve("unit")),
+    restoreConfig: mock(() => Promise.resolve()),
+    remove: mock(() => Promise.resolve()),
+    reload: mock(() => Promise.resolve()),
+    enable: mock(() => Promise.resolve()),
+    disable: mock(() => Promise.resolve()),
+    isAvailable: mock(() => Promise.resolve(true)),
+    getName: () => "mock",
+    ...overrides,
+  };
+}
+
+function git(cwd: string, ...args: string[]): void {
+  const result = Bun.spawnSync(
+    ["git", "-c", "user.name=bunman", "-c", "user.email=bunman@example.com", ...args],
+    { cwd, stdout: "pipe", stderr: "pipe" }
+  );
+  if (result.exitCode !== 0) {
+    throw new Error(result.stderr.toString());
+  }
+}
+
+describe("getReleaseName", () => {
+  test("names releases by their UTC build time", () => {
+    const now = new Date("2025-01-02T03:04:05.678Z");
+
+    expect(getReleaseName([], now)).toBe("20250102T030405Z");
+    expect(getReleaseName(["20250102T030405Z", "20250102T030405Z-2"], now)).toBe(
+      "20250102T030405Z-3"
+    );
+  });
+});
+
+describe("deployApp", () => {
+  let dir: string;
+  let source: string;
+
+  function createDeployedApp(deploy: Partial<DeployConfig> = {}): NormalizedAppConfig {
+    return createApp({
+      cwd: join(dir, "api", "current"),
+      env: { GREETING: "hello" },
+      deploy: {
+        source,
+        install: "true",
+        build: 'echo "$GREETING" > BUILD',
+        ...deploy,
+      },
+    });
+  }
+
+  async function commit(content: string): Promise<void> {
+    await writeFile(join(source, "index.ts"), content);
+    git(source, "add", "-A");
+    git(source, "commit", "-q", "-m", content);
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "bunman-deploy-"));
+    source = join(dir, "source");
+    git(dir, "init", "-q", source);
+    await commit("v1");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("builds a release and links it as the app's cwd", async () => {
+    const app = createDeployedApp();
+    const serviceManager = createMockServiceManager();
+
+    const { release, previous, summary } = await deployApp("api", app, serviceManager);
+
+    expect(previous).toBeUndefined();
+    expect(summary.succeeded).toBe(1);
+    expect(await readlink(app.cwd)).toBe(join("releases", release));
+    expect(await readFile(join(app.cwd, "index.ts"), "utf-8")).toBe("v1");
+    expect(await readFile(join(app.cwd, "BUILD"), "utf-8")).toBe("hello\n");
+    expect(serviceManager.restart).toHaveBeenCalledWith("bunman-api");
+  });
+
+  test("keeps the newest releases and rolls back to earlier ones", async () => {
+    const app = createDeployedApp({ keep: 2 });
+    const serviceManager = createMockServiceManager();
+
+    await deployApp("api", app, serviceManager);
+    await commit("v2");
+    const second = await deployApp("api", app, serviceManager);
+    await commit("v3");
+    const third = await deployApp("api", app, serviceManager);
+
+    expect(await listReleases(app)).toEqual([second.release, third.release]);
+
+    const rollback = await rollbackApp("api", app, serviceManager);
+    expect(rollback).toMatchObject({ release: second.release, previous: third.release });
+    expect(await readFile(join(app.cwd, "index.ts"), "utf-8")).toBe("v2");
+
+    await expect(rollbackApp("api", app, serviceManager)).rejects.toThrow("to roll back to");
+    await rollbackApp("api", app, serviceManager, third.release);
+    expect(await getCurrentRelease(app)).toBe(third.release);
+  });
+
+  test("discards a release that fails to build", async () => {
+    const serviceManager = createMockServiceManager();
+    const { release } = await deployApp("api", createDeployedApp(), serviceManager);
+
+    const broken = createDeployedApp({ build: "exit 1" });
+    await expect(deployApp("api", broken, serviceManager)).rejects.toThrow(BunmanError);
+
+    expect(await listReleases(broken)).toEqual([release]);
+    expect(await getCurrentRelease(broken)).toBe(release);
+  });
+
+  test("switches back when the new release is not healthy", async () => {
+    const app = createDeployedApp();
+    const { release } = await deployApp("api", app, createMockServiceManager());
+
+    await commit("v2");
+    const unhealthy = createMockServiceManager({
+      getStatus: mock((name: string) => Promise.resolve({ name, state: "failed" } as ServiceStatus)),
+    });
+    const result = await deployApp("api", app, unhealthy);
+
+    expect(result.summary.failed).toBe(1);
+    expect(await getCurrentRelease(app)).toBe(release);
+    expect(await listReleases(app)).toEqual([release]);
+    expect(unhealthy.restoreConfig).toHaveBeenCalledWith("bunman-api", "unit");
+  });
+});
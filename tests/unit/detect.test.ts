@@ -0,0 +1,81 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { detectWorkspaceApps, toAppName } from "../../src/core/config/detect";
+import { renderDetectedConfig } from "../../src/core/config/template";
+import { validateConfig } from "../../src/core/config/validator";
+import { ConfigError } from "../../src/utils/errors";
+
+describe("detectWorkspaceApps", () => {
+  let dir: string;
+
+  const writeJson = (path: string, value: unknown) =>
+    Bun.write(join(dir, path), JSON.stringify(value));
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "bunman-detect-"));
+    await writeJson("package.json", {
+      workspaces: ["apps/*", "packages/*", "!packages/internal"],
+    });
+    await writeJson("apps/api/package.json", {
+      name: "@acme/api",
+      description: "REST API",
+      scripts: { start: "bun src/index.ts" },
+    });
+    await writeJson("apps/web/package.json", { name: "web", scripts: { start: "bun web" } });
+    await writeJson("apps/lib/package.json", { name: "lib", scripts: { build: "tsc" } });
+    await writeJson("packages/api/package.json", { name: "api", scripts: { start: "bun x" } });
+    await writeJson("packages/internal/package.json", { name: "internal", scripts: { start: "x" } });
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("proposes workspaces with a start script", async () => {
+    const apps = await detectWorkspaceApps(dir);
+
+    expect(apps).toEqual([
+      { name: "api", cwd: "apps/api", command: "bun run start", description: "REST API" },
+      { name: "web", cwd: "apps/web", command: "bun run start", description: undefined },
+      { name: "api-2", cwd: "packages/api", command: "bun run start", description: undefined },
+    ]);
+  });
+
+  test("throws without workspaces", async () => {
+    const empty = join(dir, "apps/web");
+    await expect(detectWorkspaceApps(empty)).rejects.toThrow(ConfigError);
+    await expect(detectWorkspaceApps(join(dir, "missing"))).rejects.toThrow(
+      "No package.json found"
+    );
+  });
+});
+
+describe("toAppName", () => {
+  test("strips scopes and unsupported characters", () => {
+    expect(toAppName("@acme/api-server")).toBe("api-server");
+    expect(toAppName("my.app")).toBe("my-app");
+    expect(toAppName("apps/worker")).toBe("worker");
+    expect(toAppName("@@@")).toBe("app");
+  });
+});
+
+describe("renderDetectedConfig", () => {
+  test("renders a config module that loads and validates", async () => {
+    const source = renderDetectedConfig([
+      { name: "api", cwd: "apps/api", command: "bun run start", description: 'The "API"' },
+      { name: "web-app", cwd: "apps/web", command: "bun run start" },
+    ]);
+
+    expect(source).toContain('import type { BunmanConfig } from "bunman";');
+    expect(source).toContain('"web-app": {');
+
+    const transpiled = new Bun.Transpiler({ loader: "ts" }).transformSync(source);
+    const module = await import(
+      `data:text/javascript,${encodeURIComponent(transpiled)}`
+    );
+    expect(() => validateConfig(module.default)).not.toThrow();
+    expect(module.default.apps.api.description).toBe('The "API"');
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DevRunner, isWatchedFile } from "../../src/core/dev";
+import { getAppEnv, parseEnvFile } from "../../src/core/foreground";
+import { BunmanError } from "../../src/utils/errors";
+import type { NormalizedAppConfig } from "../../src/types/config";
+import { createApp } from "./fixtures";
+
+describe("parseEnvFile", () => {
+  test("parses KEY=value lines and skips comments", () => {
+    const env = parseEnvFile(
+      ["# database", "DB_HOST=localhost", "", "export DB_PORT = 5432", "not a variable"].join("\n")
+    );
+
+    expect(env).toEqual({ DB_HOST: "localhost", DB_PORT: "5432" });
+  });
+
+  test("unquotes values", () => {
+    const env = parseEnvFile(
+      ['GREETING="hello \\"world\\"\\nbye"', "RAW='a\\nb'", 'EMPTY=""'].join("\n")
+    );
+
+    expect(env).toEqual({ GREETING: 'hello "world"\nbye', RAW: "a\\nb", EMPTY: "" });
+  });
+});
+
+describe("isWatchedFile", () => {
+  test("matches files against the watch globs", () => {
+    const patterns = ["src/**/*.ts", "package.json"];
+
+    expect(isWatchedFile(patterns, "src/index.ts")).toBe(true);
+    expect(isWatchedFile(patterns, "src/routes/users.ts")).toBe(true);
+    expect(isWatchedFile(patterns, "package.json")).toBe(true);
+    expect(isWatchedFile(patterns, "README.md")).toBe(false);
+  });
+
+  test("ignores node_modules and .git", () => {
+    expect(isWatchedFile(["**/*.ts"], "node_modules/pkg/index.ts")).toBe(false);
+    expect(isWatchedFile(["**/*"], ".git/HEAD")).toBe(false);
+  });
+});
+
+describe("getAppEnv", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "bunman-dev-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("applies env, then envFile, then secrets", async () => {
+    const envFile = join(dir, ".env");
+    await writeFile(envFile, "A=file\nB=file\n");
+
+    const env = await getAppEnv(
+      createApp({ env: { A: "env", B: "env", C: "env" }, envFile }),
+      { B: "secret" }
+    );
+
+    expect(env["A"]).toBe("file");
+    expect(env["B"]).toBe("secret");
+    expect(env["C"]).toBe("env");
+    expect(env["PATH"]).toBe(process.env["PATH"]);
+  });
+
+  test("runs a clustered app as its first instance", async () => {
+    const env = await getAppEnv(createApp({ instances: 3, portBase: 3000 }));
+
+    expect(env["BUNMAN_INSTANCE"]).toBe("1");
+    expect(env["PORT"]).toBe("3000");
+  });
+
+  test("sets the number and port of an instance", async () => {
+    const env = await getAppEnv(createApp({ instances: 3, portBase: 3000, instance: 2 }));
+
+    expect(env["BUNMAN_INSTANCE"]).toBe("2");
+    expect(env["PORT"]).toBe("3001");
+  });
+
+  test("throws when the envFile is missing", async () => {
+    await expect(getAppEnv(createApp({ envFile: join(dir, "missing.env") }))).rejects.toThrow(
+      BunmanError
+    );
+  });
+});
+
+describe("DevRunner", () => {
+  let dir: string;
+  let runner: DevRunner | undefined;
+  const logs: string[] = [];
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "bunman-runner-"));
+    logs.length = 0;
+  });
+
+  afterEach(async () => {
+    await runner?.stop();
+    runner = undefined;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  function createRunner(apps: Array<[string, NormalizedAppConfig]>): DevRunner {
+    return new DevRunner(apps, { log: (name, message) => logs.push(`${name}: ${message}`) });
+  }
+
+  function getPid(name: string): number {
+    const started = logs.find((line) => line.startsWith(`${name}: started`));
+    return Number(started?.match(/pid (\d+)/)?.[1]);
+  }
+
+  test("stops the apps it started when a later app fails to spawn", async () => {
+    runner = createRunner([
+      ["a", createApp({ serviceName: "bunman-a", cwd: dir, command: "sleep 30" })],
+      [
+        "b",
+        createApp({
+          serviceName: "bunman-b",
+          cwd: dir,
+          command: "sleep 30",
+          dependsOn: ["a"],
+          envFile: join(dir, "missing.env"),
+        }),
+      ],
+    ]);
+
+    await expect(runner.start()).rejects.toThrow(BunmanError);
+    await runner.stop();
+
+    expect(() => process.kill(getPid("a"), 0)).toThrow();
+  });
+
+  test("logs a failed restart and keeps handling later ones", async () => {
+    const app = createApp({ cwd: dir, command: "sleep 30" });
+    runner = createRunner([["api", app]]);
+    await runner.start();
+
+    app.envFile = join(dir, "missing.env");
+    await runner.restart("api");
+    expect(logs.some((line) => line.startsWith("api: failed to restart"))).toBe(true);
+
+    app.envFile = undefined;
+    await runner.restart("api");
+    expect(logs.filter((line) => line.startsWith("api: started"))).toHaveLength(2);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, test, expect } from "bun:test";
+import { isDirectiveName, mergeDirectives } from "../../src/core/systemd/directives";
+import { generateUnitFile } from "../../src/core/systemd/generator";
+import { createApp } from "./fixtures";
+
+function section(unit: string, name: string): string[] {
+  const lines = unit.split("\n");
+  const start = lines.indexOf(`[${name}]`);
+  const end = lines.indexOf("", start);
+  return lines.slice(start + 1, end);
+}
+
+describe("isDirectiveName", () => {
+  test("accepts CamelCase and X- keys", () => {
+    expect(isDirectiveName("LimitCORE")).toBe(true);
+    expect(isDirectiveName("RequiresMountsFor")).toBe(true);
+    expect(isDirectiveName("X-Restart-Triggers")).toBe(true);
+  });
+
+  test("rejects other keys", () => {
+    expect(isDirectiveName("limitCore")).toBe(false);
+    expect(isDirectiveName("Nice=5")).toBe(false);
+    expect(isDirectiveName("Limit CORE")).toBe(false);
+    expect(isDirectiveName("")).toBe(false);
+  });
+});
+
+describe("mergeDirectives", () => {
+  test("replaces existing lines in place and appends new ones", () => {
+    const lines = ["[Service]", "A=1", "B=1", "B=2", "C=1"];
+    mergeDirectives(lines, 1, { B: ["3"], D: ["4", "5"] });
+
+    expect(lines).toEqual(["[Service]", "A=1", "B=3", "C=1", "D=4", "D=5"]);
+  });
+
+  test("leaves earlier sections alone", () => {
+    const lines = ["[Unit]", "After=a", "[Service]", "Type=simple"];
+    mergeDirectives(lines, 3, { After: ["b"] });
+
+    expect(lines).toEqual(["[Unit]", "After=a", "[Service]", "Type=simple", "After=b"]);
+  });
+});
+
+describe("generateUnitFile with raw directives", () => {
+  test("adds directives bunman doesn't model", () => {
+    const unit = generateUnitFile(
+      createApp({
+        systemd: {
+          unit: { RequiresMountsFor: ["/data"] },
+          service: { LimitCORE: ["infinity"], Nice: ["5"] },
+        },
+      })
+    );
+
+    expect(section(unit, "Unit")).toContain("RequiresMountsFor=/data");
+    expect(section(unit, "Service")).toContain("LimitCORE=infinity");
+    expect(section(unit, "Service")).toContain("Nice=5");
+  });
+
+  test("replaces managed directives", () => {
+    const unit = generateUnitFile(
+      createApp({
+        systemd: { service: { Environment: ["A=1", "PORT=80"], Type: ["notify"] } },
+      })
+    );
+    const service = section(unit, "Service");
+
+    expect(service[0]).toBe("Type=notify");
+    expect(service.filter((line) => line.startsWith("Environment="))).toEqual([
+      "Environment=A=1",
+      "Environment=PORT=80",
+    ]);
+  });
+
+  test("gives jobs an install section only when asked", () => {
+    const job = createApp({ schedule: "daily" });
+    expect(generateUnitFile(job)).not.toContain("[Install]");
+
+    const unit = generateUnitFile({
+      ...job,
+      systemd: { install: { WantedBy: ["default.target"] } },
+    });
+    expect(section(unit, "Install")).toEqual(["WantedBy=default.target"]);
+  });
+});
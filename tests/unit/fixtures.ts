@@ -0,0 +1,31 @@
+import type { NormalizedAppConfig } from "../../src/types/config";
+
+/**
+ * Create a normalized app config with the loader's defaults
+ */
+export function createApp(
+  overrides: Partial<NormalizedAppConfig> = {},
+  name = "api"
+): NormalizedAppConfig {
+  return {
+    serviceName: `bunman-${name}`,
+    cwd: `/srv/${name}`,
+    command: "bun run start",
+    env: {},
+    description: `bunman service: ${name}`,
+    restart: "always",
+    restartSec: 3,
+    after: ["network.target"],
+    requires: [],
+    dependsOn: [],
+    watch: [],
+    hooks: {},
+    hardening: "none",
+    security: {},
+    systemd: {},
+    logs: { target: "journal", keep: 5 },
+    limits: {},
+    secrets: [],
+    ...overrides,
+  };
+}
@@ -1,5 +1,5 @@
 import { describe, test, expect, beforeEach, afterEach } from "bun:test";
-import { formatBytes, formatDuration, formatStatusTable, formatServiceDetail } from "../../src/utils/format";
+import { formatBytes, formatDuration, formatElapsed, formatStatusTable, formatServiceDetail } from "../../src/utils/format";
 import type { ServiceStatus } from "../../src/types/service";
 
 describe("formatBytes", () => {
@@ -94,6 +94,14 @@ describe("formatDuration", () => {
   });
 });
 
+describe("formatElapsed", () => {
+  test("formats milliseconds, seconds and minutes", () => {
+    expect(formatElapsed(850)).toBe("850ms");
+    expect(formatElapsed(2400)).toBe("2.4s");
+    expect(formatElapsed(65_000)).toBe("1m 5s");
+  });
+});
+
 describe("formatStatusTable", () => {
   let originalNoColor: string | undefined;
   let originalForceColor: string | undefined;
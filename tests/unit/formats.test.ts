@@ -0,0 +1,168 @@
+import { describe, test, expect } from "bun:test";
+import {
+  getConfigFormat,
+  parseConfigText,
+  locatePath,
+  locateIssues,
+  findJsonErrorOffset,
+} from "../../src/core/config/formats";
+import { ConfigError } from "../../src/utils/errors";
+
+const json = `{
+  "apps": {
+    "api": { "cwd": ".", "command": "bun start" },
+    "worker": {
+      "cwd": "w",
+      "restartSec": -1
+    }
+  }
+}`;
+
+const yaml = `apps:
+  api:
+    cwd: .
+    env:
+      PORT: 3000
+  worker:
+    restart: sometimes
+`;
+
+const toml = `[defaults]
+restartSec = 5
+
+[apps.api]
+cwd = "."
+limits = { memory = -5 }
+
+[apps.worker]
+user = 5
+`;
+
+describe("getConfigFormat", () => {
+  test("detects formats by extension", () => {
+    expect(getConfigFormat("/srv/bunman.config.ts")).toBe("module");
+    expect(getConfigFormat("/srv/bunman.config.js")).toBe("module");
+    expect(getConfigFormat("/srv/bunman.config.json")).toBe("json");
+    expect(getConfigFormat("/srv/bunman.yaml")).toBe("yaml");
+    expect(getConfigFormat("/srv/bunman.yml")).toBe("yaml");
+    expect(getConfigFormat("/srv/bunman.toml")).toBe("toml");
+  });
+});
+
+describe("parseConfigText", () => {
+  test("parses each format", () => {
+    expect(parseConfigText(json, "json", "bunman.config.json")).toHaveProperty("apps.api.cwd", ".");
+    expect(parseConfigText(yaml, "yaml", "bunman.yaml")).toHaveProperty("apps.api.env.PORT", 3000);
+    expect(parseConfigText(toml, "toml", "bunman.toml")).toHaveProperty("defaults.restartSec", 5);
+  });
+
+  test("reports JSON syntax errors with line and column", () => {
+    const text = `{\n  "apps": {\n    "api": { "cwd": "." "command": "x" }\n  }\n}`;
+    expect(() => parseConfigText(text, "json", "/srv/bunman.config.json")).toThrow(
+      /bunman\.config\.json at line 3, column 25/
+    );
+  });
+
+  test("reports YAML syntax errors with line and column", () => {
+    const text = "apps:\n  api:\n    cwd: .\n    command: [oops\n";
+    expect(() => parseConfigText(text, "yaml", "bunman.yaml")).toThrow(/line 4, column 5/);
+  });
+
+  test("reports TOML syntax errors with line and column", () => {
+    const text = `[apps.api]\ncwd = "."\ncommand = = "x"\n`;
+    expect(() => parseConfigText(text, "toml", "bunman.toml")).toThrow(/line 3, column 1/);
+  });
+
+  test("throws ConfigError", () => {
+    expect(() => parseConfigText("{", "json", "bunman.config.json")).toThrow(ConfigError);
+  });
+
+  test("explains that YAML needs a newer Bun", () => {
+    const parser = Bun.YAML;
+    Object.assign(Bun, { YAML: undefined });
+
+    try {
+      expect(() => parseConfigText(yaml, "yaml", "bunman.yaml")).toThrow(/require Bun >= 1\.2\.21/);
+    } finally {
+      Object.assign(Bun, { YAML: parser });
+    }
+  });
+});
+
+describe("findJsonErrorOffset", () => {
+  test("returns undefined for valid JSON", () => {
+    expect(findJsonErrorOffset(json)).toBeUndefined();
+    expect(findJsonErrorOffset(`[1, -2.5e3, true, null, "a\\"b"]`)).toBeUndefined();
+  });
+
+  test("finds trailing commas and missing values", () => {
+    expect(findJsonErrorOffset(`{"a": 1,}`)).toBe(8);
+    expect(findJsonErrorOffset(`{"a": }`)).toBe(6);
+    expect(findJsonErrorOffset(`{"a": 1} x`)).toBe(9);
+  });
+
+  test("points past the end of unterminated input", () => {
+    expect(findJsonErrorOffset(`{"a": "b`)).toBe(8);
+  });
+});
+
+describe("locatePath", () => {
+  test("locates nested JSON keys", () => {
+    expect(locatePath(json, "json", "apps.worker.restartSec")).toEqual({ line: 6, column: 7 });
+    expect(locatePath(json, "json", "apps.api.command")).toEqual({ line: 3, column: 26 });
+  });
+
+  test("locates nested YAML keys", () => {
+    expect(locatePath(yaml, "yaml", "apps.api.env.PORT")).toEqual({ line: 5, column: 7 });
+    expect(locatePath(yaml, "yaml", "apps.worker.restart")).toEqual({ line: 7, column: 5 });
+  });
+
+  test("locates TOML keys under table headers and in inline tables", () => {
+    expect(locatePath(toml, "toml", "defaults.restartSec")).toEqual({ line: 2, column: 1 });
+    expect(locatePath(toml, "toml", "apps.worker.user")).toEqual({ line: 9, column: 1 });
+    expect(locatePath(toml, "toml", "apps.api.limits.memory")).toEqual({ line: 6, column: 12 });
+  });
+
+  test("ignores array indices", () => {
+    const text = `{\n  "apps": {\n    "api": { "after": ["a", 1] }\n  }\n}`;
+    expect(locatePath(text, "json", "apps.api.after[1]")).toEqual({ line: 3, column: 14 });
+  });
+
+  test("points at the parent of a key missing from its object", () => {
+    const text = `{
+  "apps": {
+    "worker": {
+      "command": "bun run worker"
+    },
+    "api": {
+      "cwd": ".",
+      "command": "bun run start"
+    }
+  }
+}`;
+    expect(locatePath(text, "json", "apps.worker.cwd")).toEqual({ line: 3, column: 5 });
+
+    const yamlText = "apps:\n  worker:\n    command: bun run worker\n  api:\n    cwd: .\n";
+    expect(locatePath(yamlText, "yaml", "apps.worker.cwd")).toEqual({ line: 2, column: 3 });
+  });
+
+  test("returns undefined when the key is missing", () => {
+    expect(locatePath(toml, "toml", "apps.missing.cwd")).toBeUndefined();
+  });
+});
+
+describe("locateIssues", () => {
+  test("attaches positions to issues but not to document-level ones", () => {
+    const issues = locateIssues(
+      [
+        { path: "config", message: "must be an object", severity: "error" },
+        { path: "apps.worker.restartSec", message: "must be a non-negative number", severity: "error" },
+      ],
+      json,
+      "json"
+    );
+
+    expect(issues[0]!.line).toBeUndefined();
+    expect(issues[1]).toMatchObject({ line: 6, column: 7 });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, test, expect } from "bun:test";
+import { getSecuritySettings, HARDENING_PRESETS } from "../../src/core/systemd/hardening";
+import { auditApp, getExposureRating } from "../../src/core/systemd/audit";
+import { generateUnitFile } from "../../src/core/systemd/generator";
+import { createApp } from "./fixtures";
+
+describe("getSecuritySettings", () => {
+  test("returns nothing for the none preset", () => {
+    expect(getSecuritySettings(createApp())).toEqual({});
+  });
+
+  test("keeps the app directory writable under strict", () => {
+    const settings = getSecuritySettings(
+      createApp({ hardening: "strict", security: { readWritePaths: ["/var/lib/api"] } })
+    );
+
+    expect(settings.protectSystem).toBe("strict");
+    expect(settings.readWritePaths).toEqual(["/srv/api", "/var/lib/api"]);
+  });
+
+  test("applies overrides on top of the preset", () => {
+    const settings = getSecuritySettings(
+      createApp({ hardening: "basic", security: { privateTmp: false, privateDevices: true } })
+    );
+
+    expect(settings).toEqual({
+      ...HARDENING_PRESETS.basic,
+      privateTmp: false,
+      privateDevices: true,
+    });
+    expect(settings.readWritePaths).toBeUndefined();
+  });
+});
+
+describe("generateUnitFile with hardening", () => {
+  test("emits no sandboxing by default", () => {
+    const unit = generateUnitFile(createApp());
+    expect(unit).not.toContain("PrivateTmp=");
+    expect(unit).not.toContain("ProtectSystem=");
+  });
+
+  test("emits the strict preset", () => {
+    const unit = generateUnitFile(createApp({ hardening: "strict" }));
+
+    expect(unit).toContain("PrivateTmp=true\n");
+    expect(unit).toContain("NoNewPrivileges=true\n");
+    expect(unit).toContain("ProtectSystem=strict\n");
+    expect(unit).toContain("ProtectHome=read-only\n");
+    expect(unit).toContain("PrivateDevices=true\n");
+    expect(unit).toContain("RestrictAddressFamilies=AF_UNIX AF_INET AF_INET6\n");
+    expect(unit).toContain("ReadWritePaths=/srv/api\n");
+    expect(unit).not.toContain("MemoryDenyWriteExecute");
+  });
+
+  test("writes disabled settings explicitly", () => {
+    const unit = generateUnitFile(
+      createApp({ hardening: "basic", security: { protectSystem: "no" } })
+    );
+    expect(unit).toContain("ProtectSystem=no\n");
+  });
+});
+
+describe("auditApp", () => {
+  test("scores an unsandboxed root service as fully exposed", () => {
+    const audit = auditApp("api", createApp());
+
+    expect(audit.exposure).toBe(10);
+    expect(audit.rating).toBe("unsafe");
+    expect(audit.checks.every((check) => !check.passed)).toBe(true);
+  });
+
+  test("scores a strict service with its own user as safe", () => {
+    const audit = auditApp("api", createApp({ hardening: "strict", user: "www-data" }));
+
+    expect(audit.exposure).toBe(0);
+    expect(audit.rating).toBe("safe");
+  });
+
+  test("scores the unit after raw directives weaken it", () => {
+    const audit = auditApp(
+      "api",
+      createApp({
+        hardening: "strict",
+        user: "www-data",
+        systemd: { service: { NoNewPrivileges: ["false"], ProtectSystem: ["false"] } },
+      })
+    );
+    const failed = audit.checks.filter((check) => !check.passed).map((check) => check.directive);
+
+    expect(failed).toEqual(["NoNewPrivileges=true", "ProtectSystem=strict"]);
+    expect(audit.exposure).toBeGreaterThan(0);
+  });
+
+  test("counts user-level units as unprivileged", () => {
+    const system = auditApp("api", createApp({ hardening: "basic" }));
+    const user = auditApp("api", createApp({ hardening: "basic" }), { userMode: true });
+
+    expect(user.exposure).toBeLessThan(system.exposure);
+    expect(user.checks.find((check) => check.directive === "User=")!.passed).toBe(true);
+  });
+});
+
+describe("getExposureRating", () => {
+  test("maps scores to ratings", () => {
+    expect(getExposureRating(0)).toBe("safe");
+    expect(getExposureRating(2.2)).toBe("ok");
+    expect(getExposureRating(6.6)).toBe("medium");
+    expect(getExposureRating(7.8)).toBe("exposed");
+    expect(getExposureRating(10)).toBe("unsafe");
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, test, expect } from "bun:test";
+import { buildHookScript, hasHooks } from "../../src/core/hooks";
+import { generateUnitFile } from "../../src/core/systemd/generator";
+import { createApp } from "./fixtures";
+
+async function runScript(script: string): Promise<{ stdout: string; exitCode: number }> {
+  const proc = Bun.spawn(["/bin/sh", "-c", script], { stdout: "pipe", stderr: "pipe" });
+  const stdout = await new Response(proc.stdout).text();
+  return { stdout, exitCode: await proc.exited };
+}
+
+describe("hasHooks", () => {
+  test("detects configured hooks", () => {
+    expect(hasHooks(createApp())).toBe(false);
+    expect(hasHooks(createApp({ hooks: { preStart: ["bun run migrate"] } }))).toBe(true);
+  });
+});
+
+describe("generateUnitFile with hooks", () => {
+  test("maps hooks to Exec directives in order", () => {
+    const unit = generateUnitFile(
+      createApp({
+        hooks: {
+          preStart: ["bun run migrate", "bun run seed"],
+          postStart: ["bun run warmup"],
+          reload: ["/bin/kill -HUP $MAINPID"],
+          preStop: ["bun run deregister"],
+          postStop: ["bun run cleanup"],
+        },
+      })
+    );
+
+    const lines = unit.split("\n").filter((line) => line.startsWith("Exec"));
+    expect(lines).toEqual([
+      "ExecStartPre=bun run migrate",
+      "ExecStartPre=bun run seed",
+      "ExecStart=bun run start",
+      "ExecStartPost=bun run warmup",
+      "ExecReload=/bin/kill -HUP $MAINPID",
+      "ExecStop=bun run deregister",
+      "ExecStopPost=bun run cleanup",
+    ]);
+  });
+
+  test("omits hooks that are not set", () => {
+    const unit = generateUnitFile(createApp());
+    expect(unit).not.toContain("ExecStartPre");
+    expect(unit).not.toContain("ExecStop");
+  });
+});
+
+describe("buildHookScript", () => {
+  test("traps signals for reload and preStop", () => {
+    const script = buildHookScript(
+      createApp({ hooks: { reload: ["echo reload"], preStop: ["echo 'bye'"] } })
+    );
+
+    expect(script).toContain("trap 'echo reload' HUP");
+    expect(script).toContain(`trap 'echo '\\''bye'\\''; kill -TERM "$MAINPID" 2>/dev/null' TERM INT`);
+  });
+
+  test("runs preStart in order, then the command, then postStop", async () => {
+    const script = buildHookScript(
+      createApp({
+        command: "echo main",
+        hooks: { preStart: ["echo first", "echo second"], postStop: ["echo done"] },
+      })
+    );
+
+    const { stdout, exitCode } = await runScript(script);
+    expect(stdout.trim().split("\n")).toEqual(["first", "second", "main", "done"]);
+    expect(exitCode).toBe(0);
+  });
+
+  test("a failing preStart blocks the main command", async () => {
+    const script = buildHookScript(
+      createApp({ command: "echo main", hooks: { preStart: ["exit 3", "echo never"] } })
+    );
+
+    const { stdout, exitCode } = await runScript(script);
+    expect(stdout).toBe("");
+    expect(exitCode).toBe(3);
+  });
+
+  test("exits with the status of the main command", async () => {
+    const script = buildHookScript(
+      createApp({ command: "sh -c 'exit 5'", hooks: { postStop: ["echo done"] } })
+    );
+
+    const { stdout, exitCode } = await runScript(script);
+    expect(stdout.trim()).toBe("done");
+    expect(exitCode).toBe(5);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, test, expect } from "bun:test";
+import * as bunman from "../../src/index";
+import { defineConfig, getAppStatuses, getAppStatus, ServiceNotFoundError } from "../../src/index";
+import type { ServiceManager, ServiceStatus } from "../../src/index";
+
+describe("library entry", () => {
+  test("exposes the programmatic API", () => {
+    for (const name of [
+      "defineConfig",
+      "loadConfig",
+      "normalizeConfig",
+      "validateConfig",
+      "getServiceManager",
+      "executeBatch",
+      "getAppStatus",
+      "getAppStatuses",
+      "ConfigError",
+    ]) {
+      expect(bunman).toHaveProperty(name);
+    }
+  });
+
+  test("defineConfig returns the config unchanged", () => {
+    const config = { apps: { api: { cwd: ".", command: "bun run start" } } };
+    expect(defineConfig(config)).toBe(config);
+  });
+});
+
+describe("getAppStatuses", () => {
+  const config = bunman.normalizeConfig(
+    { apps: { api: { cwd: ".", command: "a" }, worker: { cwd: ".", command: "w" } } },
+    "/srv/bunman.config.ts",
+    "/srv"
+  );
+
+  const manager = {
+    getStatus: async (serviceName: string): Promise<ServiceStatus> => ({
+      name: serviceName,
+      state: "active",
+    }),
+    getAllStatuses: async (serviceNames: string[]): Promise<ServiceStatus[]> =>
+      serviceNames.map((name) => ({ name, state: "inactive" })),
+  } as unknown as ServiceManager;
+
+  test("reports statuses under config names", async () => {
+    const statuses = await getAppStatuses(config, undefined, manager);
+    expect(statuses.map((s) => s.name)).toEqual(["api", "worker"]);
+
+    const status = await getAppStatus(config, "worker", manager);
+    expect(status).toEqual({ name: "worker", state: "active" });
+  });
+
+  test("rejects unknown apps", async () => {
+    await expect(getAppStatuses(config, ["nope"], manager)).rejects.toThrow(ServiceNotFoundError);
+    await expect(getAppStatus(config, "nope", manager)).rejects.toThrow(ServiceNotFoundError);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, test, expect, mock } from "bun:test";
+import {
+  expandInstances,
+  getInstanceApp,
+  getInstancePort,
+  getInstanceServiceName,
+  parseInstanceName,
+} from "../../src/core/instances";
+import { generateUnitFile } from "../../src/core/systemd/generator";
+import type { ServiceManager } from "../../src/types/backend";
+import type { NormalizedAppConfig } from "../../src/types/config";
+import { createApp } from "./fixtures";
+
+function createServiceManager(running: number[]): ServiceManager {
+  return {
+    listInstances: mock(() => Promise.resolve(running)),
+  } as unknown as ServiceManager;
+}
+
+describe("instance names", () => {
+  test("round-trips instance service names", () => {
+    expect(getInstanceServiceName("bunman-api", 3)).toBe("bunman-api@3");
+    expect(parseInstanceName("bunman-api@3")).toEqual({
+      serviceName: "bunman-api",
+      instance: 3,
+    });
+    expect(parseInstanceName("bunman-api")).toEqual({ serviceName: "bunman-api" });
+  });
+
+  test("builds per-instance apps with their port", () => {
+    const [name, app] = getInstanceApp("api", createApp({ instances: 4, portBase: 3000 }), 2);
+
+    expect(name).toBe("api@2");
+    expect(app.serviceName).toBe("bunman-api@2");
+    expect(app.instance).toBe(2);
+    expect(getInstancePort(app)).toBe(3001);
+    expect(getInstancePort(createApp({ instance: 2 }))).toBeUndefined();
+  });
+});
+
+describe("expandInstances", () => {
+  test("expands clustered apps and keeps single services", async () => {
+    const apps: Array<[string, NormalizedAppConfig]> = [
+      ["api", createApp({ instances: 2 })],
+      ["worker", createApp({ serviceName: "bunman-worker" })],
+    ];
+
+    const expanded = await expandInstances(apps, createServiceManager([]));
+    expect(expanded.map(([name, app]) => [name, app.serviceName])).toEqual([
+      ["api@1", "bunman-api@1"],
+      ["api@2", "bunman-api@2"],
+      ["worker", "bunman-worker"],
+    ]);
+  });
+
+  test("includes instances added by scaling", async () => {
+    const expanded = await expandInstances(
+      [["api", createApp({ instances: 2 })]],
+      createServiceManager([1, 2, 3])
+    );
+    expect(expanded.map(([name]) => name)).toEqual(["api@1", "api@2", "api@3"]);
+  });
+
+  test("keeps to the count after scaling down", async () => {
+    const expanded = await expandInstances(
+      [["api", createApp({ instances: 3 })]],
+      createServiceManager([1])
+    );
+    expect(expanded.map(([name]) => name)).toEqual(["api@1"]);
+  });
+});
+
+describe("generateUnitFile for clustered apps", () => {
+  test("writes a template using the instance number", () => {
+    const unit = generateUnitFile(createApp({ instances: 4 }));
+
+    expect(unit).toContain("Description=bunman service: api (instance %i)");
+    expect(unit).toContain('Environment=BUNMAN_INSTANCE="%i"');
+    expect(unit).toContain("ExecStart=bun run start\n");
+  });
+
+  test("derives PORT from portBase", () => {
+    const unit = generateUnitFile(
+      createApp({ instances: 4, portBase: 3000, command: 'bun run "start"' })
+    );
+
+    expect(unit).toContain(
+      'ExecStart=/bin/sh -c "export PORT=$$((3000 + %i - 1)); exec bun run \\"start\\""'
+    );
+  });
+
+  test("leaves single services unchanged", () => {
+    const unit = generateUnitFile(createApp({ portBase: 3000 }));
+
+    expect(unit).toContain("Description=bunman service: api\n");
+    expect(unit).not.toContain("%i");
+  });
+});
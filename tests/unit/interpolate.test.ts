@@ -0,0 +1,58 @@
+import { describe, test, expect } from "bun:test";
+import { interpolate, resolveVars } from "../../src/core/config/interpolate";
+import { ConfigError } from "../../src/utils/errors";
+
+const ctx = {
+  configDir: "/srv",
+  vars: { port: "3000", root: "/srv/apps" },
+  env: { HOME: "/home/deploy" },
+  appName: "api",
+};
+
+describe("interpolate", () => {
+  test("substitutes every placeholder kind", () => {
+    expect(interpolate("${vars.root}/${app.name}", ctx, "apps.api.cwd")).toBe("/srv/apps/api");
+    expect(interpolate("${env:HOME}/.cache", ctx, "apps.api.env.CACHE")).toBe("/home/deploy/.cache");
+    expect(interpolate("${configDir}/.env", ctx, "apps.api.envFile")).toBe("/srv/.env");
+    expect(interpolate("--port ${ vars.port }", ctx, "apps.api.command")).toBe("--port 3000");
+  });
+
+  test("leaves plain strings and escaped placeholders alone", () => {
+    expect(interpolate("bun run start", ctx, "apps.api.command")).toBe("bun run start");
+    expect(interpolate("echo $${HOME} $HOME", ctx, "apps.api.command")).toBe("echo ${HOME} $HOME");
+  });
+
+  test("leaves shell and systemd variables alone", () => {
+    expect(interpolate("bun run server.ts --port ${PORT}", ctx, "apps.api.command")).toBe(
+      "bun run server.ts --port ${PORT}"
+    );
+    expect(interpolate("kill -HUP ${MAINPID}", ctx, "apps.api.hooks.reload")).toBe(
+      "kill -HUP ${MAINPID}"
+    );
+  });
+
+  test("names the field of an unresolved reference", () => {
+    expect(() => interpolate("${vars.prot}", ctx, "apps.api.env.PORT")).toThrow(
+      "Unresolved reference ${vars.prot} in apps.api.env.PORT"
+    );
+    expect(() => interpolate("${env:MISSING}", ctx, "apps.api.cwd")).toThrow(ConfigError);
+    expect(() => interpolate("${app.port}", ctx, "apps.api.cwd")).toThrow(
+      "Unresolved reference ${app.port} in apps.api.cwd"
+    );
+  });
+});
+
+describe("resolveVars", () => {
+  test("allows env and configDir references", () => {
+    expect(
+      resolveVars({ root: "${configDir}/apps", home: "${env:HOME}" }, "/srv", { HOME: "/root" })
+    ).toEqual({ root: "/srv/apps", home: "/root" });
+  });
+
+  test("rejects references to other vars or the app", () => {
+    expect(() => resolveVars({ a: "x", b: "${vars.a}" }, "/srv", {})).toThrow(
+      "Cannot use ${vars.a} in vars.b"
+    );
+    expect(() => resolveVars({ a: "${app.name}" }, "/srv", {})).toThrow(ConfigError);
+  });
+});
@@ -0,0 +1,389 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir, hostname } from "os";
+import { join } from "path";
+import { normalizeConfig, loadConfig } from "../../src/core/config/loader";
+import { ConfigError } from "../../src/utils/errors";
+import type { BunmanConfig } from "../../src/types/config";
+
+const config: BunmanConfig = {
+  apps: {
+    api: { cwd: "apps/api", command: "bun run start", env: { PORT: "3000" } },
+    worker: { cwd: "apps/worker", command: "bun run worker" },
+  },
+  defaults: { restartSec: 3, user: "app" },
+  environments: {
+    production: {
+      defaults: { user: "www-data", restartSec: 10 },
+      apps: { api: { env: { PORT: "80" }, limits: { memory: 512 } } },
+    },
+    staging: {},
+  },
+};
+
+describe("normalizeConfig", () => {
+  test("resolves paths relative to the config directory", () => {
+    const result = normalizeConfig(config, "/srv/bunman.config.ts", "/srv");
+    expect(result.apps["api"]!.cwd).toBe("/srv/apps/api");
+    expect(result.apps["api"]!.serviceName).toBe("bunman-api");
+  });
+
+  test("defaults to no hardening and resolves readWritePaths", () => {
+    const result = normalizeConfig(
+      {
+        apps: {
+          api: { cwd: "apps/api", command: "bun run start" },
+          worker: {
+            cwd: "apps/worker",
+            command: "bun run worker",
+            hardening: "strict",
+            security: { readWritePaths: ["data"] },
+          },
+        },
+      },
+      "/srv/bunman.config.ts",
+      "/srv"
+    );
+    expect(result.apps["api"]!.hardening).toBe("none");
+    expect(result.apps["worker"]!.security.readWritePaths).toEqual(["/srv/data"]);
+  });
+
+  test("resolves local deploy sources and keeps remote ones", () => {
+    const result = normalizeConfig(
+      {
+        apps: {
+          api: { cwd: "api/current", command: "bun run start", deploy: { source: "../api.git" } },
+          web: {
+            cwd: "web/current",
+            command: "bun run start",
+            deploy: { source: "git@github.com:me/web.git" },
+          },
+        },
+      },
+      "/srv/bunman.config.ts",
+      "/srv"
+    );
+    expect(result.apps["api"]!.deploy?.source).toBe("/api.git");
+    expect(result.apps["web"]!.deploy?.source).toBe("git@github.com:me/web.git");
+  });
+
+  test("defaults logs to the journal and resolves the log path", () => {
+    const result = normalizeConfig(
+      {
+        defaults: { logs: { maxSize: 10 } },
+        apps: {
+          api: { cwd: "apps/api", command: "bun run start" },
+          worker: {
+            cwd: "apps/worker",
+            command: "bun run worker",
+            logs: { target: "file", path: "logs/${app.name}.log", keep: 2 },
+          },
+        },
+      },
+      "/srv/bunman.config.ts",
+      "/srv"
+    );
+    expect(result.apps["api"]!.logs).toEqual({
+      target: "journal",
+      path: undefined,
+      maxSize: 10,
+      keep: 5,
+    });
+    expect(result.apps["worker"]!.logs).toEqual({
+      target: "file",
+      path: "/srv/logs/worker.log",
+      maxSize: 10,
+      keep: 2,
+    });
+  });
+
+  test("turns raw systemd directives into lists of strings", () => {
+    const result = normalizeConfig(
+      {
+        apps: {
+          api: {
+            cwd: "apps/api",
+            command: "bun run start",
+            systemd: {
+              service: { Nice: 5, SyslogIdentifier: "${app.name}", Environment: ["A=1", "B=2"] },
+            },
+          },
+        },
+      },
+      "/srv/bunman.config.ts",
+      "/srv"
+    );
+    expect(result.apps["api"]!.systemd).toEqual({
+      service: { Nice: ["5"], SyslogIdentifier: ["api"], Environment: ["A=1", "B=2"] },
+    });
+  });
+
+  test("applies no profile by default", () => {
+    const result = normalizeConfig(config, "/srv/bunman.config.ts", "/srv");
+    expect(result.environment).toBeUndefined();
+    expect(result.apps["api"]!.user).toBe("app");
+    expect(result.apps["api"]!.env).toEqual({ PORT: "3000" });
+  });
+
+  test("layers environment defaults and app overrides", () => {
+    const result = normalizeConfig(
+      config,
+      "/srv/bunman.config.ts",
+      "/srv",
+      "production"
+    );
+    expect(result.environment).toBe("production");
+    expect(result.apps["api"]!.user).toBe("www-data");
+    expect(result.apps["api"]!.restartSec).toBe(10);
+    expect(result.apps["api"]!.env).toEqual({ PORT: "80" });
+    expect(result.apps["api"]!.limits).toEqual({ memory: 512 });
+    expect(result.apps["worker"]!.user).toBe("www-data");
+  });
+
+  test("records the origin of each value", () => {
+    const result = normalizeConfig(
+      config,
+      "/srv/bunman.config.ts",
+      "/srv",
+      "production"
+    );
+    expect(result.origins["api"]!["cwd"]).toBe("app");
+    expect(result.origins["api"]!["restart"]).toBe("builtin");
+    expect(result.origins["api"]!["env.PORT"]).toBe("environments.production.apps.api");
+    expect(result.origins["worker"]!["user"]).toBe("environments.production.defaults");
+  });
+
+  test("accepts an empty profile", () => {
+    const result = normalizeConfig(config, "/srv/bunman.config.ts", "/srv", "staging");
+    expect(result.environment).toBe("staging");
+    expect(result.apps["api"]!.user).toBe("app");
+  });
+
+  test("throws ConfigError for unknown environments", () => {
+    expect(() =>
+      normalizeConfig(config, "/srv/bunman.config.ts", "/srv", "qa")
+    ).toThrow(ConfigError);
+  });
+
+  test("resolves systemd settings", () => {
+    const result = normalizeConfig(
+      { ...config, systemd: { prefix: "myapp-", userMode: false, unitPath: "units" } },
+      "/srv/bunman.config.ts",
+      "/srv"
+    );
+    expect(result.systemd).toEqual({
+      prefix: "myapp-",
+      userMode: false,
+      unitPath: "/srv/units",
+    });
+    expect(result.apps["worker"]!.serviceName).toBe("myapp-worker");
+  });
+
+  test("defaults to user mode", () => {
+    const result = normalizeConfig(config, "/srv/bunman.config.ts", "/srv");
+    expect(result.systemd.userMode).toBe(true);
+  });
+});
+
+describe("normalizeConfig placeholders", () => {
+  test("substitutes placeholders before resolving paths", () => {
+    const result = normalizeConfig(
+      {
+        vars: { port: "3000", apps: "${configDir}/apps" },
+        apps: {
+          api: {
+            cwd: "${vars.apps}/${app.name}",
+            command: "bun run start --port ${vars.port}",
+            env: { PORT: "${vars.port}" },
+            envFile: "env/${app.name}.env",
+          },
+        },
+      },
+      "/srv/bunman.config.ts",
+      "/srv"
+    );
+
+    const api = result.apps["api"]!;
+    expect(api.cwd).toBe("/srv/apps/api");
+    expect(api.command).toBe("bun run start --port 3000");
+    expect(api.env).toEqual({ PORT: "3000" });
+    expect(api.envFile).toBe("/srv/env/api.env");
+  });
+
+  test("keeps shell and systemd variables in commands and hooks", () => {
+    const result = normalizeConfig(
+      {
+        apps: {
+          api: {
+            cwd: ".",
+            command: "bun run server.ts --port ${PORT}",
+            instances: 2,
+            portBase: 3000,
+            hooks: { reload: "kill -HUP ${MAINPID}" },
+          },
+        },
+      },
+      "/srv/bunman.config.ts",
+      "/srv"
+    );
+
+    const api = result.apps["api"]!;
+    expect(api.command).toBe("bun run server.ts --port ${PORT}");
+    expect(api.hooks.reload).toEqual(["kill -HUP ${MAINPID}"]);
+  });
+
+  test("reports the field of an unresolved reference", () => {
+    const normalize = () =>
+      normalizeConfig(
+        { apps: { api: { cwd: ".", command: "x", env: { PORT: "${vars.port}" } } } },
+        "/srv/bunman.config.ts",
+        "/srv"
+      );
+    expect(normalize).toThrow(ConfigError);
+    expect(normalize).toThrow("Unresolved reference ${vars.port} in apps.api.env.PORT");
+  });
+});
+
+describe("loadConfig with a function config", () => {
+  let dir: string;
+  let count = 0;
+
+  // Each config lives in its own directory so module caching doesn't interfere
+  const writeConfig = async (source: string): Promise<string> => {
+    const configDir = join(dir, `case-${count++}`);
+    await Bun.write(join(configDir, "bunman.config.ts"), source);
+    return configDir;
+  };
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "bunman-loader-"));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("calls an async function with the runtime context", async () => {
+    const configDir = await writeConfig(`
+      export default async (ctx) => ({
+        apps: {
+          api: {
+            cwd: ".",
+            command: "bun run start",
+            env: {
+              PLATFORM: ctx.platform,
+              HOST: ctx.hostname,
+              ENV: ctx.environment ?? "none",
+              DIR: ctx.configDir,
+              HOME_SET: String(ctx.env.HOME !== undefined),
+            },
+          },
+          ...(ctx.platform === "darwin" ? { mac: { cwd: ".", command: "bun mac" } } : {}),
+        },
+        environments: { production: {} },
+      });
+    `);
+
+    const result = await loadConfig(configDir, { environment: "production" });
+    const env = result.apps["api"]!.env;
+    expect(env["PLATFORM"]).toBe(process.platform);
+    expect(env["HOST"]).toBe(hostname());
+    expect(env["ENV"]).toBe("production");
+    expect(env["DIR"]).toBe(configDir);
+    expect(env["HOME_SET"]).toBe(String(process.env["HOME"] !== undefined));
+    expect(Object.keys(result.apps)).toEqual(
+      process.platform === "darwin" ? ["api", "mac"] : ["api"]
+    );
+  });
+
+  test("validates the returned config", async () => {
+    const configDir = await writeConfig(
+      `export default () => ({ apps: { api: { cwd: "." } } });`
+    );
+    await expect(loadConfig(configDir)).rejects.toThrow(/Invalid config/);
+  });
+
+  test("wraps errors thrown by the function", async () => {
+    const configDir = await writeConfig(
+      `export default () => { throw new Error("no secrets file"); };`
+    );
+    await expect(loadConfig(configDir)).rejects.toThrow(
+      "Config function failed: no secrets file"
+    );
+  });
+});
+
+describe("loadConfig with extends and include", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "bunman-compose-"));
+    await Bun.write(
+      join(dir, "bunman.config.ts"),
+      `export default {
+        extends: "shared/base.config.ts",
+        include: ["apps/*/bunman.*"],
+        apps: { root: { cwd: ".", command: "bun run root" } },
+      };`
+    );
+    await Bun.write(
+      join(dir, "shared/base.config.ts"),
+      `export default { defaults: { envFile: "../.env" }, systemd: { prefix: "repo-" } };`
+    );
+    await Bun.write(
+      join(dir, "apps/api/bunman.config.ts"),
+      `export default { apps: { api: { cwd: "src", command: "bun run api" } } };`
+    );
+    await Bun.write(
+      join(dir, "apps/web/bunman.yaml"),
+      "apps:\n  web:\n    cwd: .\n    command: bun run web\n"
+    );
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("merges apps and resolves paths relative to their file", async () => {
+    const result = await loadConfig(dir);
+
+    expect(Object.keys(result.apps).sort()).toEqual(["api", "root", "web"]);
+    expect(result.apps["api"]!.cwd).toBe(join(dir, "apps/api/src"));
+    expect(result.apps["web"]!.cwd).toBe(join(dir, "apps/web"));
+    expect(result.apps["root"]!.cwd).toBe(dir);
+    expect(result.apps["web"]!.envFile).toBe(join(dir, ".env"));
+    expect(result.apps["web"]!.serviceName).toBe("repo-web");
+  });
+
+  test("reports the file of each validation issue", async () => {
+    const broken = join(dir, "broken");
+    await Bun.write(
+      join(broken, "bunman.config.ts"),
+      `export default { include: ["bad.yaml"], apps: {} };`
+    );
+    await Bun.write(join(broken, "bad.yaml"), "apps:\n  bad:\n    cwd: 5\n    command: x\n");
+
+    await expect(loadConfig(broken)).rejects.toMatchObject({
+      issues: [expect.objectContaining({ path: "apps.bad.cwd", file: "bad.yaml", line: 3 })],
+    });
+  });
+
+  test("detects duplicate apps and cycles", async () => {
+    const duplicate = join(dir, "duplicate");
+    await Bun.write(
+      join(duplicate, "bunman.config.ts"),
+      `export default { include: ["other.yaml"], apps: { api: { cwd: ".", command: "a" } } };`
+    );
+    await Bun.write(join(duplicate, "other.yaml"), "apps:\n  api:\n    cwd: .\n    command: b\n");
+    await expect(loadConfig(duplicate)).rejects.toThrow(
+      "Duplicate app 'api' defined in other.yaml and bunman.config.ts"
+    );
+
+    const cycle = join(dir, "cycle");
+    await Bun.write(join(cycle, "bunman.config.ts"), `export default { extends: "base.ts", apps: {} };`);
+    await Bun.write(join(cycle, "base.ts"), `export default { extends: "bunman.config.ts" };`);
+    await expect(loadConfig(cycle)).rejects.toThrow(
+      "Circular config reference: bunman.config.ts -> base.ts -> bunman.config.ts"
+    );
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  getErrorLogFile,
+  getLogFile,
+  getTailArgs,
+  rotateLogFile,
+  usesLogFiles,
+} from "../../src/core/logs";
+import { generateUnitFile } from "../../src/core/systemd/generator";
+import { getSecuritySettings } from "../../src/core/systemd/hardening";
+import { DEFAULT_LOG_DIR } from "../../src/constants";
+import { createApp } from "./fixtures";
+
+describe("usesLogFiles", () => {
+  test("uses files on macOS and for file targets", () => {
+    expect(usesLogFiles(createApp(), "darwin")).toBe(true);
+    expect(usesLogFiles(createApp(), "linux")).toBe(false);
+    expect(usesLogFiles(createApp({ logs: { target: "file", keep: 5 } }), "linux")).toBe(true);
+  });
+});
+
+describe("getLogFile", () => {
+  test("defaults to the bunman log directory", () => {
+    expect(getLogFile(createApp())).toBe(join(DEFAULT_LOG_DIR, "bunman-api.log"));
+  });
+
+  test("names instance logs after the app's service", () => {
+    const app = createApp({ serviceName: "bunman-api@2", instance: 2 });
+    expect(getLogFile(app)).toBe(join(DEFAULT_LOG_DIR, "bunman-api@2.log"));
+    expect(getLogFile(app, "%i")).toBe(join(DEFAULT_LOG_DIR, "bunman-api@%i.log"));
+  });
+
+  test("inserts the instance before the extension of a custom path", () => {
+    const app = createApp({ logs: { target: "file", path: "/var/log/api.log", keep: 5 } });
+    expect(getLogFile(app)).toBe("/var/log/api.log");
+    expect(getLogFile(app, 3)).toBe("/var/log/api@3.log");
+  });
+
+  test("places error logs next to the log file", () => {
+    expect(getErrorLogFile("/var/log/api.log")).toBe("/var/log/api.error.log");
+    expect(getErrorLogFile("/var/log/api")).toBe("/var/log/api.error.log");
+  });
+});
+
+describe("getTailArgs", () => {
+  test("follows across rotations", () => {
+    expect(getTailArgs({ follow: true, lines: 20 })).toEqual(["-F", "-n", "20"]);
+    expect(getTailArgs({})).toEqual([]);
+  });
+});
+
+describe("rotateLogFile", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "bunman-logs-"));
+    file = join(dir, "api.log");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("skips files within maxSize", async () => {
+    await writeFile(file, "hello\n");
+
+    expect(await rotateLogFile(file, { maxSize: 100, keep: 2 })).toBe(false);
+    expect(await rotateLogFile(file, { keep: 2 })).toBe(false);
+    expect(existsSync(`${file}.1`)).toBe(false);
+  });
+
+  test("copies and truncates files over maxSize", async () => {
+    await writeFile(file, "x".repeat(20));
+
+    expect(await rotateLogFile(file, { maxSize: 10, keep: 2 })).toBe(true);
+    expect(await readFile(file, "utf-8")).toBe("");
+    expect(await readFile(`${file}.1`, "utf-8")).toBe("x".repeat(20));
+  });
+
+  test("shifts older copies and drops those beyond keep", async () => {
+    for (const content of ["first", "second", "third"]) {
+      await writeFile(file, content);
+      await rotateLogFile(file, { keep: 2, force: true });
+    }
+
+    expect(await readFile(`${file}.1`, "utf-8")).toBe("third");
+    expect(await readFile(`${file}.2`, "utf-8")).toBe("second");
+    expect(existsSync(`${file}.3`)).toBe(false);
+  });
+
+  test("ignores missing and empty files", async () => {
+    expect(await rotateLogFile(file, { keep: 2, force: true })).toBe(false);
+
+    await writeFile(file, "");
+    expect(await rotateLogFile(file, { keep: 2, force: true })).toBe(false);
+  });
+});
+
+describe("generator log output", () => {
+  test("logs to the journal by default", () => {
+    const unit = generateUnitFile(createApp());
+
+    expect(unit).toContain("StandardOutput=journal");
+    expect(unit).toContain("StandardError=journal");
+  });
+
+  test("appends stdout and stderr to the log file", () => {
+    const unit = generateUnitFile(
+      createApp({ logs: { target: "file", path: "/var/log/api.log", keep: 5 } })
+    );
+
+    expect(unit).toContain("StandardOutput=append:/var/log/api.log");
+    expect(unit).toContain("StandardError=append:/var/log/api.log");
+  });
+
+  test("gives each instance of a template its own file", () => {
+    const unit = generateUnitFile(
+      createApp({ instances: 2, logs: { target: "file", path: "/var/log/api.log", keep: 5 } })
+    );
+
+    expect(unit).toContain("StandardOutput=append:/var/log/api@%i.log");
+  });
+
+  test("keeps the log directory writable under strict hardening", () => {
+    const settings = getSecuritySettings(
+      createApp({ hardening: "strict", logs: { target: "file", path: "/var/log/api/out.log", keep: 5 } })
+    );
+
+    expect(settings.readWritePaths).toEqual(["/srv/api", "/var/log/api"]);
+  });
+});
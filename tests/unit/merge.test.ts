@@ -0,0 +1,133 @@
+import { describe, test, expect } from "bun:test";
+import { mergeAppLayers } from "../../src/core/config/merge";
+import type { AppConfig } from "../../src/types/config";
+
+const builtin: Partial<AppConfig> = {
+  restart: "always",
+  restartSec: 3,
+  after: ["network.target"],
+  requires: [],
+  env: {},
+  limits: {},
+};
+
+describe("mergeAppLayers", () => {
+  test("later scalar layers win", () => {
+    const { app, origins } = mergeAppLayers(builtin, [
+      { name: "defaults", config: { restartSec: 5, user: "app" } },
+      { name: "app", config: { cwd: ".", command: "bun start", user: "www-data" } },
+    ]);
+
+    expect(app.restartSec).toBe(5);
+    expect(app.user).toBe("www-data");
+    expect(app.restart).toBe("always");
+    expect(origins["restartSec"]).toBe("defaults");
+    expect(origins["user"]).toBe("app");
+    expect(origins["restart"]).toBe("builtin");
+  });
+
+  test("merges env per key", () => {
+    const { app, origins } = mergeAppLayers(builtin, [
+      { name: "defaults", config: { env: { NODE_ENV: "production", LOG: "info" } } },
+      { name: "app", config: { env: { PORT: "3000", LOG: "debug" } } },
+    ]);
+
+    expect(app.env).toEqual({ NODE_ENV: "production", LOG: "debug", PORT: "3000" });
+    expect(origins["env.NODE_ENV"]).toBe("defaults");
+    expect(origins["env.LOG"]).toBe("app");
+  });
+
+  test("merges limits per field", () => {
+    const { app } = mergeAppLayers(builtin, [
+      { name: "defaults", config: { limits: { memory: 512, nofile: 1024 } } },
+      { name: "app", config: { limits: { cpu: 50, memory: 256 } } },
+    ]);
+
+    expect(app.limits).toEqual({ memory: 256, nofile: 1024, cpu: 50 });
+  });
+
+  test("concatenates and deduplicates after/requires", () => {
+    const { app, origins } = mergeAppLayers(builtin, [
+      { name: "defaults", config: { after: ["postgresql.service"] } },
+      { name: "app", config: { after: ["network.target", "redis.service"] } },
+    ]);
+
+    expect(app.after).toEqual([
+      "network.target",
+      "postgresql.service",
+      "redis.service",
+    ]);
+    expect(origins["after[0]"]).toBe("builtin");
+    expect(origins["after[2]"]).toBe("app");
+  });
+
+  test("merges hooks per hook", () => {
+    const { app, origins } = mergeAppLayers(builtin, [
+      { name: "defaults", config: { hooks: { preStart: "bun run migrate", postStop: "echo done" } } },
+      { name: "app", config: { hooks: { preStart: ["bun run seed"], postStop: null } } },
+    ]);
+
+    expect(app.hooks).toEqual({ preStart: ["bun run seed"] });
+    expect(origins["hooks.preStart"]).toBe("app");
+  });
+
+  test("merges raw systemd directives per directive", () => {
+    const { app, origins } = mergeAppLayers(builtin, [
+      { name: "defaults", config: { systemd: { service: { LimitCORE: "infinity", Nice: 5 } } } },
+      {
+        name: "app",
+        config: { systemd: { service: { Nice: null }, unit: { RequiresMountsFor: "/data" } } },
+      },
+    ]);
+
+    expect(app.systemd).toEqual({
+      service: { LimitCORE: "infinity" },
+      unit: { RequiresMountsFor: "/data" },
+    });
+    expect(origins["systemd.service.LimitCORE"]).toBe("defaults");
+    expect(origins["systemd.unit.RequiresMountsFor"]).toBe("app");
+  });
+
+  test("null removes single env vars and limit fields", () => {
+    const { app } = mergeAppLayers(builtin, [
+      { name: "defaults", config: { env: { DEBUG: "1", A: "a" }, limits: { memory: 512 } } },
+      { name: "app", config: { env: { DEBUG: null }, limits: { memory: null } } },
+    ]);
+
+    expect(app.env).toEqual({ A: "a" });
+    expect(app.limits).toEqual({});
+  });
+
+  test("null clears inherited lists and records", () => {
+    const { app } = mergeAppLayers(builtin, [
+      { name: "defaults", config: { env: { A: "a" } } },
+      { name: "app", config: { env: null, after: null, requires: ["db.service"] } },
+    ]);
+
+    expect(app.env).toEqual({});
+    expect(app.after).toEqual([]);
+    expect(app.requires).toEqual(["db.service"]);
+  });
+
+  test("null scalars fall back to the builtin default or unset", () => {
+    const { app, origins } = mergeAppLayers(builtin, [
+      { name: "defaults", config: { restartSec: 10, user: "www-data" } },
+      { name: "app", config: { restartSec: null, user: null } },
+    ]);
+
+    expect(app.restartSec).toBe(3);
+    expect(origins["restartSec"]).toBe("builtin");
+    expect(app.user).toBeUndefined();
+    expect(origins["user"]).toBeUndefined();
+  });
+
+  test("skips missing layers", () => {
+    const { app } = mergeAppLayers(builtin, [
+      { name: "defaults", config: undefined },
+      { name: "app", config: { cwd: ".", command: "bun start" } },
+    ]);
+
+    expect(app.cwd).toBe(".");
+    expect(app.after).toEqual(["network.target"]);
+  });
+});
@@ -4,6 +4,7 @@ import {
   getStringOption,
   getNumberOption,
   getBooleanOption,
+  getBatchOptions,
 } from "../../src/cli/parser";
 import { CommandError } from "../../src/utils/errors";
 
@@ -91,10 +92,21 @@ describe("parseArgs", () => {
     expect(result.options["dry-run"]).toBe(true);
   });
 
+  test("scope flags do not consume the next positional arg", () => {
+    const result = parseArgs(["start", "--user", "api"]);
+    expect(result.args).toEqual(["api"]);
+    expect(result.options["user"]).toBe(true);
+
+    const system = parseArgs(["restart", "--system", "api", "worker"]);
+    expect(system.args).toEqual(["api", "worker"]);
+    expect(system.options["system"]).toBe(true);
+  });
+
   test("parses all valid commands", () => {
     const commands = [
-      "init", "start", "stop", "restart", "logs",
-      "status", "remove", "doctor", "help", "version",
+      "init", "start", "stop", "restart", "reload", "deploy", "rollback", "logs",
+      "status", "remove", "doctor", "config", "secrets", "scale", "jobs", "audit", "reset",
+      "dev", "run-all", "help", "version",
       "startall", "stopall", "restartall"
     ];
 
@@ -248,3 +260,33 @@ describe("getBooleanOption", () => {
     expect(getBooleanOption(options, "force", "f")).toBe(true);
   });
 });
+
+describe("getBatchOptions", () => {
+  test("defaults to one service at a time, continuing on errors", () => {
+    expect(getBatchOptions({})).toEqual({ parallel: 1, failFast: false });
+  });
+
+  test("falls back to the config's batch settings", () => {
+    expect(getBatchOptions({}, { parallel: 4, failFast: true })).toEqual({
+      parallel: 4,
+      failFast: true,
+    });
+  });
+
+  test("lets flags override the config", () => {
+    const { options } = parseArgs(["restart", "--parallel", "8", "--continue-on-error", "api"]);
+    expect(options["continue-on-error"]).toBe(true);
+    expect(getBatchOptions(options, { parallel: 4, failFast: true })).toEqual({
+      parallel: 8,
+      failFast: false,
+    });
+    expect(getBatchOptions({ "fail-fast": true })).toEqual({ parallel: 1, failFast: true });
+  });
+
+  test("rejects invalid combinations", () => {
+    expect(() => getBatchOptions({ parallel: "0" })).toThrow(CommandError);
+    expect(() => getBatchOptions({ "fail-fast": true, "continue-on-error": true })).toThrow(
+      CommandError
+    );
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, test, expect } from "bun:test";
+import { parseSelection } from "../../src/utils/prompt";
+import { CommandError } from "../../src/utils/errors";
+
+describe("parseSelection", () => {
+  test("selects everything for all, * or an empty answer", () => {
+    expect(parseSelection("all", 3)).toEqual([0, 1, 2]);
+    expect(parseSelection("*", 2)).toEqual([0, 1]);
+    expect(parseSelection("  ", 2)).toEqual([0, 1]);
+  });
+
+  test("selects nothing for none", () => {
+    expect(parseSelection("none", 3)).toEqual([]);
+  });
+
+  test("parses numbers and ranges", () => {
+    expect(parseSelection("3, 1", 4)).toEqual([0, 2]);
+    expect(parseSelection("2-4 1 2", 4)).toEqual([0, 1, 2, 3]);
+  });
+
+  test("rejects numbers outside the list", () => {
+    expect(() => parseSelection("0", 3)).toThrow(CommandError);
+    expect(() => parseSelection("4", 3)).toThrow(CommandError);
+    expect(() => parseSelection("3-1", 3)).toThrow(CommandError);
+    expect(() => parseSelection("api", 3)).toThrow("Invalid selection: api");
+  });
+});
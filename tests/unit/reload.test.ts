@@ -0,0 +1,174 @@
+import { describe, test, expect, mock, afterEach } from "bun:test";
+import type { Server } from "bun";
+import { getHealthCheckTarget, rollingReload, waitForHealthy } from "../../src/core/reload";
+import { BunmanError } from "../../src/utils/errors";
+import type { ServiceManager } from "../../src/types/backend";
+import { createApp } from "./fixtures";
+import type { ServiceStatus } from "../../src/types/service";
+
+// Create a mock service manager
+function createMockServiceManager(overrides?: Partial<ServiceManager>): ServiceManager {
+  return {
+    init: mock(() => Promise.resolve()),
+    start: mock(() => Promise.resolve()),
+    stop: mock(() => Promise.resolve()),
+    restart: mock(() => Promise.resolve()),
+    getStatus: mock((name: string) =>
+      Promise.resolve({ name, state: "active" } as ServiceStatus)
+    ),
+    getAllStatuses: mock(() => Promise.resolve([])),
+    listInstances: mock(() => Promise.resolve([])),
+    getJobRuns: mock(() => Promise.resolve({})),
+    runJob: mock(() => Promise.resolve()),
+    resetFailed: mock(() => Promise.resolve()),
+    isActive: mock(() => Promise.resolve(true)),
+    logs: mock(() => Promise.resolve()),
+    generateConfig: mock(() => ""),
+    install: mock(() => Promise.resolve()),
+    readConfig: mock((name: string) => Promise.resolve(`old unit of ${name}`)),
+    restoreConfig: mock(() => Promise.resolve()),
+    remove: mock(() => Promise.resolve()),
+    reload: mock(() => Promise.resolve()),
+    enable: mock(() => Promise.resolve()),
+    disable: mock(() => Promise.resolve()),
+    isAvailable: mock(() => Promise.resolve(true)),
+    getName: () => "mock",
+    ...overrides,
+  };
+}
+
+describe("getHealthCheckTarget", () => {
+  test("probes a path on the instance's port", () => {
+    const app = createApp({ portBase: 3000, instance: 2, healthCheck: { http: "/health" } });
+
+    expect(getHealthCheckTarget(app)).toEqual({
+      type: "http",
+      url: "http://127.0.0.1:3001/health",
+    });
+  });
+
+  test("uses a full URL as given", () => {
+    const app = createApp({ healthCheck: { http: "http://localhost:8080/ready" } });
+
+    expect(getHealthCheckTarget(app)).toEqual({ type: "http", url: "http://localhost:8080/ready" });
+  });
+
+  test("falls back to a TCP check on env.PORT", () => {
+    expect(getHealthCheckTarget(createApp({ env: { PORT: "4000" } }))).toEqual({
+      type: "tcp",
+      port: 4000,
+    });
+    expect(getHealthCheckTarget(createApp())).toBeUndefined();
+  });
+
+  test("rejects a path without a port", () => {
+    expect(() => getHealthCheckTarget(createApp({ healthCheck: { http: "/health" } }))).toThrow(
+      BunmanError
+    );
+  });
+});
+
+describe("waitForHealthy", () => {
+  let server: Server<undefined> | undefined;
+
+  afterEach(() => {
+    server?.stop(true);
+    server = undefined;
+  });
+
+  test("waits for the health check to answer with a 2xx status", async () => {
+    let ready = false;
+    server = Bun.serve({
+      port: 0,
+      fetch: () => new Response(null, { status: ready ? 200 : 503 }),
+    });
+    setTimeout(() => (ready = true), 50);
+
+    const app = createApp({ healthCheck: { http: "/health", port: server.port } });
+    await waitForHealthy(app, createMockServiceManager(), { pollInterval: 10 });
+    expect(ready).toBe(true);
+  });
+
+  test("gives up after the health check timeout", async () => {
+    server = Bun.serve({ port: 0, fetch: () => new Response(null, { status: 503 }) });
+
+    const app = createApp({ healthCheck: { http: "/health", port: server.port, timeout: 0.1 } });
+    await expect(
+      waitForHealthy(app, createMockServiceManager(), { pollInterval: 10 })
+    ).rejects.toThrow("was not healthy within 0.1s");
+  });
+
+  test("fails right away when the service fails", async () => {
+    const serviceManager = createMockServiceManager({
+      getStatus: mock((name: string) => Promise.resolve({ name, state: "failed" } as ServiceStatus)),
+    });
+
+    await expect(waitForHealthy(createApp(), serviceManager)).rejects.toThrow(
+      "failed after restarting"
+    );
+  });
+});
+
+describe("rollingReload", () => {
+  const app = createApp({ instances: 3 });
+
+  test("restarts instances one at a time", async () => {
+    const calls: string[] = [];
+    const serviceManager = createMockServiceManager({
+      readConfig: mock((name: string) => {
+        calls.push(`read ${name}`);
+        return Promise.resolve("unit");
+      }),
+      restart: mock((name: string) => {
+        calls.push(`restart ${name}`);
+        return Promise.resolve();
+      }),
+    });
+
+    const summary = await rollingReload("api", app, serviceManager, { pollInterval: 10 });
+
+    expect(summary.succeeded).toBe(3);
+    expect(summary.failed).toBe(0);
+    expect(calls).toEqual([
+      "read bunman-api@1",
+      "read bunman-api@2",
+      "read bunman-api@3",
+      "restart bunman-api@1",
+      "restart bunman-api@2",
+      "restart bunman-api@3",
+    ]);
+    expect(serviceManager.restoreConfig).not.toHaveBeenCalled();
+  });
+
+  test("rolls back reloaded instances when one is not healthy", async () => {
+    const serviceManager = createMockServiceManager({
+      getStatus: mock((name: string) =>
+        Promise.resolve({
+          name,
+          state: name === "bunman-api@2" ? "failed" : "active",
+        } as ServiceStatus)
+      ),
+    });
+
+    const summary = await rollingReload("api", app, serviceManager, { pollInterval: 10 });
+
+    expect(summary.succeeded).toBe(1);
+    expect(summary.failed).toBe(1);
+    expect(summary.cancelled).toBe(1);
+    expect(summary.results.map((result) => result.name)).toEqual(["api@1", "api@2", "api@3"]);
+
+    expect(serviceManager.restoreConfig).toHaveBeenCalledTimes(2);
+    expect(serviceManager.restoreConfig).toHaveBeenCalledWith(
+      "bunman-api@1",
+      "old unit of bunman-api@1"
+    );
+    expect(serviceManager.restoreConfig).toHaveBeenCalledWith(
+      "bunman-api@2",
+      "old unit of bunman-api@2"
+    );
+    expect(serviceManager.install).not.toHaveBeenCalledWith(
+      "bunman-api@3",
+      expect.anything()
+    );
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, test, expect } from "bun:test";
+import { generateUnitFile } from "../../src/core/systemd/generator";
+import { parseVersionOutput } from "../../src/core/systemd/controller";
+import { getThrottleInterval } from "../../src/core/backend/launchd";
+import { formatServiceDetail, formatStatusTable } from "../../src/utils/format";
+import { createApp } from "./fixtures";
+
+function section(unit: string, name: string): string[] {
+  const lines = unit.split("\n");
+  const start = lines.indexOf(`[${name}]`);
+  const end = lines.indexOf("", start);
+  return lines.slice(start + 1, end);
+}
+
+describe("start limits", () => {
+  test("are left to systemd's defaults unless set", () => {
+    const unit = generateUnitFile(createApp());
+
+    expect(unit).not.toContain("StartLimit");
+    expect(unit).not.toContain("RestartSteps");
+  });
+
+  test("go in the [Unit] section", () => {
+    const unit = generateUnitFile(createApp({ maxRestarts: 5, restartWindow: 60 }));
+
+    expect(section(unit, "Unit")).toContain("StartLimitIntervalSec=60");
+    expect(section(unit, "Unit")).toContain("StartLimitBurst=5");
+    expect(section(unit, "Service").some((line) => line.startsWith("StartLimit"))).toBe(false);
+  });
+});
+
+describe("restart backoff", () => {
+  const app = createApp({ restartBackoff: { maxDelay: 30, steps: 5 } });
+
+  test("follows RestartSec", () => {
+    const lines = section(generateUnitFile(app, { systemdVersion: 255 }), "Service");
+    const index = lines.indexOf("RestartSec=3");
+
+    expect(lines.slice(index + 1, index + 3)).toEqual([
+      "RestartSteps=5",
+      "RestartMaxDelaySec=30",
+    ]);
+  });
+
+  test("is left out for systemd older than 254", () => {
+    const unit = generateUnitFile(app, { systemdVersion: 252 });
+
+    expect(unit).toContain("RestartSec=3");
+    expect(unit).not.toContain("RestartSteps");
+    expect(unit).not.toContain("RestartMaxDelaySec");
+  });
+
+  test("is written when the version is unknown", () => {
+    expect(generateUnitFile(app)).toContain("RestartSteps=5");
+  });
+});
+
+describe("parseVersionOutput", () => {
+  test("reads the major version", () => {
+    expect(parseVersionOutput("systemd 255 (255.4-1ubuntu8)\n+PAM +AUDIT\n")).toBe(255);
+    expect(parseVersionOutput("command not found")).toBeUndefined();
+  });
+});
+
+describe("getThrottleInterval", () => {
+  test("keeps launchd's default without limits", () => {
+    expect(getThrottleInterval(createApp())).toBeUndefined();
+  });
+
+  test("spaces restarts to stay within the start limit", () => {
+    expect(getThrottleInterval(createApp({ maxRestarts: 4, restartWindow: 60 }))).toBe(15);
+    expect(getThrottleInterval(createApp({ maxRestarts: 5 }))).toBe(3);
+  });
+
+  test("waits for the longest backoff delay", () => {
+    const app = createApp({ restartBackoff: { maxDelay: 30, steps: 5 } });
+    expect(getThrottleInterval(app)).toBe(30);
+  });
+});
+
+describe("status of a service that hit its start limit", () => {
+  const status = { name: "api", state: "failed" as const, startLimitHit: true };
+
+  test("shows it gave up", () => {
+    expect(formatStatusTable([status])).toContain("gave up");
+    expect(formatServiceDetail(status)).toContain("Start limit");
+  });
+
+  test("leaves other failures alone", () => {
+    const failed = { name: "api", state: "failed" as const };
+
+    expect(formatStatusTable([failed])).not.toContain("gave up");
+    expect(formatServiceDetail(failed)).not.toContain("Start limit");
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, test, expect } from "bun:test";
+import {
+  cronToOnCalendar,
+  getNextRun,
+  isCronExpression,
+  parseCron,
+  toCalendarIntervals,
+  toOnCalendar,
+} from "../../src/core/schedule";
+import { generateTimerFile, generateUnitFile } from "../../src/core/systemd/generator";
+import { ConfigError } from "../../src/utils/errors";
+import { createApp } from "./fixtures";
+
+describe("isCronExpression", () => {
+  test("detects five-field expressions and macros", () => {
+    expect(isCronExpression("0 2 * * *")).toBe(true);
+    expect(isCronExpression("@daily")).toBe(true);
+  });
+
+  test("treats anything else as OnCalendar syntax", () => {
+    expect(isCronExpression("daily")).toBe(false);
+    expect(isCronExpression("Mon *-*-* 02:00:00")).toBe(false);
+  });
+});
+
+describe("cronToOnCalendar", () => {
+  test("translates fixed times", () => {
+    expect(cronToOnCalendar("0 2 * * *")).toBe("*-*-* 02:00:00");
+    expect(cronToOnCalendar("15 14 1 * *")).toBe("*-*-01 14:15:00");
+    expect(cronToOnCalendar("0 0 1 1 *")).toBe("*-01-01 00:00:00");
+  });
+
+  test("translates steps", () => {
+    expect(cronToOnCalendar("*/5 * * * *")).toBe("*-*-* *:00/5:00");
+    expect(cronToOnCalendar("0 */6 * * *")).toBe("*-*-* 00/6:00:00");
+    expect(cronToOnCalendar("5/15 * * * *")).toBe("*-*-* *:05/15:00");
+  });
+
+  test("translates ranges and lists", () => {
+    expect(cronToOnCalendar("0 9-17 * * *")).toBe("*-*-* 09..17:00:00");
+    expect(cronToOnCalendar("0,30 * * * *")).toBe("*-*-* *:00,30:00");
+  });
+
+  test("translates weekdays", () => {
+    expect(cronToOnCalendar("30 4 * * 1-5")).toBe("Mon..Fri *-*-* 04:30:00");
+    expect(cronToOnCalendar("0 0 * * sat,sun")).toBe("Sun,Sat *-*-* 00:00:00");
+    expect(cronToOnCalendar("0 0 * * 7")).toBe("Sun *-*-* 00:00:00");
+  });
+
+  test("translates month names", () => {
+    expect(cronToOnCalendar("0 0 1 jan,jul *")).toBe("*-01,07-01 00:00:00");
+  });
+
+  test("translates macros", () => {
+    expect(cronToOnCalendar("@hourly")).toBe("*-*-* *:00:00");
+    expect(cronToOnCalendar("@daily")).toBe("*-*-* 00:00:00");
+    expect(cronToOnCalendar("@weekly")).toBe("Sun *-*-* 00:00:00");
+  });
+
+  test("rejects invalid fields", () => {
+    expect(() => cronToOnCalendar("60 * * * *")).toThrow(ConfigError);
+    expect(() => cronToOnCalendar("* 24 * * *")).toThrow("Invalid hour");
+    expect(() => cronToOnCalendar("* * 0 * *")).toThrow("Invalid day of month");
+    expect(() => cronToOnCalendar("*/0 * * * *")).toThrow(ConfigError);
+    expect(() => cronToOnCalendar("5-1 * * * *")).toThrow(ConfigError);
+    expect(() => cronToOnCalendar("* * * foo *")).toThrow("Invalid month");
+  });
+
+  test("rejects restricting both day fields", () => {
+    expect(() => parseCron("0 0 1 * 1")).toThrow("Unsupported cron expression");
+  });
+});
+
+describe("toOnCalendar", () => {
+  test("passes OnCalendar syntax through", () => {
+    expect(toOnCalendar("daily")).toBe("daily");
+    expect(toOnCalendar(" Mon *-*-* 02:00:00 ")).toBe("Mon *-*-* 02:00:00");
+  });
+});
+
+describe("toCalendarIntervals", () => {
+  test("builds a single interval for fixed times", () => {
+    expect(toCalendarIntervals("30 4 * * *")).toEqual([{ Minute: 30, Hour: 4 }]);
+  });
+
+  test("builds one interval per combination", () => {
+    expect(toCalendarIntervals("0 9,17 * * 1")).toEqual([
+      { Minute: 0, Hour: 9, Weekday: 1 },
+      { Minute: 0, Hour: 17, Weekday: 1 },
+    ]);
+  });
+
+  test("accepts calendar shorthands", () => {
+    expect(toCalendarIntervals("daily")).toEqual([{ Minute: 0, Hour: 0 }]);
+    expect(toCalendarIntervals("minutely")).toEqual([{}]);
+  });
+
+  test("rejects OnCalendar syntax", () => {
+    expect(() => toCalendarIntervals("Mon *-*-* 02:00:00")).toThrow("OnCalendar syntax");
+  });
+});
+
+describe("getNextRun", () => {
+  const from = new Date(2026, 0, 14, 10, 7, 30); // Wednesday
+
+  test("finds the next matching minute", () => {
+    expect(getNextRun("*/5 * * * *", from)).toEqual(new Date(2026, 0, 14, 10, 10));
+    expect(getNextRun("0 2 * * *", from)).toEqual(new Date(2026, 0, 15, 2, 0));
+  });
+
+  test("never returns the current minute", () => {
+    expect(getNextRun("7 10 * * *", from)).toEqual(new Date(2026, 0, 15, 10, 7));
+  });
+
+  test("respects weekdays and shorthands", () => {
+    expect(getNextRun("0 9 * * 1", from)).toEqual(new Date(2026, 0, 19, 9, 0));
+    expect(getNextRun("monthly", from)).toEqual(new Date(2026, 1, 1, 0, 0));
+  });
+
+  test("returns undefined for OnCalendar syntax", () => {
+    expect(getNextRun("Mon *-*-* 02:00:00", from)).toBeUndefined();
+  });
+});
+
+describe("generateUnitFile for jobs", () => {
+  test("generates a oneshot service without an install section", () => {
+    const unit = generateUnitFile(createApp({ schedule: "0 2 * * *" }, "backup"));
+
+    expect(unit).toContain("Type=oneshot");
+    expect(unit).toContain("Restart=no");
+    expect(unit).not.toContain("[Install]");
+  });
+
+  test("generates a timer for the schedule", () => {
+    const timer = generateTimerFile(createApp({ schedule: "30 4 * * 1-5" }, "backup"));
+
+    expect(timer).toContain("OnCalendar=Mon..Fri *-*-* 04:30:00");
+    expect(timer).toContain("Persistent=true");
+    expect(timer).toContain("Unit=bunman-backup.service");
+    expect(timer).toContain("WantedBy=timers.target");
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, stat } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  getSecretsPaths,
+  listSecrets,
+  readSecrets,
+  removeSecret,
+  setSecret,
+  writeSecretsEnvFile,
+} from "../../src/core/secrets";
+import { generateUnitFile } from "../../src/core/systemd/generator";
+import { SecretsError } from "../../src/utils/errors";
+import { createApp } from "./fixtures";
+
+describe("secrets store", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "bunman-secrets-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("round-trips values without storing plaintext", async () => {
+    await setSecret(dir, "api", "DB_PASSWORD", 'p@ss "word"');
+    await setSecret(dir, "api", "API_TOKEN", "token");
+    await setSecret(dir, "worker", "API_TOKEN", "other");
+
+    expect(await listSecrets(dir)).toEqual({
+      api: ["API_TOKEN", "DB_PASSWORD"],
+      worker: ["API_TOKEN"],
+    });
+    expect(await readSecrets(dir, "api")).toEqual({
+      DB_PASSWORD: 'p@ss "word"',
+      API_TOKEN: "token",
+    });
+
+    const { store, key } = getSecretsPaths(dir);
+    expect(await Bun.file(store).text()).not.toContain("p@ss");
+    expect((await stat(key)).mode & 0o777).toBe(0o600);
+    expect(await Bun.file(join(dir, ".bunman/.gitignore")).text()).toBe("secrets.key\n");
+  });
+
+  test("removes secrets", async () => {
+    await setSecret(dir, "api", "DB_PASSWORD", "x");
+
+    expect(await removeSecret(dir, "api", "DB_PASSWORD")).toBe(true);
+    expect(await removeSecret(dir, "api", "DB_PASSWORD")).toBe(false);
+    expect(await listSecrets(dir)).toEqual({});
+  });
+
+  test("rejects invalid names", async () => {
+    await expect(setSecret(dir, "api", "1BAD", "x")).rejects.toThrow(SecretsError);
+    await expect(setSecret(dir, "api", "BAD-NAME", "x")).rejects.toThrow(
+      "Invalid secret name: BAD-NAME"
+    );
+  });
+
+  test("fails without the key or with a value moved to another name", async () => {
+    await setSecret(dir, "api", "A", "x");
+    const { store, key } = getSecretsPaths(dir);
+
+    const data = await Bun.file(store).json();
+    data.apps.api.B = data.apps.api.A;
+    await Bun.write(store, JSON.stringify(data));
+    await expect(readSecrets(dir, "api")).rejects.toThrow("Failed to decrypt secret: api.B");
+
+    await rm(key);
+    await expect(readSecrets(dir, "api")).rejects.toThrow("Secrets key not found");
+  });
+
+  test("writes an owner-only environment file", async () => {
+    const path = join(dir, "run/bunman-api.env");
+    await writeSecretsEnvFile(path, { DB_PASSWORD: 'a "b"\nc', TOKEN: "t" });
+
+    expect((await stat(path)).mode & 0o777).toBe(0o600);
+    expect(await Bun.file(path).text()).toBe('DB_PASSWORD="a \\"b\\"\\nc"\nTOKEN="t"\n');
+  });
+});
+
+describe("generateUnitFile with secrets", () => {
+  const app = createApp({
+    envFile: "/srv/api/.env",
+    description: "api",
+    secrets: ["DB_PASSWORD"],
+  });
+
+  test("references the secrets file after the app's envFile", () => {
+    const unit = generateUnitFile(app, { secretsFile: "/etc/bunman/secrets/bunman-api.env" });
+    expect(unit).toContain(
+      "EnvironmentFile=/srv/api/.env\nEnvironmentFile=/etc/bunman/secrets/bunman-api.env\n"
+    );
+  });
+});
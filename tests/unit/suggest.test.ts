@@ -0,0 +1,31 @@
+import { describe, test, expect } from "bun:test";
+import { editDistance, findClosestMatch } from "../../src/utils/suggest";
+
+describe("editDistance", () => {
+  test("returns 0 for identical strings", () => {
+    expect(editDistance("restart", "restart")).toBe(0);
+  });
+
+  test("counts insertions, deletions and substitutions", () => {
+    expect(editDistance("kitten", "sitting")).toBe(3);
+    expect(editDistance("", "abc")).toBe(3);
+    expect(editDistance("abc", "")).toBe(3);
+  });
+});
+
+describe("findClosestMatch", () => {
+  const keys = ["cwd", "command", "restart", "restartSec", "envFile"];
+
+  test("matches snake_case and kebab-case spellings", () => {
+    expect(findClosestMatch("restart_sec", keys)).toBe("restartSec");
+    expect(findClosestMatch("env-file", keys)).toBe("envFile");
+  });
+
+  test("matches small typos", () => {
+    expect(findClosestMatch("comand", keys)).toBe("command");
+  });
+
+  test("returns undefined when nothing is close", () => {
+    expect(findClosestMatch("timeout", keys)).toBeUndefined();
+  });
+});
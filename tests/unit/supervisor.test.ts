@@ -0,0 +1,214 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  Supervisor,
+  getRestartDelay,
+  handleRequest,
+  parseProcStat,
+  serveSupervisor,
+  shouldRestart,
+} from "../../src/core/supervisor";
+import { SupervisorBackend } from "../../src/core/backend/supervisor";
+import { getServiceManager } from "../../src/core/backend";
+import { BunmanError } from "../../src/utils/errors";
+import type { NormalizedAppConfig } from "../../src/types/config";
+import { createApp } from "./fixtures";
+
+async function waitFor(condition: () => boolean, timeout = 2000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out");
+    await Bun.sleep(10);
+  }
+}
+
+describe("shouldRestart", () => {
+  test("follows systemd's restart policies", () => {
+    expect(shouldRestart("always", 0)).toBe(true);
+    expect(shouldRestart("no", 1)).toBe(false);
+
+    expect(shouldRestart("on-failure", 0)).toBe(false);
+    expect(shouldRestart("on-failure", 1)).toBe(true);
+    expect(shouldRestart("on-failure", null, "SIGKILL")).toBe(true);
+    expect(shouldRestart("on-failure", null, "SIGTERM")).toBe(false);
+
+    expect(shouldRestart("on-abnormal", 1)).toBe(false);
+    expect(shouldRestart("on-abnormal", null, "SIGSEGV")).toBe(true);
+  });
+});
+
+describe("getRestartDelay", () => {
+  test("uses restartSec without a backoff", () => {
+    expect(getRestartDelay(createApp(), 5)).toBe(3);
+  });
+
+  test("grows to maxDelay over the backoff steps", () => {
+    const app = createApp({ restartSec: 1, restartBackoff: { maxDelay: 16, steps: 4 } });
+
+    expect([0, 1, 2, 3, 4, 10].map((restarts) => getRestartDelay(app, restarts))).toEqual([
+      1, 2, 4, 8, 16, 16,
+    ]);
+  });
+
+  test("grows linearly from a zero restartSec", () => {
+    const app = createApp({ restartSec: 0, restartBackoff: { maxDelay: 10, steps: 2 } });
+
+    expect(getRestartDelay(app, 1)).toBe(5);
+  });
+});
+
+describe("parseProcStat", () => {
+  test("reads the state and parent pid", () => {
+    expect(parseProcStat("42 (sleep) Z 1 42 42 0 -1")).toEqual({ state: "Z", ppid: 1 });
+    expect(parseProcStat("43 (my (odd) app) S 7 43 43 0 -1")).toEqual({ state: "S", ppid: 7 });
+    expect(parseProcStat("")).toBeUndefined();
+  });
+});
+
+describe("Supervisor", () => {
+  let dir: string;
+  let supervisor: Supervisor | undefined;
+
+  function createLoggedApp(overrides: Partial<NormalizedAppConfig> = {}): NormalizedAppConfig {
+    return createApp({
+      cwd: dir,
+      logs: { target: "file", path: join(dir, "api.log"), keep: 5 },
+      ...overrides,
+    });
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "bunman-supervisor-"));
+  });
+
+  afterEach(async () => {
+    await supervisor?.shutdown();
+    supervisor = undefined;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("runs apps and stops them", async () => {
+    supervisor = new Supervisor([["api", createLoggedApp({ command: "sleep 30" })]]);
+    await supervisor.start();
+
+    const status = supervisor.getStatus("bunman-api");
+    expect(status.state).toBe("active");
+    expect(status.pid).toBeGreaterThan(0);
+
+    await supervisor.stopService("bunman-api");
+    expect(supervisor.getStatus("bunman-api").state).toBe("inactive");
+  });
+
+  test("writes the app's output to its log file", async () => {
+    supervisor = new Supervisor([
+      ["api", createLoggedApp({ command: "echo hello", restart: "no" })],
+    ]);
+    await supervisor.start();
+
+    await waitFor(() => supervisor!.getStatus("bunman-api").state === "inactive");
+    await Bun.sleep(50);
+    expect(await readFile(join(dir, "api.log"), "utf-8")).toBe("hello\n");
+  });
+
+  test("gives up after maxRestarts starts within the restart window", async () => {
+    supervisor = new Supervisor([
+      ["api", createLoggedApp({ command: "sh -c 'exit 3'", restartSec: 0, maxRestarts: 2 })],
+    ]);
+    await supervisor.start();
+
+    await waitFor(() => supervisor!.getStatus("bunman-api").state === "failed");
+    const status = supervisor.getStatus("bunman-api");
+    expect(status.startLimitHit).toBe(true);
+    // Like systemd's StartLimitBurst=2: the first start and one restart
+    expect(status.restarts).toBe(1);
+    expect(status.exitCode).toBe(3);
+
+    await expect(supervisor.startService("bunman-api")).rejects.toThrow(BunmanError);
+    supervisor.resetFailed("bunman-api");
+    expect(supervisor.getStatus("bunman-api").state).toBe("inactive");
+  });
+
+  test("runs each instance of a clustered app", async () => {
+    supervisor = new Supervisor([
+      ["api", createLoggedApp({ command: "sleep 30", instances: 2 })],
+    ]);
+    await supervisor.start();
+
+    expect(supervisor.listInstances("bunman-api")).toEqual([1, 2]);
+    expect(supervisor.getStatus("bunman-api@2").state).toBe("active");
+    expect(supervisor.getLogFiles("bunman-api@*")).toEqual([
+      join(dir, "api@1.log"),
+      join(dir, "api@2.log"),
+    ]);
+  });
+
+  test("answers API requests", async () => {
+    supervisor = new Supervisor([["api", createLoggedApp({ command: "sleep 30" })]]);
+
+    const status = await handleRequest(
+      supervisor,
+      new Request("http://localhost/services/bunman-api", { method: "GET" })
+    );
+    expect(await status.json()).toMatchObject({ name: "bunman-api", state: "inactive" });
+
+    const unknown = await handleRequest(
+      supervisor,
+      new Request("http://localhost/services/bunman-web/start", { method: "POST" })
+    );
+    expect(unknown.status).toBe(400);
+    expect(((await unknown.json()) as { error: string }).error).toContain("bunman-web");
+  });
+
+  test("is controlled by the supervisor backend over its socket", async () => {
+    const socketPath = join(dir, "supervisor.sock");
+    supervisor = new Supervisor([]);
+    const server = serveSupervisor(supervisor, socketPath);
+
+    try {
+      const backend = new SupervisorBackend(socketPath);
+      expect(await backend.isAvailable()).toBe(true);
+
+      await backend.install("bunman-api", createLoggedApp({ command: "sleep 30" }));
+      expect(await backend.isActive("bunman-api")).toBe(true);
+
+      const previous = await backend.readConfig("bunman-api");
+      await backend.install("bunman-api", createLoggedApp({ command: "sleep 40" }));
+      await backend.restoreConfig("bunman-api", previous!);
+      expect(supervisor.getApp("bunman-api")?.command).toBe("sleep 30");
+
+      await backend.stop("bunman-api");
+      expect((await backend.getStatus("bunman-api")).state).toBe("inactive");
+
+      await backend.remove("bunman-api");
+      await expect(backend.start("bunman-api")).rejects.toThrow("not run by the supervisor");
+    } finally {
+      server.stop(true);
+    }
+  });
+
+  test("is only picked while the supervisor answers on its socket", async () => {
+    const socketPath = join(dir, "supervisor.sock");
+    const previous = process.env["BUNMAN_SUPERVISOR_SOCKET"];
+    process.env["BUNMAN_SUPERVISOR_SOCKET"] = socketPath;
+    supervisor = new Supervisor([]);
+    const server = serveSupervisor(supervisor, socketPath);
+
+    try {
+      expect((await getServiceManager()).getName()).toBe("supervisor");
+
+      // A killed supervisor leaves its socket file behind
+      server.stop(true);
+      await writeFile(socketPath, "");
+      expect((await getServiceManager()).getName()).not.toBe("supervisor");
+    } finally {
+      server.stop(true);
+      if (previous === undefined) {
+        delete process.env["BUNMAN_SUPERVISOR_SOCKET"];
+      } else {
+        process.env["BUNMAN_SUPERVISOR_SOCKET"] = previous;
+      }
+    }
+  });
+});
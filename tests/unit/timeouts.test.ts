@@ -0,0 +1,42 @@
+import { describe, test, expect } from "bun:test";
+import { buildHookScript } from "../../src/core/hooks";
+import { generateUnitFile } from "../../src/core/systemd/generator";
+import { createApp } from "./fixtures";
+
+describe("generateUnitFile with stop and start settings", () => {
+  test("emits kill and timeout directives", () => {
+    const unit = generateUnitFile(
+      createApp({
+        killSignal: "SIGINT",
+        killMode: "mixed",
+        startTimeout: 90,
+        stopTimeout: 30,
+      })
+    );
+
+    expect(unit).toContain("KillSignal=SIGINT\n");
+    expect(unit).toContain("KillMode=mixed\n");
+    expect(unit).toContain("TimeoutStartSec=90\n");
+    expect(unit).toContain("TimeoutStopSec=30\n");
+  });
+
+  test("leaves systemd defaults in place when unset", () => {
+    const unit = generateUnitFile(createApp());
+
+    expect(unit).not.toContain("KillSignal=");
+    expect(unit).not.toContain("KillMode=");
+    expect(unit).not.toContain("TimeoutStartSec=");
+    expect(unit).not.toContain("TimeoutStopSec=");
+  });
+});
+
+describe("buildHookScript with killSignal", () => {
+  test("stops the main process with the configured signal", () => {
+    const script = buildHookScript(
+      createApp({ killSignal: "SIGINT", hooks: { preStop: ["echo bye"] } })
+    );
+
+    expect(script).toContain(`kill -INT "$MAINPID" 2>/dev/null`);
+    expect(script).not.toContain("kill -TERM");
+  });
+});
@@ -1,6 +1,9 @@
 import { describe, test, expect } from "bun:test";
-import { validateConfig } from "../../src/core/config/validator";
-import { ConfigError } from "../../src/utils/errors";
+import {
+  validateConfig,
+  collectConfigIssues,
+} from "../../src/core/config/validator";
+import { ConfigError, ConfigValidationError } from "../../src/utils/errors";
 
 describe("validateConfig", () => {
   describe("basic validation", () => {
@@ -178,6 +181,173 @@ describe("validateConfig", () => {
       expect(() => validateConfig(config)).toThrow(ConfigError);
     });
 
+    test("accepts instances as a count or \"max\" with a portBase", () => {
+      const config = {
+        apps: {
+          api: { cwd: "/app", command: "bun start", instances: 4, portBase: 3000 },
+          web: { cwd: "/web", command: "bun start", instances: "max" },
+        },
+      };
+      expect(() => validateConfig(config)).not.toThrow();
+    });
+
+    test("rejects invalid instances and portBase", () => {
+      for (const app of [
+        { instances: 0 },
+        { instances: 1.5 },
+        { instances: "all" },
+        { portBase: 70000 },
+        { portBase: "3000" },
+      ]) {
+        const config = {
+          apps: { api: { cwd: "/app", command: "bun start", ...app } },
+        };
+        expect(() => validateConfig(config)).toThrow(ConfigError);
+      }
+    });
+
+    test("validates healthCheck", () => {
+      const valid = {
+        apps: {
+          api: {
+            cwd: "/app",
+            command: "bun start",
+            healthCheck: { http: "/health", port: 3000, timeout: 10 },
+          },
+        },
+      };
+      expect(() => validateConfig(valid)).not.toThrow();
+
+      for (const healthCheck of [
+        { http: "health" },
+        { port: 0 },
+        { timeout: -1 },
+      ]) {
+        const config = {
+          apps: { api: { cwd: "/app", command: "bun start", healthCheck } },
+        };
+        expect(() => validateConfig(config)).toThrow(ConfigError);
+      }
+    });
+
+    test("validates deploy and its 'current' cwd", () => {
+      const valid = {
+        apps: {
+          api: {
+            cwd: "/srv/api/current",
+            command: "bun start",
+            deploy: { source: "git@github.com:me/api.git", build: "bun run build", keep: 3 },
+          },
+        },
+      };
+      expect(() => validateConfig(valid)).not.toThrow();
+
+      for (const app of [
+        { cwd: "/srv/api", deploy: { source: "../api" } },
+        { deploy: {} },
+        { deploy: { source: "" } },
+        { deploy: { source: "../api", keep: 0 } },
+      ]) {
+        const config = {
+          apps: { api: { cwd: "/srv/api/current", command: "bun start", ...app } },
+        };
+        expect(() => validateConfig(config)).toThrow(ConfigError);
+      }
+    });
+
+    test("accepts dependsOn referencing other apps", () => {
+      const config = {
+        apps: {
+          api: { cwd: "/app", command: "bun start", dependsOn: ["db"] },
+          db: { cwd: "/db", command: "bun start" },
+        },
+      };
+      expect(() => validateConfig(config)).not.toThrow();
+    });
+
+    test("rejects unknown, self and cyclic dependencies", () => {
+      const cases: Array<[Record<string, unknown>, string]> = [
+        [
+          {
+            api: { cwd: "/app", command: "bun start", dependsOn: ["dbb"] },
+            db: { cwd: "/db", command: "bun start" },
+          },
+          "Did you mean 'db'?",
+        ],
+        [{ api: { cwd: "/app", command: "bun start", dependsOn: ["api"] } }, "cannot depend on itself"],
+        [{ api: { cwd: "/app", command: "bun start", dependsOn: "db" } }, "must be an array"],
+        [
+          {
+            api: { cwd: "/app", command: "bun start", dependsOn: ["worker"] },
+            worker: { cwd: "/worker", command: "bun start", dependsOn: ["api"] },
+          },
+          "api -> worker -> api",
+        ],
+      ];
+
+      for (const [apps, message] of cases) {
+        const issues = collectConfigIssues({ apps });
+        const text = issues.map((issue) => `${issue.message} ${issue.hint}`).join("\n");
+        expect(text).toContain(message);
+      }
+    });
+
+    test("checks dependsOn as merged from defaults and environments", () => {
+      const apps = {
+        api: { cwd: "/app", command: "bun start" },
+        db: { cwd: "/db", command: "bun start" },
+      };
+
+      const fromDefaults = collectConfigIssues({ apps, defaults: { dependsOn: ["db"] } });
+      expect(fromDefaults).toHaveLength(1);
+      expect(fromDefaults[0]!.path).toBe("defaults.dependsOn[0]");
+      expect(fromDefaults[0]!.message).toContain("makes app 'db' depend on itself");
+
+      const cleared = collectConfigIssues({
+        apps: { ...apps, db: { ...apps.db, dependsOn: null } },
+        defaults: { dependsOn: ["db"] },
+      });
+      expect(cleared).toEqual([]);
+
+      const fromEnvironment = collectConfigIssues({
+        apps: { ...apps, db: { ...apps.db, dependsOn: ["api"] } },
+        environments: {
+          staging: { defaults: { dependsOn: ["cache"] } },
+          production: { apps: { api: { dependsOn: ["db"] } } },
+        },
+      });
+      expect(fromEnvironment.map((issue) => issue.path)).toEqual([
+        "environments.staging.defaults.dependsOn[0]",
+        "apps.api.dependsOn",
+      ]);
+      expect(fromEnvironment[1]!.message).toContain("api -> db -> api");
+    });
+
+    test("accepts cron and OnCalendar schedules", () => {
+      const config = {
+        apps: {
+          backup: { cwd: "/app", command: "bun backup", schedule: "0 2 * * *" },
+          report: { cwd: "/app", command: "bun report", schedule: "Mon *-*-* 08:00:00" },
+        },
+      };
+      expect(() => validateConfig(config)).not.toThrow();
+    });
+
+    test("rejects invalid schedules", () => {
+      for (const app of [
+        { schedule: "" },
+        { schedule: 5 },
+        { schedule: "61 * * * *" },
+        { schedule: "0 0 1 * 1" },
+        { schedule: "0 2 * * *", instances: 2 },
+      ]) {
+        const config = {
+          apps: { backup: { cwd: "/app", command: "bun backup", ...app } },
+        };
+        expect(() => validateConfig(config)).toThrow(ConfigError);
+      }
+    });
+
     test("accepts valid env object", () => {
       const config = {
         apps: {
@@ -317,4 +487,375 @@ describe("validateConfig", () => {
       expect(() => validateConfig(config)).toThrow(ConfigError);
     });
   });
+
+  describe("environments validation", () => {
+    test("accepts valid environment profiles", () => {
+      const config = {
+        apps: { api: { cwd: "/app", command: "bun start" } },
+        environments: {
+          production: {
+            defaults: { user: "www-data" },
+            apps: { api: { env: { PORT: "3000" }, restartSec: 5 } },
+          },
+        },
+      };
+      expect(() => validateConfig(config)).not.toThrow();
+    });
+
+    test("rejects non-object environments", () => {
+      const config = {
+        apps: { api: { cwd: "/app", command: "bun start" } },
+        environments: "production",
+      };
+      expect(() => validateConfig(config)).toThrow(ConfigError);
+    });
+
+    test("rejects overrides for unknown apps", () => {
+      const config = {
+        apps: { api: { cwd: "/app", command: "bun start" } },
+        environments: {
+          production: { apps: { web: { env: {} } } },
+        },
+      };
+      expect(() => validateConfig(config)).toThrow(ConfigError);
+    });
+
+    test("rejects invalid override fields", () => {
+      const config = {
+        apps: { api: { cwd: "/app", command: "bun start" } },
+        environments: {
+          production: { apps: { api: { restart: "sometimes" } } },
+        },
+      };
+      expect(() => validateConfig(config)).toThrow(ConfigError);
+    });
+
+    test("rejects cwd in environment defaults", () => {
+      const config = {
+        apps: { api: { cwd: "/app", command: "bun start" } },
+        environments: {
+          production: { defaults: { cwd: "/srv" } },
+        },
+      };
+      expect(() => validateConfig(config)).toThrow(ConfigError);
+    });
+  });
+
+  describe("aggregated issues", () => {
+    test("reports every error with its field path", () => {
+      const config = {
+        apps: {
+          api: { cwd: "", command: "bun start", restart: "sometimes" },
+          worker: { command: 42, restartSec: -1 },
+        },
+      };
+
+      try {
+        validateConfig(config);
+        throw new Error("expected validation to fail");
+      } catch (error) {
+        expect(error).toBeInstanceOf(ConfigValidationError);
+        const paths = (error as ConfigValidationError).issues.map((i) => i.path);
+        expect(paths).toEqual([
+          "apps.api.cwd",
+          "apps.api.restart",
+          "apps.worker.cwd",
+          "apps.worker.command",
+          "apps.worker.restartSec",
+        ]);
+      }
+    });
+
+    test("includes hints and severity", () => {
+      const issues = collectConfigIssues({
+        apps: { api: { cwd: "/app", command: "bun start", restartSec: "5" } },
+      });
+      expect(issues).toEqual([
+        {
+          path: "apps.api.restartSec",
+          message: "must be a non-negative number",
+          severity: "error",
+          hint: "Specify restart delay in seconds",
+        },
+      ]);
+    });
+
+    test("returns no issues for a valid config", () => {
+      const issues = collectConfigIssues({
+        apps: { api: { cwd: "/app", command: "bun start" } },
+      });
+      expect(issues).toEqual([]);
+    });
+  });
+
+  describe("unknown keys", () => {
+    test("warns with a did-you-mean suggestion", () => {
+      const issues = collectConfigIssues({
+        apps: { api: { cwd: "/app", command: "bun start", restart_sec: 5 } },
+      });
+      expect(issues).toHaveLength(1);
+      expect(issues[0]!.path).toBe("apps.api.restart_sec");
+      expect(issues[0]!.severity).toBe("warning");
+      expect(issues[0]!.hint).toBe("Did you mean 'restartSec'?");
+    });
+
+    test("does not throw for warnings only", () => {
+      const config = {
+        apps: { api: { cwd: "/app", command: "bun start", enviroment: {} } },
+      };
+      expect(() => validateConfig(config)).not.toThrow();
+    });
+
+    test("checks top-level, systemd and limits keys", () => {
+      const issues = collectConfigIssues({
+        apps: {
+          api: { cwd: "/app", command: "bun start", limits: { memroy: 512 } },
+        },
+        default: {},
+        systemd: { userMod: true },
+      });
+      const byPath = Object.fromEntries(issues.map((i) => [i.path, i.hint]));
+      expect(byPath["default"]).toBe("Did you mean 'defaults'?");
+      expect(byPath["systemd.userMod"]).toBe("Did you mean 'userMode'?");
+      expect(byPath["apps.api.limits.memroy"]).toBe("Did you mean 'memory'?");
+    });
+  });
+
+  describe("previously unchecked fields", () => {
+    const withApp = (fields: Record<string, unknown>) => ({
+      apps: { api: { cwd: "/app", command: "bun start", ...fields } },
+    });
+
+    test("validates limits", () => {
+      expect(() => validateConfig(withApp({ limits: { memory: 512, cpu: 50 } }))).not.toThrow();
+      expect(() => validateConfig(withApp({ limits: "512M" }))).toThrow(ConfigError);
+      expect(() => validateConfig(withApp({ limits: { memory: -1 } }))).toThrow(ConfigError);
+      expect(() => validateConfig(withApp({ limits: { nofile: 1.5 } }))).toThrow(ConfigError);
+    });
+
+    test("validates after and requires", () => {
+      expect(() => validateConfig(withApp({ after: ["network.target"] }))).not.toThrow();
+      expect(() => validateConfig(withApp({ after: "network.target" }))).toThrow(ConfigError);
+
+      const issues = collectConfigIssues(withApp({ requires: ["db.service", 3] }));
+      expect(issues[0]!.path).toBe("apps.api.requires[1]");
+    });
+
+    test("validates stop and start settings", () => {
+      expect(() =>
+        validateConfig(
+          withApp({ killSignal: "SIGINT", killMode: "mixed", stopTimeout: 30, startTimeout: 1.5 })
+        )
+      ).not.toThrow();
+
+      const issues = collectConfigIssues(
+        withApp({ killSignal: "TERM", killMode: "all", stopTimeout: 0, startTimeout: "90s" })
+      );
+      expect(issues.map((i) => i.path).sort()).toEqual([
+        "apps.api.killMode",
+        "apps.api.killSignal",
+        "apps.api.startTimeout",
+        "apps.api.stopTimeout",
+      ]);
+      expect(issues.find((i) => i.path === "apps.api.killSignal")!.hint).toContain("SIGTERM");
+    });
+
+    test("validates hardening and security", () => {
+      expect(() =>
+        validateConfig(
+          withApp({
+            hardening: "strict",
+            security: { protectHome: "tmpfs", privateDevices: false, readWritePaths: ["/data"] },
+          })
+        )
+      ).not.toThrow();
+
+      const issues = collectConfigIssues(
+        withApp({
+          hardening: "paranoid",
+          security: { protectSystem: true, restrictAddressFamilies: "AF_INET", privateTmp: "yes" },
+        })
+      );
+      expect(issues.map((i) => i.path).sort()).toEqual([
+        "apps.api.hardening",
+        "apps.api.security.privateTmp",
+        "apps.api.security.protectSystem",
+        "apps.api.security.restrictAddressFamilies",
+      ]);
+    });
+
+    test("validates restart limits", () => {
+      expect(() =>
+        validateConfig(
+          withApp({ maxRestarts: 5, restartWindow: 60, restartBackoff: { maxDelay: 30, steps: 5 } })
+        )
+      ).not.toThrow();
+
+      const issues = collectConfigIssues(
+        withApp({ maxRestarts: 0, restartWindow: "1m", restartBackoff: { maxDelay: 30, step: 5 } })
+      );
+      expect(issues.map((i) => i.path).sort()).toEqual([
+        "apps.api.maxRestarts",
+        "apps.api.restartBackoff.step",
+        "apps.api.restartBackoff.steps",
+        "apps.api.restartWindow",
+      ]);
+    });
+
+    test("validates log settings", () => {
+      expect(() =>
+        validateConfig(
+          withApp({ logs: { target: "file", path: "./logs/api.log", maxSize: 0.5, keep: 0 } })
+        )
+      ).not.toThrow();
+
+      const issues = collectConfigIssues(
+        withApp({ logs: { target: "syslog", path: "", maxSize: -1, keep: 1.5, rotate: true } })
+      );
+      expect(issues.map((i) => i.path).sort()).toEqual([
+        "apps.api.logs.keep",
+        "apps.api.logs.maxSize",
+        "apps.api.logs.path",
+        "apps.api.logs.rotate",
+        "apps.api.logs.target",
+      ]);
+    });
+
+    test("validates watch globs", () => {
+      expect(() => validateConfig(withApp({ watch: ["src/**/*.ts", "package.json"] }))).not.toThrow();
+
+      const issues = collectConfigIssues(withApp({ watch: ["src/**/*.ts", ""] }));
+      expect(issues.map((i) => i.path)).toEqual(["apps.api.watch"]);
+      expect(collectConfigIssues(withApp({ watch: "src" })).map((i) => i.path)).toEqual([
+        "apps.api.watch",
+      ]);
+    });
+
+    test("validates raw systemd directives", () => {
+      expect(() =>
+        validateConfig(
+          withApp({
+            systemd: { service: { LimitCORE: "infinity", Nice: 5 }, unit: { "X-Team": "web" } },
+          })
+        )
+      ).not.toThrow();
+
+      const issues = collectConfigIssues(
+        withApp({
+          systemd: {
+            service: {
+              nice: 5,
+              Environment: ["A=1"],
+              Description: "a\nExecStart=/bin/sh",
+              LimitCORE: [],
+            },
+            timer: {},
+          },
+        })
+      );
+      expect(issues.map((i) => [i.path, i.severity]).sort()).toEqual([
+        ["apps.api.systemd.service.Description", "error"],
+        ["apps.api.systemd.service.Environment", "warning"],
+        ["apps.api.systemd.service.LimitCORE", "error"],
+        ["apps.api.systemd.service.nice", "error"],
+        ["apps.api.systemd.timer", "warning"],
+      ]);
+      expect(issues.find((i) => i.path.endsWith("Environment"))!.hint).toContain("'env'");
+    });
+
+    test("validates hooks", () => {
+      expect(() =>
+        validateConfig(withApp({ hooks: { preStart: ["bun run migrate"], postStop: "echo done" } }))
+      ).not.toThrow();
+
+      const issues = collectConfigIssues(
+        withApp({ hooks: { preStart: [], preStop: [""], onCrash: "echo" } })
+      );
+      expect(issues.map((i) => i.path).sort()).toEqual([
+        "apps.api.hooks.onCrash",
+        "apps.api.hooks.preStart",
+        "apps.api.hooks.preStop",
+      ]);
+    });
+
+    test("validates envFile and description", () => {
+      expect(() => validateConfig(withApp({ envFile: ".env", description: "API" }))).not.toThrow();
+      expect(() => validateConfig(withApp({ envFile: "" }))).toThrow(ConfigError);
+      expect(() => validateConfig(withApp({ description: 42 }))).toThrow(ConfigError);
+    });
+
+    test("accepts null to unset inherited values", () => {
+      const config = {
+        apps: {
+          api: {
+            cwd: "/app",
+            command: "bun start",
+            user: null,
+            env: { DEBUG: null },
+            limits: { memory: null },
+            after: null,
+          },
+        },
+        defaults: { user: "www-data", env: { DEBUG: "1" } },
+      };
+      expect(() => validateConfig(config)).not.toThrow();
+    });
+
+    test("rejects null cwd and command", () => {
+      const issues = collectConfigIssues(withApp({ cwd: null }));
+      expect(issues.map((i) => i.path)).toEqual(["apps.api.cwd"]);
+      expect(issues[0]!.message).toBe("cannot be unset");
+    });
+
+    test("validates env values", () => {
+      const issues = collectConfigIssues(withApp({ env: { PORT: 3000 } }));
+      expect(issues[0]!.path).toBe("apps.api.env.PORT");
+      expect(issues[0]!.hint).toBe('Quote the value: PORT: "3000"');
+    });
+  });
+
+  describe("vars", () => {
+    test("requires string values", () => {
+      const issues = collectConfigIssues({
+        apps: { api: { cwd: ".", command: "a" } },
+        vars: { port: 3000, root: "/srv" },
+      });
+      expect(issues.map((i) => i.path)).toEqual(["vars.port"]);
+      expect(issues[0]!.hint).toBe('Quote the value: port: "3000"');
+    });
+  });
+
+  describe("batch", () => {
+    test("validates parallel and failFast", () => {
+      const issues = collectConfigIssues({
+        apps: { api: { cwd: ".", command: "a" } },
+        batch: { parallel: 0, failFast: "yes", retries: 2 },
+      });
+      expect(issues.map((i) => i.path).sort()).toEqual([
+        "batch.failFast",
+        "batch.parallel",
+        "batch.retries",
+      ]);
+    });
+  });
+
+  describe("composition", () => {
+    test("validates extends and include", () => {
+      const issues = collectConfigIssues({
+        apps: { api: { cwd: ".", command: "a" } },
+        extends: ["base.config.ts", ""],
+        include: "apps/*/bunman.yaml",
+      });
+      expect(issues.map((i) => i.path)).toEqual(["extends[1]", "include"]);
+    });
+
+    test("partial configs may omit apps and override apps from other files", () => {
+      const config = {
+        defaults: { user: "www-data" },
+        environments: { production: { apps: { api: { user: "root" } } } },
+      };
+      expect(() => validateConfig(config, { partial: true })).not.toThrow();
+      expect(() => validateConfig(config)).toThrow(ConfigValidationError);
+    });
+  });
 });